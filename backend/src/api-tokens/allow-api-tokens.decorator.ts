@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const API_TOKENS_METADATA = 'apiTokens';
+
+/**
+ * Overrides whether AuthGuard accepts API tokens on a route. By default only
+ * routes with @RequirePermissions do, since those are what scopes restrict.
+ */
+export const AllowApiTokens = (allow = true) => SetMetadata(API_TOKENS_METADATA, allow);
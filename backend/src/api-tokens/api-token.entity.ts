@@ -0,0 +1,55 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../users/user.entity';
+
+/**
+ * A personal access token for scripts and integrations. It acts as its owner,
+ * but only within its scopes and the organisation it was created in.
+ */
+@Entity('api_tokens')
+export class ApiToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column('uuid')
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ length: 100 })
+  name: string;
+
+  // SHA-256 of the token; the raw value is shown to the owner once
+  @Index({ unique: true })
+  @Column()
+  tokenHash: string;
+
+  // Leading characters of the token, so owners can tell their tokens apart
+  @Column()
+  prefix: string;
+
+  // Permission keys the token may exercise, on top of what its owner holds
+  @Column({ type: 'json' })
+  scopes: string[];
+
+  // Active organisation of the session that created the token
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null;
+
+  @Column()
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  lastUsedIp: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
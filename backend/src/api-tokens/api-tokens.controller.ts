@@ -0,0 +1,69 @@
+import { Body, Controller, Delete, Get, Param, Post, Req, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiCookieAuth, ApiParam, ApiBody } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { CsrfGuard } from '../auth/csrf.guard';
+import { NoImpersonationGuard } from '../auth/impersonation.guard';
+import { EmailVerificationService } from '../auth/email-verification.service';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { RbacService } from '../rbac/rbac.service';
+import { getAuditActor } from '../audit/audit-actor';
+import { ApiTokensService } from './api-tokens.service';
+import { CreateApiTokenDto } from './api-tokens.dto';
+
+@ApiTags('API Tokens')
+@Controller('me/tokens')
+@UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard)
+@ApiCookieAuth('sessionId')
+export class ApiTokensController {
+  constructor(
+    private apiTokensService: ApiTokensService,
+    private rbacService: RbacService,
+    private emailVerificationService: EmailVerificationService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the current user\'s personal access tokens' })
+  @ApiResponse({ status: 200, description: 'Unrevoked tokens, flagged when expired, without their secret values' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Called with an API token, or viewing as another user' })
+  async list(@Req() request: Request) {
+    return this.apiTokensService.list(request.user.id);
+  }
+
+  @Post()
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 10, windowMs: 60 * 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Create a personal access token; the value is shown only in this response' })
+  @ApiBody({ type: CreateApiTokenDto })
+  @ApiResponse({ status: 201, description: 'Token created; send it as Authorization: Bearer <token>' })
+  @ApiResponse({ status: 400, description: 'Unknown scope or lifetime too long' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Scope not held by the caller, called with an API token, or viewing as another user' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async create(@Body() dto: CreateApiTokenDto, @Req() request: Request) {
+    const held = await this.rbacService.getPermissions(
+      this.emailVerificationService.effectiveRoles(request.user, request.membership),
+    );
+    return this.apiTokensService.create(
+      request.user.id,
+      held,
+      request.membership?.organizationId ?? null,
+      dto,
+      getAuditActor(request),
+    );
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke one of the current user\'s tokens' })
+  @ApiParam({ name: 'id', description: 'Token ID' })
+  @ApiResponse({ status: 200, description: 'Token revoked' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Called with an API token, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'Token not found' })
+  async revoke(@Param('id') id: string, @Req() request: Request) {
+    await this.apiTokensService.revoke(request.user.id, id, getAuditActor(request));
+    return { message: 'Token revoked' };
+  }
+}
@@ -0,0 +1,24 @@
+import { ArrayMinSize, ArrayUnique, IsArray, IsIn, IsInt, IsOptional, IsString, MaxLength, Min, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PermissionKey } from '../rbac/permission-key';
+
+export class CreateApiTokenDto {
+  @ApiProperty({ example: 'Nightly user sync' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: ['users.read'], description: 'Permissions the token may use; each must be held by the caller' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsIn(Object.values(PermissionKey), { each: true })
+  scopes: PermissionKey[];
+
+  @ApiPropertyOptional({ example: 90, description: 'Days until the token expires (default 90, capped by API_TOKEN_MAX_LIFETIME_DAYS)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  expiresInDays?: number;
+}
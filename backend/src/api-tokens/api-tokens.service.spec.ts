@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { ApiTokensService } from './api-tokens.service';
+import { ApiToken } from './api-token.entity';
+import { CreateApiTokenDto } from './api-tokens.dto';
+import authConfig from '../auth/auth.config';
+import { hashToken } from '../auth/tokens';
+import { PermissionKey } from '../rbac/permission-key';
+import { AuditEventInput, AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { FakeRepository } from '../testing/fake-repository';
+import { partialMock } from '../testing/partial-mock';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('ApiTokensService', () => {
+  let service: ApiTokensService;
+  let tokens: FakeRepository<ApiToken>;
+  let audited: AuditEventInput[];
+  const held = new Set<string>([PermissionKey.USERS_READ, PermissionKey.AUDIT_READ]);
+
+  beforeEach(() => {
+    tokens = new FakeRepository(ApiToken);
+    audited = [];
+
+    const auditService = partialMock<AuditService>({
+      record: async (event: AuditEventInput) => { audited.push(event); },
+    });
+    service = new ApiTokensService(
+      tokens.asRepository(),
+      auditService,
+      { apiTokenMaxLifetimeDays: 365 } as ConfigType<typeof authConfig>,
+    );
+  });
+
+  function issue(overrides: Partial<CreateApiTokenDto> = {}) {
+    return service.create('user-1', held, null, { name: 'CI', scopes: [PermissionKey.USERS_READ], ...overrides });
+  }
+
+  describe('create', () => {
+    it('hands out the raw token once and stores only its hash', async () => {
+      const { token, apiToken } = await issue();
+
+      expect(token.startsWith('pat_')).toBe(true);
+      expect(tokens.rows[0].tokenHash).toBe(hashToken(token));
+      expect(token.startsWith(apiToken.prefix)).toBe(true);
+      expect(apiToken).not.toHaveProperty('tokenHash');
+      expect(audited.map(event => event.action)).toEqual([AuditAction.API_TOKEN_CREATED]);
+    });
+
+    it('only grants scopes the user holds', async () => {
+      await expect(issue({ scopes: [PermissionKey.USERS_WRITE] })).rejects.toThrow(ForbiddenException);
+      expect(tokens.rows).toEqual([]);
+    });
+
+    it('expires after 90 days unless told otherwise, and never past the maximum', async () => {
+      const { apiToken } = await issue();
+
+      expect(apiToken.expiresAt.getTime()).toBeGreaterThan(Date.now() + 89 * DAY);
+      expect(apiToken.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 90 * DAY);
+      await expect(issue({ expiresInDays: 366 })).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('returns the token and records when and where it was used', async () => {
+      const { token, apiToken } = await issue();
+
+      const found = await service.authenticate(token, { ipAddress: '203.0.113.7', userAgent: 'curl' });
+
+      expect(found.id).toBe(apiToken.id);
+      expect(tokens.rows[0].lastUsedIp).toBe('203.0.113.7');
+      expect(tokens.rows[0].lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('rejects unknown, expired and revoked tokens alike', async () => {
+      const { token } = await issue();
+      const { token: revoked, apiToken } = await issue();
+      await service.revoke('user-1', apiToken.id);
+
+      expect(await service.authenticate('pat_unknown')).toBeNull();
+      expect(await service.authenticate(token.slice(4))).toBeNull();
+      expect(await service.authenticate(revoked)).toBeNull();
+
+      tokens.rows[0].expiresAt = new Date(Date.now() - 1);
+      expect(await service.authenticate(token)).toBeNull();
+    });
+  });
+
+  describe('list and revoke', () => {
+    it('lists the user\'s live tokens without their hashes', async () => {
+      await issue();
+      const { apiToken } = await issue();
+      await service.revoke('user-1', apiToken.id);
+
+      const listed = await service.list('user-1');
+
+      expect(listed).toHaveLength(1);
+      expect(listed[0]).not.toHaveProperty('tokenHash');
+      expect(await service.list('user-2')).toEqual([]);
+    });
+
+    it('flags tokens that have expired', async () => {
+      const { apiToken } = await issue();
+      await issue();
+      tokens.rows.find(row => row.id === apiToken.id).expiresAt = new Date(Date.now() - 1);
+
+      const listed = await service.list('user-1');
+
+      expect(listed.map(token => token.expired).sort()).toEqual([false, true]);
+    });
+
+    it('only revokes the user\'s own tokens', async () => {
+      const { apiToken } = await issue();
+
+      await expect(service.revoke('user-2', apiToken.id)).rejects.toThrow(NotFoundException);
+      await service.revoke('user-1', apiToken.id);
+      await expect(service.revoke('user-1', apiToken.id)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
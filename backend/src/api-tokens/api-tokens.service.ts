@@ -0,0 +1,121 @@
+import { BadRequestException, ForbiddenException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { ApiToken } from './api-token.entity';
+import { CreateApiTokenDto } from './api-tokens.dto';
+import authConfig from '../auth/auth.config';
+import { generateToken, hashToken } from '../auth/tokens';
+import { ClientInfo } from '../auth/client-info';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { AuditActor } from '../audit/audit-actor';
+
+// Lets AuthGuard tell tokens apart from other bearer credentials at a glance
+const TOKEN_PREFIX = 'pat_';
+const VISIBLE_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+const DEFAULT_LIFETIME_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Minimum gap between two last-used writes, to avoid a write on every request
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+// Expired tokens stay listed, flagged, until their owner revokes them
+export type ApiTokenSummary = Omit<ApiToken, 'tokenHash' | 'user'> & { expired: boolean };
+
+@Injectable()
+export class ApiTokensService {
+  constructor(
+    @InjectRepository(ApiToken)
+    private tokenRepository: Repository<ApiToken>,
+    private auditService: AuditService,
+    @Inject(authConfig.KEY)
+    private config: ConfigType<typeof authConfig>,
+  ) {}
+
+  async list(userId: string): Promise<ApiTokenSummary[]> {
+    const tokens = await this.tokenRepository.find({
+      where: { userId, revokedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+    return tokens.map(token => this.toSummary(token));
+  }
+
+  /**
+   * Issues a token for the user. The raw value is returned only here; the
+   * database keeps its hash. Scopes must be permissions the user holds now.
+   */
+  async create(
+    userId: string,
+    heldPermissions: Set<string>,
+    organizationId: string | null,
+    dto: CreateApiTokenDto,
+    actor?: AuditActor,
+  ): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+    const missing = dto.scopes.filter(scope => !heldPermissions.has(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`You do not hold these permissions: ${missing.join(', ')}`);
+    }
+
+    const lifetimeDays = dto.expiresInDays ?? Math.min(DEFAULT_LIFETIME_DAYS, this.config.apiTokenMaxLifetimeDays);
+    if (lifetimeDays > this.config.apiTokenMaxLifetimeDays) {
+      throw new BadRequestException(`Tokens can last at most ${this.config.apiTokenMaxLifetimeDays} days`);
+    }
+
+    const token = TOKEN_PREFIX + generateToken();
+    const apiToken = await this.tokenRepository.save(this.tokenRepository.create({
+      userId,
+      name: dto.name,
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, VISIBLE_PREFIX_LENGTH),
+      scopes: dto.scopes,
+      organizationId,
+      expiresAt: new Date(Date.now() + lifetimeDays * DAY_MS),
+    }));
+
+    await this.auditService.record({
+      action: AuditAction.API_TOKEN_CREATED,
+      actor,
+      after: { id: apiToken.id, name: apiToken.name, scopes: apiToken.scopes, expiresAt: apiToken.expiresAt },
+    });
+    return { token, apiToken: this.toSummary(apiToken) };
+  }
+
+  async revoke(userId: string, id: string, actor?: AuditActor): Promise<void> {
+    const apiToken = await this.tokenRepository.findOne({ where: { id, userId, revokedAt: IsNull() } });
+    if (!apiToken) {
+      throw new NotFoundException('Token not found');
+    }
+
+    apiToken.revokedAt = new Date();
+    await this.tokenRepository.save(apiToken);
+    await this.auditService.record({
+      action: AuditAction.API_TOKEN_REVOKED,
+      actor,
+      before: { id: apiToken.id, name: apiToken.name },
+    });
+  }
+
+  /**
+   * Looks up a live token by its raw value and records that it was used.
+   * Returns null for unknown, expired and revoked tokens alike.
+   */
+  async authenticate(token: string, client?: ClientInfo): Promise<ApiToken | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+    const apiToken = await this.tokenRepository.findOne({ where: { tokenHash: hashToken(token) } });
+    const now = new Date();
+    if (!apiToken || apiToken.revokedAt || apiToken.expiresAt <= now) return null;
+
+    if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() >= LAST_USED_INTERVAL_MS) {
+      apiToken.lastUsedAt = now;
+      apiToken.lastUsedIp = client?.ipAddress ?? null;
+      await this.tokenRepository.update(apiToken.id, { lastUsedAt: now, lastUsedIp: apiToken.lastUsedIp });
+    }
+    return apiToken;
+  }
+
+  private toSummary(token: ApiToken): ApiTokenSummary {
+    const { tokenHash, user, ...summary } = token;
+    return { ...summary, expired: token.expiresAt <= new Date() };
+  }
+}
@@ -3,19 +3,41 @@ import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
+import { RedisModule } from './redis/redis.module';
 import { User } from './users/user.entity';
 import { Session } from './sessions/session.entity';
+import { PasswordResetToken } from './auth/password-reset-token.entity';
+import { LoginAttempt } from './auth/login-attempts/login-attempt.entity';
+import { AuditEvent } from './audit/audit-event.entity';
+import { Role } from './rbac/role.entity';
+import { Permission } from './rbac/permission.entity';
+import { Organization } from './organizations/organization.entity';
+import { OrganizationMembership } from './organizations/organization-membership.entity';
+import { ApiToken } from './api-tokens/api-token.entity';
+import { OidcIdentity } from './oidc/oidc-identity.entity';
+import { Invitation } from './invitations/invitation.entity';
+import { StashLegacyUserRoles1792368000000 } from './migrations/1792368000000-StashLegacyUserRoles';
+import { RoundUserCreatedAt1792454400000 } from './migrations/1792454400000-RoundUserCreatedAt';
+import sessionConfig from './sessions/session.config';
+import authConfig from './auth/auth.config';
+import mailConfig from './mail/mail.config';
+import rateLimitConfig from './rate-limit/rate-limit.config';
+import oidcConfig from './oidc/oidc.config';
 
 @Module({
   imports: [
-    ConfigModule.forRoot({ isGlobal: true }),
+    ConfigModule.forRoot({ isGlobal: true, load: [sessionConfig, authConfig, mailConfig, rateLimitConfig, oidcConfig] }),
     TypeOrmModule.forRoot({
       type: 'postgres',
       url: process.env.DATABASE_URL,
-      entities: [User, Session],
+      entities: [User, Session, PasswordResetToken, LoginAttempt, AuditEvent, Role, Permission, Organization, OrganizationMembership, ApiToken, OidcIdentity, Invitation],
+      // Migrations run before synchronisation, so they can rescue data it would drop
+      migrations: [StashLegacyUserRoles1792368000000, RoundUserCreatedAt1792454400000],
+      migrationsRun: true,
       synchronize: process.env.NODE_ENV !== 'production',
       logging: process.env.NODE_ENV === 'development'
     }),
+    RedisModule,
     AuthModule,
     UsersModule
   ]
@@ -0,0 +1,39 @@
+export enum AuditAction {
+  LOGIN_SUCCEEDED = 'auth.login_succeeded',
+  LOGIN_FAILED = 'auth.login_failed',
+  LOGOUT = 'auth.logout',
+  TWO_FACTOR_FAILED = 'auth.two_factor_failed',
+  ACCOUNT_LOCKED = 'auth.account_locked',
+  SETUP_COMPLETED = 'auth.setup_completed',
+  USER_CREATED = 'user.created',
+  USER_DISABLED = 'user.disabled',
+  USER_ENABLED = 'user.enabled',
+  USER_DELETED = 'user.deleted',
+  USER_RESTORED = 'user.restored',
+  ROLE_CHANGED = 'user.role_changed',
+  EMAIL_VERIFIED = 'user.email_verified',
+  PASSWORD_CHANGED = 'user.password_changed',
+  PASSWORD_RESET = 'user.password_reset',
+  LOCKOUT_CLEARED = 'user.lockout_cleared',
+  TWO_FACTOR_ENABLED = 'user.two_factor_enabled',
+  TWO_FACTOR_DISABLED = 'user.two_factor_disabled',
+  TWO_FACTOR_RESET = 'user.two_factor_reset',
+  RECOVERY_CODES_REGENERATED = 'user.recovery_codes_regenerated',
+  API_TOKEN_CREATED = 'user.api_token_created',
+  API_TOKEN_REVOKED = 'user.api_token_revoked',
+  IDENTITY_LINKED = 'user.identity_linked',
+  INVITATION_CREATED = 'invitation.created',
+  INVITATION_RESENT = 'invitation.resent',
+  INVITATION_REVOKED = 'invitation.revoked',
+  INVITATION_ACCEPTED = 'invitation.accepted',
+  SESSIONS_REVOKED = 'session.revoked',
+  IMPERSONATION_STARTED = 'session.impersonation_started',
+  IMPERSONATION_ENDED = 'session.impersonation_ended',
+  ROLE_CREATED = 'role.created',
+  ROLE_UPDATED = 'role.updated',
+  ROLE_DELETED = 'role.deleted',
+  ORGANIZATION_CREATED = 'organization.created',
+  MEMBER_ADDED = 'organization.member_added',
+  MEMBER_ROLE_CHANGED = 'organization.member_role_changed',
+  MEMBER_REMOVED = 'organization.member_removed',
+}
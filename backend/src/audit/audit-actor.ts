@@ -0,0 +1,26 @@
+import type { Request } from 'express';
+import { getClientInfo } from '../auth/client-info';
+
+/** Who performed an audited action, and from where. */
+export interface AuditActor {
+  id?: string | null;
+  // Kept alongside the ID so events stay readable after the user is gone,
+  // and to record the attempted address of failed logins
+  email?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  // The admin who acted while viewing as the actor
+  impersonatorId?: string | null;
+  // Organisation whose admin scope the action was taken in; null for cross-tenant admins
+  organizationId?: string | null;
+}
+
+export function getAuditActor(request: Request): AuditActor {
+  return {
+    id: request.user?.id ?? null,
+    email: request.user?.email ?? null,
+    impersonatorId: request.session?.data?.impersonator?.id ?? null,
+    organizationId: request.organizationScope?.organizationId ?? null,
+    ...getClientInfo(request),
+  };
+}
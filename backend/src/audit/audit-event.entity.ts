@@ -0,0 +1,49 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+@Entity('audit_events')
+@Index(['createdAt', 'id'])
+export class AuditEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  action: string;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  actorEmail: string | null;
+
+  // Set when an admin performed the action while viewing as the actor
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  impersonatorId: string | null;
+
+  // The user the action was performed on, when it differs from the actor
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  targetId: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'json', nullable: true })
+  before: Record<string, any> | null;
+
+  @Column({ type: 'json', nullable: true })
+  after: Record<string, any> | null;
+
+  @Column({ type: 'json', nullable: true })
+  metadata: Record<string, any> | null;
+
+  // Millisecond precision so values round-trip through JS Dates exactly,
+  // which keyset pagination on (createdAt, id) relies on
+  @CreateDateColumn({ precision: 3 })
+  createdAt: Date;
+}
@@ -0,0 +1,51 @@
+import { Controller, Get, Header, Query, Req, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiCookieAuth, ApiProduces } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { OrganizationScopeGuard } from '../auth/organization-scope.guard';
+import { RequirePermissions } from '../rbac/require-permissions.decorator';
+import { PermissionKey } from '../rbac/permission-key';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { AuditService } from './audit.service';
+import { AuditQueryDto } from './audit.dto';
+
+@ApiTags('Admin')
+@Controller('admin/audit')
+@UseGuards(AuthGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+@ApiCookieAuth('sessionId')
+export class AuditController {
+  constructor(private auditService: AuditService) {}
+
+  @Get()
+  @RequirePermissions(PermissionKey.AUDIT_READ)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Search the audit log, newest first (Admin only)' })
+  @ApiResponse({ status: 200, description: 'A page of events and the cursor of the next page' })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+  async search(@Query() query: AuditQueryDto, @Req() request: Request) {
+    const { cursor, limit, ...filters } = query;
+    return this.auditService.search(
+      { ...filters, organizationId: request.organizationScope.organizationId },
+      cursor,
+      limit ? parseInt(limit, 10) : undefined,
+    );
+  }
+
+  @Get('export')
+  @RequirePermissions(PermissionKey.AUDIT_READ)
+  @RateLimit({ limit: 10, windowMs: 60 * 1000, key: 'user' })
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="audit-log.csv"')
+  @ApiOperation({ summary: 'Export matching audit events as CSV (Admin only)' })
+  @ApiProduces('text/csv')
+  @ApiResponse({ status: 200, description: 'CSV file' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+  async export(@Query() query: AuditQueryDto, @Req() request: Request) {
+    const { actorId, action, from, to } = query;
+    const { organizationId } = request.organizationScope;
+    return this.auditService.exportCsv({ actorId, action, from, to, organizationId });
+  }
+}
@@ -0,0 +1,35 @@
+import { IsIn, IsISO8601, IsNumberString, IsOptional, IsString, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AuditAction } from './audit-action';
+
+export class AuditQueryDto {
+  @ApiPropertyOptional({ description: 'Only events performed by this user ID, including while viewing as another user' })
+  @IsOptional()
+  @IsUUID()
+  actorId?: string;
+
+  @ApiPropertyOptional({ enum: AuditAction, description: 'Only events of this action' })
+  @IsOptional()
+  @IsIn(Object.values(AuditAction))
+  action?: AuditAction;
+
+  @ApiPropertyOptional({ example: '2024-01-01T00:00:00Z', description: 'Earliest event time (inclusive)' })
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @ApiPropertyOptional({ example: '2024-12-31T23:59:59Z', description: 'Latest event time (inclusive)' })
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Opaque cursor from the previous page\'s nextCursor' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({ example: '50', description: 'Page size (max 200)' })
+  @IsOptional()
+  @IsNumberString()
+  limit?: string;
+}
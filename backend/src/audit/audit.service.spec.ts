@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ObjectLiteral, Repository, SelectQueryBuilder } from 'typeorm';
+import { AuditService } from './audit.service';
+import { AuditEvent } from './audit-event.entity';
+import { AuditAction } from './audit-action';
+import { partialMock } from '../testing/partial-mock';
+
+function createEvent(id: string, overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return Object.assign(new AuditEvent(), {
+    id,
+    action: AuditAction.LOGIN_SUCCEEDED,
+    actorId: 'user-1',
+    actorEmail: 'user-1@example.com',
+    impersonatorId: null,
+    targetId: null,
+    ipAddress: '127.0.0.1',
+    userAgent: 'test',
+    before: null,
+    after: null,
+    metadata: null,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    ...overrides,
+  });
+}
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let inserted: Partial<AuditEvent>[];
+  let stored: AuditEvent[];
+  let conditions: { condition: string; parameters?: ObjectLiteral }[];
+  let insertFails: boolean;
+
+  beforeEach(() => {
+    inserted = [];
+    stored = [];
+    conditions = [];
+    insertFails = false;
+
+    // Records the conditions it is given and returns the stored events as they are
+    const createQueryBuilder = () => {
+      let take = Infinity;
+      const query = partialMock<SelectQueryBuilder<AuditEvent>>({
+        orderBy: () => query,
+        addOrderBy: () => query,
+        andWhere: (condition: string, parameters?: ObjectLiteral) => {
+          conditions.push({ condition, parameters });
+          return query;
+        },
+        take: (count: number) => {
+          take = count;
+          return query;
+        },
+        getMany: async () => stored.slice(0, take),
+      });
+      return query;
+    };
+
+    const repository = partialMock<Repository<AuditEvent>>({
+      insert: async (event: Partial<AuditEvent>) => {
+        if (insertFails) throw new Error('database is down');
+        inserted.push(event);
+        return { identifiers: [], generatedMaps: [], raw: [] };
+      },
+      createQueryBuilder,
+    });
+    service = new AuditService(repository);
+  });
+
+  afterEach(() => {
+    insertFails = false;
+  });
+
+  describe('record', () => {
+    it('stores who acted, from where and on whom', async () => {
+      await service.record({
+        action: AuditAction.ROLE_CHANGED,
+        actor: { id: 'admin-1', email: 'admin@example.com', ipAddress: '127.0.0.1', userAgent: 'test', impersonatorId: 'support-1' },
+        targetId: 'user-1',
+        before: { role: 'user' },
+        after: { role: 'admin' },
+      });
+
+      expect(inserted).toEqual([{
+        action: AuditAction.ROLE_CHANGED,
+        actorId: 'admin-1',
+        actorEmail: 'admin@example.com',
+        impersonatorId: 'support-1',
+        ipAddress: '127.0.0.1',
+        userAgent: 'test',
+        targetId: 'user-1',
+        before: { role: 'user' },
+        after: { role: 'admin' },
+        metadata: null,
+      }]);
+    });
+
+    it('tags actions taken in an organisation admin\'s scope with the organisation', async () => {
+      await service.record({ action: AuditAction.USER_DISABLED, actor: { id: 'admin-1', organizationId: 'org-1' }, targetId: 'user-1' });
+      await service.record({
+        action: AuditAction.MEMBER_ADDED,
+        actor: { id: 'admin-1', organizationId: 'org-1' },
+        metadata: { organizationId: 'org-2' },
+      });
+      await service.record({ action: AuditAction.USER_DISABLED, actor: { id: 'root', organizationId: null } });
+
+      expect(inserted.map(event => event.metadata)).toEqual([
+        { organizationId: 'org-1' },
+        { organizationId: 'org-2' },
+        null,
+      ]);
+    });
+
+    it('never lets a failed write break the audited action', async () => {
+      insertFails = true;
+      const logged = spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+      await expect(service.record({ action: AuditAction.LOGOUT })).resolves.toBeUndefined();
+      expect(logged).toHaveBeenCalledTimes(1);
+
+      logged.mockRestore();
+    });
+  });
+
+  describe('search', () => {
+    it('pages by a cursor that resumes after the last event', async () => {
+      stored = [createEvent('event-3'), createEvent('event-2'), createEvent('event-1')];
+
+      const page = await service.search({}, undefined, 2);
+      expect(page.items.map(event => event.id)).toEqual(['event-3', 'event-2']);
+
+      await service.search({}, page.nextCursor, 2);
+      expect(conditions[0].parameters).toEqual({
+        cursorCreatedAt: new Date('2026-01-01T00:00:00.000Z'),
+        cursorId: 'event-2',
+      });
+    });
+
+    it('ends on the last page', async () => {
+      stored = [createEvent('event-1')];
+
+      expect((await service.search({}, undefined, 2)).nextCursor).toBeNull();
+    });
+
+    it('finds what an admin did while viewing as someone else under their own ID', async () => {
+      await service.search({ actorId: 'support-1' });
+
+      expect(conditions).toEqual([
+        { condition: '(event.actorId = :actorId OR event.impersonatorId = :actorId)', parameters: { actorId: 'support-1' } },
+      ]);
+    });
+
+    it('rejects cursors it did not issue', async () => {
+      await expect(service.search({}, 'not-a-cursor')).rejects.toThrow(BadRequestException);
+    });
+
+    it('applies each filter', async () => {
+      await service.search({
+        actorId: 'user-1',
+        action: AuditAction.LOGOUT,
+        from: '2026-01-01T00:00:00Z',
+        to: '2026-02-01T00:00:00Z',
+        organizationId: 'org-1',
+      });
+
+      expect(conditions.map(({ parameters }) => parameters)).toEqual([
+        { actorId: 'user-1' },
+        { action: AuditAction.LOGOUT },
+        { from: new Date('2026-01-01T00:00:00Z') },
+        { to: new Date('2026-02-01T00:00:00Z') },
+        { organizationId: 'org-1' },
+      ]);
+    });
+
+    it('limits an organisation to its own events rather than everything its members did', async () => {
+      await service.search({ organizationId: 'org-1' });
+
+      expect(conditions[0].condition).toContain("event.metadata ->> 'organizationId' = :organizationId");
+      expect(conditions[0].condition).not.toContain('organization_memberships');
+    });
+  });
+
+  describe('exportCsv', () => {
+    it('quotes cells and defuses spreadsheet formulas', async () => {
+      stored = [createEvent('event-1', { actorEmail: '=HYPERLINK("x")', metadata: { reason: 'a, b' } })];
+
+      const [header, row] = (await service.exportCsv({})).split('\r\n');
+
+      expect(header).toBe('createdAt,action,actorId,actorEmail,impersonatorId,targetId,ipAddress,userAgent,before,after,metadata');
+      expect(row).toBe(
+        '2026-01-01T00:00:00.000Z,auth.login_succeeded,user-1,"\'=HYPERLINK(""x"")",,,127.0.0.1,test,,,"{""reason"":""a, b""}"',
+      );
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { AuditEvent } from './audit-event.entity';
+import { AuditAction } from './audit-action';
+import { AuditActor } from './audit-actor';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 10000;
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  'createdAt', 'action', 'actorId', 'actorEmail', 'impersonatorId', 'targetId',
+  'ipAddress', 'userAgent', 'before', 'after', 'metadata',
+];
+
+export interface AuditEventInput {
+  action: AuditAction;
+  actor?: AuditActor | null;
+  targetId?: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, any> | null;
+}
+
+export interface AuditFilters {
+  actorId?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+  // Only events that belong to this organisation
+  organizationId?: string | null;
+}
+
+export interface AuditPage {
+  items: AuditEvent[];
+  nextCursor: string | null;
+}
+
+interface Cursor {
+  createdAt: string;
+  id: string;
+}
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectRepository(AuditEvent)
+    private auditRepository: Repository<AuditEvent>,
+  ) {}
+
+  /**
+   * Appends an event to the audit log. A failing write is logged rather than
+   * thrown, so an audit outage never blocks the action being audited. Actions
+   * taken in an organisation admin's scope are tagged with that organisation
+   * in the metadata, unless the event names one itself.
+   */
+  async record(event: AuditEventInput): Promise<void> {
+    const organizationId = event.actor?.organizationId;
+    const metadata = organizationId && !event.metadata?.organizationId
+      ? { ...event.metadata, organizationId }
+      : event.metadata ?? null;
+
+    try {
+      await this.auditRepository.insert({
+        action: event.action,
+        actorId: event.actor?.id ?? null,
+        actorEmail: event.actor?.email ?? null,
+        impersonatorId: event.actor?.impersonatorId ?? null,
+        ipAddress: event.actor?.ipAddress ?? null,
+        userAgent: event.actor?.userAgent ?? null,
+        targetId: event.targetId ?? null,
+        before: event.before ?? null,
+        after: event.after ?? null,
+        metadata,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record audit event ${event.action}`, error instanceof Error ? error.stack : error);
+    }
+  }
+
+  /** Newest first, paginated by an opaque (createdAt, id) cursor. */
+  async search(filters: AuditFilters, cursor?: string, limit?: number): Promise<AuditPage> {
+    const pageSize = Math.min(Math.max(limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const query = this.filteredQuery(filters);
+
+    if (cursor) {
+      const position = this.decodeCursor(cursor);
+      query.andWhere(
+        '(event.createdAt < :cursorCreatedAt OR (event.createdAt = :cursorCreatedAt AND event.id < :cursorId))',
+        { cursorCreatedAt: new Date(position.createdAt), cursorId: position.id },
+      );
+    }
+
+    const events = await query.take(pageSize + 1).getMany();
+    const items = events.slice(0, pageSize);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: events.length > pageSize ? this.encodeCursor(last) : null,
+    };
+  }
+
+  async exportCsv(filters: AuditFilters): Promise<string> {
+    const events = await this.filteredQuery(filters).take(MAX_EXPORT_ROWS).getMany();
+    const rows = events.map(event => CSV_COLUMNS.map(column => this.csvCell(event[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  private filteredQuery(filters: AuditFilters): SelectQueryBuilder<AuditEvent> {
+    const query = this.auditRepository
+      .createQueryBuilder('event')
+      .orderBy('event.createdAt', 'DESC')
+      .addOrderBy('event.id', 'DESC');
+
+    if (filters.actorId) {
+      // Includes what an admin did while viewing as another user
+      query.andWhere('(event.actorId = :actorId OR event.impersonatorId = :actorId)', { actorId: filters.actorId });
+    }
+    if (filters.action) {
+      query.andWhere('event.action = :action', { action: filters.action });
+    }
+    if (filters.from) {
+      query.andWhere('event.createdAt >= :from', { from: new Date(filters.from) });
+    }
+    if (filters.to) {
+      query.andWhere('event.createdAt <= :to', { to: new Date(filters.to) });
+    }
+    if (filters.organizationId) {
+      // Membership of the actor or target says nothing about where an event
+      // happened, as people can belong to several organisations
+      query.andWhere(
+        `(event.metadata ->> 'organizationId' = :organizationId OR event.targetId = :organizationId)`,
+        { organizationId: filters.organizationId },
+      );
+    }
+    return query;
+  }
+
+  private encodeCursor(event: AuditEvent): string {
+    const cursor: Cursor = { createdAt: event.createdAt.toISOString(), id: event.id };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): Cursor {
+    try {
+      const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof parsed.id === 'string' && !isNaN(Date.parse(parsed.createdAt))) {
+        return parsed;
+      }
+    } catch {
+      // fall through
+    }
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  private csvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+
+    let text = value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    // Neutralise spreadsheet formulas (CSV injection) in user-controlled fields
+    if (/^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,137 @@
+import { registerAs } from '@nestjs/config';
+import { LoginAttemptStoreDriver } from './login-attempts/login-attempt-store';
+
+/**
+ * What an account may do before its email address is verified:
+ * - off:         verification is not required at all
+ * - restricted:  the user can sign in but is treated as a plain 'user'
+ * - block-login: the user cannot sign in until they verify
+ */
+export type EmailVerificationPolicy = 'off' | 'restricted' | 'block-login';
+
+const DEVELOPMENT_EMAIL_VERIFICATION_SECRET = 'dev-email-verification-secret';
+
+// Verification links are HMAC-signed, so the published fallback would let anyone forge them
+function readEmailVerificationSecret(): string {
+  const secret = process.env.EMAIL_VERIFICATION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('EMAIL_VERIFICATION_SECRET must be set in production');
+    }
+    return DEVELOPMENT_EMAIL_VERIFICATION_SECRET;
+  }
+  return secret;
+}
+
+export type PasswordHashAlgorithm = 'bcrypt' | 'argon2id';
+
+const PASSWORD_HASH_ALGORITHMS: PasswordHashAlgorithm[] = ['bcrypt', 'argon2id'];
+
+/**
+ * Who may create an account without an admin doing it for them:
+ * - open:             anyone, by signing up or through single sign-on
+ * - invite-only:      only people holding an invitation
+ * - domain-allowlist: anyone whose address is in REGISTRATION_ALLOWED_DOMAINS;
+ *                     invitations work for any address
+ * - closed:           nobody; admins create accounts and invitations are off
+ */
+export type RegistrationMode = 'open' | 'invite-only' | 'domain-allowlist' | 'closed';
+
+const REGISTRATION_MODES: RegistrationMode[] = ['open', 'invite-only', 'domain-allowlist', 'closed'];
+const MIN_SETUP_TOKEN_LENGTH = 32;
+
+function readRegistration(): { mode: RegistrationMode; allowedDomains: string[] } {
+  const mode = (process.env.REGISTRATION_MODE || 'open') as RegistrationMode;
+  if (!REGISTRATION_MODES.includes(mode)) {
+    throw new Error(`REGISTRATION_MODE must be one of ${REGISTRATION_MODES.join(', ')}`);
+  }
+  const allowedDomains = (process.env.REGISTRATION_ALLOWED_DOMAINS || '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase().replace(/^@/, ''))
+    .filter(Boolean);
+  if (mode === 'domain-allowlist' && allowedDomains.length === 0) {
+    throw new Error('REGISTRATION_ALLOWED_DOMAINS is required when REGISTRATION_MODE is domain-allowlist');
+  }
+  return { mode, allowedDomains };
+}
+
+// A typo would otherwise only surface at the first sign-up, as a failed hash
+function readPasswordHashAlgorithm(): PasswordHashAlgorithm {
+  const algorithm = (process.env.PASSWORD_HASH_ALGORITHM || 'argon2id') as PasswordHashAlgorithm;
+  if (!PASSWORD_HASH_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`PASSWORD_HASH_ALGORITHM must be one of ${PASSWORD_HASH_ALGORITHMS.join(', ')}`);
+  }
+  return algorithm;
+}
+
+function readSetupToken(): string | null {
+  const token = process.env.SETUP_TOKEN || null;
+  if (token && token.length < MIN_SETUP_TOKEN_LENGTH) {
+    throw new Error(`SETUP_TOKEN must be at least ${MIN_SETUP_TOKEN_LENGTH} characters long`);
+  }
+  return token;
+}
+
+function readBootstrapAdmin(): { email: string; password: string } | null {
+  const email = process.env.BOOTSTRAP_ADMIN_EMAIL || '';
+  const password = process.env.BOOTSTRAP_ADMIN_PASSWORD || '';
+  if (!email && !password) {
+    return null;
+  }
+  if (!email || !password) {
+    throw new Error('BOOTSTRAP_ADMIN_EMAIL and BOOTSTRAP_ADMIN_PASSWORD must be set together');
+  }
+  return { email, password };
+}
+
+export default registerAs('auth', () => ({
+  // Base URL of the frontend, used to build links in outgoing mail
+  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+  emailVerificationPolicy: (process.env.EMAIL_VERIFICATION_POLICY || 'restricted') as EmailVerificationPolicy,
+  emailVerificationSecret: readEmailVerificationSecret(),
+  emailVerificationTtlMs: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48', 10) * 60 * 60 * 1000,
+  registration: readRegistration(),
+  // Claims the first super admin through POST /auth/setup; generated and
+  // logged at startup when unset
+  setupToken: readSetupToken(),
+  // Alternatively, the first super admin is created from these at startup
+  bootstrapAdmin: readBootstrapAdmin(),
+  twoFactorIssuer: process.env.TWO_FACTOR_ISSUER || 'Session Auth',
+  // Roles that must enroll in 2FA before they can use role-protected routes, on
+  // top of those whose twoFactorRequired flag is set through the roles API
+  twoFactorRequiredRoles: (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+    .split(',')
+    .map(role => role.trim())
+    .filter(Boolean),
+  twoFactorChallengeTtlMs: 5 * 60 * 1000,
+  passwordResetTtlMs: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '30', 10) * 60 * 1000,
+  // Lifetime of an invitation link unless the admin picks another
+  invitationTtlDays: parseInt(process.env.INVITATION_TTL_DAYS || '7', 10),
+  loginAttemptStore: (process.env.LOGIN_ATTEMPT_STORE || 'postgres') as LoginAttemptStoreDriver,
+  // Failed attempts are forgotten after this long without a new failure
+  loginAttemptWindowMs: parseInt(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES || '15', 10) * 60 * 1000,
+  // Free failures before exponential backoff kicks in, per email and per client IP
+  loginBackoffAfterEmail: parseInt(process.env.LOGIN_BACKOFF_AFTER_EMAIL || '3', 10),
+  loginBackoffAfterIp: parseInt(process.env.LOGIN_BACKOFF_AFTER_IP || '20', 10),
+  loginBackoffBaseMs: 1000,
+  loginBackoffMaxMs: 15 * 60 * 1000,
+  loginLockoutThreshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10', 10),
+  loginLockoutMs: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10) * 60 * 1000,
+  // Longest lifetime a personal access token can be created with
+  apiTokenMaxLifetimeDays: parseInt(process.env.API_TOKEN_MAX_LIFETIME_DAYS || '365', 10),
+  passwordMinLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '10', 10),
+  // How many of lower-case letters, upper-case letters, digits and symbols must appear
+  passwordMinCharacterClasses: parseInt(process.env.PASSWORD_MIN_CHARACTER_CLASSES || '2', 10),
+  // A new password may not match the current one or the ones before it, this many in total
+  passwordHistorySize: parseInt(process.env.PASSWORD_HISTORY || '5', 10),
+  // Optional newline-separated list of further banned passwords, read at startup
+  passwordBlocklistFile: process.env.PASSWORD_BLOCKLIST_FILE || null,
+  // New hashes use this algorithm; stored hashes using another, or weaker
+  // parameters, are upgraded the next time their owner signs in
+  passwordHashAlgorithm: readPasswordHashAlgorithm(),
+  bcryptCost: parseInt(process.env.BCRYPT_COST || '12', 10),
+  // Defaults follow the OWASP minimum for argon2id: 19 MiB, 2 passes, 1 lane
+  argon2MemoryKib: parseInt(process.env.ARGON2_MEMORY_KIB || '19456', 10),
+  argon2TimeCost: parseInt(process.env.ARGON2_TIME_COST || '2', 10),
+  argon2Parallelism: parseInt(process.env.ARGON2_PARALLELISM || '1', 10),
+}));
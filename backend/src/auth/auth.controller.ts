@@ -1,45 +1,190 @@
-import { Controller, Post, Get, Body, Req, Res, UseGuards, Patch, Param } from '@nestjs/common';
+import { Controller, Post, Get, Body, Req, Res, UseGuards, Put, Patch, Param, Delete, NotFoundException, Query, Header } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiParam, ApiCookieAuth } from '@nestjs/swagger';
 import type { Request, Response } from 'express';
 import { AuthService } from './auth.service';
 import { UsersService } from '../users/users.service';
-import { RegisterDto, LoginDto } from './auth.dto';
+import { PasswordPolicyService } from '../users/password-policy.service';
+import { RegistrationPolicyService } from '../users/registration-policy.service';
+import { UserQueryDto } from '../users/users.dto';
+import {
+  RegisterDto,
+  LoginDto,
+  ChangePasswordDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+  ResendVerificationDto,
+} from './auth.dto';
+import { AcceptInvitationDto } from '../invitations/invitations.dto';
+import { CompleteSetupDto } from '../setup/setup.dto';
+import { SetupService } from '../setup/setup.service';
+import { PasswordResetService } from './password-reset.service';
+import { EmailVerificationService } from './email-verification.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
 import { AuthGuard } from './auth.guard';
-import { RolesGuard } from './roles.guard';
-import { Roles } from './roles.decorator';
-import { UserRole } from '../users/user.entity';
+import { CsrfGuard } from './csrf.guard';
+import { CsrfService } from './csrf.service';
+import { NoImpersonationGuard } from './impersonation.guard';
+import { ImpersonationService } from './impersonation.service';
+import { PermissionsGuard } from './permissions.guard';
+import { OrganizationScopeGuard } from './organization-scope.guard';
+import { RequirePermissions } from '../rbac/require-permissions.decorator';
+import { AllowApiTokens } from '../api-tokens/allow-api-tokens.decorator';
+import { PermissionKey } from '../rbac/permission-key';
+import { RbacService } from '../rbac/rbac.service';
+import { SetUserRoleDto, SetUserRolesDto } from '../rbac/rbac.dto';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { User } from '../users/user.entity';
+import { Session } from '../sessions/session.entity';
+import { getClientInfo } from './client-info';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { getAuditActor } from '../audit/audit-actor';
+import { SessionCookieService } from '../sessions/session-cookie.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { OrganizationMembership } from '../organizations/organization-membership.entity';
 
 @ApiTags('Authentication')
 @Controller()
 export class AuthController {
   constructor(
     private authService: AuthService,
-    private usersService: UsersService
+    private usersService: UsersService,
+    private passwordResetService: PasswordResetService,
+    private emailVerificationService: EmailVerificationService,
+    private twoFactorService: TwoFactorService,
+    private loginThrottleService: LoginThrottleService,
+    private csrfService: CsrfService,
+    private auditService: AuditService,
+    private rbacService: RbacService,
+    private organizationsService: OrganizationsService,
+    private impersonationService: ImpersonationService,
+    private passwordPolicyService: PasswordPolicyService,
+    private registrationPolicyService: RegistrationPolicyService,
+    private setupService: SetupService,
+    private sessionCookieService: SessionCookieService
   ) {}
 
   @Post('auth/register')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 10, windowMs: 60 * 60 * 1000, algorithm: 'sliding' })
   @ApiOperation({ summary: 'Register a new user' })
   @ApiBody({ type: RegisterDto })
   @ApiResponse({ status: 201, description: 'User registered successfully' })
+  @ApiResponse({ status: 400, description: 'PASSWORD_POLICY: the password breaks the policy; see violations' })
+  @ApiResponse({ status: 403, description: 'REGISTRATION_CLOSED or REGISTRATION_DOMAIN_NOT_ALLOWED under the registration mode' })
   @ApiResponse({ status: 409, description: 'Email already exists' })
-  async register(@Body() dto: RegisterDto, @Res({ passthrough: true }) response: Response) {
-    const user = await this.authService.register(dto.email, dto.password);
-    const { sessionId } = await this.authService.login(dto.email, dto.password);
-
-    response.cookie('sessionId', sessionId, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 24 * 60 * 60 * 1000,
-    });
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async register(@Body() dto: RegisterDto, @Req() request: Request, @Res({ passthrough: true }) response: Response) {
+    const user = await this.authService.register(dto.email, dto.password, getClientInfo(request));
+
+    // No session until the address is confirmed; the client shows "check your inbox"
+    if (this.emailVerificationService.blocksLogin(user)) {
+      return {
+        message: 'Check your inbox to verify your email address',
+        verificationRequired: true,
+        user: await this.toProfile(user)
+      };
+    }
+
+    const { session } = await this.authService.login(
+      dto.email,
+      dto.password,
+      getClientInfo(request),
+      this.sessionCookieService.read(request),
+    );
+
+    this.sessionCookieService.write(response, session);
     
     return {
       message: 'User registered successfully',
-      user: { id: user.id, email: user.email, role: user.role }
+      verificationRequired: false,
+      user: await this.toProfile(user)
+    };
+  }
+
+  @Get('auth/password-policy')
+  @ApiOperation({ summary: 'Get the rules new passwords must satisfy' })
+  @ApiResponse({
+    status: 200,
+    description: 'Password policy. Rejected passwords return 400 PASSWORD_POLICY with a violations array of { code, message }',
+    schema: {
+      type: 'object',
+      properties: {
+        minLength: { type: 'number', example: 10 },
+        maxLength: { type: 'number', example: 72, description: 'In bytes' },
+        minCharacterClasses: { type: 'number', example: 2, description: 'Of lower-case, upper-case, digits and symbols' },
+        historySize: { type: 'number', example: 5, description: 'Recent passwords that cannot be reused' }
+      }
+    }
+  })
+  getPasswordPolicy() {
+    return this.passwordPolicyService.describe();
+  }
+
+  @Get('auth/registration')
+  @ApiOperation({ summary: 'Get who may create an account' })
+  @ApiResponse({
+    status: 200,
+    description: 'Registration mode',
+    schema: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', enum: ['open', 'invite-only', 'domain-allowlist', 'closed'] },
+        allowedDomains: { type: 'array', items: { type: 'string' }, example: ['acme.com'], description: 'Only in domain-allowlist mode' }
+      }
+    }
+  })
+  getRegistrationPolicy() {
+    return this.registrationPolicyService.describe();
+  }
+
+  @Get('auth/setup')
+  @ApiOperation({ summary: 'Whether the first super admin still has to be created' })
+  @ApiResponse({
+    status: 200,
+    description: 'Setup status',
+    schema: { type: 'object', properties: { required: { type: 'boolean', example: false } } }
+  })
+  async getSetupStatus() {
+    return { required: await this.setupService.isRequired() };
+  }
+
+  @Post('auth/setup')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 5, windowMs: 15 * 60 * 1000, algorithm: 'sliding' })
+  @ApiOperation({ summary: 'Create the first super admin with the setup token and sign in' })
+  @ApiBody({ type: CompleteSetupDto })
+  @ApiResponse({ status: 201, description: 'Super admin created, session cookie set' })
+  @ApiResponse({ status: 400, description: 'PASSWORD_POLICY: the password breaks the policy; see violations' })
+  @ApiResponse({ status: 401, description: 'INVALID_SETUP_TOKEN' })
+  @ApiResponse({ status: 409, description: 'SETUP_COMPLETED: a super admin already exists, or the email is taken' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async completeSetup(
+    @Body() dto: CompleteSetupDto,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const { user, session } = await this.authService.completeSetup(
+      dto.token,
+      dto.email,
+      dto.password,
+      getClientInfo(request),
+      this.sessionCookieService.read(request),
+    );
+
+    this.sessionCookieService.write(response, session);
+    return {
+      message: 'Setup complete',
+      user: await this.toProfile(user)
     };
   }
 
   @Post('auth/login')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 30, windowMs: 15 * 60 * 1000, algorithm: 'sliding' })
   @ApiOperation({ summary: 'Login user' })
   @ApiBody({ type: LoginDto })
   @ApiResponse({ 
@@ -49,86 +194,346 @@ export class AuthController {
       type: 'object',
       properties: {
         message: { type: 'string', example: 'Login successful' },
+        twoFactorRequired: { type: 'boolean', example: false, description: 'If true, finish with POST /auth/2fa/verify' },
         user: {
           type: 'object',
           properties: {
             id: { type: 'string', example: 'b398d2b8-eafc-4b8e-9a48-9d6ab006db6f' },
             email: { type: 'string', example: 'admin@test.com' },
-            role: { type: 'string', example: 'admin', enum: ['admin', 'user'] }
+            roles: { type: 'array', items: { type: 'string' }, example: ['user', 'admin'] },
+            permissions: { type: 'array', items: { type: 'string' }, example: ['users.read', 'audit.read'] },
+            organization: {
+              type: 'object',
+              nullable: true,
+              description: 'Active organization; its role is included in roles',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string', example: 'Acme Corp' },
+                role: { type: 'string', example: 'admin' }
+              }
+            },
+            emailVerified: { type: 'boolean', example: true },
+            twoFactorEnabled: { type: 'boolean', example: false }
           }
         }
       }
     }
   })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
-  async login(@Body() dto: LoginDto, @Res({ passthrough: true }) response: Response) {
-    const { user, sessionId } = await this.authService.login(dto.email, dto.password);
-
-    response.cookie('sessionId', sessionId, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 24 * 60 * 60 * 1000,
-    });
+  @ApiResponse({ status: 403, description: 'Email address not verified' })
+  @ApiResponse({ status: 423, description: 'Account temporarily locked after repeated failures' })
+  @ApiResponse({ status: 429, description: 'Too many failed attempts, retry later' })
+  async login(@Body() dto: LoginDto, @Req() request: Request, @Res({ passthrough: true }) response: Response) {
+    const { user, session, twoFactorRequired } = await this.authService.login(
+      dto.email,
+      dto.password,
+      getClientInfo(request),
+      this.sessionCookieService.read(request),
+    );
+
+    this.sessionCookieService.write(response, session);
+
+    if (twoFactorRequired) {
+      return {
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true
+      };
+    }
     
     return {
       message: 'Login successful',
-      user: { id: user.id, email: user.email, role: user.role }
+      twoFactorRequired: false,
+      user: await this.toProfile(user, await this.organizationsService.getActiveMembership(user.id, session))
     };
   }
 
-  @Post('auth/logout')
+  @Get('auth/csrf')
   @UseGuards(AuthGuard)
   @ApiCookieAuth('sessionId')
+  @ApiOperation({ summary: 'Get the CSRF token of the current session' })
+  @ApiResponse({ status: 200, description: 'Token to send in the X-CSRF-Token header of state-changing requests' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  async getCsrfToken(@Req() request: Request) {
+    return { csrfToken: await this.csrfService.getToken(request.session) };
+  }
+
+  @Post('auth/logout')
+  @UseGuards(AuthGuard, CsrfGuard)
+  @ApiCookieAuth('sessionId')
   @ApiOperation({ summary: 'Logout user' })
   @ApiResponse({ status: 200, description: 'Logout successful' })
   @ApiResponse({ status: 401, description: 'Not authenticated' })
   async logout(@Req() request: Request, @Res({ passthrough: true }) response: Response) {
-    const sessionId = request.cookies?.sessionId;
-    if (sessionId) {
-      await this.authService.logout(sessionId);
+    await this.authService.logout(request.session.id);
+    // Signing out while viewing as someone signs the admin out as well
+    const impersonator = request.session.data?.impersonator;
+    if (impersonator) {
+      await this.authService.logout(impersonator.sessionId);
     }
+    await this.auditService.record({ action: AuditAction.LOGOUT, actor: getAuditActor(request) });
 
-    response.clearCookie('sessionId');
+    this.sessionCookieService.clear(response);
     return { message: 'Logout successful' };
   }
 
+  @Post('auth/impersonation/end')
+  @UseGuards(AuthGuard, CsrfGuard)
+  @ApiCookieAuth('sessionId')
+  @ApiOperation({ summary: 'Stop viewing as another user and return to the admin session' })
+  @ApiResponse({ status: 201, description: 'Impersonation ended; restored is false if the admin session has expired meanwhile' })
+  @ApiResponse({ status: 400, description: 'Not viewing as another user' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  async endImpersonation(@Req() request: Request, @Res({ passthrough: true }) response: Response) {
+    const adminSession = await this.impersonationService.end(request.session, getClientInfo(request));
+    if (!adminSession) {
+      this.sessionCookieService.clear(response);
+      return { message: 'Impersonation ended, please sign in again', restored: false };
+    }
+
+    this.sessionCookieService.write(response, adminSession);
+    return { message: 'Impersonation ended', restored: true };
+  }
+
+  @Post('auth/verify-email')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 20, windowMs: 15 * 60 * 1000 })
+  @ApiOperation({ summary: 'Confirm an email address using a verification token' })
+  @ApiBody({ type: VerifyEmailDto })
+  @ApiResponse({ status: 201, description: 'Email address verified' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired verification token' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async verifyEmail(@Body() dto: VerifyEmailDto, @Req() request: Request) {
+    const user = await this.emailVerificationService.verify(dto.token);
+    await this.auditService.record({
+      action: AuditAction.EMAIL_VERIFIED,
+      actor: { id: user.id, email: user.email, ...getClientInfo(request) },
+    });
+    return { message: 'Email address verified' };
+  }
+
+  @Post('auth/verify-email/resend')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 5, windowMs: 15 * 60 * 1000 })
+  @ApiOperation({ summary: 'Resend the email verification link' })
+  @ApiBody({ type: ResendVerificationDto })
+  @ApiResponse({ status: 201, description: 'Verification email sent if the account needs one' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async resendVerification(@Body() dto: ResendVerificationDto) {
+    await this.emailVerificationService.resend(dto.email);
+    return { message: 'If this address still needs verification, a new link has been sent' };
+  }
+
+  @Post('auth/forgot-password')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 5, windowMs: 15 * 60 * 1000 })
+  @ApiOperation({ summary: 'Request a password reset email' })
+  @ApiBody({ type: ForgotPasswordDto })
+  @ApiResponse({ status: 201, description: 'Reset email sent if the account exists' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async forgotPassword(@Body() dto: ForgotPasswordDto) {
+    await this.passwordResetService.requestReset(dto.email);
+    return { message: 'If an account exists for this email, a reset link has been sent' };
+  }
+
+  @Post('auth/reset-password')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 10, windowMs: 15 * 60 * 1000 })
+  @ApiOperation({ summary: 'Set a new password using a reset token' })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiResponse({ status: 201, description: 'Password reset, all sessions revoked' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired reset token, or PASSWORD_POLICY with violations' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async resetPassword(@Body() dto: ResetPasswordDto, @Req() request: Request) {
+    await this.passwordResetService.resetPassword(dto.token, dto.password, getClientInfo(request));
+    return { message: 'Password has been reset' };
+  }
+
+  @Post('auth/invitations/accept')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 10, windowMs: 15 * 60 * 1000 })
+  @ApiOperation({ summary: 'Accept an invitation: create the account with the chosen password and sign in' })
+  @ApiBody({ type: AcceptInvitationDto })
+  @ApiResponse({ status: 201, description: 'Account created with the invited role, session cookie set' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired invitation, or PASSWORD_POLICY with violations' })
+  @ApiResponse({ status: 403, description: 'REGISTRATION_CLOSED: invitations are turned off' })
+  @ApiResponse({ status: 409, description: 'An account with the invited email already exists' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async acceptInvitation(
+    @Body() dto: AcceptInvitationDto,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const { user, session } = await this.authService.acceptInvitation(
+      dto.token,
+      dto.password,
+      getClientInfo(request),
+      this.sessionCookieService.read(request),
+    );
+
+    this.sessionCookieService.write(response, session);
+    return {
+      message: 'Invitation accepted',
+      user: await this.toProfile(user, await this.organizationsService.getActiveMembership(user.id, session))
+    };
+  }
+
+  @Post('me/password')
+  @UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard, RateLimitGuard)
+  @RateLimit({ limit: 5, windowMs: 15 * 60 * 1000, key: 'user' })
+  @ApiCookieAuth('sessionId')
+  @ApiOperation({ summary: 'Change the current user\'s password' })
+  @ApiBody({ type: ChangePasswordDto })
+  @ApiResponse({ status: 201, description: 'Password changed, other sessions revoked' })
+  @ApiResponse({ status: 400, description: 'Current password is incorrect, or PASSWORD_POLICY with violations' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Viewing as another user' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async changePassword(
+    @Body() dto: ChangePasswordDto,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const session = await this.authService.changePassword(
+      request.user,
+      request.session,
+      dto.currentPassword,
+      dto.newPassword,
+      getClientInfo(request),
+    );
+
+    this.sessionCookieService.write(response, session);
+    return { message: 'Password changed successfully' };
+  }
+
   @Get('me')
   @UseGuards(AuthGuard)
+  @AllowApiTokens()
   @ApiCookieAuth('sessionId')
   @ApiOperation({ summary: 'Get current user profile' })
   @ApiResponse({ status: 200, description: 'User profile retrieved' })
   @ApiResponse({ status: 401, description: 'Not authenticated' })
   async getCurrentUser(@Req() request: Request) {
-    const user = request.user;
-    return { id: user.id, email: user.email, role: user.role };
+    return this.toProfile(request.user, request.membership, request.session);
   }
 
   @Get('admin/users')
-  @UseGuards(AuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @UseGuards(AuthGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.USERS_READ)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
   @ApiCookieAuth('sessionId')
   @ApiTags('Admin')
-  @ApiOperation({ summary: 'Get all users (Admin only)' })
-  @ApiResponse({ status: 200, description: 'Users retrieved successfully' })
+  @ApiOperation({ summary: 'Search the users of the active organization, or all users for super admins' })
+  @ApiResponse({ status: 200, description: 'A page of users, the total number of matches and the cursor of the next page' })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
   @ApiResponse({ status: 401, description: 'Not authenticated' })
-  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
-  async getAllUsers() {
-    return this.usersService.findAll();
+  @ApiResponse({ status: 403, description: 'Insufficient permissions or no active organization' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async getAllUsers(@Query() query: UserQueryDto, @Req() request: Request) {
+    const { sort, order, cursor, offset, limit, ...filters } = query;
+    const { organizationId } = request.organizationScope;
+
+    const page = await this.usersService.search(
+      { ...filters, organizationId },
+      {
+        sort,
+        order,
+        cursor,
+        offset: offset ? parseInt(offset, 10) : undefined,
+        limit: limit ? parseInt(limit, 10) : undefined,
+      },
+    );
+    return organizationId
+      ? { ...page, items: await this.organizationsService.withOrganizationRoles(organizationId, page.items) }
+      : page;
   }
 
-  @Patch('admin/users/:id/role')
-  @UseGuards(AuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @Put('admin/users/:id/roles')
+  @UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.USERS_ROLE_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
   @ApiCookieAuth('sessionId')
   @ApiTags('Admin')
-  @ApiOperation({ summary: 'Update user role (Admin only)' })
+  @ApiOperation({ summary: 'Replace the global roles of a user (Super admin only)' })
   @ApiParam({ name: 'id', description: 'User ID' })
-  @ApiBody({ schema: { type: 'object', properties: { role: { type: 'string', enum: ['user', 'admin'] } } } })
-  @ApiResponse({ status: 200, description: 'User role updated successfully' })
+  @ApiBody({ type: SetUserRolesDto })
+  @ApiResponse({ status: 200, description: 'User roles updated successfully' })
+  @ApiResponse({ status: 400, description: 'Unknown role' })
   @ApiResponse({ status: 401, description: 'Not authenticated' })
-  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
-  async updateUserRole(@Param('id') id: string, @Body('role') role: UserRole) {
-    return this.usersService.updateRole(id, role);
+  @ApiResponse({ status: 403, description: 'Insufficient permissions or viewing as another user; organization admins change member roles instead' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 409, description: 'LAST_ROLE_MANAGER, or SELF_DEMOTION_UNCONFIRMED for an unconfirmed change to your own roles' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async setUserRoles(@Param('id') id: string, @Body() dto: SetUserRolesDto, @Req() request: Request) {
+    // Global roles apply in every organization, so only super admins may change them
+    this.organizationsService.assertCrossTenant(request.organizationScope);
+    const user = await this.authService.setUserRoles(id, dto.roles, getAuditActor(request), dto.confirmSelfDemotion);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  @Patch('admin/users/:id/role')
+  @UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.USERS_ROLE_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @Header('Deprecation', 'true')
+  @Header('Link', '</admin/users/{id}/roles>; rel="successor-version"')
+  @ApiCookieAuth('sessionId')
+  @ApiTags('Admin')
+  @ApiOperation({ summary: 'Give a user a single global role (deprecated, use PUT /admin/users/:id/roles)', deprecated: true })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiBody({ type: SetUserRoleDto })
+  @ApiResponse({ status: 200, description: 'User roles updated; `role` repeats the requested role for older clients' })
+  @ApiResponse({ status: 400, description: 'Unknown role' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions or viewing as another user; organization admins change member roles instead' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 409, description: 'LAST_ROLE_MANAGER, or SELF_DEMOTION_UNCONFIRMED for an unconfirmed change to your own roles' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async setUserRole(@Param('id') id: string, @Body() dto: SetUserRoleDto, @Req() request: Request) {
+    const user = await this.setUserRoles(id, { roles: [dto.role], confirmSelfDemotion: dto.confirmSelfDemotion }, request);
+    return { ...user, role: dto.role };
+  }
+
+  @Delete('admin/users/:id/lockout')
+  @UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.USERS_SECURITY_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiCookieAuth('sessionId')
+  @ApiTags('Admin')
+  @ApiOperation({ summary: 'Clear a login lockout (Admin only)' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Lockout cleared' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async unlockUser(@Param('id') id: string, @Req() request: Request) {
+    await this.organizationsService.findManageableUser(request.organizationScope, id);
+    await this.loginThrottleService.unlock(id);
+    await this.auditService.record({
+      action: AuditAction.LOCKOUT_CLEARED,
+      actor: getAuditActor(request),
+      targetId: id,
+    });
+    return { message: 'Lockout cleared' };
+  }
+
+  private async toProfile(user: User, membership?: OrganizationMembership | null, session?: Session) {
+    const impersonator = session?.data?.impersonator;
+    const roles = this.emailVerificationService.effectiveRoles(user, membership);
+    return {
+      id: user.id,
+      email: user.email,
+      roles,
+      permissions: [...await this.rbacService.getPermissions(roles)],
+      organization: membership
+        ? { id: membership.organization.id, name: membership.organization.name, role: membership.roleName }
+        : null,
+      // The admin viewing as this user, if any
+      impersonator: impersonator ? { id: impersonator.id, email: impersonator.email } : null,
+      emailVerified: this.emailVerificationService.isVerified(user),
+      twoFactorEnabled: this.twoFactorService.isEnabled(user),
+      twoFactorEnrollmentRequired: await this.twoFactorService.isEnrollmentRequired(user, roles)
+    };
   }
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { IsEmail, IsString, MinLength } from 'class-validator';
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class RegisterDto {
@@ -6,9 +6,9 @@ export class RegisterDto {
   @IsEmail()
   email: string;
 
-  @ApiProperty({ example: 'password123', description: 'User password (min 6 characters)', minLength: 6 })
+  @ApiProperty({ example: 'correct-horse-battery', description: 'User password; must satisfy the password policy (GET /auth/password-policy)' })
   @IsString()
-  @MinLength(6)
+  @IsNotEmpty()
   password: string;
 }
 
@@ -17,7 +17,63 @@ export class LoginDto {
   @IsEmail()
   email: string;
 
-  @ApiProperty({ example: 'password123', description: 'Password for both test accounts' })
+  @ApiProperty({ example: 'correct-horse-battery', description: 'Password for both test accounts' })
   @IsString()
   password: string;
+}
+
+export class ChangePasswordDto {
+  @ApiProperty({ example: 'correct-horse-battery', description: 'Current password' })
+  @IsString()
+  currentPassword: string;
+
+  @ApiProperty({ example: 'staple-lantern-42', description: 'New password; must satisfy the password policy and differ from recent ones' })
+  @IsString()
+  @IsNotEmpty()
+  newPassword: string;
+}
+
+export class ForgotPasswordDto {
+  @ApiProperty({ example: 'user@test.com', description: 'Email address of the account' })
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Token from the password reset email' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({ example: 'staple-lantern-42', description: 'New password; must satisfy the password policy and differ from recent ones' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
+
+export class VerifyEmailDto {
+  @ApiProperty({ description: 'Token from the verification email' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
+
+export class ResendVerificationDto {
+  @ApiProperty({ example: 'user@test.com', description: 'Email address to send the verification link to' })
+  @IsEmail()
+  email: string;
+}
+
+export class TwoFactorCodeDto {
+  @ApiProperty({ example: '123456', description: 'Code from the authenticator app, or a recovery code' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
+
+export class DisableTwoFactorDto {
+  @ApiProperty({ example: 'correct-horse-battery', description: 'Current password' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
 }
\ No newline at end of file
@@ -1,24 +1,89 @@
-import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
 import { AuthService } from './auth.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { SessionCookieService } from '../sessions/session-cookie.service';
+import { getClientInfo } from './client-info';
+import { API_TOKENS_METADATA } from '../api-tokens/allow-api-tokens.decorator';
+import { PERMISSIONS_METADATA } from '../rbac/require-permissions.decorator';
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i;
 
 @Injectable()
 export class AuthGuard implements CanActivate {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private reflector: Reflector,
+    private authService: AuthService,
+    private organizationsService: OrganizationsService,
+    private sessionCookieService: SessionCookieService,
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
-    const sessionId = request.cookies?.sessionId;
 
-    if (!sessionId) {
+    const bearer = BEARER_PATTERN.exec(request.headers?.authorization ?? '');
+    if (bearer) {
+      return this.authenticateApiToken(context, request, bearer[1]);
+    }
+
+    const token = this.sessionCookieService.read(request);
+
+    if (!token) {
       throw new UnauthorizedException('No session found');
     }
 
-    const user = await this.authService.validateSession(sessionId);
-    if (!user) {
+    const result = await this.authService.validateSession(token);
+    if (!result) {
       throw new UnauthorizedException('Invalid session');
     }
 
-    request.user = user;
+    // Disabling an account revokes its sessions; this also covers a suspension
+    // that was set directly in the database
+    this.authService.assertAccountActive(result.user);
+
+    const session = await this.authService.rotateIfRequired(result.session);
+    const rotated = session !== result.session;
+
+    request.user = result.user;
+    request.session = session;
+    request.membership = await this.organizationsService.getActiveMembership(result.user.id, session);
+
+    if (await this.authService.touchSession(session) || rotated) {
+      this.sessionCookieService.write(context.switchToHttp().getResponse(), session);
+    }
+
+    return true;
+  }
+
+  /**
+   * Authenticates a personal access token. Tokens have no session, so they
+   * are only accepted on routes whose permissions their scopes restrict,
+   * unless a route opts in or out with @AllowApiTokens.
+   */
+  private async authenticateApiToken(context: ExecutionContext, request: Request, token: string): Promise<boolean> {
+    const allowed = this.reflector.get<boolean>(API_TOKENS_METADATA, context.getHandler())
+      ?? !!this.reflector.get(PERMISSIONS_METADATA, context.getHandler());
+    if (!allowed) {
+      throw new ForbiddenException({
+        message: 'This endpoint requires a signed-in session',
+        code: 'API_TOKEN_NOT_ALLOWED',
+      });
+    }
+
+    const result = await this.authService.validateApiToken(token, getClientInfo(request));
+    if (!result) {
+      throw new UnauthorizedException('Invalid API token');
+    }
+    this.authService.assertAccountActive(result.user);
+
+    request.user = result.user;
+    request.apiToken = result.apiToken;
+    // Tokens stay in the organisation they were created in
+    request.membership = result.apiToken.organizationId
+      ? await this.organizationsService.getMembership(result.user.id, result.apiToken.organizationId)
+      : null;
+
     return true;
   }
 }
\ No newline at end of file
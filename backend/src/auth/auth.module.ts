@@ -1,17 +1,96 @@
 import { Module } from '@nestjs/common';
-import { TypeOrmModule } from '@nestjs/typeorm';
+import type { ConfigType } from '@nestjs/config';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { UsersModule } from '../users/users.module';
-import { SessionService } from '../sessions/session.service';
-import { Session } from '../sessions/session.entity';
+import { SessionsModule } from '../sessions/sessions.module';
+import { SessionsController } from '../sessions/sessions.controller';
+import { MailModule } from '../mail/mail.module';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
+import { AuditModule } from '../audit/audit.module';
+import { AuditController } from '../audit/audit.controller';
+import { RbacModule } from '../rbac/rbac.module';
+import { RolesController } from '../rbac/roles.controller';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { OrganizationsController } from '../organizations/organizations.controller';
+import { UsersController } from '../users/users.controller';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { ApiTokensController } from '../api-tokens/api-tokens.controller';
+import { OidcModule } from '../oidc/oidc.module';
+import { OidcController } from '../oidc/oidc.controller';
+import { InvitationsModule } from '../invitations/invitations.module';
+import { InvitationsController } from '../invitations/invitations.controller';
+import { SetupModule } from '../setup/setup.module';
+import { PasswordResetService } from './password-reset.service';
+import { EmailVerificationService } from './email-verification.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import { PasswordResetToken } from './password-reset-token.entity';
+import { LoginThrottleService } from './login-throttle.service';
+import { LoginAttempt } from './login-attempts/login-attempt.entity';
+import { LoginAttemptStore } from './login-attempts/login-attempt-store';
+import { PostgresLoginAttemptStore } from './login-attempts/postgres-login-attempt.store';
+import { MemoryLoginAttemptStore } from './login-attempts/memory-login-attempt.store';
+import authConfig from './auth.config';
+import { CsrfService } from './csrf.service';
+import { CsrfGuard } from './csrf.guard';
+import { ImpersonationService } from './impersonation.service';
+import { NoImpersonationGuard } from './impersonation.guard';
 import { AuthGuard } from './auth.guard';
 import { RolesGuard } from './roles.guard';
+import { PermissionsGuard } from './permissions.guard';
+import { OrganizationScopeGuard } from './organization-scope.guard';
 
 @Module({
-  imports: [UsersModule, TypeOrmModule.forFeature([Session])],
-  controllers: [AuthController],
-  providers: [AuthService, SessionService, AuthGuard, RolesGuard],
-  exports: [AuthService, AuthGuard, RolesGuard]
+  imports: [
+    UsersModule,
+    SessionsModule,
+    MailModule,
+    RateLimitModule,
+    AuditModule,
+    RbacModule,
+    OrganizationsModule,
+    ApiTokensModule,
+    OidcModule,
+    InvitationsModule,
+    SetupModule,
+    TypeOrmModule.forFeature([PasswordResetToken, LoginAttempt])
+  ],
+  controllers: [AuthController, TwoFactorController, SessionsController, AuditController, RolesController, OrganizationsController, UsersController, ApiTokensController, OidcController, InvitationsController],
+  providers: [
+    AuthService,
+    PasswordResetService,
+    EmailVerificationService,
+    TwoFactorService,
+    LoginThrottleService,
+    ImpersonationService,
+    {
+      provide: LoginAttemptStore,
+      inject: [authConfig.KEY, getRepositoryToken(LoginAttempt)],
+      useFactory: (
+        config: ConfigType<typeof authConfig>,
+        repository: Repository<LoginAttempt>,
+      ): LoginAttemptStore => {
+        switch (config.loginAttemptStore) {
+          case 'memory':
+            return new MemoryLoginAttemptStore();
+          case 'postgres':
+            return new PostgresLoginAttemptStore(repository);
+          default:
+            throw new Error(`Unknown LOGIN_ATTEMPT_STORE "${config.loginAttemptStore}"`);
+        }
+      },
+    },
+    CsrfService,
+    AuthGuard,
+    CsrfGuard,
+    NoImpersonationGuard,
+    RolesGuard,
+    PermissionsGuard,
+    OrganizationScopeGuard
+  ],
+  exports: [AuthService, EmailVerificationService, TwoFactorService, CsrfService, AuthGuard, CsrfGuard, NoImpersonationGuard, RolesGuard, PermissionsGuard, OrganizationScopeGuard]
 })
 export class AuthModule {}
\ No newline at end of file
@@ -0,0 +1,350 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { BadRequestException, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { AuthService } from './auth.service';
+import { EmailVerificationService } from './email-verification.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { SessionService } from '../sessions/session.service';
+import sessionConfig from '../sessions/session.config';
+import { MemorySessionStore } from '../sessions/stores/memory-session.store';
+import { UsersService } from '../users/users.service';
+import { RegistrationPolicyService } from '../users/registration-policy.service';
+import { User, UserStatus } from '../users/user.entity';
+import { Role } from '../rbac/role.entity';
+import { AuditEventInput, AuditService } from '../audit/audit.service';
+import { ApiTokensService } from '../api-tokens/api-tokens.service';
+import { ApiToken } from '../api-tokens/api-token.entity';
+import { InvitationsService } from '../invitations/invitations.service';
+import { SetupService } from '../setup/setup.service';
+import authConfig from './auth.config';
+import { AuditAction } from '../audit/audit-action';
+import { partialMock } from '../testing/partial-mock';
+
+const PASSWORD = 'correct horse battery';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let sessionService: SessionService;
+  let user: User;
+  let passwordChanges: string[];
+  let twoFactorCode: string;
+  let throttle: string[];
+  let audited: AuditEventInput[];
+
+  beforeEach(() => {
+    user = Object.assign(new User(), {
+      id: 'user-1',
+      email: 'user-1@example.com',
+      password: `hashed:${PASSWORD}`,
+      roles: [{ name: 'user' }] as Role[],
+      status: UserStatus.ACTIVE,
+      emailVerifiedAt: new Date(),
+      twoFactorEnabledAt: null,
+      lockedUntil: null,
+    });
+    passwordChanges = [];
+    twoFactorCode = '123456';
+    throttle = [];
+    audited = [];
+
+    sessionService = new SessionService(new MemorySessionStore(), {
+      idleTimeoutMs: 30 * 60 * 1000,
+      absoluteTimeoutMs: 24 * 60 * 60 * 1000,
+      touchIntervalMs: 60 * 1000,
+      privilegeChangePolicy: 'rotate',
+      limits: {},
+      defaultLimit: 5,
+    } as ConfigType<typeof sessionConfig>);
+
+    const usersService = partialMock<UsersService>({
+      findByEmail: async (email: string) => (email === user.email ? user : null),
+      findById: async (id: string) => (id === user.id ? user : null),
+      validatePassword: async (password: string, hash: string) => hash === `hashed:${password}`,
+      upgradePasswordHash: async () => {},
+      updatePassword: async (id: string) => { passwordChanges.push(id); },
+      setRoles: async (id: string, roles: string[]) => {
+        user.roles = roles.map(name => ({ name }) as Role);
+        return user;
+      },
+      isActive: (candidate: User) => candidate.status === UserStatus.ACTIVE,
+      disable: async (id: string) => (id === user.id ? user : null),
+    });
+
+    const emailVerificationService = partialMock<EmailVerificationService>({
+      blocksLogin: (candidate: User) => !candidate.emailVerifiedAt,
+    });
+
+    const twoFactorService = partialMock<TwoFactorService>({
+      isEnabled: (candidate: User) => !!candidate.twoFactorEnabledAt,
+      verify: async (_candidate: User, code: string) => code === twoFactorCode,
+      challengeLifetimeMs: 5 * 60 * 1000,
+    });
+
+    const loginThrottleService = partialMock<LoginThrottleService>({
+      assertAllowed: async () => {},
+      assertNotLocked: (candidate: User) => {
+        if (candidate.lockedUntil) throw new UnauthorizedException('Locked');
+      },
+      recordFailure: async (email: string) => { throttle.push(`failure:${email}`); },
+      recordSuccess: async (email: string) => { throttle.push(`success:${email}`); },
+    });
+
+    const auditService = partialMock<AuditService>({
+      record: async (event: AuditEventInput) => { audited.push(event); },
+    });
+
+    const apiTokensService = partialMock<ApiTokensService>({
+      authenticate: async (token: string) =>
+        token === 'pat_valid' ? Object.assign(new ApiToken(), { id: 'token-1', userId: user.id }) : null,
+    });
+
+    const invitationsService = partialMock<InvitationsService>({
+      accept: async (token: string) => {
+        if (token !== 'invitation-token') throw new BadRequestException('Invalid or expired invitation');
+        return user;
+      },
+    });
+
+    const setupService = partialMock<SetupService>({
+      complete: async (token: string) => {
+        if (token !== 'setup-token') throw new UnauthorizedException({ code: 'INVALID_SETUP_TOKEN' });
+        return user;
+      },
+    });
+    const registrationPolicyService = new RegistrationPolicyService({
+      registration: { mode: 'invite-only', allowedDomains: [] },
+    } as ConfigType<typeof authConfig>);
+
+    service = new AuthService(
+      usersService,
+      sessionService,
+      emailVerificationService,
+      twoFactorService,
+      loginThrottleService,
+      auditService,
+      apiTokensService,
+      invitationsService,
+      setupService,
+      registrationPolicyService,
+    );
+  });
+
+  describe('login', () => {
+    it('issues a session for valid credentials', async () => {
+      const { session } = await service.login(user.email, PASSWORD);
+
+      expect((await service.validateSession(session.token)).user.id).toBe(user.id);
+      expect(throttle).toEqual([`success:${user.email}`]);
+      expect(audited.map(event => event.action)).toEqual([AuditAction.LOGIN_SUCCEEDED]);
+    });
+
+    it('destroys the session presented before signing in', async () => {
+      const { session: previous } = await service.login(user.email, PASSWORD);
+
+      const { session } = await service.login(user.email, PASSWORD, undefined, previous.token);
+
+      expect(session.id).not.toBe(previous.id);
+      expect(await service.validateSession(previous.token)).toBeNull();
+    });
+
+    it('counts wrong passwords and unknown emails as failures alike', async () => {
+      await expect(service.login(user.email, 'wrong password')).rejects.toThrow('Invalid credentials');
+      await expect(service.login('nobody@example.com', PASSWORD)).rejects.toThrow('Invalid credentials');
+
+      expect(throttle).toEqual([`failure:${user.email}`, 'failure:nobody@example.com']);
+      expect(audited.map(event => event.action)).toEqual([AuditAction.LOGIN_FAILED, AuditAction.LOGIN_FAILED]);
+    });
+
+    it('refuses locked accounts before checking the password', async () => {
+      user.lockedUntil = new Date(Date.now() + 60 * 1000);
+
+      await expect(service.login(user.email, PASSWORD)).rejects.toThrow('Locked');
+      expect(throttle).toEqual([]);
+    });
+
+    it('treats deleted accounts like unknown ones', async () => {
+      user.status = UserStatus.DELETED;
+
+      await expect(service.login(user.email, PASSWORD)).rejects.toThrow('Invalid credentials');
+      expect(audited[0].metadata).toEqual({ reason: 'account_deleted' });
+    });
+
+    it('tells disabled accounts why they cannot sign in', async () => {
+      user.status = UserStatus.DISABLED;
+
+      await expect(service.login(user.email, PASSWORD)).rejects.toThrow(ForbiddenException);
+      expect(audited[0].metadata).toEqual({ reason: 'account_disabled' });
+    });
+
+    it('holds back unverified accounts when the policy blocks them', async () => {
+      user.emailVerifiedAt = null;
+
+      await expect(service.login(user.email, PASSWORD)).rejects.toThrow(ForbiddenException);
+      expect(audited[0].metadata).toEqual({ reason: 'email_not_verified' });
+    });
+  });
+
+  describe('role changes', () => {
+    it('rotates the user\'s sessions on their next request', async () => {
+      const { session } = await service.login(user.email, PASSWORD);
+
+      await service.setUserRoles(user.id, ['user', 'admin']);
+      const { session: flagged } = await service.validateSession(session.token);
+      const rotated = await service.rotateIfRequired(flagged);
+
+      expect(rotated.id).not.toBe(session.id);
+      expect(await service.validateSession(session.token)).toBeNull();
+      expect(await service.rotateIfRequired(rotated)).toBe(rotated);
+    });
+  });
+
+  describe('loginWithSso', () => {
+    it('applies the same account checks as a password login', async () => {
+      const { session } = await service.loginWithSso(user, 'corp');
+      expect((await service.validateSession(session.token)).user.id).toBe(user.id);
+      expect(audited[0]).toMatchObject({ action: AuditAction.LOGIN_SUCCEEDED, metadata: { sso: 'corp' } });
+
+      user.status = UserStatus.DISABLED;
+      await expect(service.loginWithSso(user, 'corp')).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('register', () => {
+    it('asks the registration policy before anything else', async () => {
+      await expect(service.register('new@example.com', PASSWORD)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('completeSetup', () => {
+    it('signs the first super admin in', async () => {
+      const { session } = await service.completeSetup('setup-token', user.email, PASSWORD);
+
+      expect((await service.validateSession(session.token)).user.id).toBe(user.id);
+      expect(audited[audited.length - 1]).toMatchObject({ metadata: { setup: true } });
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('signs the new account in and drops the session presented before', async () => {
+      const { session: previous } = await service.login(user.email, PASSWORD);
+
+      const { session } = await service.acceptInvitation('invitation-token', PASSWORD, undefined, previous.token);
+
+      expect((await service.validateSession(session.token)).user.id).toBe(user.id);
+      expect(await service.validateSession(previous.token)).toBeNull();
+      expect(audited[audited.length - 1]).toMatchObject({ action: AuditAction.LOGIN_SUCCEEDED, metadata: { invitation: true } });
+    });
+  });
+
+  describe('two-factor login', () => {
+    beforeEach(() => {
+      user.twoFactorEnabledAt = new Date();
+    });
+
+    it('hands out a challenge that does not authenticate requests', async () => {
+      const { session, twoFactorRequired } = await service.login(user.email, PASSWORD);
+
+      expect(twoFactorRequired).toBe(true);
+      expect(await service.validateSession(session.token)).toBeNull();
+      expect(audited).toEqual([]);
+    });
+
+    it('replaces the challenge with a session once the code is verified', async () => {
+      const { session: challenge } = await service.login(user.email, PASSWORD);
+
+      const { session } = await service.verifyTwoFactor(challenge.token, twoFactorCode);
+
+      expect(session.id).not.toBe(challenge.id);
+      expect((await service.validateSession(session.token)).user.id).toBe(user.id);
+      expect(await sessionService.getSession(challenge.id)).toBeNull();
+    });
+
+    it('does not accept a regular session as a challenge', async () => {
+      user.twoFactorEnabledAt = null;
+      const { session } = await service.login(user.email, PASSWORD);
+
+      await expect(service.verifyTwoFactor(session.token, twoFactorCode)).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('ends the challenge after five wrong codes', async () => {
+      const { session: challenge } = await service.login(user.email, PASSWORD);
+
+      for (let i = 0; i < 4; i++) {
+        await expect(service.verifyTwoFactor(challenge.token, '000000')).rejects.toThrow('Invalid authentication code');
+      }
+      await expect(service.verifyTwoFactor(challenge.token, '000000')).rejects.toThrow('Too many invalid codes');
+
+      await expect(service.verifyTwoFactor(challenge.token, twoFactorCode)).rejects.toThrow('No pending two-factor login');
+    });
+
+    it('counts wrong codes sent in parallel one by one', async () => {
+      const { session: challenge } = await service.login(user.email, PASSWORD);
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 5 }, () => service.verifyTwoFactor(challenge.token, '000000')),
+      );
+
+      expect(results.every(result => result.status === 'rejected')).toBe(true);
+      expect(await sessionService.getSession(challenge.id)).toBeNull();
+    });
+
+    it('refuses accounts disabled while the challenge was pending', async () => {
+      const { session: challenge } = await service.login(user.email, PASSWORD);
+      user.status = UserStatus.DISABLED;
+
+      await expect(service.verifyTwoFactor(challenge.token, twoFactorCode)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('changePassword', () => {
+    it('revokes other sessions and rotates the current one', async () => {
+      const { session: current } = await service.login(user.email, PASSWORD);
+      const { session: other } = await service.login(user.email, PASSWORD);
+
+      const rotated = await service.changePassword(user, current, PASSWORD, 'a new passphrase');
+
+      expect(passwordChanges).toEqual([user.id]);
+      expect(await service.validateSession(other.token)).toBeNull();
+      expect(await service.validateSession(current.token)).toBeNull();
+      expect((await service.validateSession(rotated.token)).user.id).toBe(user.id);
+    });
+
+    it('requires the current password', async () => {
+      const { session } = await service.login(user.email, PASSWORD);
+
+      await expect(service.changePassword(user, session, 'wrong password', 'a new passphrase')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(passwordChanges).toEqual([]);
+    });
+  });
+
+  describe('validateApiToken', () => {
+    it('resolves a live token to its owner', async () => {
+      const result = await service.validateApiToken('pat_valid');
+
+      expect(result.user.id).toBe(user.id);
+      expect(result.apiToken.id).toBe('token-1');
+      expect(await service.validateApiToken('pat_revoked')).toBeNull();
+    });
+  });
+
+  describe('administration', () => {
+    it('signs disabled accounts out everywhere', async () => {
+      const { session } = await service.login(user.email, PASSWORD);
+
+      await service.disableUser(user.id, 'testing', null);
+
+      expect(await service.validateSession(session.token)).toBeNull();
+    });
+
+    it('reports how many sessions a forced logout revoked', async () => {
+      await service.login(user.email, PASSWORD);
+      await service.login(user.email, PASSWORD);
+
+      expect(await service.forceLogout(user.id)).toBe(2);
+      expect(audited[audited.length - 1]).toMatchObject({ action: AuditAction.SESSIONS_REVOKED, metadata: { count: 2 } });
+    });
+  });
+});
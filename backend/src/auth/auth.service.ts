@@ -1,42 +1,375 @@
-import { Injectable, UnauthorizedException, ConflictException } from '@nestjs/common';
+import { Injectable, UnauthorizedException, ConflictException, BadRequestException, ForbiddenException } from '@nestjs/common';
 import { UsersService } from '../users/users.service';
 import { SessionService } from '../sessions/session.service';
-import { User } from '../users/user.entity';
+import { Session } from '../sessions/session.entity';
+import { User, UserStatus } from '../users/user.entity';
+import { ClientInfo } from './client-info';
+import { EmailVerificationService } from './email-verification.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { AuditActor } from '../audit/audit-actor';
+import { ApiTokensService } from '../api-tokens/api-tokens.service';
+import { ApiToken } from '../api-tokens/api-token.entity';
+import { InvitationsService } from '../invitations/invitations.service';
+import { SetupService } from '../setup/setup.service';
+import { RegistrationPolicyService } from '../users/registration-policy.service';
+
+const TWO_FACTOR_CHALLENGE = 'two-factor';
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+export interface LoginResult {
+  user: User;
+  session: Session;
+  // When true the session is only a pending challenge and must be completed
+  // through verifyTwoFactor before it authenticates anything.
+  twoFactorRequired: boolean;
+}
 
 @Injectable()
 export class AuthService {
   constructor(
     private usersService: UsersService,
     private sessionService: SessionService,
+    private emailVerificationService: EmailVerificationService,
+    private twoFactorService: TwoFactorService,
+    private loginThrottleService: LoginThrottleService,
+    private auditService: AuditService,
+    private apiTokensService: ApiTokensService,
+    private invitationsService: InvitationsService,
+    private setupService: SetupService,
+    private registrationPolicyService: RegistrationPolicyService,
   ) {}
 
-  async register(email: string, password: string): Promise<User> {
+  /**
+   * Creates an account on behalf of an admin. The admin supplied the address,
+   * so no verification email is sent.
+   */
+  async createUser(email: string, password: string, roles: string[] | undefined, actor?: AuditActor): Promise<User> {
+    if (await this.usersService.findByEmail(email)) {
+      throw new ConflictException('Email already exists');
+    }
+    return this.usersService.create(email, password, actor, { roles, emailVerified: true });
+  }
+
+  async register(email: string, password: string, client?: ClientInfo): Promise<User> {
+    this.registrationPolicyService.assertSelfRegistrationAllowed(email);
     const existingUser = await this.usersService.findByEmail(email);
     if (existingUser) {
       throw new ConflictException('Email already exists');
     }
     
-    return this.usersService.create(email, password);
+    const user = await this.usersService.create(email, password, client);
+    await this.emailVerificationService.sendVerification(user);
+    return user;
   }
 
-  async login(email: string, password: string): Promise<{ user: User; sessionId: string }> {
+  /**
+   * Authenticates and always issues a brand-new session token. Any session the
+   * client presented beforehand is destroyed, which defeats session fixation.
+   * Failed guesses are throttled per email and per IP, and can lock the account.
+   */
+  async login(
+    email: string,
+    password: string,
+    client?: ClientInfo,
+    previousToken?: string,
+  ): Promise<LoginResult> {
+    await this.loginThrottleService.assertAllowed(email, client);
+
     const user = await this.usersService.findByEmail(email);
+    if (user) {
+      this.loginThrottleService.assertNotLocked(user);
+    }
+
     if (!user || !await this.usersService.validatePassword(password, user.password)) {
+      await this.auditService.record({
+        action: AuditAction.LOGIN_FAILED,
+        actor: { id: user?.id, email, ...client },
+        metadata: { reason: 'invalid_credentials' },
+      });
+      await this.loginThrottleService.recordFailure(email, user, client);
       throw new UnauthorizedException('Invalid credentials');
     }
+    await this.loginThrottleService.recordSuccess(email, user);
+    await this.usersService.upgradePasswordHash(user, password);
 
-    const sessionId = await this.sessionService.createSession(user.id);
-    return { user, sessionId };
+    return this.startSession(user, client, previousToken);
+  }
+
+  /**
+   * Signs in a user whose identity an external OpenID Connect provider has
+   * vouched for. Account status, email verification and local two-factor
+   * authentication apply exactly as for a password login.
+   */
+  async loginWithSso(
+    user: User,
+    provider: string,
+    client?: ClientInfo,
+    previousToken?: string,
+  ): Promise<LoginResult> {
+    return this.startSession(user, client, previousToken, { sso: provider });
+  }
+
+  /**
+   * Creates the account an invitation offers and signs its new owner in.
+   * The invitation proves the address, so no verification email is sent.
+   */
+  async acceptInvitation(
+    token: string,
+    password: string,
+    client?: ClientInfo,
+    previousToken?: string,
+  ): Promise<LoginResult> {
+    const user = await this.invitationsService.accept(token, password, client);
+    return this.startSession(user, client, previousToken, { invitation: true });
+  }
+
+  /** Creates the first super admin of a fresh install and signs them in. */
+  async completeSetup(
+    token: string,
+    email: string,
+    password: string,
+    client?: ClientInfo,
+    previousToken?: string,
+  ): Promise<LoginResult> {
+    const user = await this.setupService.complete(token, email, password, client);
+    return this.startSession(user, client, previousToken, { setup: true });
+  }
+
+  /**
+   * Completes a login that is waiting for its second factor. The pending
+   * challenge is replaced by a regular session under a new ID.
+   */
+  async verifyTwoFactor(
+    challengeToken: string,
+    code: string,
+    client?: ClientInfo,
+  ): Promise<{ user: User; session: Session }> {
+    const challenge = await this.sessionService.getSessionByToken(challengeToken);
+    if (!challenge || challenge.data?.challenge !== TWO_FACTOR_CHALLENGE) {
+      throw new UnauthorizedException('No pending two-factor login, please sign in again');
+    }
+
+    const user = await this.usersService.findById(challenge.userId);
+    if (!user || !await this.twoFactorService.verify(user, code)) {
+      await this.auditService.record({ action: AuditAction.TWO_FACTOR_FAILED, actor: this.actor(user, client) });
+      // Counted atomically so parallel guesses cannot share one attempt
+      const attempts = await this.sessionService.incrementSessionData(challenge, 'attempts');
+      if (attempts === null || attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+        await this.sessionService.destroySession(challenge.id);
+        throw new UnauthorizedException('Too many invalid codes, please sign in again');
+      }
+
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    // The account may have been disabled between the password and the code
+    this.assertAccountActive(user);
+
+    await this.sessionService.destroySession(challenge.id);
+    const session = await this.sessionService.createSession(user, client);
+    await this.auditService.record({
+      action: AuditAction.LOGIN_SUCCEEDED,
+      actor: this.actor(user, client),
+      metadata: { twoFactor: true },
+    });
+    return { user, session };
+  }
+
+  /**
+   * Changes the password of a signed-in user. Every other session is revoked
+   * and the current one is rotated, so only the caller stays logged in.
+   */
+  async changePassword(
+    user: User,
+    session: Session,
+    currentPassword: string,
+    newPassword: string,
+    client?: ClientInfo,
+  ): Promise<Session> {
+    if (!await this.usersService.validatePassword(currentPassword, user.password)) {
+      throw new BadRequestException('Current password is incorrect');
+    }
+
+    await this.usersService.updatePassword(user.id, newPassword);
+    await this.sessionService.destroyOtherSessions(user.id, session.id);
+    await this.auditService.record({ action: AuditAction.PASSWORD_CHANGED, actor: this.actor(user, client) });
+    return this.sessionService.rotateSession(session);
   }
 
   async logout(sessionId: string): Promise<void> {
     await this.sessionService.destroySession(sessionId);
   }
 
-  async validateSession(sessionId: string): Promise<User | null> {
-    const session = await this.sessionService.getSession(sessionId);
-    if (!session) return null;
+  async validateSession(token: string): Promise<{ user: User; session: Session } | null> {
+    const session = await this.sessionService.getSessionByToken(token);
+    if (!session || session.data?.challenge) return null;
+
+    const user = await this.usersService.findById(session.userId);
+    if (!user) return null;
+
+    return { user, session };
+  }
+
+  async validateApiToken(token: string, client?: ClientInfo): Promise<{ user: User; apiToken: ApiToken } | null> {
+    const apiToken = await this.apiTokensService.authenticate(token, client);
+    if (!apiToken) return null;
+
+    const user = await this.usersService.findById(apiToken.userId);
+    if (!user) return null;
+
+    return { user, apiToken };
+  }
+
+  /** Rejects requests and logins of disabled or deleted accounts. */
+  assertAccountActive(user: User): void {
+    if (this.usersService.isActive(user)) return;
+
+    if (user.status === UserStatus.DELETED) {
+      throw new UnauthorizedException({ message: 'This account has been deleted', code: 'ACCOUNT_DELETED' });
+    }
+    throw new ForbiddenException({
+      message: user.disabledUntil
+        ? `This account is suspended until ${user.disabledUntil.toISOString()}`
+        : 'This account has been disabled',
+      code: 'ACCOUNT_DISABLED',
+      disabledUntil: user.disabledUntil,
+    });
+  }
+
+  async touchSession(session: Session): Promise<boolean> {
+    if (!await this.sessionService.touchSession(session)) {
+      return false;
+    }
+
+    // An admin viewing as another user is still active in their own session
+    const impersonator = this.sessionService.getImpersonator(session);
+    const adminSession = impersonator && await this.sessionService.getSession(impersonator.sessionId);
+    if (adminSession) {
+      await this.sessionService.touchSession(adminSession);
+    }
+    return true;
+  }
+
+  /**
+   * Returns the session to keep using for this request: a freshly rotated one
+   * if the user's privileges changed since it was issued, otherwise the same.
+   */
+  async rotateIfRequired(session: Session): Promise<Session> {
+    if (!this.sessionService.needsRotation(session)) {
+      return session;
+    }
+    return this.sessionService.rotateSession(session);
+  }
+
+  async setUserRoles(id: string, roles: string[], actor?: AuditActor, confirmSelfDemotion?: boolean): Promise<User | null> {
+    const user = await this.usersService.setRoles(id, roles, actor, confirmSelfDemotion);
+    if (user) {
+      await this.sessionService.handlePrivilegeChange(user.id);
+    }
+    return user;
+  }
+
+  /** Disables the account and signs it out everywhere. */
+  async disableUser(id: string, reason: string | null, until: Date | null, actor?: AuditActor): Promise<User | null> {
+    const user = await this.usersService.disable(id, reason, until, actor);
+    if (user) {
+      await this.sessionService.destroyAllUserSessions(id);
+    }
+    return user;
+  }
+
+  async enableUser(id: string, actor?: AuditActor): Promise<User | null> {
+    return this.usersService.enable(id, actor);
+  }
+
+  /** Soft-deletes the account and signs it out everywhere. */
+  async deleteUser(id: string, reason: string | null, actor?: AuditActor): Promise<User | null> {
+    const user = await this.usersService.softDelete(id, reason, actor);
+    if (user) {
+      await this.sessionService.destroyAllUserSessions(id);
+    }
+    return user;
+  }
+
+  async restoreUser(id: string, actor?: AuditActor): Promise<User | null> {
+    return this.usersService.restore(id, actor);
+  }
+
+  /** Revokes every session of the user; returns how many there were. */
+  async forceLogout(id: string, actor?: AuditActor): Promise<number> {
+    const revoked = await this.sessionService.destroyAllUserSessions(id);
+    await this.auditService.record({
+      action: AuditAction.SESSIONS_REVOKED,
+      actor,
+      targetId: id,
+      metadata: { scope: 'all', count: revoked },
+    });
+    return revoked;
+  }
+
+  /**
+   * Issues a session, or a two-factor challenge, for a user whose identity
+   * has been established. Refuses accounts that may not sign in.
+   */
+  private async startSession(
+    user: User,
+    client?: ClientInfo,
+    previousToken?: string,
+    metadata?: Record<string, unknown>,
+  ): Promise<LoginResult> {
+    // Deleted accounts look like unknown ones; disabled accounts learn why they cannot sign in
+    if (user.status === UserStatus.DELETED) {
+      await this.auditService.record({
+        action: AuditAction.LOGIN_FAILED,
+        actor: this.actor(user, client),
+        metadata: { ...metadata, reason: 'account_deleted' },
+      });
+      throw new UnauthorizedException('Invalid credentials');
+    }
+    if (!this.usersService.isActive(user)) {
+      await this.auditService.record({
+        action: AuditAction.LOGIN_FAILED,
+        actor: this.actor(user, client),
+        metadata: { ...metadata, reason: 'account_disabled' },
+      });
+      this.assertAccountActive(user);
+    }
+
+    if (this.emailVerificationService.blocksLogin(user)) {
+      await this.auditService.record({
+        action: AuditAction.LOGIN_FAILED,
+        actor: this.actor(user, client),
+        metadata: { ...metadata, reason: 'email_not_verified' },
+      });
+      throw new ForbiddenException({
+        message: 'Please verify your email address before signing in',
+        code: 'EMAIL_NOT_VERIFIED',
+      });
+    }
+
+    if (previousToken) {
+      await this.sessionService.destroySessionByToken(previousToken);
+    }
+
+    if (this.twoFactorService.isEnabled(user)) {
+      const challenge = await this.sessionService.createChallengeSession(
+        user,
+        TWO_FACTOR_CHALLENGE,
+        this.twoFactorService.challengeLifetimeMs,
+        client,
+      );
+      return { user, session: challenge, twoFactorRequired: true };
+    }
+
+    const session = await this.sessionService.createSession(user, client);
+    await this.auditService.record({ action: AuditAction.LOGIN_SUCCEEDED, actor: this.actor(user, client), metadata });
+    return { user, session, twoFactorRequired: false };
+  }
 
-    return this.usersService.findById(session.userId);
+  private actor(user: User | null, client?: ClientInfo): AuditActor {
+    return { id: user?.id, email: user?.email, ...client };
   }
 }
\ No newline at end of file
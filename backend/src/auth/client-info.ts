@@ -0,0 +1,13 @@
+import type { Request } from 'express';
+
+export interface ClientInfo {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export function getClientInfo(request: Request): ClientInfo {
+  return {
+    ipAddress: request.ip || request.socket?.remoteAddress || null,
+    userAgent: request.get('user-agent') || null,
+  };
+}
@@ -0,0 +1,33 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import type { Request } from 'express';
+import { CsrfService } from './csrf.service';
+
+export const CSRF_HEADER = 'x-csrf-token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Requires a valid CSRF token on state-changing requests. Must run after
+ * AuthGuard, since the token is checked against the request's session.
+ */
+@Injectable()
+export class CsrfGuard implements CanActivate {
+  constructor(private csrfService: CsrfService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    // Browsers never attach bearer tokens on their own, so they cannot be forged cross-site
+    if (SAFE_METHODS.includes(request.method) || request.apiToken) {
+      return true;
+    }
+
+    if (!request.session || !this.csrfService.isValid(request.session, request.get(CSRF_HEADER))) {
+      throw new ForbiddenException({
+        message: 'Missing or invalid CSRF token',
+        code: 'CSRF_TOKEN_INVALID',
+      });
+    }
+
+    return true;
+  }
+}
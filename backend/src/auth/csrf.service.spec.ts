@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import type { ConfigType } from '@nestjs/config';
+import { CsrfService } from './csrf.service';
+import { SessionService } from '../sessions/session.service';
+import sessionConfig from '../sessions/session.config';
+import { MemorySessionStore } from '../sessions/stores/memory-session.store';
+import { Session } from '../sessions/session.entity';
+import { User } from '../users/user.entity';
+
+describe('CsrfService', () => {
+  let sessionService: SessionService;
+  let service: CsrfService;
+  let session: Session;
+
+  beforeEach(async () => {
+    sessionService = new SessionService(new MemorySessionStore(), {
+      idleTimeoutMs: 30 * 60 * 1000,
+      absoluteTimeoutMs: 24 * 60 * 60 * 1000,
+      privilegeChangePolicy: 'rotate',
+      limits: {},
+      defaultLimit: 5,
+    } as ConfigType<typeof sessionConfig>);
+    service = new CsrfService(sessionService);
+
+    const user = Object.assign(new User(), { id: 'user-1', roles: [] });
+    session = await sessionService.createSession(user);
+  });
+
+  it('issues one token per session and keeps it', async () => {
+    const token = await service.getToken(session);
+
+    expect(await service.getToken(session)).toBe(token);
+    expect(await service.getToken(await sessionService.getSession(session.id))).toBe(token);
+  });
+
+  it('accepts only the session\'s own token', async () => {
+    const token = await service.getToken(session);
+    const other = await sessionService.createSession(Object.assign(new User(), { id: 'user-2', roles: [] }));
+    const otherToken = await service.getToken(other);
+
+    expect(service.isValid(session, token)).toBe(true);
+    expect(service.isValid(session, otherToken)).toBe(false);
+    expect(service.isValid(session, token.slice(1))).toBe(false);
+    expect(service.isValid(session, undefined)).toBe(false);
+  });
+
+  it('rejects everything until a token has been issued', () => {
+    expect(service.isValid(session, '')).toBe(false);
+    expect(service.isValid(session, 'anything')).toBe(false);
+  });
+
+  it('keeps the token across a session rotation', async () => {
+    const token = await service.getToken(session);
+
+    const rotated = await sessionService.rotateSession(session);
+
+    expect(service.isValid(rotated, token)).toBe(true);
+  });
+});
@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { SessionService } from '../sessions/session.service';
+import { Session } from '../sessions/session.entity';
+import { generateToken } from './tokens';
+
+/**
+ * Synchronizer-token CSRF protection. Each session carries its own secret
+ * token in its data; the client must echo it back in a header on every
+ * state-changing request, which a cross-site page cannot do.
+ */
+@Injectable()
+export class CsrfService {
+  constructor(private sessionService: SessionService) {}
+
+  /** Returns the session's token, issuing one on first use. */
+  async getToken(session: Session): Promise<string> {
+    if (session.data?.csrfToken) {
+      return session.data.csrfToken;
+    }
+
+    const csrfToken = generateToken();
+    await this.sessionService.updateSessionData(session, { csrfToken });
+    return csrfToken;
+  }
+
+  isValid(session: Session, token: string | undefined): boolean {
+    const expected = session.data?.csrfToken;
+    if (!expected || !token) return false;
+
+    const a = Buffer.from(expected);
+    const b = Buffer.from(token);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
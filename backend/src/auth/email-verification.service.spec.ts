@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { BadRequestException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { EmailVerificationService } from './email-verification.service';
+import authConfig, { EmailVerificationPolicy } from './auth.config';
+import { MemoryMailer } from '../mail/drivers/memory.mailer';
+import { UsersService } from '../users/users.service';
+import { User, UserRole } from '../users/user.entity';
+import { Role } from '../rbac/role.entity';
+import { partialMock } from '../testing/partial-mock';
+
+describe('EmailVerificationService', () => {
+  let mailer: MemoryMailer;
+  let user: User;
+
+  function createService(
+    emailVerificationPolicy: EmailVerificationPolicy = 'restricted',
+    emailVerificationTtlMs = 60 * 60 * 1000,
+  ): EmailVerificationService {
+    const usersService = partialMock<UsersService>({
+      findByEmail: async (email: string) => (email === user.email ? user : null),
+      findById: async (id: string) => (id === user.id ? user : null),
+      markEmailVerified: async () => { user.emailVerifiedAt = new Date(); },
+    });
+    const config = {
+      frontendUrl: 'http://localhost:3000',
+      emailVerificationPolicy,
+      emailVerificationSecret: 'test-secret',
+      emailVerificationTtlMs,
+    } as ConfigType<typeof authConfig>;
+    return new EmailVerificationService(usersService, mailer, config);
+  }
+
+  function sentToken(): string {
+    return new URL(mailer.lastTo(user.email).text.match(/http\S+/)[0]).searchParams.get('token');
+  }
+
+  beforeEach(() => {
+    mailer = new MemoryMailer('noreply@example.com');
+    user = Object.assign(new User(), {
+      id: 'user-1',
+      email: 'user-1@example.com',
+      roles: [{ name: UserRole.ADMIN }, { name: 'auditor' }] as Role[],
+      emailVerifiedAt: null,
+    });
+  });
+
+  it('verifies the address the link was sent to', async () => {
+    const service = createService();
+    await service.sendVerification(user);
+
+    await service.verify(sentToken());
+
+    expect(user.emailVerifiedAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects links after the email address changed', async () => {
+    const service = createService();
+    await service.sendVerification(user);
+    const token = sentToken();
+    user.email = 'new@example.com';
+
+    await expect(service.verify(token)).rejects.toThrow(BadRequestException);
+  });
+
+  it('rejects expired and tampered links', async () => {
+    const expired = createService('restricted', -1);
+    await expired.sendVerification(user);
+    await expect(expired.verify(sentToken())).rejects.toThrow(BadRequestException);
+
+    const service = createService();
+    await service.sendVerification(user);
+    const [body, signature] = sentToken().split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'user-2', email: user.email, exp: Date.now() + 60000 }))
+      .toString('base64url');
+    await expect(service.verify(`${forged}.${signature}`)).rejects.toThrow(BadRequestException);
+    await expect(service.verify(body)).rejects.toThrow(BadRequestException);
+  });
+
+  it('sends nothing when verification is off or already done', async () => {
+    await createService('off').sendVerification(user);
+    await createService().resend('nobody@example.com');
+    user.emailVerifiedAt = new Date();
+    await createService().resend(user.email);
+
+    expect(mailer.outbox).toEqual([]);
+  });
+
+  it('treats unverified users as plain users in restricted mode, whatever their roles', () => {
+    const service = createService('restricted');
+
+    expect(service.effectiveRoles(user)).toEqual([UserRole.USER]);
+    expect(service.blocksLogin(user)).toBe(false);
+
+    user.emailVerifiedAt = new Date();
+    expect(service.effectiveRoles(user)).toEqual([UserRole.ADMIN, 'auditor']);
+  });
+
+  it('only blocks sign-in in block-login mode', () => {
+    expect(createService('block-login').blocksLogin(user)).toBe(true);
+    expect(createService('block-login').effectiveRoles(user)).toEqual([UserRole.ADMIN, 'auditor']);
+    expect(createService('off').isVerified(user)).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { UsersService } from '../users/users.service';
+import { User, UserRole } from '../users/user.entity';
+import { Mailer } from '../mail/mailer';
+import { OrganizationMembership } from '../organizations/organization-membership.entity';
+import authConfig from './auth.config';
+
+interface VerificationPayload {
+  sub: string;
+  email: string;
+  exp: number;
+}
+
+/**
+ * Stateless email verification. Tokens are HMAC-signed and bind the user ID
+ * to the address being verified, so changing the email voids older links.
+ */
+@Injectable()
+export class EmailVerificationService {
+  constructor(
+    private usersService: UsersService,
+    private mailer: Mailer,
+    @Inject(authConfig.KEY)
+    private config: ConfigType<typeof authConfig>,
+  ) {}
+
+  get enabled(): boolean {
+    return this.config.emailVerificationPolicy !== 'off';
+  }
+
+  isVerified(user: User): boolean {
+    return !this.enabled || !!user.emailVerifiedAt;
+  }
+
+  /** Whether the policy keeps this user from signing in at all. */
+  blocksLogin(user: User): boolean {
+    return this.config.emailVerificationPolicy === 'block-login' && !user.emailVerifiedAt;
+  }
+
+  /** Whether the policy limits this signed-in user to the plain 'user' role. */
+  restricts(user: User): boolean {
+    return this.config.emailVerificationPolicy === 'restricted' && !user.emailVerifiedAt;
+  }
+
+  /**
+   * The roles the user effectively holds once the verification policy is
+   * applied: their global roles plus the role of the active membership.
+   */
+  effectiveRoles(user: User, membership?: OrganizationMembership | null): string[] {
+    if (this.restricts(user)) return [UserRole.USER];
+
+    const roles = user.roles.map(role => role.name);
+    if (membership && !roles.includes(membership.roleName)) {
+      roles.push(membership.roleName);
+    }
+    return roles;
+  }
+
+  async sendVerification(user: User): Promise<void> {
+    if (!this.enabled || user.emailVerifiedAt) return;
+
+    const token = this.sign({
+      sub: user.id,
+      email: user.email,
+      exp: Date.now() + this.config.emailVerificationTtlMs,
+    });
+    const link = `${this.config.frontendUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: `Welcome! Please confirm that this address belongs to you by opening this link:\n${link}\n\n`
+        + `If you did not create an account, you can ignore this email.`,
+    });
+  }
+
+  /** Resends the link; silently does nothing for unknown or verified addresses. */
+  async resend(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (user) {
+      await this.sendVerification(user);
+    }
+  }
+
+  async verify(token: string): Promise<User> {
+    const payload = this.parse(token);
+    if (!payload || payload.exp < Date.now()) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    const user = await this.usersService.findById(payload.sub);
+    if (!user || user.email !== payload.email) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    if (!user.emailVerifiedAt) {
+      await this.usersService.markEmailVerified(user.id);
+    }
+    return user;
+  }
+
+  private sign(payload: VerificationPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.signature(body)}`;
+  }
+
+  private parse(token: string): VerificationPayload | null {
+    const [body, signature] = token.split('.');
+    if (!body || !signature) return null;
+
+    const expected = Buffer.from(this.signature(body));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private signature(body: string): string {
+    return createHmac('sha256', this.config.emailVerificationSecret).update(body).digest('base64url');
+  }
+}
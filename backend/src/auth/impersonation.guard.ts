@@ -0,0 +1,21 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import type { Request } from 'express';
+
+/**
+ * Refuses sensitive actions, such as changing credentials or anyone's access,
+ * from an impersonation session: an admin viewing as a user may look but not
+ * act on the user's security settings. Must run after AuthGuard.
+ */
+@Injectable()
+export class NoImpersonationGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    if (request.session?.data?.impersonator) {
+      throw new ForbiddenException({
+        message: 'This action is not available while viewing as another user',
+        code: 'IMPERSONATION_FORBIDDEN',
+      });
+    }
+    return true;
+  }
+}
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { BadRequestException, ConflictException, HttpException, NotFoundException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { ImpersonationService } from './impersonation.service';
+import { EmailVerificationService } from './email-verification.service';
+import authConfig from './auth.config';
+import { SessionService } from '../sessions/session.service';
+import sessionConfig from '../sessions/session.config';
+import { MemorySessionStore } from '../sessions/stores/memory-session.store';
+import { Session } from '../sessions/session.entity';
+import { UsersService } from '../users/users.service';
+import { User, UserStatus } from '../users/user.entity';
+import { Role } from '../rbac/role.entity';
+import { RbacService } from '../rbac/rbac.service';
+import { PermissionKey } from '../rbac/permission-key';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { AuditEventInput, AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { partialMock } from '../testing/partial-mock';
+
+const MINUTE = 60 * 1000;
+
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+  user: [],
+  support: [PermissionKey.USERS_READ, PermissionKey.USERS_IMPERSONATE],
+  admin: [PermissionKey.USERS_READ, PermissionKey.USERS_WRITE, PermissionKey.USERS_IMPERSONATE],
+};
+
+function createUser(id: string, roles: string[]): User {
+  return Object.assign(new User(), {
+    id,
+    email: `${id}@example.com`,
+    roles: roles.map(name => ({ name }) as Role),
+    status: UserStatus.ACTIVE,
+  });
+}
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService;
+  let sessionService: SessionService;
+  let users: User[];
+  let audited: AuditEventInput[];
+  let support: User;
+  let supportSession: Session;
+
+  const scope = { organizationId: null };
+
+  beforeEach(async () => {
+    support = createUser('support-1', ['support']);
+    users = [support, createUser('user-1', ['user']), createUser('admin-1', ['admin'])];
+    audited = [];
+
+    sessionService = new SessionService(new MemorySessionStore(), {
+      idleTimeoutMs: 30 * MINUTE,
+      absoluteTimeoutMs: 24 * 60 * MINUTE,
+      impersonationTimeoutMs: 60 * MINUTE,
+      touchIntervalMs: MINUTE,
+      privilegeChangePolicy: 'rotate',
+      limits: {},
+      defaultLimit: 5,
+    } as ConfigType<typeof sessionConfig>);
+    supportSession = await sessionService.createSession(support);
+
+    const usersService = partialMock<UsersService>({
+      findById: async (id: string) => users.find(user => user.id === id) ?? null,
+      isActive: (user: User) => user.status === UserStatus.ACTIVE,
+    });
+    const organizationsService = partialMock<OrganizationsService>({
+      assertUserInScope: async () => {},
+      getMembership: async () => null,
+    });
+    const rbacService = partialMock<RbacService>({
+      getPermissions: async (roleNames: string[]) => new Set(roleNames.flatMap(name => ROLE_PERMISSIONS[name])),
+    });
+    const emailVerificationService = new EmailVerificationService(null, null, {
+      emailVerificationPolicy: 'off',
+    } as ConfigType<typeof authConfig>);
+    const auditService = partialMock<AuditService>({
+      record: async (event: AuditEventInput) => { audited.push(event); },
+    });
+
+    service = new ImpersonationService(
+      usersService,
+      sessionService,
+      organizationsService,
+      rbacService,
+      emailVerificationService,
+      auditService,
+    );
+  });
+
+  describe('start', () => {
+    it('opens a session as the target on top of the admin\'s own', async () => {
+      const { user, session } = await service.start(support, supportSession, null, scope, 'user-1');
+
+      expect(user.id).toBe('user-1');
+      expect(session.userId).toBe('user-1');
+      expect(sessionService.getImpersonator(session)).toEqual({
+        id: support.id,
+        email: support.email,
+        sessionId: supportSession.id,
+      });
+      expect(await sessionService.getSession(supportSession.id)).not.toBeNull();
+      expect(audited).toEqual([
+        expect.objectContaining({ action: AuditAction.IMPERSONATION_STARTED, targetId: 'user-1' }),
+      ]);
+    });
+
+    it('refuses to view as someone with permissions the admin lacks', async () => {
+      const error = await service.start(support, supportSession, null, scope, 'admin-1').catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getResponse()).toMatchObject({ code: 'IMPERSONATION_FORBIDDEN' });
+      expect(audited).toEqual([]);
+    });
+
+    it('refuses the admin themselves and inactive accounts', async () => {
+      users[1].status = UserStatus.DISABLED;
+
+      await expect(service.start(support, supportSession, null, scope, support.id)).rejects.toThrow(BadRequestException);
+      await expect(service.start(support, supportSession, null, scope, 'user-1')).rejects.toThrow(ConflictException);
+    });
+
+    it('reports unknown users as not found', async () => {
+      await expect(service.start(support, supportSession, null, scope, 'nobody')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('end', () => {
+    it('destroys the impersonation and hands back the admin\'s session under a fresh token', async () => {
+      const { session } = await service.start(support, supportSession, null, scope, 'user-1');
+
+      const restored = await service.end(session);
+
+      expect(restored.userId).toBe(support.id);
+      expect((await sessionService.getSessionByToken(restored.token)).id).toBe(restored.id);
+      expect(await sessionService.getSession(supportSession.id)).toBeNull();
+      expect(await sessionService.getSession(session.id)).toBeNull();
+      expect(audited[audited.length - 1]).toMatchObject({ action: AuditAction.IMPERSONATION_ENDED, actor: { id: support.id } });
+    });
+
+    it('returns null once the admin\'s own session is gone', async () => {
+      const { session } = await service.start(support, supportSession, null, scope, 'user-1');
+      await sessionService.destroySession(supportSession.id);
+
+      expect(await service.end(session)).toBeNull();
+    });
+
+    it('refuses sessions that are not an impersonation', async () => {
+      await expect(service.end(supportSession)).rejects.toThrow(BadRequestException);
+    });
+  });
+});
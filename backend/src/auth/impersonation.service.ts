@@ -0,0 +1,112 @@
+import { BadRequestException, ConflictException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { SessionService } from '../sessions/session.service';
+import { Session } from '../sessions/session.entity';
+import { OrganizationsService, OrganizationScope } from '../organizations/organizations.service';
+import { OrganizationMembership } from '../organizations/organization-membership.entity';
+import { RbacService } from '../rbac/rbac.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { ClientInfo } from './client-info';
+import { EmailVerificationService } from './email-verification.service';
+
+export interface ImpersonationResult {
+  user: User;
+  session: Session;
+}
+
+/**
+ * Lets support staff see the application as another user. The admin's own
+ * session stays alive underneath, so ending the impersonation returns them
+ * to it without signing in again.
+ */
+@Injectable()
+export class ImpersonationService {
+  constructor(
+    private usersService: UsersService,
+    private sessionService: SessionService,
+    private organizationsService: OrganizationsService,
+    private rbacService: RbacService,
+    private emailVerificationService: EmailVerificationService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Opens an impersonation session for the target. Organisation admins stay
+   * in their active organisation, and nobody can view as a user holding a
+   * permission they lack themselves.
+   */
+  async start(
+    admin: User,
+    adminSession: Session,
+    adminMembership: OrganizationMembership | null,
+    scope: OrganizationScope,
+    targetId: string,
+    client?: ClientInfo,
+  ): Promise<ImpersonationResult> {
+    await this.organizationsService.assertUserInScope(scope, targetId);
+
+    const target = await this.usersService.findById(targetId);
+    if (!target) {
+      throw new NotFoundException('User not found');
+    }
+    if (target.id === admin.id) {
+      throw new BadRequestException('You cannot view as yourself');
+    }
+    if (!this.usersService.isActive(target)) {
+      throw new ConflictException('Disabled or deleted accounts cannot be viewed as');
+    }
+
+    const targetMembership = await this.organizationsService.getMembership(target.id, scope.organizationId);
+    const granted = await this.rbacService.getPermissions(
+      this.emailVerificationService.effectiveRoles(admin, adminMembership),
+    );
+    const required = await this.rbacService.getPermissions(
+      this.emailVerificationService.effectiveRoles(target, targetMembership),
+    );
+    if ([...required].some(permission => !granted.has(permission))) {
+      throw new ForbiddenException({
+        message: 'You cannot view as a user with permissions you do not hold',
+        code: 'IMPERSONATION_FORBIDDEN',
+      });
+    }
+
+    const session = await this.sessionService.createImpersonationSession(
+      target,
+      adminSession,
+      { id: admin.id, email: admin.email },
+      scope.organizationId,
+      client,
+    );
+    await this.auditService.record({
+      action: AuditAction.IMPERSONATION_STARTED,
+      actor: { id: admin.id, email: admin.email, ...client },
+      targetId: target.id,
+      metadata: { expiresAt: session.absoluteExpiresAt.toISOString() },
+    });
+    return { user: target, session };
+  }
+
+  /**
+   * Destroys the impersonation session and returns the admin's own session,
+   * or null if that has expired or been revoked in the meantime. The admin
+   * gets it back under a fresh token, as only the hash of the old one is kept.
+   */
+  async end(session: Session, client?: ClientInfo): Promise<Session | null> {
+    const impersonator = this.sessionService.getImpersonator(session);
+    if (!impersonator) {
+      throw new BadRequestException('You are not viewing as another user');
+    }
+
+    await this.sessionService.destroySession(session.id);
+    await this.auditService.record({
+      action: AuditAction.IMPERSONATION_ENDED,
+      actor: { id: impersonator.id, email: impersonator.email, ...client },
+      targetId: session.userId,
+    });
+
+    const adminSession = await this.sessionService.getSession(impersonator.sessionId);
+    return adminSession?.userId === impersonator.id ? this.sessionService.rotateSession(adminSession) : null;
+  }
+}
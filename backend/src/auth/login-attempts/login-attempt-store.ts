@@ -0,0 +1,19 @@
+export type LoginAttemptStoreDriver = 'postgres' | 'memory';
+
+export interface LoginAttemptRecord {
+  failures: number;
+  lastFailureAt: Date;
+}
+
+/**
+ * Persistence backend for failed-login counters. A counter is forgotten once
+ * `windowMs` has passed since its last failure.
+ */
+export abstract class LoginAttemptStore {
+  abstract get(key: string): Promise<LoginAttemptRecord | null>;
+
+  /** Atomically records one more failure and returns the updated counter. */
+  abstract recordFailure(key: string, windowMs: number): Promise<LoginAttemptRecord>;
+
+  abstract reset(key: string): Promise<void>;
+}
@@ -0,0 +1,18 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm';
+
+/** Failed-login counter for one key, either an email address or a client IP. */
+@Entity('login_attempts')
+export class LoginAttempt {
+  @PrimaryColumn()
+  key: string;
+
+  @Column({ type: 'int' })
+  failures: number;
+
+  @Column()
+  lastFailureAt: Date;
+
+  @Index()
+  @Column()
+  expiresAt: Date;
+}
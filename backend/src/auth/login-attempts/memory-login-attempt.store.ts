@@ -0,0 +1,53 @@
+import { OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { LoginAttemptRecord, LoginAttemptStore } from './login-attempt-store';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface StoredAttempt extends LoginAttemptRecord {
+  expiresAt: number;
+}
+
+/**
+ * Process-local counters for development and single-instance deployments.
+ * Counts are lost on restart and are not shared between instances.
+ */
+export class MemoryLoginAttemptStore extends LoginAttemptStore implements OnModuleInit, OnModuleDestroy {
+  private attempts = new Map<string, StoredAttempt>();
+  private sweepTimer: NodeJS.Timeout;
+
+  onModuleInit(): void {
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    const attempt = this.attempts.get(key);
+    if (!attempt || attempt.expiresAt < Date.now()) return null;
+    return { failures: attempt.failures, lastFailureAt: attempt.lastFailureAt };
+  }
+
+  async recordFailure(key: string, windowMs: number): Promise<LoginAttemptRecord> {
+    const now = Date.now();
+    const previous = this.attempts.get(key);
+    const failures = previous && previous.expiresAt >= now ? previous.failures + 1 : 1;
+
+    const attempt = { failures, lastFailureAt: new Date(now), expiresAt: now + windowMs };
+    this.attempts.set(key, attempt);
+    return { failures, lastFailureAt: attempt.lastFailureAt };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.attempts.delete(key);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, attempt] of this.attempts) {
+      if (attempt.expiresAt < now) this.attempts.delete(key);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { LessThan, Repository } from 'typeorm';
+import { LoginAttempt } from './login-attempt.entity';
+import { LoginAttemptRecord, LoginAttemptStore } from './login-attempt-store';
+
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+export class PostgresLoginAttemptStore extends LoginAttemptStore implements OnModuleInit, OnModuleDestroy {
+  private purgeTimer: NodeJS.Timeout;
+
+  constructor(private attemptRepository: Repository<LoginAttempt>) {
+    super();
+  }
+
+  onModuleInit(): void {
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpired().catch(() => undefined);
+    }, PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.purgeTimer);
+  }
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    const attempt = await this.attemptRepository.findOne({ where: { key } });
+    if (!attempt || attempt.expiresAt < new Date()) return null;
+    return { failures: attempt.failures, lastFailureAt: attempt.lastFailureAt };
+  }
+
+  async recordFailure(key: string, windowMs: number): Promise<LoginAttemptRecord> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + windowMs);
+
+    // A single upsert keeps concurrent guesses from losing increments
+    const [attempt] = await this.attemptRepository.query(
+      `INSERT INTO login_attempts ("key", "failures", "lastFailureAt", "expiresAt")
+       VALUES ($1, 1, $2, $3)
+       ON CONFLICT ("key") DO UPDATE SET
+         "failures" = CASE WHEN login_attempts."expiresAt" < $2 THEN 1 ELSE login_attempts."failures" + 1 END,
+         "lastFailureAt" = $2,
+         "expiresAt" = $3
+       RETURNING "failures", "lastFailureAt"`,
+      [key, now, expiresAt],
+    );
+    return { failures: attempt.failures, lastFailureAt: new Date(attempt.lastFailureAt) };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.attemptRepository.delete({ key });
+  }
+
+  async purgeExpired(): Promise<void> {
+    await this.attemptRepository.delete({ expiresAt: LessThan(new Date()) });
+  }
+}
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { HttpException, NotFoundException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { LoginThrottleService } from './login-throttle.service';
+import authConfig from './auth.config';
+import { MemoryLoginAttemptStore } from './login-attempts/memory-login-attempt.store';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { AuditEventInput, AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { partialMock } from '../testing/partial-mock';
+
+const MINUTE = 60 * 1000;
+
+async function expectStatus(promise: Promise<unknown>, status: number, code: string): Promise<void> {
+  const error = await promise.then(() => null, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(HttpException);
+  expect((error as HttpException).getStatus()).toBe(status);
+  expect((error as HttpException).getResponse()).toMatchObject({ code });
+}
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+  let user: User;
+  let audited: AuditEventInput[];
+  const client = { ipAddress: '203.0.113.7', userAgent: 'test' };
+
+  beforeEach(() => {
+    user = Object.assign(new User(), { id: 'user-1', email: 'user-1@example.com', lockedUntil: null });
+    audited = [];
+
+    const usersService = partialMock<UsersService>({
+      findById: async (id: string) => (id === user.id ? user : null),
+      setLockedUntil: async (_id: string, lockedUntil: Date | null) => { user.lockedUntil = lockedUntil; },
+    });
+    const auditService = partialMock<AuditService>({
+      record: async (event: AuditEventInput) => { audited.push(event); },
+    });
+    const config = {
+      loginAttemptWindowMs: 15 * MINUTE,
+      loginBackoffAfterEmail: 3,
+      loginBackoffAfterIp: 20,
+      loginBackoffBaseMs: 1000,
+      loginBackoffMaxMs: 15 * MINUTE,
+      loginLockoutThreshold: 5,
+      loginLockoutMs: 15 * MINUTE,
+    } as ConfigType<typeof authConfig>;
+
+    service = new LoginThrottleService(new MemoryLoginAttemptStore(), usersService, auditService, config);
+  });
+
+  async function fail(times: number, email = user.email): Promise<void> {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure(email, user, client).catch(() => {});
+    }
+  }
+
+  it('allows a few free failures before backing off', async () => {
+    await fail(2);
+    await expect(service.assertAllowed(user.email, client)).resolves.toBeUndefined();
+
+    await fail(1);
+    await expectStatus(service.assertAllowed(user.email, client), 429, 'LOGIN_THROTTLED');
+  });
+
+  it('backs off per email regardless of case and spacing', async () => {
+    await fail(3);
+
+    await expectStatus(service.assertAllowed(' USER-1@example.com ', client), 429, 'LOGIN_THROTTLED');
+  });
+
+  it('backs off per client IP across emails', async () => {
+    for (let i = 0; i < 20; i++) {
+      await service.recordFailure(`guess-${i}@example.com`, null, client);
+    }
+
+    await expectStatus(service.assertAllowed('someone-else@example.com', client), 429, 'LOGIN_THROTTLED');
+    const otherClient = { ipAddress: '198.51.100.1', userAgent: 'test' };
+    await expect(service.assertAllowed('someone-else@example.com', otherClient)).resolves.toBeUndefined();
+  });
+
+  it('locks the account on the failure that reaches the threshold', async () => {
+    await fail(4);
+
+    await expectStatus(service.recordFailure(user.email, user, client), 423, 'ACCOUNT_LOCKED');
+    expect(service.isLocked(user)).toBe(true);
+    expect(audited.map(event => event.action)).toEqual([AuditAction.ACCOUNT_LOCKED]);
+    expect(() => service.assertNotLocked(user)).toThrow(HttpException);
+  });
+
+  it('never locks anyone for failures against unknown emails', async () => {
+    for (let i = 0; i < 10; i++) {
+      await service.recordFailure('nobody@example.com', null, client);
+    }
+
+    expect(user.lockedUntil).toBeNull();
+    expect(audited).toEqual([]);
+  });
+
+  it('forgets failures after a successful sign-in', async () => {
+    await fail(3);
+
+    await service.recordSuccess(user.email, user);
+
+    await expect(service.assertAllowed(user.email)).resolves.toBeUndefined();
+  });
+
+  it('lets an admin lift a lockout early', async () => {
+    await fail(5);
+
+    await service.unlock(user.id);
+
+    expect(service.isLocked(user)).toBe(false);
+    await expect(service.assertAllowed(user.email)).resolves.toBeUndefined();
+  });
+
+  it('reports unknown users as not found when unlocking', async () => {
+    await expect(service.unlock('nobody')).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,129 @@
+import { HttpException, HttpStatus, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import authConfig from './auth.config';
+import { ClientInfo } from './client-info';
+import { LoginAttemptRecord, LoginAttemptStore } from './login-attempts/login-attempt-store';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+
+// 423 Locked (WebDAV); not part of Nest's HttpStatus enum
+const HTTP_STATUS_LOCKED = 423;
+
+/**
+ * Slows down password guessing. Failures are counted per email address and
+ * per client IP; past a few free attempts each further failure doubles the
+ * wait before the next try (429), and enough failures against one account
+ * lock it for a while (423).
+ */
+@Injectable()
+export class LoginThrottleService {
+  constructor(
+    private store: LoginAttemptStore,
+    private usersService: UsersService,
+    private auditService: AuditService,
+    @Inject(authConfig.KEY)
+    private config: ConfigType<typeof authConfig>,
+  ) {}
+
+  /** Rejects the attempt while the email or the client IP is backing off. */
+  async assertAllowed(email: string, client?: ClientInfo): Promise<void> {
+    const retryAt = Math.max(
+      this.retryAt(await this.store.get(this.emailKey(email)), this.config.loginBackoffAfterEmail),
+      client?.ipAddress
+        ? this.retryAt(await this.store.get(this.ipKey(client.ipAddress)), this.config.loginBackoffAfterIp)
+        : 0,
+    );
+
+    const waitMs = retryAt - Date.now();
+    if (waitMs > 0) {
+      const retryAfter = Math.ceil(waitMs / 1000);
+      throw new HttpException({
+        message: `Too many failed sign-in attempts. Try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`,
+        code: 'LOGIN_THROTTLED',
+        retryAfter,
+      }, HttpStatus.TOO_MANY_REQUESTS);
+    }
+  }
+
+  assertNotLocked(user: User): void {
+    if (this.isLocked(user)) {
+      this.throwLocked(user.lockedUntil);
+    }
+  }
+
+  isLocked(user: User): boolean {
+    return !!user.lockedUntil && user.lockedUntil > new Date();
+  }
+
+  /**
+   * Counts a failed attempt. Reaching the lockout threshold locks the account
+   * and throws right away, so the caller learns about it on that attempt.
+   */
+  async recordFailure(email: string, user: User | null, client?: ClientInfo): Promise<void> {
+    const { loginAttemptWindowMs } = this.config;
+    const attempt = await this.store.recordFailure(this.emailKey(email), loginAttemptWindowMs);
+    if (client?.ipAddress) {
+      await this.store.recordFailure(this.ipKey(client.ipAddress), loginAttemptWindowMs);
+    }
+
+    if (user && attempt.failures >= this.config.loginLockoutThreshold) {
+      const lockedUntil = new Date(Date.now() + this.config.loginLockoutMs);
+      await this.usersService.setLockedUntil(user.id, lockedUntil);
+      await this.auditService.record({
+        action: AuditAction.ACCOUNT_LOCKED,
+        actor: { email, ...client },
+        targetId: user.id,
+        after: { lockedUntil },
+        metadata: { failures: attempt.failures },
+      });
+      // The lock replaces the backoff; the account starts afresh once it lifts
+      await this.store.reset(this.emailKey(email));
+      this.throwLocked(lockedUntil);
+    }
+  }
+
+  async recordSuccess(email: string, user: User): Promise<void> {
+    await this.store.reset(this.emailKey(email));
+    if (user.lockedUntil) {
+      await this.usersService.setLockedUntil(user.id, null);
+    }
+  }
+
+  /** Lets an admin lift a lockout before it expires. */
+  async unlock(userId: string): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.usersService.setLockedUntil(user.id, null);
+    await this.store.reset(this.emailKey(user.email));
+  }
+
+  private retryAt(attempt: LoginAttemptRecord | null, freeAttempts: number): number {
+    if (!attempt || attempt.failures < freeAttempts) return 0;
+
+    const exponent = attempt.failures - freeAttempts;
+    const delayMs = Math.min(this.config.loginBackoffBaseMs * 2 ** exponent, this.config.loginBackoffMaxMs);
+    return attempt.lastFailureAt.getTime() + delayMs;
+  }
+
+  private throwLocked(lockedUntil: Date): never {
+    const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+    throw new HttpException({
+      message: `This account is temporarily locked after too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+      code: 'ACCOUNT_LOCKED',
+      lockedUntil,
+    }, HTTP_STATUS_LOCKED);
+  }
+
+  private emailKey(email: string): string {
+    return `email:${email.trim().toLowerCase()}`;
+  }
+
+  private ipKey(ipAddress: string): string {
+    return `ip:${ipAddress}`;
+  }
+}
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import type { HttpArgumentsHost } from '@nestjs/common/interfaces';
+import type { ConfigType } from '@nestjs/config';
+import { OrganizationScopeGuard } from './organization-scope.guard';
+import { EmailVerificationService } from './email-verification.service';
+import authConfig from './auth.config';
+import { User } from '../users/user.entity';
+import { OrganizationMembership } from '../organizations/organization-membership.entity';
+import { partialMock } from '../testing/partial-mock';
+
+function createUser(roles: string[], verified = true): User {
+  return Object.assign(new User(), {
+    id: 'user-1',
+    email: 'user-1@example.com',
+    roles: roles.map(name => ({ name })),
+    emailVerifiedAt: verified ? new Date() : null,
+  });
+}
+
+function createContext(request: object): ExecutionContext {
+  return partialMock<ExecutionContext>({
+    switchToHttp: () => partialMock<HttpArgumentsHost>({ getRequest: <T>() => request as T }),
+  });
+}
+
+describe('OrganizationScopeGuard', () => {
+  let guard: OrganizationScopeGuard;
+  const membership = Object.assign(new OrganizationMembership(), { organizationId: 'org-1', roleName: 'admin' });
+
+  beforeEach(() => {
+    const config = { emailVerificationPolicy: 'restricted' } as ConfigType<typeof authConfig>;
+    guard = new OrganizationScopeGuard(new EmailVerificationService(null, null, config));
+  });
+
+  it('gives super admins every organisation', () => {
+    const request = { user: createUser(['super_admin']), membership };
+
+    expect(guard.canActivate(createContext(request))).toBe(true);
+    expect(request).toHaveProperty('organizationScope', { organizationId: null });
+  });
+
+  it('limits everyone else to their active membership', () => {
+    const request = { user: createUser(['user']), membership };
+
+    expect(guard.canActivate(createContext(request))).toBe(true);
+    expect(request).toHaveProperty('organizationScope', { organizationId: 'org-1' });
+  });
+
+  it('never grants cross-tenant access through a membership role', () => {
+    const request = {
+      user: createUser(['user']),
+      membership: Object.assign(new OrganizationMembership(), { organizationId: 'org-1', roleName: 'super_admin' }),
+    };
+
+    guard.canActivate(createContext(request));
+
+    expect(request).toHaveProperty('organizationScope', { organizationId: 'org-1' });
+  });
+
+  it('does not treat an unverified super admin as one while verification is restricted', () => {
+    const request = { user: createUser(['super_admin'], false), membership };
+
+    guard.canActivate(createContext(request));
+
+    expect(request).toHaveProperty('organizationScope', { organizationId: 'org-1' });
+  });
+
+  it('requires an active organisation for everyone but super admins', () => {
+    const context = createContext({ user: createUser(['admin']), membership: null });
+
+    expect(() => guard.canActivate(context)).toThrow(ForbiddenException);
+  });
+
+  it('rejects unauthenticated requests', () => {
+    expect(() => guard.canActivate(createContext({}))).toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,38 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { UserRole } from '../users/user.entity';
+import { EmailVerificationService } from './email-verification.service';
+
+/**
+ * Resolves request.organizationScope for admin routes: super admins see every
+ * organisation, everyone else only the session's active one. Must run after
+ * AuthGuard.
+ */
+@Injectable()
+export class OrganizationScopeGuard implements CanActivate {
+  constructor(private emailVerificationService: EmailVerificationService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+
+    if (!user) {
+      throw new ForbiddenException('Not authenticated');
+    }
+
+    // Global roles only: a membership can never grant cross-tenant access
+    if (this.emailVerificationService.effectiveRoles(user).includes(UserRole.SUPER_ADMIN)) {
+      request.organizationScope = { organizationId: null };
+      return true;
+    }
+
+    if (!request.membership) {
+      throw new ForbiddenException({
+        message: 'Select an organization first',
+        code: 'ORGANIZATION_REQUIRED',
+      });
+    }
+
+    request.organizationScope = { organizationId: request.membership.organizationId };
+    return true;
+  }
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { BadRequestException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { PasswordResetService } from './password-reset.service';
+import { PasswordResetToken } from './password-reset-token.entity';
+import authConfig from './auth.config';
+import { hashToken } from './tokens';
+import { MemoryMailer } from '../mail/drivers/memory.mailer';
+import { SessionService } from '../sessions/session.service';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { FakeRepository } from '../testing/fake-repository';
+import { AuditEventInput, AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { partialMock } from '../testing/partial-mock';
+
+describe('PasswordResetService', () => {
+  let service: PasswordResetService;
+  let tokens: FakeRepository<PasswordResetToken>;
+  let mailer: MemoryMailer;
+  let passwordChanges: { id: string; password: string }[];
+  let revokedUsers: string[];
+  let audited: AuditEventInput[];
+  const user = Object.assign(new User(), { id: 'user-1', email: 'user-1@example.com' });
+
+  beforeEach(() => {
+    tokens = new FakeRepository(PasswordResetToken);
+    mailer = new MemoryMailer('noreply@example.com');
+    passwordChanges = [];
+    revokedUsers = [];
+    audited = [];
+
+    const usersService = partialMock<UsersService>({
+      findByEmail: async (email: string) => (email === user.email ? user : null),
+      updatePassword: async (id: string, password: string) => { passwordChanges.push({ id, password }); },
+      assertNewPasswordAcceptable: async (_id: string, password: string) => {
+        if (password === 'password1') throw new BadRequestException({ code: 'PASSWORD_POLICY' });
+      },
+    });
+    const sessionService = partialMock<SessionService>({
+      destroyAllUserSessions: async (userId: string) => {
+        revokedUsers.push(userId);
+        return 1;
+      },
+    });
+
+    const auditService = partialMock<AuditService>({
+      record: async (event: AuditEventInput) => { audited.push(event); },
+    });
+    const config = {
+      frontendUrl: 'http://localhost:3000',
+      passwordResetTtlMs: 30 * 60 * 1000,
+    } as ConfigType<typeof authConfig>;
+
+    service = new PasswordResetService(
+      tokens.asRepository(), usersService, sessionService, mailer, auditService, config,
+    );
+  });
+
+  async function requestToken(): Promise<string> {
+    await service.requestReset(user.email);
+    return new URL(mailer.lastTo(user.email).text.match(/http\S+/)[0]).searchParams.get('token');
+  }
+
+  it('mails a link and stores only the hash of its token', async () => {
+    const token = await requestToken();
+
+    expect(tokens.rows.map(row => row.tokenHash)).toEqual([hashToken(token)]);
+  });
+
+  it('sends nothing for unknown addresses', async () => {
+    await service.requestReset('nobody@example.com');
+
+    expect(mailer.outbox).toEqual([]);
+    expect(tokens.rows).toEqual([]);
+  });
+
+  it('sets the new password and signs the user out everywhere', async () => {
+    const token = await requestToken();
+
+    await service.resetPassword(token, 'a new passphrase');
+
+    expect(passwordChanges).toEqual([{ id: user.id, password: 'a new passphrase' }]);
+    expect(revokedUsers).toEqual([user.id]);
+    expect(audited).toEqual([{ action: AuditAction.PASSWORD_RESET, actor: { id: user.id } }]);
+  });
+
+  it('accepts each link once', async () => {
+    const token = await requestToken();
+    await service.resetPassword(token, 'a new passphrase');
+
+    await expect(service.resetPassword(token, 'another passphrase')).rejects.toThrow(BadRequestException);
+  });
+
+  it('keeps the link usable when the new password is refused', async () => {
+    const token = await requestToken();
+
+    await expect(service.resetPassword(token, 'password1')).rejects.toThrow(BadRequestException);
+    await expect(service.resetPassword(token, 'a new passphrase')).resolves.toBeUndefined();
+  });
+
+  it('only keeps the most recent link valid', async () => {
+    const first = await requestToken();
+    const second = await requestToken();
+
+    await expect(service.resetPassword(first, 'a new passphrase')).rejects.toThrow(BadRequestException);
+    await expect(service.resetPassword(second, 'a new passphrase')).resolves.toBeUndefined();
+  });
+
+  it('rejects expired links', async () => {
+    const token = await requestToken();
+    tokens.rows[0].expiresAt = new Date(Date.now() - 1);
+
+    await expect(service.resetPassword(token, 'a new passphrase')).rejects.toThrow(BadRequestException);
+    expect(passwordChanges).toEqual([]);
+  });
+});
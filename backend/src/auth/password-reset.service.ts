@@ -0,0 +1,82 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { PasswordResetToken } from './password-reset-token.entity';
+import { UsersService } from '../users/users.service';
+import { UserStatus } from '../users/user.entity';
+import { SessionService } from '../sessions/session.service';
+import { Mailer } from '../mail/mailer';
+import authConfig from './auth.config';
+import { generateToken, hashToken } from './tokens';
+import { ClientInfo } from './client-info';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+
+@Injectable()
+export class PasswordResetService {
+  constructor(
+    @InjectRepository(PasswordResetToken)
+    private tokenRepository: Repository<PasswordResetToken>,
+    private usersService: UsersService,
+    private sessionService: SessionService,
+    private mailer: Mailer,
+    private auditService: AuditService,
+    @Inject(authConfig.KEY)
+    private config: ConfigType<typeof authConfig>,
+  ) {}
+
+  /**
+   * Mails a reset link if the address belongs to a user. Callers must respond
+   * identically either way so the endpoint cannot be used to probe accounts.
+   */
+  async requestReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user || user.status === UserStatus.DELETED) return;
+
+    // Only the most recent link stays valid
+    await this.tokenRepository.delete({ userId: user.id, usedAt: IsNull() });
+
+    const token = generateToken();
+    await this.tokenRepository.save(this.tokenRepository.create({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + this.config.passwordResetTtlMs),
+    }));
+
+    const link = `${this.config.frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Someone requested a password reset for your account.\n\n`
+        + `Open this link within ${Math.round(this.config.passwordResetTtlMs / 60000)} minutes to choose a new password:\n${link}\n\n`
+        + `If this wasn't you, you can ignore this email.`,
+    });
+  }
+
+  async resetPassword(token: string, newPassword: string, client?: ClientInfo): Promise<void> {
+    const resetToken = await this.tokenRepository.findOne({ where: { tokenHash: hashToken(token) } });
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    // Before claiming, so a rejected password does not use up the link
+    await this.usersService.assertNewPasswordAcceptable(resetToken.userId, newPassword);
+
+    // Claim the token atomically so a replayed link cannot win a race
+    const claimed = await this.tokenRepository.update(
+      { id: resetToken.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    await this.usersService.updatePassword(resetToken.userId, newPassword);
+    await this.sessionService.destroyAllUserSessions(resetToken.userId);
+    await this.auditService.record({
+      action: AuditAction.PASSWORD_RESET,
+      actor: { id: resetToken.userId, ...client },
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { PermissionKey } from '../rbac/permission-key';
+import { PERMISSIONS_METADATA } from '../rbac/require-permissions.decorator';
+import { RbacService } from '../rbac/rbac.service';
+import { EmailVerificationService } from './email-verification.service';
+import { TwoFactorService } from './two-factor.service';
+
+/**
+ * An API token can only use what it was scoped to, even if its owner holds
+ * more. For routes that need a further permission only for some requests.
+ */
+export function assertApiTokenScopes(request: Request, required: string[]): void {
+  const scopes = request.apiToken?.scopes;
+  if (scopes && !required.every(permission => scopes.includes(permission))) {
+    throw new ForbiddenException({ message: 'The API token is not scoped for this action', code: 'API_TOKEN_SCOPE' });
+  }
+}
+
+/**
+ * Enforces @RequirePermissions against the permissions of the user's
+ * effective roles. Must run after AuthGuard.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private rbacService: RbacService,
+    private emailVerificationService: EmailVerificationService,
+    private twoFactorService: TwoFactorService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.get<PermissionKey[]>(PERMISSIONS_METADATA, context.getHandler());
+    if (!required) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+
+    if (!user) {
+      throw new ForbiddenException('Not authenticated');
+    }
+
+    const roles = this.emailVerificationService.effectiveRoles(user, request.membership);
+    if (!await this.rbacService.hasPermissions(roles, required)) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    assertApiTokenScopes(request, required);
+
+    await this.twoFactorService.assertEnrollmentSatisfied(user, roles);
+    return true;
+  }
+}
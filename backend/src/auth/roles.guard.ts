@@ -1,12 +1,20 @@
 import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { UserRole } from '../users/user.entity';
+import { EmailVerificationService } from './email-verification.service';
+import { TwoFactorService } from './two-factor.service';
+import { RbacService } from '../rbac/rbac.service';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private emailVerificationService: EmailVerificationService,
+    private twoFactorService: TwoFactorService,
+    private rbacService: RbacService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const requiredRoles = this.reflector.get<UserRole[]>('roles', context.getHandler());
     if (!requiredRoles) {
       return true;
@@ -19,11 +27,26 @@ export class RolesGuard implements CanActivate {
       throw new ForbiddenException('Not authenticated');
     }
 
-    const hasRole = requiredRoles.includes(user.role);
+    const roles = this.emailVerificationService.effectiveRoles(user, request.membership);
+    const usable = request.apiToken ? await this.scopedRoles(roles, request.apiToken.scopes) : roles;
+    const hasRole = requiredRoles.some(role => usable.includes(role));
     if (!hasRole) {
       throw new ForbiddenException('Insufficient permissions');
     }
 
+    await this.twoFactorService.assertEnrollmentSatisfied(user, roles);
     return true;
   }
+
+  // A token only acts with the roles whose every permission its scopes cover
+  private async scopedRoles(roles: string[], scopes: string[]): Promise<string[]> {
+    const usable: string[] = [];
+    for (const role of roles) {
+      const permissions = await this.rbacService.getPermissions([role]);
+      if ([...permissions].every(permission => scopes.includes(permission))) {
+        usable.push(role);
+      }
+    }
+    return usable;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from 'crypto';
+
+/** URL-safe random secret suitable for single-use links. */
+export function generateToken(bytes = 32): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/** Tokens are stored as SHA-256 digests so a DB leak yields nothing usable. */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
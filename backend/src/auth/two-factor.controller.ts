@@ -0,0 +1,148 @@
+import { Controller, Post, Get, Delete, Body, Req, Res, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiParam, ApiCookieAuth } from '@nestjs/swagger';
+import type { Request, Response } from 'express';
+import { AuthService } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorCodeDto, DisableTwoFactorDto } from './auth.dto';
+import { AuthGuard } from './auth.guard';
+import { CsrfGuard } from './csrf.guard';
+import { NoImpersonationGuard } from './impersonation.guard';
+import { PermissionsGuard } from './permissions.guard';
+import { OrganizationScopeGuard } from './organization-scope.guard';
+import { RequirePermissions } from '../rbac/require-permissions.decorator';
+import { PermissionKey } from '../rbac/permission-key';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { getClientInfo } from './client-info';
+import { SessionCookieService } from '../sessions/session-cookie.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { getAuditActor } from '../audit/audit-actor';
+import { OrganizationsService } from '../organizations/organizations.service';
+
+@ApiTags('Two-Factor Authentication')
+@Controller()
+export class TwoFactorController {
+  constructor(
+    private authService: AuthService,
+    private twoFactorService: TwoFactorService,
+    private auditService: AuditService,
+    private organizationsService: OrganizationsService,
+    private sessionCookieService: SessionCookieService
+  ) {}
+
+  @Post('auth/2fa/verify')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 20, windowMs: 15 * 60 * 1000 })
+  @ApiOperation({ summary: 'Complete a login that requires a second factor' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 201, description: 'Login completed' })
+  @ApiResponse({ status: 401, description: 'Invalid code or no pending login' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async verify(
+    @Body() dto: TwoFactorCodeDto,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const { user, session } = await this.authService.verifyTwoFactor(
+      this.sessionCookieService.read(request),
+      dto.code,
+      getClientInfo(request),
+    );
+
+    this.sessionCookieService.write(response, session);
+    return {
+      message: 'Login successful',
+      user: { id: user.id, email: user.email }
+    };
+  }
+
+  @Get('me/2fa')
+  @UseGuards(AuthGuard)
+  @ApiCookieAuth('sessionId')
+  @ApiOperation({ summary: 'Get two-factor status of the current user' })
+  @ApiResponse({ status: 200, description: 'Two-factor status' })
+  async status(@Req() request: Request) {
+    const user = request.user;
+    return {
+      enabled: this.twoFactorService.isEnabled(user),
+      recoveryCodesRemaining: this.twoFactorService.recoveryCodesRemaining(user)
+    };
+  }
+
+  @Post('me/2fa/setup')
+  @UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard)
+  @ApiCookieAuth('sessionId')
+  @ApiOperation({ summary: 'Start TOTP enrollment (returns secret, otpauth URI and QR code)' })
+  @ApiResponse({ status: 201, description: 'Enrollment started' })
+  @ApiResponse({ status: 409, description: 'Two-factor authentication already enabled' })
+  @ApiResponse({ status: 403, description: 'Viewing as another user' })
+  async setup(@Req() request: Request) {
+    return this.twoFactorService.beginEnrollment(request.user);
+  }
+
+  @Post('me/2fa/confirm')
+  @UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard)
+  @ApiCookieAuth('sessionId')
+  @ApiOperation({ summary: 'Confirm TOTP enrollment with a code and receive recovery codes' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 201, description: 'Two-factor authentication enabled' })
+  @ApiResponse({ status: 400, description: 'Invalid code or enrollment not started' })
+  @ApiResponse({ status: 403, description: 'Viewing as another user' })
+  async confirm(@Body() dto: TwoFactorCodeDto, @Req() request: Request) {
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(request.user, dto.code);
+    await this.auditService.record({ action: AuditAction.TWO_FACTOR_ENABLED, actor: getAuditActor(request) });
+    return { message: 'Two-factor authentication enabled', recoveryCodes };
+  }
+
+  @Post('me/2fa/recovery-codes')
+  @UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard)
+  @ApiCookieAuth('sessionId')
+  @ApiOperation({ summary: 'Replace all recovery codes (requires a current code)' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 201, description: 'New recovery codes issued' })
+  @ApiResponse({ status: 400, description: 'Invalid code' })
+  @ApiResponse({ status: 403, description: 'Viewing as another user' })
+  async regenerateRecoveryCodes(@Body() dto: TwoFactorCodeDto, @Req() request: Request) {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(request.user, dto.code);
+    await this.auditService.record({ action: AuditAction.RECOVERY_CODES_REGENERATED, actor: getAuditActor(request) });
+    return { recoveryCodes };
+  }
+
+  @Post('me/2fa/disable')
+  @UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard)
+  @ApiCookieAuth('sessionId')
+  @ApiOperation({ summary: 'Disable two-factor authentication (requires password)' })
+  @ApiBody({ type: DisableTwoFactorDto })
+  @ApiResponse({ status: 201, description: 'Two-factor authentication disabled' })
+  @ApiResponse({ status: 400, description: 'Password is incorrect' })
+  @ApiResponse({ status: 403, description: 'Viewing as another user' })
+  async disable(@Body() dto: DisableTwoFactorDto, @Req() request: Request) {
+    await this.twoFactorService.disable(request.user, dto.password);
+    await this.auditService.record({ action: AuditAction.TWO_FACTOR_DISABLED, actor: getAuditActor(request) });
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  @Delete('admin/users/:id/2fa')
+  @UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.USERS_SECURITY_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiCookieAuth('sessionId')
+  @ApiTags('Admin')
+  @ApiOperation({ summary: 'Reset a user\'s second factor (Admin only)' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Two-factor authentication reset' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async reset(@Param('id') id: string, @Req() request: Request) {
+    await this.organizationsService.findManageableUser(request.organizationScope, id);
+    await this.twoFactorService.reset(id);
+    await this.auditService.record({
+      action: AuditAction.TWO_FACTOR_RESET,
+      actor: getAuditActor(request),
+      targetId: id,
+    });
+    return { message: 'Two-factor authentication reset' };
+  }
+}
@@ -0,0 +1,213 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { TwoFactorService } from './two-factor.service';
+import authConfig from './auth.config';
+import { currentTotpStep, generateTotp } from './totp';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { RbacService } from '../rbac/rbac.service';
+import { partialMock } from '../testing/partial-mock';
+
+const PASSWORD = 'correct horse battery';
+
+// Mirrors the conditional updates of UsersService: a claim only succeeds
+// against the state it was checked against
+class FakeUsersService {
+  users = new Map<string, User>();
+
+  async findById(id: string): Promise<User | null> {
+    return this.users.get(id) ?? null;
+  }
+
+  async updateTwoFactor(id: string, changes: Partial<User>): Promise<void> {
+    Object.assign(this.users.get(id), changes);
+  }
+
+  async claimTwoFactorStep(id: string, step: number): Promise<boolean> {
+    const user = this.users.get(id);
+    if (user.twoFactorLastStep !== null && Number(user.twoFactorLastStep) >= step) return false;
+    user.twoFactorLastStep = String(step);
+    return true;
+  }
+
+  async consumeRecoveryCode(id: string, hash: string): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user.twoFactorRecoveryCodes?.includes(hash)) return false;
+    user.twoFactorRecoveryCodes = user.twoFactorRecoveryCodes.filter(code => code !== hash);
+    return true;
+  }
+
+  async validatePassword(password: string, hash: string): Promise<boolean> {
+    return hash === `hashed:${password}`;
+  }
+}
+
+describe('TwoFactorService', () => {
+  let usersService: FakeUsersService;
+  let service: TwoFactorService;
+  let user: User;
+
+  // Each request works on its own copy of the user, as it would after loading it
+  const load = async () => Object.assign(new User(), await usersService.findById(user.id));
+
+  beforeEach(() => {
+    usersService = new FakeUsersService();
+    const config = {
+      twoFactorIssuer: 'Test',
+      twoFactorRequiredRoles: ['admin'],
+      twoFactorChallengeTtlMs: 5 * 60 * 1000,
+    } as ConfigType<typeof authConfig>;
+    // 'operator' requires 2FA through its role setting, 'admin' through the config
+    const rbacService = partialMock<RbacService>({
+      requiresTwoFactor: async (roles: string[]) => roles.includes('operator'),
+    });
+    service = new TwoFactorService(partialMock<UsersService>(usersService), rbacService, config);
+
+    user = Object.assign(new User(), {
+      id: 'user-1',
+      email: 'user-1@example.com',
+      password: `hashed:${PASSWORD}`,
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastStep: null,
+      twoFactorRecoveryCodes: null,
+    });
+    usersService.users.set(user.id, user);
+  });
+
+  async function enroll(): Promise<string[]> {
+    const { secret } = await service.beginEnrollment(await load());
+    // Confirm with the previous step so the current one is still unused
+    return service.confirmEnrollment(await load(), generateTotp(secret, currentTotpStep() - 1));
+  }
+
+  describe('enrollment', () => {
+    it('only activates once a code from the new secret is confirmed', async () => {
+      const { secret, otpauthUrl, qrCodeDataUrl } = await service.beginEnrollment(await load());
+
+      expect(otpauthUrl).toContain(secret);
+      expect(qrCodeDataUrl).toStartWith('data:image/png;base64,');
+      expect(service.isEnabled(await load())).toBe(false);
+      await expect(service.confirmEnrollment(await load(), '000000')).rejects.toThrow(BadRequestException);
+
+      const recoveryCodes = await service.confirmEnrollment(await load(), generateTotp(secret));
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(service.isEnabled(await load())).toBe(true);
+      expect(service.recoveryCodesRemaining(await load())).toBe(10);
+    });
+
+    it('needs a secret before it can be confirmed', async () => {
+      await expect(service.confirmEnrollment(await load(), '000000')).rejects.toThrow('Start two-factor setup first');
+    });
+
+    it('cannot be restarted while enabled', async () => {
+      await enroll();
+
+      await expect(service.beginEnrollment(await load())).rejects.toThrow(ConflictException);
+    });
+
+    it('is required while any of the user\'s roles needs it and they have not enrolled', async () => {
+      await expect(service.assertEnrollmentSatisfied(user, ['user', 'admin'])).rejects.toThrow(ForbiddenException);
+      await expect(service.assertEnrollmentSatisfied(user, ['user', 'operator'])).rejects.toThrow(ForbiddenException);
+      await expect(service.assertEnrollmentSatisfied(user, ['user', 'auditor'])).resolves.toBeUndefined();
+
+      await enroll();
+
+      const enrolled = await load();
+      await expect(service.assertEnrollmentSatisfied(enrolled, ['admin', 'operator'])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('verify', () => {
+    it('accepts a current code once', async () => {
+      await enroll();
+      const code = generateTotp(user.twoFactorSecret);
+
+      expect(await service.verify(await load(), code)).toBe(true);
+      expect(await service.verify(await load(), code)).toBe(false);
+    });
+
+    it('rejects codes older than the last accepted one', async () => {
+      await enroll();
+      await service.verify(await load(), generateTotp(user.twoFactorSecret, currentTotpStep() + 1));
+
+      expect(await service.verify(await load(), generateTotp(user.twoFactorSecret))).toBe(false);
+    });
+
+    it('accepts each recovery code once, however it is typed', async () => {
+      const [recoveryCode] = await enroll();
+
+      expect(await service.verify(await load(), ` ${recoveryCode.replace('-', '').toUpperCase()} `)).toBe(true);
+      expect(await service.verify(await load(), recoveryCode)).toBe(false);
+      expect(service.recoveryCodesRemaining(await load())).toBe(9);
+    });
+
+    it('lets only one of two concurrent requests use the same code', async () => {
+      await enroll();
+      const code = generateTotp(user.twoFactorSecret);
+      const [first, second] = [await load(), await load()];
+
+      const results = await Promise.all([service.verify(first, code), service.verify(second, code)]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('lets only one of two concurrent requests use the same recovery code', async () => {
+      const [recoveryCode] = await enroll();
+      const [first, second] = [await load(), await load()];
+
+      const results = await Promise.all([service.verify(first, recoveryCode), service.verify(second, recoveryCode)]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect(service.recoveryCodesRemaining(await load())).toBe(9);
+    });
+
+    it('rejects everything while 2FA is off', async () => {
+      expect(await service.verify(await load(), '123456')).toBe(false);
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('replaces the old codes after a valid second factor', async () => {
+      const [oldCode] = await enroll();
+
+      const codes = await service.regenerateRecoveryCodes(await load(), generateTotp(user.twoFactorSecret));
+
+      expect(codes).toHaveLength(10);
+      expect(await service.verify(await load(), oldCode)).toBe(false);
+    });
+
+    it('are not regenerated without a valid second factor', async () => {
+      await enroll();
+
+      await expect(service.regenerateRecoveryCodes(await load(), '000000')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('disable and reset', () => {
+    it('requires the password to disable', async () => {
+      await enroll();
+
+      await expect(service.disable(await load(), 'wrong password')).rejects.toThrow(BadRequestException);
+      await service.disable(await load(), PASSWORD);
+
+      expect(service.isEnabled(await load())).toBe(false);
+    });
+
+    it('lets an admin clear the second factor', async () => {
+      await enroll();
+
+      await service.reset(user.id);
+
+      expect(service.isEnabled(await load())).toBe(false);
+      expect(user.twoFactorSecret).toBeNull();
+      expect(user.twoFactorRecoveryCodes).toBeNull();
+    });
+
+    it('reports unknown users as not found', async () => {
+      await expect(service.reset('nobody')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
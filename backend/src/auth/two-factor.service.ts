@@ -0,0 +1,175 @@
+import { BadRequestException, ConflictException, ForbiddenException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import * as QRCode from 'qrcode';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { RbacService } from '../rbac/rbac.service';
+import authConfig from './auth.config';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+import { hashToken } from './tokens';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    private usersService: UsersService,
+    private rbacService: RbacService,
+    @Inject(authConfig.KEY)
+    private config: ConfigType<typeof authConfig>,
+  ) {}
+
+  get challengeLifetimeMs(): number {
+    return this.config.twoFactorChallengeTtlMs;
+  }
+
+  isEnabled(user: User): boolean {
+    return !!user.twoFactorEnabledAt;
+  }
+
+  /**
+   * Whether any of the given roles obliges this user to enroll before using
+   * it, either through the role's own setting or TWO_FACTOR_REQUIRED_ROLES.
+   */
+  async isEnrollmentRequired(user: User, roles: string[]): Promise<boolean> {
+    if (this.isEnabled(user)) return false;
+    if (roles.some(role => this.config.twoFactorRequiredRoles.includes(role))) return true;
+    return this.rbacService.requiresTwoFactor(roles);
+  }
+
+  /** Used by the authorization guards to hold back users who still have to enroll. */
+  async assertEnrollmentSatisfied(user: User, roles: string[]): Promise<void> {
+    if (await this.isEnrollmentRequired(user, roles)) {
+      throw new ForbiddenException({
+        message: 'Two-factor authentication must be enabled to use this feature',
+        code: 'TWO_FACTOR_ENROLLMENT_REQUIRED',
+      });
+    }
+  }
+
+  recoveryCodesRemaining(user: User): number {
+    return user.twoFactorRecoveryCodes?.length ?? 0;
+  }
+
+  /**
+   * Starts (or restarts) enrollment with a fresh secret. Nothing is enforced
+   * until the user proves possession of the secret via confirmEnrollment.
+   */
+  async beginEnrollment(user: User): Promise<TwoFactorEnrollment> {
+    if (this.isEnabled(user)) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.usersService.updateTwoFactor(user.id, {
+      twoFactorSecret: secret,
+      twoFactorEnabledAt: null,
+      twoFactorLastStep: null,
+      twoFactorRecoveryCodes: null,
+    });
+
+    const otpauthUrl = buildOtpauthUri(this.config.twoFactorIssuer, user.email, secret);
+    return { secret, otpauthUrl, qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl) };
+  }
+
+  /** Activates 2FA and returns the plaintext recovery codes, shown only once. */
+  async confirmEnrollment(user: User, code: string): Promise<string[]> {
+    if (this.isEnabled(user)) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step === null) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.usersService.updateTwoFactor(user.id, {
+      twoFactorEnabledAt: new Date(),
+      twoFactorLastStep: String(step),
+      twoFactorRecoveryCodes: recoveryCodes.map(hashToken),
+    });
+    return recoveryCodes;
+  }
+
+  /**
+   * Checks a second factor, accepting either a TOTP code or an unused
+   * recovery code. Whatever is accepted is consumed and cannot be reused.
+   */
+  async verify(user: User, code: string): Promise<boolean> {
+    if (!this.isEnabled(user)) return false;
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step !== null) {
+      if (user.twoFactorLastStep !== null && step <= Number(user.twoFactorLastStep)) {
+        return false;
+      }
+      // Claimed conditionally, so of two concurrent requests with the same code only one wins
+      return this.usersService.claimTwoFactorStep(user.id, step);
+    }
+
+    const hash = hashToken(this.normalizeRecoveryCode(code));
+    if (!(user.twoFactorRecoveryCodes ?? []).includes(hash)) return false;
+
+    return this.usersService.consumeRecoveryCode(user.id, hash);
+  }
+
+  async regenerateRecoveryCodes(user: User, code: string): Promise<string[]> {
+    if (!await this.verify(user, code)) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.usersService.updateTwoFactor(user.id, {
+      twoFactorRecoveryCodes: recoveryCodes.map(hashToken),
+    });
+    return recoveryCodes;
+  }
+
+  async disable(user: User, password: string): Promise<void> {
+    if (!await this.usersService.validatePassword(password, user.password)) {
+      throw new BadRequestException('Password is incorrect');
+    }
+    await this.clear(user.id);
+  }
+
+  /** Admin escape hatch for users who lost both their device and recovery codes. */
+  async reset(userId: string): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    await this.clear(user.id);
+  }
+
+  private async clear(userId: string): Promise<void> {
+    await this.usersService.updateTwoFactor(userId, {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastStep: null,
+      twoFactorRecoveryCodes: null,
+    });
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    const compact = code.trim().toLowerCase().replace(/[\s-]/g, '');
+    return `${compact.slice(0, 5)}-${compact.slice(5)}`;
+  }
+}
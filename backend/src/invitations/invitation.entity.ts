@@ -0,0 +1,51 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * An offer to create an account with a preassigned role. The link in the
+ * email can be used once, until it expires or an admin revokes it; resending
+ * replaces the token, so only the latest email works.
+ */
+@Entity('invitations')
+export class Invitation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  email: string;
+
+  // Global role, or the role within the organisation when one is set
+  @Column()
+  role: string;
+
+  // Organisation the invitee joins; null for invitations from cross-tenant admins
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null;
+
+  // SHA-256 of the token; the raw value only ever exists in the email
+  @Index({ unique: true })
+  @Column()
+  tokenHash: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  invitedById: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  invitedByEmail: string | null;
+
+  @Column()
+  expiresAt: Date;
+
+  @Column()
+  lastSentAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  acceptedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,87 @@
+import { Body, Controller, Delete, Get, Param, Post, Req, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiCookieAuth, ApiParam, ApiBody } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { CsrfGuard } from '../auth/csrf.guard';
+import { NoImpersonationGuard } from '../auth/impersonation.guard';
+import { assertApiTokenScopes, PermissionsGuard } from '../auth/permissions.guard';
+import { OrganizationScopeGuard } from '../auth/organization-scope.guard';
+import { EmailVerificationService } from '../auth/email-verification.service';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { RequirePermissions } from '../rbac/require-permissions.decorator';
+import { PermissionKey } from '../rbac/permission-key';
+import { getAuditActor } from '../audit/audit-actor';
+import { UserRole } from '../users/user.entity';
+import { InvitationsService } from './invitations.service';
+import { CreateInvitationDto } from './invitations.dto';
+
+@ApiTags('Admin')
+@Controller('admin/invitations')
+@UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+@ApiCookieAuth('sessionId')
+export class InvitationsController {
+  constructor(
+    private invitationsService: InvitationsService,
+    private emailVerificationService: EmailVerificationService,
+  ) {}
+
+  @Get()
+  @RequirePermissions(PermissionKey.USERS_READ)
+  @ApiOperation({ summary: 'List pending invitations; organization admins see those of their active organization' })
+  @ApiResponse({ status: 200, description: 'Invitations not yet accepted or revoked, including expired ones' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  async list(@Req() request: Request) {
+    return this.invitationsService.listPending(request.organizationScope);
+  }
+
+  @Post()
+  @RequirePermissions(PermissionKey.USERS_WRITE)
+  @RateLimit({ limit: 30, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Invite someone to create an account with a preassigned role' })
+  @ApiBody({ type: CreateInvitationDto })
+  @ApiResponse({ status: 201, description: 'Invitation created and emailed' })
+  @ApiResponse({ status: 400, description: 'Unknown or non-assignable role' })
+  @ApiResponse({
+    status: 403,
+    description: 'Insufficient permissions, ROLE_WRITE_REQUIRED for a role other than user, PERMISSION_NOT_HELD for a role '
+      + 'granting more than you hold, viewing as another user, or REGISTRATION_CLOSED',
+  })
+  @ApiResponse({ status: 409, description: 'Email already exists or already has a pending invitation' })
+  async create(@Body() dto: CreateInvitationDto, @Req() request: Request) {
+    if (dto.role && dto.role !== UserRole.USER) {
+      assertApiTokenScopes(request, [PermissionKey.USERS_ROLE_WRITE]);
+    }
+    return this.invitationsService.create(
+      request.organizationScope,
+      dto,
+      this.emailVerificationService.effectiveRoles(request.user, request.membership),
+      getAuditActor(request),
+    );
+  }
+
+  @Post(':id/resend')
+  @RequirePermissions(PermissionKey.USERS_WRITE)
+  @RateLimit({ limit: 30, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Email a new link for a pending invitation; the previous link stops working' })
+  @ApiParam({ name: 'id', description: 'Invitation ID' })
+  @ApiResponse({ status: 201, description: 'Invitation resent with a renewed expiry' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'Invitation not found, accepted or revoked' })
+  async resend(@Param('id') id: string, @Req() request: Request) {
+    return this.invitationsService.resend(request.organizationScope, id, getAuditActor(request));
+  }
+
+  @Delete(':id')
+  @RequirePermissions(PermissionKey.USERS_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Revoke a pending invitation' })
+  @ApiParam({ name: 'id', description: 'Invitation ID' })
+  @ApiResponse({ status: 200, description: 'Invitation revoked' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'Invitation not found, accepted or revoked' })
+  async revoke(@Param('id') id: string, @Req() request: Request) {
+    await this.invitationsService.revoke(request.organizationScope, id, getAuditActor(request));
+    return { message: 'Invitation revoked' };
+  }
+}
@@ -0,0 +1,37 @@
+import { IsEmail, IsInt, IsNotEmpty, IsOptional, IsString, Max, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const MAX_INVITATION_LIFETIME_DAYS = 30;
+
+export class CreateInvitationDto {
+  @ApiProperty({ example: 'new.hire@acme.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiPropertyOptional({
+    example: 'user',
+    description: 'Global role when invited by a super admin, otherwise the role within the active organisation. Defaults to user',
+  })
+  @IsOptional()
+  @IsString()
+  role?: string;
+
+  @ApiPropertyOptional({ example: 7, description: `Days until the link expires (default INVITATION_TTL_DAYS, at most ${MAX_INVITATION_LIFETIME_DAYS})` })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_INVITATION_LIFETIME_DAYS)
+  expiresInDays?: number;
+}
+
+export class AcceptInvitationDto {
+  @ApiProperty({ description: 'Token from the invitation email' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({ example: 'correct-horse-battery', description: 'Password for the new account; must satisfy the password policy' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
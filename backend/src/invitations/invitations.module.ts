@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Invitation } from './invitation.entity';
+import { InvitationsService } from './invitations.service';
+import { UsersModule } from '../users/users.module';
+import { RbacModule } from '../rbac/rbac.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { MailModule } from '../mail/mail.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Invitation]), UsersModule, RbacModule, OrganizationsModule, MailModule, AuditModule],
+  providers: [InvitationsService],
+  exports: [InvitationsService],
+})
+export class InvitationsModule {}
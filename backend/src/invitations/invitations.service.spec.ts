@@ -0,0 +1,313 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { EntityManager } from 'typeorm';
+import { InvitationsService } from './invitations.service';
+import { Invitation } from './invitation.entity';
+import authConfig from '../auth/auth.config';
+import { hashToken } from '../auth/tokens';
+import { MailMessage, Mailer } from '../mail/mailer';
+import { UsersService } from '../users/users.service';
+import { PasswordPolicyService } from '../users/password-policy.service';
+import { RegistrationPolicyService } from '../users/registration-policy.service';
+import { User } from '../users/user.entity';
+import { RbacService } from '../rbac/rbac.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { AuditEventInput, AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { FakeRepository } from '../testing/fake-repository';
+import { partialMock } from '../testing/partial-mock';
+
+const DAY = 24 * 60 * 60 * 1000;
+const PASSWORD = 'a long passphrase 1';
+
+describe('InvitationsService', () => {
+  let service: InvitationsService;
+  let invitations: FakeRepository<Invitation>;
+  let users: User[];
+  let memberships: { organizationId: string; email: string; role: string }[];
+  let mail: MailMessage[];
+  let audited: AuditEventInput[];
+  let registration: ConfigType<typeof authConfig>['registration'];
+  // Managers the account and the membership were written through
+  let writtenThrough: EntityManager[];
+  let failCreate: boolean;
+  // Effective roles each grant was vetted against
+  let grantors: (string[] | null)[];
+  const global = { organizationId: null };
+  const acme = { organizationId: 'org-1' };
+  // Effective roles of the admin sending the invitations
+  const GRANTOR = ['admin'];
+
+  beforeEach(() => {
+    invitations = new FakeRepository(Invitation);
+    users = [];
+    memberships = [];
+    mail = [];
+    audited = [];
+    registration = { mode: 'invite-only', allowedDomains: [] };
+    writtenThrough = [];
+    failCreate = false;
+    grantors = [];
+
+    const usersService = partialMock<UsersService>({
+      findByEmail: async (email: string) => users.find(user => user.email === email) ?? null,
+      create: async (email: string, _password: string, _actor, options) => {
+        if (failCreate) throw new Error('database is down');
+        writtenThrough.push(options.manager);
+        const user = Object.assign(new User(), {
+          id: `user-${users.length + 1}`,
+          email,
+          roles: options.roles.map(name => ({ name })),
+          emailVerifiedAt: options.emailVerified ? new Date() : null,
+        });
+        users.push(user);
+        return user;
+      },
+    });
+    const passwordPolicyService = partialMock<PasswordPolicyService>({
+      assertAcceptable: async (password: string) => {
+        if (password.length < 10) throw new BadRequestException({ code: 'PASSWORD_POLICY' });
+      },
+    });
+    const rbacService = partialMock<RbacService>({
+      findRoles: async (names: string[]) => {
+        if (names.some(name => name === 'ghost')) throw new BadRequestException('Unknown role');
+        return [];
+      },
+      // Admins may assign roles; other grantors only the default one
+      assertMayAssign: async (roles: string[], grantorRoles: string[]) => {
+        grantors.push(grantorRoles);
+        if (roles.some(role => role !== 'user') && !grantorRoles.includes('admin')) {
+          throw new ForbiddenException({ code: 'ROLE_WRITE_REQUIRED' });
+        }
+      },
+    });
+    const organizationsService = partialMock<OrganizationsService>({
+      assertAssignable: async (role: string) => {
+        if (role === 'super_admin' || role === 'ghost') throw new BadRequestException('Role cannot be assigned');
+      },
+      addUser: async (organizationId: string, user: User, role: string, _grantorRoles, _actor, manager: EntityManager) => {
+        writtenThrough.push(manager);
+        memberships.push({ organizationId, email: user.email, role });
+        return null;
+      },
+    });
+    const mailer = partialMock<Mailer>({ send: async (message: MailMessage) => { mail.push(message); } });
+    const auditService = partialMock<AuditService>({
+      record: async (event: AuditEventInput) => { audited.push(event); },
+    });
+
+    const config = {
+      frontendUrl: 'http://localhost:3000',
+      invitationTtlDays: 7,
+      registration,
+    } as ConfigType<typeof authConfig>;
+
+    // Like a database transaction, undoes its own updates to the invitations when its work fails
+    const invitationRepository = invitations.asRepository();
+    const transaction = async (work: (manager: EntityManager) => Promise<unknown>) => {
+      const undo: (() => void)[] = [];
+      const manager = partialMock<EntityManager>({
+        update: (async (_target, criteria, changes: Partial<Invitation>) => {
+          const before = invitations.rows.map(row => ({ row, copy: { ...row } }));
+          const result = await invitationRepository.update(criteria, changes);
+          const keys = Object.keys(changes);
+          const changed = before.filter(({ row, copy }) => keys.some(key => row[key] !== copy[key]));
+          undo.push(() => changed.forEach(({ row, copy }) => keys.forEach(key => { row[key] = copy[key]; })));
+          return result;
+        }) as EntityManager['update'],
+      });
+      try {
+        return await work(manager);
+      } catch (error) {
+        undo.reverse().forEach(step => step());
+        throw error;
+      }
+    };
+
+    service = new InvitationsService(
+      invitations.asRepository({ manager: partialMock<EntityManager>({ transaction: transaction as EntityManager['transaction'] }) }),
+      usersService,
+      passwordPolicyService,
+      new RegistrationPolicyService(config),
+      rbacService,
+      organizationsService,
+      mailer,
+      auditService,
+      config,
+    );
+  });
+
+  // The token only exists in the link of the latest email
+  function lastToken(): string {
+    return new URL(/http\S+/.exec(mail[mail.length - 1].text)[0]).searchParams.get('token');
+  }
+
+  describe('create', () => {
+    it('mails a link and stores only the hash of its token', async () => {
+      const invitation = await service.create(acme, { email: 'new@example.com', role: 'admin' }, GRANTOR, {
+        id: 'admin-1',
+        email: 'admin@example.com',
+      });
+
+      expect(mail[0].to).toBe('new@example.com');
+      expect(invitations.rows[0].tokenHash).toBe(hashToken(lastToken()));
+      expect(invitation).not.toHaveProperty('tokenHash');
+      expect(invitation).toMatchObject({ role: 'admin', organizationId: 'org-1', invitedById: 'admin-1' });
+      expect(invitation.expiresAt.getTime()).toBeGreaterThan(Date.now() + 7 * DAY - 1000);
+      expect(audited.map(event => event.action)).toEqual([AuditAction.INVITATION_CREATED]);
+    });
+
+    it('invites as a plain user unless told otherwise', async () => {
+      expect((await service.create(global, { email: 'new@example.com' }, GRANTOR)).role).toBe('user');
+    });
+
+    it('checks the role against the organisation or the global roles', async () => {
+      await expect(service.create(acme, { email: 'new@example.com', role: 'super_admin' }, GRANTOR)).rejects.toThrow(BadRequestException);
+      await expect(service.create(global, { email: 'new@example.com', role: 'ghost' }, GRANTOR)).rejects.toThrow(BadRequestException);
+      expect(mail).toEqual([]);
+    });
+
+    it('lets only admins who may change roles invite with anything but the default role', async () => {
+      await expect(service.create(global, { email: 'new@example.com', role: 'admin' }, ['support'])).rejects.toThrow(ForbiddenException);
+      await expect(service.create(global, { email: 'new@example.com' }, ['support'])).resolves.toMatchObject({ role: 'user' });
+      expect(mail).toHaveLength(1);
+    });
+
+    it('refuses addresses that already have an account or a pending invitation', async () => {
+      users.push(Object.assign(new User(), { id: 'user-9', email: 'taken@example.com' }));
+      await service.create(acme, { email: 'new@example.com' }, GRANTOR);
+
+      await expect(service.create(acme, { email: 'taken@example.com' }, GRANTOR)).rejects.toThrow(ConflictException);
+      await expect(service.create(acme, { email: 'new@example.com' }, GRANTOR)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('resend and revoke', () => {
+    it('replaces the link and keeps the lifetime the invitation was created with', async () => {
+      const { id } = await service.create(acme, { email: 'new@example.com', expiresInDays: 3 }, GRANTOR);
+      const first = lastToken();
+
+      const resent = await service.resend(acme, id);
+
+      expect(lastToken()).not.toBe(first);
+      expect(resent.expiresAt.getTime() - resent.lastSentAt.getTime()).toBe(3 * DAY);
+      await expect(service.accept(first, PASSWORD)).rejects.toThrow('Invalid or expired invitation');
+      await expect(service.accept(lastToken(), PASSWORD)).resolves.toBeDefined();
+    });
+
+    it('kills the link of a revoked invitation', async () => {
+      const { id } = await service.create(acme, { email: 'new@example.com' }, GRANTOR);
+
+      await service.revoke(acme, id);
+
+      await expect(service.accept(lastToken(), PASSWORD)).rejects.toThrow('Invalid or expired invitation');
+      expect(await service.listPending(acme)).toEqual([]);
+    });
+
+    it('only lets an organisation manage its own invitations', async () => {
+      const { id } = await service.create(acme, { email: 'new@example.com' }, GRANTOR);
+
+      await expect(service.revoke({ organizationId: 'org-2' }, id)).rejects.toThrow(NotFoundException);
+      expect(await service.listPending({ organizationId: 'org-2' })).toEqual([]);
+      expect(await service.listPending(global)).toHaveLength(1);
+    });
+  });
+
+  describe('accept', () => {
+    it('creates a verified account with the global role', async () => {
+      await service.create(global, { email: 'new@example.com', role: 'admin' }, GRANTOR);
+
+      const user = await service.accept(lastToken(), PASSWORD);
+
+      expect(user.roles.map(role => role.name)).toEqual(['admin']);
+      expect(user.emailVerifiedAt).not.toBeNull();
+      expect(invitations.rows[0].acceptedAt).not.toBeNull();
+      expect(audited[audited.length - 1]).toMatchObject({ action: AuditAction.INVITATION_ACCEPTED, actor: { id: user.id } });
+    });
+
+    it('makes the invitee a plain user who holds the role inside the organisation', async () => {
+      await service.create(acme, { email: 'new@example.com', role: 'admin' }, GRANTOR);
+
+      const user = await service.accept(lastToken(), PASSWORD);
+
+      expect(user.roles.map(role => role.name)).toEqual(['user']);
+      expect(memberships).toEqual([{ organizationId: 'org-1', email: 'new@example.com', role: 'admin' }]);
+    });
+
+    it('creates the account and the membership in the transaction that claims the link', async () => {
+      await service.create(acme, { email: 'new@example.com', role: 'admin' }, GRANTOR);
+
+      await service.accept(lastToken(), PASSWORD);
+
+      expect(writtenThrough).toHaveLength(2);
+      expect(writtenThrough[0]).toBeDefined();
+      expect(writtenThrough[1]).toBe(writtenThrough[0]);
+    });
+
+    it('gives the link back when the account cannot be created', async () => {
+      await service.create(acme, { email: 'new@example.com' }, GRANTOR);
+      failCreate = true;
+
+      await expect(service.accept(lastToken(), PASSWORD)).rejects.toThrow('database is down');
+      expect(await service.listPending(acme)).toHaveLength(1);
+
+      failCreate = false;
+      await expect(service.accept(lastToken(), PASSWORD)).resolves.toBeDefined();
+    });
+
+    it('vets the grant against the admin who sent the invitation, not the invitee', async () => {
+      await service.create(acme, { email: 'new@example.com', role: 'admin' }, GRANTOR);
+
+      await service.accept(lastToken(), PASSWORD);
+
+      expect(grantors).toEqual([GRANTOR]);
+    });
+
+    it('keeps the link usable after a refused password', async () => {
+      await service.create(acme, { email: 'new@example.com' }, GRANTOR);
+
+      await expect(service.accept(lastToken(), 'short')).rejects.toThrow(BadRequestException);
+
+      await expect(service.accept(lastToken(), PASSWORD)).resolves.toBeDefined();
+    });
+
+    it('refuses unknown, used and expired links', async () => {
+      await service.create(acme, { email: 'new@example.com' }, GRANTOR);
+      const token = lastToken();
+      await service.accept(token, PASSWORD);
+      await service.create(acme, { email: 'late@example.com' }, GRANTOR);
+      invitations.rows[1].expiresAt = new Date(Date.now() - 1);
+
+      await expect(service.accept('not-a-token', PASSWORD)).rejects.toThrow('Invalid or expired invitation');
+      await expect(service.accept(token, PASSWORD)).rejects.toThrow('Invalid or expired invitation');
+      await expect(service.accept(lastToken(), PASSWORD)).rejects.toThrow('Invalid or expired invitation');
+    });
+
+    it('sends people who registered in the meantime to sign in', async () => {
+      await service.create(acme, { email: 'new@example.com' }, GRANTOR);
+      users.push(Object.assign(new User(), { id: 'user-9', email: 'new@example.com' }));
+
+      await expect(service.accept(lastToken(), PASSWORD)).rejects.toThrow(ConflictException);
+    });
+
+    it('turns links off while registration is closed', async () => {
+      await service.create(acme, { email: 'new@example.com' }, GRANTOR);
+      registration.mode = 'closed';
+
+      await expect(service.accept(lastToken(), PASSWORD)).rejects.toThrow(ForbiddenException);
+      await expect(service.create(acme, { email: 'other@example.com' }, GRANTOR)).rejects.toThrow(ForbiddenException);
+      expect(users).toEqual([]);
+    });
+
+    it('lets only one of two concurrent attempts redeem the link', async () => {
+      await service.create(acme, { email: 'new@example.com' }, GRANTOR);
+
+      const results = await Promise.allSettled([service.accept(lastToken(), PASSWORD), service.accept(lastToken(), PASSWORD)]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(users).toHaveLength(1);
+    });
+  });
+});
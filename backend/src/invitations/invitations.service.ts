@@ -0,0 +1,243 @@
+import { BadRequestException, ConflictException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, IsNull, Repository } from 'typeorm';
+import { Invitation } from './invitation.entity';
+import { CreateInvitationDto } from './invitations.dto';
+import authConfig from '../auth/auth.config';
+import { generateToken, hashToken } from '../auth/tokens';
+import { ClientInfo } from '../auth/client-info';
+import { Mailer } from '../mail/mailer';
+import { UsersService } from '../users/users.service';
+import { PasswordPolicyService } from '../users/password-policy.service';
+import { RegistrationPolicyService } from '../users/registration-policy.service';
+import { User, UserRole } from '../users/user.entity';
+import { RbacService } from '../rbac/rbac.service';
+import { OrganizationsService, OrganizationScope } from '../organizations/organizations.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { AuditActor } from '../audit/audit-actor';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type InvitationSummary = Omit<Invitation, 'tokenHash'>;
+
+@Injectable()
+export class InvitationsService {
+  constructor(
+    @InjectRepository(Invitation)
+    private invitationRepository: Repository<Invitation>,
+    private usersService: UsersService,
+    private passwordPolicyService: PasswordPolicyService,
+    private registrationPolicyService: RegistrationPolicyService,
+    private rbacService: RbacService,
+    private organizationsService: OrganizationsService,
+    private mailer: Mailer,
+    private auditService: AuditService,
+    @Inject(authConfig.KEY)
+    private config: ConfigType<typeof authConfig>,
+  ) {}
+
+  /** Invitations that were neither accepted nor revoked, expired ones included so they can be resent. */
+  async listPending(scope: OrganizationScope): Promise<InvitationSummary[]> {
+    const invitations = await this.invitationRepository.find({
+      where: this.pendingWhere(scope),
+      order: { createdAt: 'DESC' },
+    });
+    return invitations.map(invitation => this.toSummary(invitation));
+  }
+
+  /**
+   * Invites someone without an account. Inside an organisation the role is
+   * the one they will hold there; cross-tenant admins grant a global role.
+   * Anything but the default role needs the admin sending it, whose
+   * effective roles are `grantorRoles`, to be allowed to change roles.
+   */
+  async create(
+    scope: OrganizationScope,
+    dto: CreateInvitationDto,
+    grantorRoles: string[],
+    actor?: AuditActor,
+  ): Promise<InvitationSummary> {
+    this.registrationPolicyService.assertInvitationsAllowed();
+    const role = dto.role ?? UserRole.USER;
+    await this.assertRoleAssignable(scope.organizationId, role);
+    await this.rbacService.assertMayAssign([role], grantorRoles);
+
+    if (await this.usersService.findByEmail(dto.email)) {
+      throw new ConflictException('Email already exists');
+    }
+    if (await this.invitationRepository.exists({ where: { ...this.pendingWhere(scope), email: dto.email } })) {
+      throw new ConflictException('This address already has a pending invitation; resend it instead');
+    }
+
+    const token = generateToken();
+    const now = new Date();
+    const invitation = await this.invitationRepository.save(this.invitationRepository.create({
+      email: dto.email,
+      role,
+      organizationId: scope.organizationId,
+      tokenHash: hashToken(token),
+      invitedById: actor?.id ?? null,
+      invitedByEmail: actor?.email ?? null,
+      expiresAt: new Date(now.getTime() + (dto.expiresInDays ?? this.config.invitationTtlDays) * DAY_MS),
+      lastSentAt: now,
+    }));
+
+    await this.send(invitation, token);
+    await this.auditService.record({
+      action: AuditAction.INVITATION_CREATED,
+      actor,
+      targetId: invitation.id,
+      after: { email: invitation.email, role, expiresAt: invitation.expiresAt },
+      metadata: { organizationId: scope.organizationId },
+    });
+    return this.toSummary(invitation);
+  }
+
+  /**
+   * Mails a fresh link, which invalidates the previous one, and gives it the
+   * lifetime the invitation was created with.
+   */
+  async resend(scope: OrganizationScope, id: string, actor?: AuditActor): Promise<InvitationSummary> {
+    this.registrationPolicyService.assertInvitationsAllowed();
+    const invitation = await this.findPending(scope, id);
+    const lifetimeMs = invitation.expiresAt.getTime() - invitation.lastSentAt.getTime();
+
+    const token = generateToken();
+    const now = new Date();
+    invitation.tokenHash = hashToken(token);
+    invitation.lastSentAt = now;
+    invitation.expiresAt = new Date(now.getTime() + lifetimeMs);
+    await this.invitationRepository.save(invitation);
+
+    await this.send(invitation, token);
+    await this.auditService.record({
+      action: AuditAction.INVITATION_RESENT,
+      actor,
+      targetId: invitation.id,
+      after: { email: invitation.email, expiresAt: invitation.expiresAt },
+      metadata: { organizationId: invitation.organizationId },
+    });
+    return this.toSummary(invitation);
+  }
+
+  async revoke(scope: OrganizationScope, id: string, actor?: AuditActor): Promise<void> {
+    const invitation = await this.findPending(scope, id);
+
+    invitation.revokedAt = new Date();
+    await this.invitationRepository.save(invitation);
+    await this.auditService.record({
+      action: AuditAction.INVITATION_REVOKED,
+      actor,
+      targetId: invitation.id,
+      before: { email: invitation.email, role: invitation.role },
+      metadata: { organizationId: invitation.organizationId },
+    });
+  }
+
+  /**
+   * Redeems an invitation: creates the account with a verified address and
+   * the preassigned role. Everything that can fail is checked before the
+   * token is claimed, so a rejected password does not use up the link, and
+   * the claim, the account and the membership commit together, so a failure
+   * part-way neither burns the link nor leaves an account outside its
+   * organisation.
+   */
+  async accept(token: string, password: string, client?: ClientInfo): Promise<User> {
+    this.registrationPolicyService.assertInvitationsAllowed();
+    const invitation = await this.invitationRepository.findOne({ where: { tokenHash: hashToken(token) } });
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt <= new Date()) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    if (await this.usersService.findByEmail(invitation.email)) {
+      throw new ConflictException('An account with this email already exists, please sign in');
+    }
+    await this.passwordPolicyService.assertAcceptable(password, invitation.email);
+    // The role may have been deleted or changed since the invitation was sent
+    await this.assertRoleAssignable(invitation.organizationId, invitation.role);
+
+    const actor = { email: invitation.email, ...client };
+    const { organizationId } = invitation;
+    const user = await this.invitationRepository.manager.transaction(async manager => {
+      // Claim the invitation atomically so a replayed link cannot win a race
+      const claimed = await manager.update(
+        Invitation,
+        { id: invitation.id, acceptedAt: IsNull(), revokedAt: IsNull() },
+        { acceptedAt: new Date() },
+      );
+      if (!claimed.affected) {
+        throw new BadRequestException('Invalid or expired invitation');
+      }
+
+      const created = await this.usersService.create(invitation.email, password, actor, {
+        roles: [organizationId ? UserRole.USER : invitation.role],
+        emailVerified: true,
+        manager,
+      });
+      if (organizationId) {
+        await this.organizationsService.addUser(
+          organizationId,
+          created,
+          invitation.role,
+          null,
+          { ...actor, id: created.id },
+          manager,
+        );
+      }
+      return created;
+    });
+
+    await this.auditService.record({
+      action: AuditAction.INVITATION_ACCEPTED,
+      actor: { ...actor, id: user.id },
+      targetId: invitation.id,
+      metadata: { role: invitation.role, organizationId, invitedById: invitation.invitedById },
+    });
+    return user;
+  }
+
+  // The caller checks who may grant the role; this only checks where it may be held
+  private async assertRoleAssignable(organizationId: string | null, role: string): Promise<void> {
+    if (organizationId) {
+      await this.organizationsService.assertAssignable(role, null);
+    } else {
+      await this.rbacService.findRoles([role]);
+    }
+  }
+
+  // Cross-tenant admins see every organisation's invitations
+  private pendingWhere(scope: OrganizationScope): FindOptionsWhere<Invitation> {
+    return {
+      acceptedAt: IsNull(),
+      revokedAt: IsNull(),
+      ...(scope.organizationId ? { organizationId: scope.organizationId } : {}),
+    };
+  }
+
+  private async findPending(scope: OrganizationScope, id: string): Promise<Invitation> {
+    const invitation = await this.invitationRepository.findOne({ where: { ...this.pendingWhere(scope), id } });
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found');
+    }
+    return invitation;
+  }
+
+  private async send(invitation: Invitation, token: string): Promise<void> {
+    const link = `${this.config.frontendUrl}/accept-invite?token=${encodeURIComponent(token)}`;
+    const inviter = invitation.invitedByEmail ?? 'An administrator';
+    await this.mailer.send({
+      to: invitation.email,
+      subject: 'You have been invited',
+      text: `${inviter} invited you to create an account with the role "${invitation.role}".\n\n`
+        + `Open this link before ${invitation.expiresAt.toUTCString()} to choose a password and sign in:\n${link}\n\n`
+        + `If you were not expecting this, you can ignore this email.`,
+    });
+  }
+
+  private toSummary(invitation: Invitation): InvitationSummary {
+    const { tokenHash, ...summary } = invitation;
+    return summary;
+  }
+}
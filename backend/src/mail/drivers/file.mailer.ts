@@ -0,0 +1,26 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Mailer, MailMessage } from '../mailer';
+
+/**
+ * Development driver that writes every message as a JSON file into an outbox
+ * directory instead of delivering it.
+ */
+export class FileMailer extends Mailer {
+  private readonly logger = new Logger(FileMailer.name);
+
+  constructor(private from: string, private outboxDir: string) {
+    super();
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date();
+    const file = join(this.outboxDir, `${sentAt.getTime()}-${uuidv4()}.json`);
+
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ ...message, from: this.from, sentAt }, null, 2));
+    this.logger.log(`Mail to ${message.to} ("${message.subject}") written to ${file}`);
+  }
+}
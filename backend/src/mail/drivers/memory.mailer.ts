@@ -0,0 +1,26 @@
+import { Mailer, MailMessage } from '../mailer';
+
+export interface SentMail extends MailMessage {
+  from: string;
+  sentAt: Date;
+}
+
+/**
+ * Keeps sent messages in process memory so tests and local runs can inspect
+ * them without any mail infrastructure.
+ */
+export class MemoryMailer extends Mailer {
+  readonly outbox: SentMail[] = [];
+
+  constructor(private from: string) {
+    super();
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    this.outbox.push({ ...message, from: this.from, sentAt: new Date() });
+  }
+
+  lastTo(recipient: string): SentMail | undefined {
+    return [...this.outbox].reverse().find(mail => mail.to === recipient);
+  }
+}
@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+
+export type MailDriver = 'file' | 'memory';
+
+export default registerAs('mail', () => ({
+  driver: (process.env.MAIL_DRIVER || 'file') as MailDriver,
+  from: process.env.MAIL_FROM || 'no-reply@localhost',
+  // Where the file driver drops one JSON file per message
+  outboxDir: process.env.MAIL_OUTBOX_DIR || 'tmp/outbox',
+}));
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import mailConfig from './mail.config';
+import { Mailer } from './mailer';
+import { FileMailer } from './drivers/file.mailer';
+import { MemoryMailer } from './drivers/memory.mailer';
+
+@Module({
+  providers: [
+    {
+      provide: Mailer,
+      inject: [mailConfig.KEY],
+      useFactory: (config: ConfigType<typeof mailConfig>): Mailer => {
+        switch (config.driver) {
+          case 'memory':
+            return new MemoryMailer(config.from);
+          case 'file':
+            return new FileMailer(config.from, config.outboxDir);
+          default:
+            throw new Error(`Unknown MAIL_DRIVER "${config.driver}"`);
+        }
+      },
+    },
+  ],
+  exports: [Mailer]
+})
+export class MailModule {}
@@ -0,0 +1,13 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Outgoing mail transport. Drivers only deliver; composing the message is
+ * up to the feature that sends it.
+ */
+export abstract class Mailer {
+  abstract send(message: MailMessage): Promise<void>;
+}
@@ -1,17 +1,21 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import cookieParser from 'cookie-parser';
 import { AppModule } from './app.module';
+import sessionConfig from './sessions/session.config';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
   
-  app.use(cookieParser());
+  // Signs with the first SESSION_SECRET key and accepts any of them
+  app.use(cookieParser(app.get<ConfigType<typeof sessionConfig>>(sessionConfig.KEY).secrets));
   app.useGlobalPipes(new ValidationPipe());
   app.enableCors({
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
     credentials: true,
+    exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
   });
 
   // Swagger setup
@@ -20,8 +24,8 @@ async function bootstrap() {
     .setDescription(`Session-based authentication system with RBAC
     
 **Test Credentials:**
-- **Admin:** admin@test.com / password123
-- **User:** user@test.com / password123`)
+- **Admin:** admin@test.com / correct-horse-battery
+- **User:** user@test.com / correct-horse-battery`)
     .setVersion('1.0')
     .addCookieAuth('sessionId', {
       type: 'http',
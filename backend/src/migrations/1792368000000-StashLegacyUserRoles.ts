@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Saves the assignments of the old single `users.role` column before it is
+ * dropped. Migrations run before schema synchronisation, when `user_roles`
+ * and the role rows may not exist yet, so the assignments wait in
+ * `legacy_user_roles` until RbacService copies them over after seeding.
+ * Does nothing on databases that never had the column.
+ */
+export class StashLegacyUserRoles1792368000000 implements MigrationInterface {
+  name = 'StashLegacyUserRoles1792368000000';
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    const [{ exists }] = await queryRunner.query(
+      `SELECT EXISTS (
+         SELECT 1 FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = 'users' AND column_name = 'role'
+       ) AS "exists"`,
+    );
+    if (!exists) return;
+
+    await queryRunner.query(
+      'CREATE TABLE IF NOT EXISTS "legacy_user_roles" ("userId" uuid NOT NULL, "roleName" varchar NOT NULL)',
+    );
+    await queryRunner.query(
+      'INSERT INTO "legacy_user_roles" ("userId", "roleName") SELECT "id", "role"::text FROM "users" WHERE "role" IS NOT NULL',
+    );
+    await queryRunner.query('ALTER TABLE "users" DROP COLUMN "role"');
+    await queryRunner.query('DROP TYPE IF EXISTS "users_role_enum"');
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    // Restores the column from the first role each user holds
+    await queryRunner.query('CREATE TYPE "users_role_enum" AS ENUM (\'user\', \'admin\')');
+    await queryRunner.query('ALTER TABLE "users" ADD "role" "users_role_enum" NOT NULL DEFAULT \'user\'');
+    await queryRunner.query(
+      `UPDATE "users" u SET "role" = 'admin'
+       WHERE EXISTS (SELECT 1 FROM "user_roles" ur WHERE ur."userId" = u."id" AND ur."roleName" IN ('admin', 'super_admin'))`,
+    );
+  }
+}
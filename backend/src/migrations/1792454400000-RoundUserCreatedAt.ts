@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Rounds `users.createdAt` to milliseconds, the precision of a JavaScript
+ * Date, so keyset cursors built from it match the stored value exactly.
+ * Synchronisation makes the same change in development; this covers
+ * databases where it is turned off. Does nothing on fresh databases.
+ */
+export class RoundUserCreatedAt1792454400000 implements MigrationInterface {
+  name = 'RoundUserCreatedAt1792454400000';
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    const [{ exists }] = await queryRunner.query(
+      `SELECT EXISTS (
+         SELECT 1 FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = 'users' AND column_name = 'createdAt'
+           AND datetime_precision <> 3
+       ) AS "exists"`,
+    );
+    if (!exists) return;
+
+    await queryRunner.query('ALTER TABLE "users" ALTER COLUMN "createdAt" TYPE timestamp(3)');
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE "users" ALTER COLUMN "createdAt" TYPE timestamp');
+  }
+}
@@ -0,0 +1,120 @@
+import { beforeAll, describe, expect, it } from 'bun:test';
+import { UnauthorizedException } from '@nestjs/common';
+import { IdTokenClaims, parseJwt, selectKey, validateClaims, verifySignature } from './id-token';
+import { createSigningKey, SigningKey } from '../testing/signing-key';
+
+const NOW = Date.UTC(2026, 0, 1);
+const SECONDS = NOW / 1000;
+const EXPECTED = { issuer: 'https://idp.example.com', clientId: 'client-1', nonce: 'nonce-1' };
+
+function createClaims(overrides: Partial<IdTokenClaims> = {}): IdTokenClaims {
+  return {
+    iss: EXPECTED.issuer,
+    sub: 'subject-1',
+    aud: EXPECTED.clientId,
+    exp: SECONDS + 300,
+    iat: SECONDS,
+    nonce: EXPECTED.nonce,
+    ...overrides,
+  };
+}
+
+describe('ID tokens', () => {
+  let rsa: SigningKey;
+  let ec: SigningKey;
+
+  beforeAll(() => {
+    rsa = createSigningKey('RS256', 'rsa-1');
+    ec = createSigningKey('ES256', 'ec-1');
+  });
+
+  describe('parseJwt', () => {
+    it('rejects anything but a compact JWS', () => {
+      expect(() => parseJwt('a.b')).toThrow(UnauthorizedException);
+      expect(() => parseJwt('not.json.here')).toThrow('ID token is malformed');
+    });
+  });
+
+  describe('selectKey and verifySignature', () => {
+    it('verifies RS256 and ES256 signatures with the key the token names', () => {
+      for (const key of [rsa, ec]) {
+        const jwt = parseJwt(key.sign(createClaims()));
+
+        const selected = selectKey(jwt, [rsa.jwk, ec.jwk]);
+
+        expect(selected).toBe(key.jwk);
+        expect(verifySignature(jwt, selected)).toBe(true);
+      }
+    });
+
+    it('rejects a token whose claims were changed after signing', () => {
+      const [header, , signature] = rsa.sign(createClaims()).split('.');
+      const forged = Buffer.from(JSON.stringify(createClaims({ sub: 'someone-else' }))).toString('base64url');
+
+      expect(verifySignature(parseJwt(`${header}.${forged}.${signature}`), rsa.jwk)).toBe(false);
+    });
+
+    it('rejects a signature made with another key', () => {
+      const other = createSigningKey('RS256', 'rsa-1');
+      const jwt = parseJwt(other.sign(createClaims()));
+
+      expect(verifySignature(jwt, selectKey(jwt, [rsa.jwk]))).toBe(false);
+    });
+
+    it('never accepts unsigned or HMAC tokens', () => {
+      const none = parseJwt(rsa.sign(createClaims(), { alg: 'none' }));
+      const hmac = parseJwt(rsa.sign(createClaims(), { alg: 'HS256' }));
+
+      expect(selectKey(none, [rsa.jwk])).toBeNull();
+      expect(selectKey(hmac, [rsa.jwk])).toBeNull();
+      expect(verifySignature(hmac, rsa.jwk)).toBe(false);
+    });
+
+    it('only picks a key without a kid when exactly one fits the algorithm', () => {
+      const jwt = parseJwt(ec.sign(createClaims(), { kid: undefined }));
+
+      expect(selectKey(jwt, [rsa.jwk, ec.jwk])).toBe(ec.jwk);
+      expect(selectKey(jwt, [ec.jwk, { ...ec.jwk, kid: 'ec-2' }])).toBeNull();
+      expect(selectKey(parseJwt(ec.sign(createClaims(), { kid: 'ec-9' })), [ec.jwk])).toBeNull();
+    });
+
+    it('skips keys published for encryption or another algorithm', () => {
+      const jwt = parseJwt(rsa.sign(createClaims()));
+
+      expect(selectKey(jwt, [{ ...rsa.jwk, use: 'enc' }])).toBeNull();
+      expect(selectKey(jwt, [{ ...rsa.jwk, alg: 'RS512' }])).toBeNull();
+    });
+  });
+
+  describe('validateClaims', () => {
+    it('accepts a token issued for this login', () => {
+      expect(() => validateClaims(createClaims(), EXPECTED, NOW)).not.toThrow();
+    });
+
+    it('requires the nonce of this login', () => {
+      expect(() => validateClaims(createClaims({ nonce: 'other' }), EXPECTED, NOW)).toThrow('nonce');
+      expect(() => validateClaims(createClaims({ nonce: undefined }), EXPECTED, NOW)).toThrow('nonce');
+    });
+
+    it('requires this client among the audience, and as azp when there are several', () => {
+      expect(() => validateClaims(createClaims({ aud: 'client-2' }), EXPECTED, NOW)).toThrow('different client');
+      expect(() => validateClaims(createClaims({ aud: ['client-1', 'client-2'] }), EXPECTED, NOW)).toThrow(
+        'different party',
+      );
+      expect(() => validateClaims(createClaims({ aud: ['client-1', 'client-2'], azp: 'client-1' }), EXPECTED, NOW))
+        .not.toThrow();
+    });
+
+    it('requires the configured issuer and a subject', () => {
+      expect(() => validateClaims(createClaims({ iss: 'https://evil.example.com' }), EXPECTED, NOW)).toThrow('issuer');
+      expect(() => validateClaims(createClaims({ sub: '' }), EXPECTED, NOW)).toThrow('subject');
+    });
+
+    it('rejects expired tokens and tokens from the future, allowing a minute of skew', () => {
+      expect(() => validateClaims(createClaims({ exp: SECONDS - 30 }), EXPECTED, NOW)).not.toThrow();
+      expect(() => validateClaims(createClaims({ exp: SECONDS - 60 }), EXPECTED, NOW)).toThrow('expired');
+      expect(() => validateClaims(createClaims({ iat: SECONDS + 30 }), EXPECTED, NOW)).not.toThrow();
+      expect(() => validateClaims(createClaims({ iat: SECONDS + 61 }), EXPECTED, NOW)).toThrow('future');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { constants, createPublicKey, verify, webcrypto } from 'crypto';
+
+// Just enough JOSE to check an OpenID Connect ID token: compact JWS with the
+// asymmetric algorithms IdPs sign with. "none" and HMAC are never accepted.
+
+export interface Jwk extends webcrypto.JsonWebKey {
+  kid?: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  // Some IdPs send this as a string
+  email_verified?: boolean | string;
+  [claim: string]: unknown;
+}
+
+export interface ParsedJwt {
+  header: { alg: string; kid?: string; typ?: string };
+  claims: IdTokenClaims;
+  signingInput: string;
+  signature: Buffer;
+}
+
+interface Algorithm {
+  hash: string;
+  kty: 'RSA' | 'EC';
+  pss?: boolean;
+}
+
+const ALGORITHMS: Record<string, Algorithm> = {
+  RS256: { hash: 'sha256', kty: 'RSA' },
+  RS384: { hash: 'sha384', kty: 'RSA' },
+  RS512: { hash: 'sha512', kty: 'RSA' },
+  PS256: { hash: 'sha256', kty: 'RSA', pss: true },
+  PS384: { hash: 'sha384', kty: 'RSA', pss: true },
+  PS512: { hash: 'sha512', kty: 'RSA', pss: true },
+  ES256: { hash: 'sha256', kty: 'EC' },
+  ES384: { hash: 'sha384', kty: 'EC' },
+  ES512: { hash: 'sha512', kty: 'EC' },
+};
+
+// Tolerated clock difference between us and the IdP
+const CLOCK_SKEW_SECONDS = 60;
+
+export function parseJwt(token: string): ParsedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new UnauthorizedException('ID token is not a signed JWT');
+  }
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')),
+      claims: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url'),
+    };
+  } catch {
+    throw new UnauthorizedException('ID token is malformed');
+  }
+}
+
+/** Picks the key the token names, or the only key usable with its algorithm. */
+export function selectKey(jwt: ParsedJwt, keys: Jwk[]): Jwk | null {
+  const algorithm = ALGORITHMS[jwt.header.alg];
+  if (!algorithm) return null;
+
+  const candidates = keys.filter(key =>
+    key.kty === algorithm.kty
+    && (!key.use || key.use === 'sig')
+    && (!key.alg || key.alg === jwt.header.alg));
+  if (jwt.header.kid) {
+    return candidates.find(key => key.kid === jwt.header.kid) ?? null;
+  }
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+export function verifySignature(jwt: ParsedJwt, key: Jwk): boolean {
+  const algorithm = ALGORITHMS[jwt.header.alg];
+  if (!algorithm || key.kty !== algorithm.kty) return false;
+
+  try {
+    const publicKey = createPublicKey({ key, format: 'jwk' });
+    return verify(
+      algorithm.hash,
+      Buffer.from(jwt.signingInput),
+      {
+        key: publicKey,
+        // JWS carries raw r||s signatures rather than DER
+        dsaEncoding: algorithm.kty === 'EC' ? 'ieee-p1363' : undefined,
+        padding: algorithm.pss ? constants.RSA_PKCS1_PSS_PADDING : undefined,
+        saltLength: algorithm.pss ? constants.RSA_PSS_SALTLEN_DIGEST : undefined,
+      },
+      jwt.signature,
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks the claims OpenID Connect Core 3.1.3.7 requires of an ID token
+ * received at the token endpoint. Throws on the first failure.
+ */
+export function validateClaims(
+  claims: IdTokenClaims,
+  expected: { issuer: string; clientId: string; nonce: string },
+  now = Date.now(),
+): void {
+  const seconds = Math.floor(now / 1000);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== expected.issuer) {
+    throw new UnauthorizedException('ID token was issued by a different issuer');
+  }
+  if (!audience.includes(expected.clientId)) {
+    throw new UnauthorizedException('ID token is meant for a different client');
+  }
+  if (audience.length > 1 && claims.azp !== expected.clientId) {
+    throw new UnauthorizedException('ID token was issued to a different party');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new UnauthorizedException('ID token has no subject');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS <= seconds) {
+    throw new UnauthorizedException('ID token has expired');
+  }
+  if (typeof claims.iat !== 'number' || claims.iat - CLOCK_SKEW_SECONDS > seconds) {
+    throw new UnauthorizedException('ID token was issued in the future');
+  }
+  if (claims.nonce !== expected.nonce) {
+    throw new UnauthorizedException('ID token nonce does not match this login');
+  }
+}
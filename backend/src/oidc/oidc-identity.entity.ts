@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../users/user.entity';
+
+/**
+ * Links an account at an external OpenID Connect provider to a local user.
+ * The IdP's subject identifier is stable; its email claim may change.
+ */
+@Entity('oidc_identities')
+@Index(['provider', 'subject'], { unique: true })
+export class OidcIdentity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Provider ID from OIDC_PROVIDERS
+  @Column()
+  provider: string;
+
+  @Column()
+  subject: string;
+
+  @Index()
+  @Column('uuid')
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  // Email claim of the most recent sign-in
+  @Column({ type: 'varchar', nullable: true })
+  email: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastLoginAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
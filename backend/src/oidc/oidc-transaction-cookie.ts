@@ -0,0 +1,43 @@
+import type { Request, Response } from 'express';
+
+export const OIDC_TRANSACTION_COOKIE = 'oidc_tx';
+const COOKIE_PATH = '/auth/oidc';
+
+/** Secrets of one login round-trip to the IdP, kept in the browser that started it. */
+export interface OidcTransaction {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+/**
+ * The cookie must survive the cross-site redirect back from the IdP, so it is
+ * SameSite=Lax whatever the session cookie uses. It is httpOnly and scoped to
+ * the OIDC routes.
+ */
+export function setTransactionCookie(response: Response, transaction: OidcTransaction): void {
+  response.cookie(OIDC_TRANSACTION_COOKIE, Buffer.from(JSON.stringify(transaction)).toString('base64url'), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: COOKIE_PATH,
+    maxAge: Math.max(transaction.expiresAt - Date.now(), 0),
+  });
+}
+
+export function readTransactionCookie(request: Request): OidcTransaction | null {
+  const value = request.cookies?.[OIDC_TRANSACTION_COOKIE];
+  if (!value) return null;
+
+  try {
+    return JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export function clearTransactionCookie(response: Response): void {
+  response.clearCookie(OIDC_TRANSACTION_COOKIE, { path: COOKIE_PATH });
+}
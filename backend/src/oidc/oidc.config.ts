@@ -0,0 +1,73 @@
+import { registerAs } from '@nestjs/config';
+
+export interface OidcProviderConfig {
+  id: string;
+  // Shown on the login button, e.g. "Sign in with Corporate SSO"
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  // Claim carrying the user's groups at the IdP; dots address nested claims
+  roleClaim: string | null;
+  // IdP group -> local role, applied when an account is first provisioned
+  roleMap: Record<string, string>;
+  // Roles given to new accounts whose groups map to nothing
+  defaultRoles: string[];
+}
+
+const PROVIDER_ID = /^[a-z0-9-]+$/;
+
+function list(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Reads one provider from OIDC_<ID>_* variables, e.g. OIDC_CORP_ISSUER for
+ * the provider "corp". Plain HTTP issuers are only accepted on localhost, for
+ * a mock IdP during development.
+ */
+function readProvider(id: string): OidcProviderConfig {
+  if (!PROVIDER_ID.test(id)) {
+    throw new Error(`Invalid OIDC provider ID "${id}": use lower-case letters, digits and dashes`);
+  }
+
+  const prefix = `OIDC_${id.toUpperCase().replace(/-/g, '_')}_`;
+  const env = (name: string) => process.env[prefix + name];
+
+  const issuer = (env('ISSUER') || '').replace(/\/+$/, '');
+  if (!issuer || !env('CLIENT_ID') || !env('CLIENT_SECRET')) {
+    throw new Error(`OIDC provider "${id}" needs ${prefix}ISSUER, ${prefix}CLIENT_ID and ${prefix}CLIENT_SECRET`);
+  }
+  const { protocol, hostname } = new URL(issuer);
+  if (protocol !== 'https:' && !['localhost', '127.0.0.1'].includes(hostname)) {
+    throw new Error(`OIDC provider "${id}" must use an https issuer`);
+  }
+
+  return {
+    id,
+    name: env('NAME') || id,
+    issuer,
+    clientId: env('CLIENT_ID'),
+    clientSecret: env('CLIENT_SECRET'),
+    scopes: env('SCOPES') || 'openid email profile',
+    roleClaim: env('ROLE_CLAIM') || null,
+    roleMap: list(env('ROLE_MAP')).reduce<Record<string, string>>((map, entry) => {
+      const [group, role] = entry.split('=').map(part => part.trim());
+      if (group && role) map[group] = role;
+      return map;
+    }, {}),
+    defaultRoles: list(env('DEFAULT_ROLES') || 'user'),
+  };
+}
+
+export default registerAs('oidc', () => ({
+  // Comma-separated IDs of the configured providers; empty disables SSO
+  providers: list(process.env.OIDC_PROVIDERS).map(readProvider),
+  // Public base URL of this API; callbacks are <base>/auth/oidc/<id>/callback
+  redirectBaseUrl: (process.env.OIDC_REDIRECT_BASE_URL || 'http://localhost:3001').replace(/\/+$/, ''),
+  // How long the user may spend at the IdP before the login must restart
+  transactionTtlMs: 10 * 60 * 1000,
+  // Discovery documents and signing keys are refetched after this long
+  metadataCacheMs: 60 * 60 * 1000,
+}));
@@ -0,0 +1,98 @@
+import { Controller, Get, HttpException, Inject, Logger, Param, Query, Req, Res, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import type { ConfigType } from '@nestjs/config';
+import type { Request, Response } from 'express';
+import { OidcService } from './oidc.service';
+import { OidcCallbackQueryDto } from './oidc.dto';
+import { clearTransactionCookie, readTransactionCookie, setTransactionCookie } from './oidc-transaction-cookie';
+import { AuthService } from '../auth/auth.service';
+import authConfig from '../auth/auth.config';
+import { getClientInfo } from '../auth/client-info';
+import { SessionCookieService } from '../sessions/session-cookie.service';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+
+/**
+ * Browser-facing SSO routes. Login and callback are top-level navigations,
+ * so they answer with redirects; failures land on the frontend login page
+ * with the reason in ?ssoError.
+ */
+@ApiTags('Single Sign-On')
+@Controller('auth/oidc')
+export class OidcController {
+  private readonly logger = new Logger(OidcController.name);
+
+  constructor(
+    private oidcService: OidcService,
+    private authService: AuthService,
+    private sessionCookieService: SessionCookieService,
+    @Inject(authConfig.KEY)
+    private config: ConfigType<typeof authConfig>,
+  ) {}
+
+  @Get('providers')
+  @ApiOperation({ summary: 'List the configured single sign-on providers' })
+  @ApiResponse({ status: 200, description: 'Provider IDs and display names, for the login page' })
+  listProviders() {
+    return this.oidcService.listProviders();
+  }
+
+  @Get(':provider/login')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 30, windowMs: 15 * 60 * 1000, algorithm: 'sliding' })
+  @ApiOperation({ summary: 'Start a single sign-on login; redirects to the identity provider' })
+  @ApiParam({ name: 'provider', description: 'Provider ID from OIDC_PROVIDERS' })
+  @ApiResponse({ status: 302, description: 'Redirect to the identity provider, or to the login page on failure' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async login(@Param('provider') provider: string, @Res() response: Response) {
+    try {
+      const { url, transaction } = await this.oidcService.beginLogin(provider);
+      setTransactionCookie(response, transaction);
+      response.redirect(url);
+    } catch (err) {
+      this.redirectWithError(response, err);
+    }
+  }
+
+  @Get(':provider/callback')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 30, windowMs: 15 * 60 * 1000, algorithm: 'sliding' })
+  @ApiOperation({ summary: 'Redirect target of the identity provider; signs the user in' })
+  @ApiParam({ name: 'provider', description: 'Provider ID from OIDC_PROVIDERS' })
+  @ApiResponse({ status: 302, description: 'Session cookie set and redirect to the app, to the two-factor step, or to the login page on failure' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async callback(
+    @Param('provider') provider: string,
+    @Query() query: OidcCallbackQueryDto,
+    @Req() request: Request,
+    @Res() response: Response,
+  ) {
+    // Single use: whatever happens next, this round-trip is over
+    const transaction = readTransactionCookie(request);
+    clearTransactionCookie(response);
+
+    try {
+      const client = getClientInfo(request);
+      const user = await this.oidcService.completeLogin(provider, transaction, query, client);
+      const { session, twoFactorRequired } = await this.authService.loginWithSso(
+        user,
+        provider,
+        client,
+        this.sessionCookieService.read(request),
+      );
+
+      this.sessionCookieService.write(response, session);
+      response.redirect(`${this.config.frontendUrl}/${twoFactorRequired ? 'login?sso=2fa' : ''}`);
+    } catch (err) {
+      this.redirectWithError(response, err);
+    }
+  }
+
+  private redirectWithError(response: Response, err: unknown): void {
+    if (!(err instanceof HttpException)) {
+      this.logger.error('Single sign-on failed', err instanceof Error ? err.stack : err);
+    }
+    const message = err instanceof HttpException ? err.message : 'Single sign-on failed, please try again';
+    response.redirect(`${this.config.frontendUrl}/login?ssoError=${encodeURIComponent(message)}`);
+  }
+}
@@ -0,0 +1,25 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/** Authorization response the IdP redirects back with. */
+export class OidcCallbackQueryDto {
+  @ApiPropertyOptional({ description: 'Authorization code to redeem' })
+  @IsOptional()
+  @IsString()
+  code?: string;
+
+  @ApiPropertyOptional({ description: 'Must match the state this browser was sent off with' })
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @ApiPropertyOptional({ description: 'Issuer of the response (RFC 9207), if the IdP sends it' })
+  @IsOptional()
+  @IsString()
+  iss?: string;
+
+  @ApiPropertyOptional({ example: 'access_denied', description: 'Set instead of code when the sign-in failed' })
+  @IsOptional()
+  @IsString()
+  error?: string;
+}
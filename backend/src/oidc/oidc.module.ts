@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OidcIdentity } from './oidc-identity.entity';
+import { OidcService } from './oidc.service';
+import { UsersModule } from '../users/users.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([OidcIdentity]), UsersModule, AuditModule],
+  providers: [OidcService],
+  exports: [OidcService],
+})
+export class OidcModule {}
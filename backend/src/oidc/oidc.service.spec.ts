@@ -0,0 +1,259 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, Mock, spyOn } from 'bun:test';
+import { ConflictException, ForbiddenException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { OidcService } from './oidc.service';
+import oidcConfig, { OidcProviderConfig } from './oidc.config';
+import { OidcIdentity } from './oidc-identity.entity';
+import { OidcTransaction } from './oidc-transaction-cookie';
+import { IdTokenClaims, Jwk } from './id-token';
+import { UsersService } from '../users/users.service';
+import { RegistrationPolicyService } from '../users/registration-policy.service';
+import { User } from '../users/user.entity';
+import { Role } from '../rbac/role.entity';
+import authConfig from '../auth/auth.config';
+import { AuditEventInput, AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { FakeRepository } from '../testing/fake-repository';
+import { partialMock } from '../testing/partial-mock';
+import { createSigningKey, SigningKey } from '../testing/signing-key';
+
+const ISSUER = 'https://idp.example.com';
+
+const PROVIDER: OidcProviderConfig = {
+  id: 'corp',
+  name: 'Corporate SSO',
+  issuer: ISSUER,
+  clientId: 'client-1',
+  clientSecret: 'secret',
+  scopes: 'openid email profile',
+  roleClaim: 'realm.groups',
+  roleMap: { 'idp-admins': 'admin' },
+  defaultRoles: ['user'],
+};
+
+describe('OidcService', () => {
+  let signingKey: SigningKey;
+  let publishedKeys: Jwk[];
+  let fetchSpy: Mock<typeof fetch>;
+  let service: OidcService;
+  let identities: FakeRepository<OidcIdentity>;
+  let users: User[];
+  let created: { email: string; roles: string[]; emailVerified: boolean }[];
+  let audited: AuditEventInput[];
+  let registration: ConfigType<typeof authConfig>['registration'];
+  let tokenRequests: URLSearchParams[];
+  // Claims of the next ID token the fake IdP issues, on top of the defaults
+  let idTokenClaims: Partial<IdTokenClaims>;
+  let transaction: OidcTransaction;
+
+  beforeAll(() => {
+    signingKey = createSigningKey('RS256', 'key-1');
+  });
+
+  // Answers discovery, JWKS and token requests like a well-behaved IdP
+  async function fakeIdp(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+    const url = input.toString();
+    if (url === `${ISSUER}/.well-known/openid-configuration`) {
+      return Response.json({
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+      });
+    }
+    if (url === `${ISSUER}/jwks`) {
+      return Response.json({ keys: publishedKeys });
+    }
+    if (url === `${ISSUER}/token`) {
+      tokenRequests.push(new URLSearchParams(init.body as string));
+      const now = Math.floor(Date.now() / 1000);
+      return Response.json({
+        id_token: signingKey.sign({
+          iss: ISSUER,
+          sub: 'subject-1',
+          aud: 'client-1',
+          exp: now + 300,
+          iat: now,
+          nonce: transaction.nonce,
+          email: 'jane@example.com',
+          email_verified: true,
+          ...idTokenClaims,
+        }),
+      });
+    }
+    return new Response(null, { status: 404 });
+  }
+
+  beforeEach(async () => {
+    identities = new FakeRepository(OidcIdentity);
+    users = [];
+    created = [];
+    audited = [];
+    tokenRequests = [];
+    idTokenClaims = {};
+    publishedKeys = [signingKey.jwk];
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(fakeIdp as typeof fetch);
+
+    const usersService = partialMock<UsersService>({
+      findById: async (id: string) => users.find(user => user.id === id) ?? null,
+      findByEmail: async (email: string) => users.find(user => user.email === email) ?? null,
+      // Accounts from the IdP get no password, so no password policy is involved
+      createWithoutPassword: async (email, _actor, options) => {
+        created.push({ email, roles: options.roles, emailVerified: options.emailVerified });
+        const user = Object.assign(new User(), {
+          id: `user-${users.length + 1}`,
+          email,
+          roles: options.roles.map(name => ({ name }) as Role),
+        });
+        users.push(user);
+        return user;
+      },
+    });
+    const auditService = partialMock<AuditService>({
+      record: async (event: AuditEventInput) => { audited.push(event); },
+    });
+
+    registration = { mode: 'open', allowedDomains: [] };
+    const registrationPolicyService = new RegistrationPolicyService({ registration } as ConfigType<typeof authConfig>);
+
+    service = new OidcService(identities.asRepository(), usersService, registrationPolicyService, auditService, {
+      providers: [PROVIDER],
+      redirectBaseUrl: 'http://localhost:3001',
+      transactionTtlMs: 10 * 60 * 1000,
+      metadataCacheMs: 60 * 60 * 1000,
+    } as ConfigType<typeof oidcConfig>);
+
+    ({ transaction } = await service.beginLogin('corp'));
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  function complete(response: { code?: string; state?: string; iss?: string; error?: string } = {}): Promise<User> {
+    return service.completeLogin('corp', transaction, { code: 'code-1', state: transaction.state, ...response });
+  }
+
+  describe('beginLogin', () => {
+    it('sends the browser to the IdP with state, nonce and a PKCE challenge', async () => {
+      const { url } = await service.beginLogin('corp');
+      const params = new URL(url).searchParams;
+
+      expect(url.startsWith(`${ISSUER}/authorize?`)).toBe(true);
+      expect(params.get('redirect_uri')).toBe('http://localhost:3001/auth/oidc/corp/callback');
+      expect(params.get('code_challenge_method')).toBe('S256');
+      expect(params.get('code_challenge')).not.toBe(transaction.codeVerifier);
+    });
+
+    it('reports unknown providers as not found', async () => {
+      await expect(service.beginLogin('other')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('completeLogin', () => {
+    it('redeems the code with the PKCE verifier and provisions the user', async () => {
+      const user = await complete();
+
+      expect(user.email).toBe('jane@example.com');
+      expect(tokenRequests[0].get('code_verifier')).toBe(transaction.codeVerifier);
+      expect(created).toEqual([{ email: 'jane@example.com', roles: ['user'], emailVerified: true }]);
+      expect(identities.rows).toEqual([expect.objectContaining({ provider: 'corp', subject: 'subject-1', userId: user.id })]);
+      expect(audited.map(event => event.action)).toEqual([AuditAction.IDENTITY_LINKED]);
+    });
+
+    it('refuses a response whose state does not match the browser', async () => {
+      await expect(complete({ state: 'forged' })).rejects.toThrow('does not match this browser');
+      expect(tokenRequests).toEqual([]);
+    });
+
+    it('refuses a response naming another issuer', async () => {
+      await expect(complete({ iss: 'https://evil.example.com' })).rejects.toThrow('different issuer');
+      await expect(complete({ iss: `${ISSUER}/` })).resolves.toBeInstanceOf(User);
+    });
+
+    it('refuses expired, missing and foreign transactions', async () => {
+      const expired = { ...transaction, expiresAt: Date.now() - 1 };
+
+      await expect(service.completeLogin('corp', expired, { code: 'code-1', state: transaction.state })).rejects.toThrow(
+        'expired',
+      );
+      await expect(service.completeLogin('corp', null, { code: 'code-1', state: transaction.state })).rejects.toThrow(
+        UnauthorizedException,
+      );
+      await expect(
+        service.completeLogin('corp', { ...transaction, provider: 'other' }, { code: 'code-1', state: transaction.state }),
+      ).rejects.toThrow('expired');
+    });
+
+    it('refuses an ID token for another login', async () => {
+      idTokenClaims = { nonce: 'replayed' };
+
+      await expect(complete()).rejects.toThrow('nonce');
+      expect(created).toEqual([]);
+    });
+
+    it('refuses an ID token signed with an unpublished key', async () => {
+      publishedKeys = [createSigningKey('RS256', 'key-1').jwk];
+
+      await expect(complete()).rejects.toThrow('signature is invalid');
+    });
+  });
+
+  describe('resolving the user', () => {
+    it('signs a linked identity in as its user', async () => {
+      const first = await complete();
+      ({ transaction } = await service.beginLogin('corp'));
+      idTokenClaims = { email: 'jane.doe@example.com' };
+
+      const second = await complete();
+
+      expect(second.id).toBe(first.id);
+      expect(created).toHaveLength(1);
+      expect(identities.rows[0].email).toBe('jane.doe@example.com');
+    });
+
+    it('links an existing account when the IdP has verified the address', async () => {
+      users.push(Object.assign(new User(), { id: 'existing', email: 'jane@example.com', roles: [] }));
+
+      expect((await complete()).id).toBe('existing');
+      expect(created).toEqual([]);
+    });
+
+    it('never links an existing account to an unverified address', async () => {
+      users.push(Object.assign(new User(), { id: 'existing', email: 'jane@example.com', roles: [] }));
+      idTokenClaims = { email_verified: false };
+
+      await expect(complete()).rejects.toThrow(ConflictException);
+      expect(identities.rows).toEqual([]);
+    });
+
+    it('maps IdP groups to roles for new accounts', async () => {
+      idTokenClaims = { realm: { groups: ['idp-admins', 'staff'] } };
+
+      await complete();
+
+      expect(created[0].roles).toEqual(['admin']);
+    });
+
+    it('only provisions accounts the registration policy lets sign up', async () => {
+      registration.mode = 'domain-allowlist';
+      registration.allowedDomains = ['corp.example.com'];
+
+      await expect(complete()).rejects.toThrow(ForbiddenException);
+      expect(created).toEqual([]);
+    });
+
+    it('still signs existing accounts in when registration is closed', async () => {
+      users.push(Object.assign(new User(), { id: 'existing', email: 'jane@example.com', roles: [] }));
+      registration.mode = 'closed';
+
+      expect((await complete()).id).toBe('existing');
+    });
+
+    it('requires an email address for new accounts', async () => {
+      idTokenClaims = { email: undefined };
+
+      await expect(complete()).rejects.toThrow('did not share an email address');
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import {
+  BadGatewayException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, timingSafeEqual } from 'crypto';
+import oidcConfig, { OidcProviderConfig } from './oidc.config';
+import { OidcIdentity } from './oidc-identity.entity';
+import { OidcTransaction } from './oidc-transaction-cookie';
+import { IdTokenClaims, Jwk, parseJwt, selectKey, validateClaims, verifySignature } from './id-token';
+import { UsersService } from '../users/users.service';
+import { RegistrationPolicyService } from '../users/registration-policy.service';
+import { User } from '../users/user.entity';
+import { generateToken } from '../auth/tokens';
+import { ClientInfo } from '../auth/client-info';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+interface Cached<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface OidcProviderSummary {
+  id: string;
+  name: string;
+}
+
+/**
+ * OpenID Connect single sign-on with the authorization-code flow. Each login
+ * is bound to the browser that started it by state, nonce and a PKCE
+ * verifier, and the ID token is verified against the IdP's published keys.
+ */
+@Injectable()
+export class OidcService {
+  private metadata = new Map<string, Cached<ProviderMetadata>>();
+  private keys = new Map<string, Cached<Jwk[]>>();
+
+  constructor(
+    @InjectRepository(OidcIdentity)
+    private identityRepository: Repository<OidcIdentity>,
+    private usersService: UsersService,
+    private registrationPolicyService: RegistrationPolicyService,
+    private auditService: AuditService,
+    @Inject(oidcConfig.KEY)
+    private config: ConfigType<typeof oidcConfig>,
+  ) {}
+
+  listProviders(): OidcProviderSummary[] {
+    return this.config.providers.map(({ id, name }) => ({ id, name }));
+  }
+
+  /** Starts a login: returns where to send the browser and what it must bring back. */
+  async beginLogin(providerId: string): Promise<{ url: string; transaction: OidcTransaction }> {
+    const provider = this.getProvider(providerId);
+    const metadata = await this.getMetadata(provider);
+
+    const transaction: OidcTransaction = {
+      provider: provider.id,
+      state: generateToken(),
+      nonce: generateToken(),
+      codeVerifier: generateToken(),
+      expiresAt: Date.now() + this.config.transactionTtlMs,
+    };
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', this.redirectUri(provider));
+    url.searchParams.set('scope', provider.scopes);
+    url.searchParams.set('state', transaction.state);
+    url.searchParams.set('nonce', transaction.nonce);
+    url.searchParams.set('code_challenge', createHash('sha256').update(transaction.codeVerifier).digest('base64url'));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return { url: url.toString(), transaction };
+  }
+
+  /**
+   * Finishes a login on the callback: checks the response belongs to the
+   * transaction, redeems the code and returns the local user for the
+   * identity, provisioning one on first sign-in.
+   */
+  async completeLogin(
+    providerId: string,
+    transaction: OidcTransaction | null,
+    response: { code?: string; state?: string; iss?: string; error?: string },
+    client?: ClientInfo,
+  ): Promise<User> {
+    const provider = this.getProvider(providerId);
+
+    if (!transaction || transaction.provider !== provider.id || transaction.expiresAt <= Date.now()) {
+      throw new UnauthorizedException('Your sign-in attempt expired, please try again');
+    }
+    if (!response.state || !this.safeEqual(response.state, transaction.state)) {
+      throw new UnauthorizedException('Sign-in response does not match this browser, please try again');
+    }
+    // RFC 9207: a response naming another issuer was meant for a different login
+    if (response.iss && response.iss.replace(/\/+$/, '') !== provider.issuer) {
+      throw new UnauthorizedException('Sign-in response came from a different issuer');
+    }
+    if (response.error || !response.code) {
+      throw new UnauthorizedException(`${provider.name} did not complete the sign-in`);
+    }
+
+    const claims = await this.redeemCode(provider, response.code, transaction);
+    return this.resolveUser(provider, claims, client);
+  }
+
+  private getProvider(id: string): OidcProviderConfig {
+    const provider = this.config.providers.find(p => p.id === id);
+    if (!provider) {
+      throw new NotFoundException('Unknown sign-in provider');
+    }
+    return provider;
+  }
+
+  private redirectUri(provider: OidcProviderConfig): string {
+    return `${this.config.redirectBaseUrl}/auth/oidc/${provider.id}/callback`;
+  }
+
+  private async redeemCode(provider: OidcProviderConfig, code: string, transaction: OidcTransaction): Promise<IdTokenClaims> {
+    const metadata = await this.getMetadata(provider);
+
+    // client_secret_basic: both parts are form-encoded before base64 (RFC 6749 2.3.1)
+    const credentials = Buffer.from(
+      `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`,
+    ).toString('base64');
+    const tokens = await this.fetchJson<{ id_token?: string; access_token?: string }>(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.redirectUri(provider),
+        code_verifier: transaction.codeVerifier,
+      }).toString(),
+    });
+    if (!tokens.id_token) {
+      throw new UnauthorizedException(`${provider.name} did not return an ID token`);
+    }
+
+    const jwt = parseJwt(tokens.id_token);
+    // An unknown key ID usually means the IdP rotated its keys
+    const key = selectKey(jwt, await this.getKeys(provider, metadata))
+      ?? selectKey(jwt, await this.getKeys(provider, metadata, true));
+    if (!key || !verifySignature(jwt, key)) {
+      throw new UnauthorizedException('ID token signature is invalid');
+    }
+    validateClaims(jwt.claims, { issuer: metadata.issuer, clientId: provider.clientId, nonce: transaction.nonce });
+
+    if (!jwt.claims.email && metadata.userinfo_endpoint && tokens.access_token) {
+      const userInfo = await this.fetchJson<Record<string, unknown>>(metadata.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      // Userinfo claims only count if they describe the same subject
+      if (userInfo.sub === jwt.claims.sub) {
+        return { ...userInfo, ...jwt.claims, email: userInfo.email, email_verified: userInfo.email_verified } as IdTokenClaims;
+      }
+    }
+    return jwt.claims;
+  }
+
+  /**
+   * Finds the user behind an identity. An unknown identity is linked to the
+   * account with the same address only if the IdP vouches for that address;
+   * otherwise a new account is provisioned with roles mapped from its groups,
+   * if the registration policy lets this address sign up.
+   */
+  private async resolveUser(provider: OidcProviderConfig, claims: IdTokenClaims, client?: ClientInfo): Promise<User> {
+    const email = typeof claims.email === 'string' ? claims.email.trim() : '';
+    const emailVerified = claims.email_verified === true || claims.email_verified === 'true';
+
+    const identity = await this.identityRepository.findOne({ where: { provider: provider.id, subject: claims.sub } });
+    const linked = identity && await this.usersService.findById(identity.userId);
+    if (linked) {
+      await this.identityRepository.update(identity.id, { email: email || null, lastLoginAt: new Date() });
+      return linked;
+    }
+
+    if (!email) {
+      throw new UnauthorizedException(`${provider.name} did not share an email address`);
+    }
+
+    let user = await this.usersService.findByEmail(email);
+    if (user && !emailVerified) {
+      throw new ConflictException(
+        'An account with this email already exists. Sign in with your password; the address is not verified by your identity provider',
+      );
+    }
+    if (!user) {
+      this.registrationPolicyService.assertSelfRegistrationAllowed(email);
+      user = await this.usersService.createWithoutPassword(email, { email, ...client }, {
+        roles: this.mapRoles(provider, claims),
+        emailVerified,
+      });
+    }
+
+    await this.identityRepository.save(this.identityRepository.create({
+      provider: provider.id,
+      subject: claims.sub,
+      userId: user.id,
+      email,
+      lastLoginAt: new Date(),
+    }));
+    await this.auditService.record({
+      action: AuditAction.IDENTITY_LINKED,
+      actor: { id: user.id, email: user.email, ...client },
+      targetId: user.id,
+      metadata: { provider: provider.id, subject: claims.sub },
+    });
+    return user;
+  }
+
+  private mapRoles(provider: OidcProviderConfig, claims: IdTokenClaims): string[] {
+    const value = provider.roleClaim
+      ? provider.roleClaim.split('.').reduce<unknown>((claim, key) => (claim as Record<string, unknown>)?.[key], claims)
+      : null;
+    const groups = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? [value] : [];
+    const roles = [...new Set(groups.map(group => provider.roleMap[group]).filter(Boolean))];
+    return roles.length > 0 ? roles : provider.defaultRoles;
+  }
+
+  private async getMetadata(provider: OidcProviderConfig): Promise<ProviderMetadata> {
+    const cached = this.metadata.get(provider.id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const metadata = await this.fetchJson<ProviderMetadata>(`${provider.issuer}/.well-known/openid-configuration`);
+    // A discovery document for another issuer would let that issuer mint our tokens
+    if (metadata.issuer?.replace(/\/+$/, '') !== provider.issuer) {
+      throw new BadGatewayException(`${provider.name} published metadata for a different issuer`);
+    }
+    this.metadata.set(provider.id, { value: metadata, expiresAt: Date.now() + this.config.metadataCacheMs });
+    return metadata;
+  }
+
+  private async getKeys(provider: OidcProviderConfig, metadata: ProviderMetadata, refresh = false): Promise<Jwk[]> {
+    const cached = this.keys.get(provider.id);
+    if (cached && cached.expiresAt > Date.now() && !refresh) {
+      return cached.value;
+    }
+
+    const { keys } = await this.fetchJson<{ keys?: Jwk[] }>(metadata.jwks_uri);
+    this.keys.set(provider.id, { value: keys ?? [], expiresAt: Date.now() + this.config.metadataCacheMs });
+    return keys ?? [];
+  }
+
+  private async fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch {
+      throw new BadGatewayException('The identity provider could not be reached');
+    }
+    if (!response.ok) {
+      throw new BadGatewayException(`The identity provider answered ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+}
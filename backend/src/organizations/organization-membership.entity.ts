@@ -0,0 +1,38 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Organization } from './organization.entity';
+import { User } from '../users/user.entity';
+import { Role } from '../rbac/role.entity';
+
+/**
+ * A user's membership in one organisation. The role applies only while this
+ * organisation is the active one of the session, on top of the user's
+ * global roles.
+ */
+@Entity('organization_memberships')
+export class OrganizationMembership {
+  @PrimaryColumn('uuid')
+  organizationId: string;
+
+  @Index()
+  @PrimaryColumn('uuid')
+  userId: string;
+
+  @ManyToOne(() => Organization, { eager: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  roleName: string;
+
+  // Roles in use cannot be deleted; renames follow through
+  @ManyToOne(() => Role, { onDelete: 'RESTRICT', onUpdate: 'CASCADE' })
+  @JoinColumn({ name: 'roleName', referencedColumnName: 'name' })
+  role: Role;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,17 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('organizations')
+export class Organization {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  // URL-friendly identifier, e.g. 'acme'
+  @Column({ unique: true })
+  slug: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
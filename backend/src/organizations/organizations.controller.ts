@@ -0,0 +1,181 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Put, Req, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiCookieAuth, ApiParam, ApiBody } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { CsrfGuard } from '../auth/csrf.guard';
+import { NoImpersonationGuard } from '../auth/impersonation.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { OrganizationScopeGuard } from '../auth/organization-scope.guard';
+import { EmailVerificationService } from '../auth/email-verification.service';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { RequirePermissions } from '../rbac/require-permissions.decorator';
+import { PermissionKey } from '../rbac/permission-key';
+import { getAuditActor } from '../audit/audit-actor';
+import { OrganizationsService } from './organizations.service';
+import { AddMemberDto, CreateOrganizationDto, RemoveMemberDto, SelectOrganizationDto, UpdateMemberDto } from './organizations.dto';
+
+@ApiTags('Organizations')
+@Controller()
+@UseGuards(AuthGuard, CsrfGuard)
+@ApiCookieAuth('sessionId')
+export class OrganizationsController {
+  constructor(
+    private organizationsService: OrganizationsService,
+    private emailVerificationService: EmailVerificationService,
+  ) {}
+
+  @Get('me/organizations')
+  @ApiOperation({ summary: 'List the organizations the current user belongs to' })
+  @ApiResponse({ status: 200, description: 'Memberships with the role held in each' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  async listMine(@Req() request: Request) {
+    const memberships = await this.organizationsService.listForUser(request.user.id);
+    return memberships.map(membership => ({
+      id: membership.organization.id,
+      name: membership.organization.name,
+      slug: membership.organization.slug,
+      role: membership.roleName,
+      active: membership.organizationId === request.membership?.organizationId,
+    }));
+  }
+
+  @Put('me/organization')
+  @UseGuards(NoImpersonationGuard)
+  @ApiOperation({ summary: 'Switch the active organization of the current session' })
+  @ApiBody({ type: SelectOrganizationDto })
+  @ApiResponse({ status: 200, description: 'Active organization changed' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Viewing as another user' })
+  @ApiResponse({ status: 404, description: 'Not a member of this organization' })
+  async select(@Body() dto: SelectOrganizationDto, @Req() request: Request) {
+    const membership = await this.organizationsService.select(request.user.id, request.session, dto.organizationId);
+    return { message: 'Active organization changed', organization: membership.organization };
+  }
+
+  @Get('admin/organizations')
+  @UseGuards(RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.ORGANIZATIONS_MANAGE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiTags('Admin')
+  @ApiOperation({ summary: 'List all organizations (Super admin only)' })
+  @ApiResponse({ status: 200, description: 'Organizations with member counts' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+  async list(@Req() request: Request) {
+    this.organizationsService.assertCrossTenant(request.organizationScope);
+    return this.organizationsService.list();
+  }
+
+  @Post('admin/organizations')
+  @UseGuards(NoImpersonationGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.ORGANIZATIONS_MANAGE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiTags('Admin')
+  @ApiOperation({ summary: 'Create an organization (Super admin only)' })
+  @ApiBody({ type: CreateOrganizationDto })
+  @ApiResponse({ status: 201, description: 'Organization created' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  @ApiResponse({ status: 409, description: 'Slug already taken' })
+  async create(@Body() dto: CreateOrganizationDto, @Req() request: Request) {
+    this.organizationsService.assertCrossTenant(request.organizationScope);
+    return this.organizationsService.create(dto, getAuditActor(request));
+  }
+
+  @Get('admin/organizations/:id/members')
+  @UseGuards(RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.USERS_READ)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiTags('Admin')
+  @ApiOperation({ summary: 'List the members of an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiResponse({ status: 200, description: 'Members with their role in the organization' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async listMembers(@Param('id') id: string, @Req() request: Request) {
+    this.organizationsService.assertOrganizationInScope(request.organizationScope, id);
+    return this.organizationsService.listMembers(id);
+  }
+
+  @Post('admin/organizations/:id/members')
+  @UseGuards(NoImpersonationGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.USERS_ROLE_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiTags('Admin')
+  @ApiOperation({
+    summary: 'Add an existing user to an organization (Super admin only)',
+    description: 'Organisation admins invite people instead. The response does not reveal whether the email is registered.',
+  })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiBody({ type: AddMemberDto })
+  @ApiResponse({ status: 201, description: 'Added if an account exists for the email and is not yet a member' })
+  @ApiResponse({ status: 400, description: 'Unknown role, or one with platform-wide permissions' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, not a super admin, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async addMember(@Param('id') id: string, @Body() dto: AddMemberDto, @Req() request: Request) {
+    this.organizationsService.assertCrossTenant(request.organizationScope);
+    await this.organizationsService.addMember(
+      id,
+      dto.email,
+      dto.role,
+      this.emailVerificationService.effectiveRoles(request.user, request.membership),
+      getAuditActor(request),
+    );
+    return { message: 'If an account exists for this email, it is now a member of the organization' };
+  }
+
+  @Patch('admin/organizations/:id/members/:userId')
+  @UseGuards(NoImpersonationGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.USERS_ROLE_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiTags('Admin')
+  @ApiOperation({ summary: 'Change the role of a member within an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiBody({ type: UpdateMemberDto })
+  @ApiResponse({ status: 200, description: 'Member role updated' })
+  @ApiResponse({ status: 400, description: 'Unknown role, or one with platform-wide permissions' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, PERMISSION_NOT_HELD for a role granting more than you hold, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'Membership not found' })
+  @ApiResponse({ status: 409, description: 'SELF_DEMOTION_UNCONFIRMED: lowering your own role needs confirmSelfDemotion; LAST_ORGANIZATION_ADMIN: the organization would have no active admin' })
+  async updateMember(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @Body() dto: UpdateMemberDto,
+    @Req() request: Request,
+  ) {
+    this.organizationsService.assertOrganizationInScope(request.organizationScope, id);
+    await this.organizationsService.updateMember(
+      id,
+      userId,
+      dto.role,
+      this.emailVerificationService.effectiveRoles(request.user, request.membership),
+      getAuditActor(request),
+      dto.confirmSelfDemotion,
+    );
+    return { message: 'Member role updated' };
+  }
+
+  @Delete('admin/organizations/:id/members/:userId')
+  @UseGuards(NoImpersonationGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.USERS_ROLE_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiTags('Admin')
+  @ApiOperation({ summary: 'Remove a member from an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiBody({ type: RemoveMemberDto, required: false })
+  @ApiResponse({ status: 200, description: 'Member removed' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'Membership not found' })
+  @ApiResponse({ status: 409, description: 'SELF_DEMOTION_UNCONFIRMED: removing yourself needs confirmSelfDemotion; LAST_ORGANIZATION_ADMIN: the organization would have no active admin' })
+  async removeMember(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @Body() dto: RemoveMemberDto,
+    @Req() request: Request,
+  ) {
+    this.organizationsService.assertOrganizationInScope(request.organizationScope, id);
+    await this.organizationsService.removeMember(id, userId, getAuditActor(request), dto?.confirmSelfDemotion);
+    return { message: 'Member removed' };
+  }
+}
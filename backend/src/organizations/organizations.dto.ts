@@ -0,0 +1,48 @@
+import { IsBoolean, IsEmail, IsOptional, IsString, IsUUID, Matches, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateOrganizationDto {
+  @ApiProperty({ example: 'Acme Corp' })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'acme' })
+  @Matches(/^[a-z0-9][a-z0-9-]{1,49}$/, { message: 'Slug must be 2-50 lower-case letters, digits or hyphens' })
+  slug: string;
+}
+
+export class AddMemberDto {
+  @ApiProperty({ example: 'jane@acme.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ example: 'admin', description: 'Role the user holds within this organisation' })
+  @IsString()
+  role: string;
+}
+
+export class UpdateMemberDto {
+  @ApiProperty({ example: 'auditor' })
+  @IsString()
+  role: string;
+
+  @ApiPropertyOptional({ description: 'Required when the change takes permissions away from the caller' })
+  @IsOptional()
+  @IsBoolean()
+  confirmSelfDemotion?: boolean;
+}
+
+export class RemoveMemberDto {
+  @ApiPropertyOptional({ description: 'Required when removing yourself' })
+  @IsOptional()
+  @IsBoolean()
+  confirmSelfDemotion?: boolean;
+}
+
+export class SelectOrganizationDto {
+  @ApiProperty({ example: 'b398d2b8-eafc-4b8e-9a48-9d6ab006db6f' })
+  @IsUUID()
+  organizationId: string;
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Organization } from './organization.entity';
+import { OrganizationMembership } from './organization-membership.entity';
+import { OrganizationsService } from './organizations.service';
+import { UsersModule } from '../users/users.module';
+import { RbacModule } from '../rbac/rbac.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Organization, OrganizationMembership]),
+    UsersModule,
+    RbacModule,
+    SessionsModule,
+    AuditModule,
+  ],
+  providers: [OrganizationsService],
+  exports: [OrganizationsService],
+})
+export class OrganizationsModule {}
@@ -0,0 +1,278 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { OrganizationsService } from './organizations.service';
+import { Organization } from './organization.entity';
+import { OrganizationMembership } from './organization-membership.entity';
+import { UsersService } from '../users/users.service';
+import { User, UserStatus } from '../users/user.entity';
+import { RbacService } from '../rbac/rbac.service';
+import { Role } from '../rbac/role.entity';
+import { PermissionKey } from '../rbac/permission-key';
+import { SessionService } from '../sessions/session.service';
+import { AuditEventInput, AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { FakeRepository } from '../testing/fake-repository';
+import { fakeEntityManager } from '../testing/fake-entity-manager';
+import { partialMock } from '../testing/partial-mock';
+
+// What each role grants; 'org-manager' carries a platform-wide permission
+const ROLE_PERMISSIONS: Record<string, PermissionKey[]> = {
+  user: [],
+  auditor: [PermissionKey.AUDIT_READ],
+  admin: [PermissionKey.USERS_READ, PermissionKey.USERS_WRITE, PermissionKey.USERS_ROLE_WRITE],
+  'org-manager': [PermissionKey.USERS_READ, PermissionKey.ORGANIZATIONS_MANAGE],
+  super_admin: Object.values(PermissionKey),
+};
+
+// Effective roles of the organisation admin granting roles in most tests
+const GRANTOR = ['admin'];
+
+function createUser(id: string, roles: string[] = ['user']): User {
+  return Object.assign(new User(), {
+    id,
+    email: `${id}@example.com`,
+    status: UserStatus.ACTIVE,
+    roles: roles.map(name => ({ name })),
+  });
+}
+
+describe('OrganizationsService', () => {
+  let service: OrganizationsService;
+  let memberships: FakeRepository<OrganizationMembership>;
+  let users: User[];
+  let audited: AuditEventInput[];
+  let privilegeChanges: string[];
+
+  // Answers the raw SQL of OrganizationsService from the fake tables
+  async function query(sql: string, parameters: unknown[] = []): Promise<any> {
+    if (sql.includes('pg_advisory_xact_lock')) return [];
+    if (sql.includes('m."roleName" = $2')) {
+      const [organizationId, roleName, status] = parameters;
+      const holders = memberships.rows.filter(row => row.organizationId === organizationId && row.roleName === roleName);
+      return [{ count: holders.filter(row => users.find(user => user.id === row.userId)?.status === status).length }];
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  }
+
+  const tenantScope = { organizationId: 'org-1' };
+  const crossTenantScope = { organizationId: null };
+
+  beforeEach(() => {
+    users = [createUser('member'), createUser('outsider'), createUser('root', ['super_admin'])];
+    audited = [];
+    privilegeChanges = [];
+
+    const organizations = new FakeRepository(Organization).seed(
+      { id: 'org-1', name: 'One', slug: 'one' },
+      { id: 'org-2', name: 'Two', slug: 'two' },
+    );
+    memberships = new FakeRepository(OrganizationMembership, 'userId').seed(
+      { organizationId: 'org-1', userId: 'member', roleName: 'user' },
+      { organizationId: 'org-2', userId: 'outsider', roleName: 'admin' },
+      { organizationId: 'org-1', userId: 'root', roleName: 'admin' },
+    );
+
+    const usersService = partialMock<UsersService>({
+      findById: async (id: string) => users.find(user => user.id === id) ?? null,
+      findByEmail: async (email: string) => users.find(user => user.email === email) ?? null,
+      findAll: async (ids: string[]) => users.filter(user => ids.includes(user.id)),
+    });
+    const rbacService = partialMock<RbacService>({
+      findRoles: async (names: string[]) => {
+        if (names.some(name => !(name in ROLE_PERMISSIONS))) {
+          throw new BadRequestException('Unknown role');
+        }
+        return names.map(name => Object.assign(new Role(), { name }));
+      },
+      getPermissions: async (names: string[]) => new Set(names.flatMap(name => ROLE_PERMISSIONS[name] ?? [])),
+      assertGrantable: RbacService.prototype.assertGrantable,
+    });
+    const sessionService = partialMock<SessionService>({
+      handlePrivilegeChange: async (userId: string) => { privilegeChanges.push(userId); },
+    });
+    const auditService = partialMock<AuditService>({
+      record: async (event: AuditEventInput) => { audited.push(event); },
+    });
+
+    service = new OrganizationsService(
+      organizations.asRepository(),
+      memberships.asRepository({ manager: fakeEntityManager([memberships], query) }),
+      usersService,
+      rbacService,
+      sessionService,
+      auditService,
+    );
+  });
+
+  describe('scope checks', () => {
+    it('hides other organisations from organisation admins', () => {
+      expect(() => service.assertOrganizationInScope(tenantScope, 'org-2')).toThrow(NotFoundException);
+      expect(() => service.assertOrganizationInScope(tenantScope, 'org-1')).not.toThrow();
+      expect(() => service.assertOrganizationInScope(crossTenantScope, 'org-2')).not.toThrow();
+    });
+
+    it('hides users outside the active organisation', async () => {
+      await expect(service.assertUserInScope(tenantScope, 'outsider')).rejects.toThrow(NotFoundException);
+      await expect(service.assertUserInScope(tenantScope, 'member')).resolves.toBeUndefined();
+      await expect(service.assertUserInScope(crossTenantScope, 'outsider')).resolves.toBeUndefined();
+    });
+
+    it('reserves cross-tenant actions for super admins', () => {
+      expect(() => service.assertCrossTenant(tenantScope)).toThrow(ForbiddenException);
+      expect(() => service.assertCrossTenant(crossTenantScope)).not.toThrow();
+    });
+  });
+
+  describe('findManageableUser', () => {
+    it('finds users in scope', async () => {
+      expect((await service.findManageableUser(tenantScope, 'member')).id).toBe('member');
+      expect((await service.findManageableUser(crossTenantScope, 'outsider')).id).toBe('outsider');
+    });
+
+    it('hides users outside the active organisation', async () => {
+      await expect(service.findManageableUser(tenantScope, 'outsider')).rejects.toThrow(NotFoundException);
+    });
+
+    it('leaves super admins to other super admins', async () => {
+      await expect(service.findManageableUser(tenantScope, 'root')).rejects.toThrow(ForbiddenException);
+      expect((await service.findManageableUser(crossTenantScope, 'root')).id).toBe('root');
+    });
+
+    it('leaves accounts reaching beyond the organisation to super admins', async () => {
+      users.push(createUser('global-admin', ['admin']), createUser('shared'));
+      memberships.seed(
+        { organizationId: 'org-1', userId: 'global-admin', roleName: 'user' },
+        { organizationId: 'org-1', userId: 'shared', roleName: 'user' },
+        { organizationId: 'org-2', userId: 'shared', roleName: 'user' },
+      );
+
+      await expect(service.findManageableUser(tenantScope, 'global-admin')).rejects.toThrow(ForbiddenException);
+      await expect(service.findManageableUser(tenantScope, 'shared')).rejects.toThrow(ForbiddenException);
+      expect((await service.findManageableUser(crossTenantScope, 'shared')).id).toBe('shared');
+    });
+  });
+
+  describe('listMembers', () => {
+    it('returns the members with their organisation role', async () => {
+      const members = await service.listMembers('org-1');
+
+      expect(members.map(member => [member.id, member.organizationRole])).toEqual([
+        ['member', 'user'],
+        ['root', 'admin'],
+      ]);
+    });
+
+    it('reports unknown organisations as not found', async () => {
+      await expect(service.listMembers('org-3')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('addMember', () => {
+    it('adds an existing account and applies the privilege-change policy', async () => {
+      await service.addMember('org-2', 'member@example.com', 'admin', GRANTOR);
+
+      expect(await service.listForUser('member')).toHaveLength(2);
+      expect(audited).toEqual([expect.objectContaining({ action: AuditAction.MEMBER_ADDED, metadata: { organizationId: 'org-2' } })]);
+      expect(privilegeChanges).toEqual(['member']);
+    });
+
+    it('answers unknown, deleted and existing members alike so emails cannot be probed', async () => {
+      users.push(Object.assign(createUser('gone'), { status: UserStatus.DELETED }));
+
+      await expect(service.addMember('org-1', 'gone@example.com', 'user', GRANTOR)).resolves.toBeUndefined();
+      await expect(service.addMember('org-1', 'nobody@example.com', 'user', GRANTOR)).resolves.toBeUndefined();
+      await expect(service.addMember('org-1', 'member@example.com', 'admin', GRANTOR)).resolves.toBeUndefined();
+      expect(memberships.rows).toHaveLength(3);
+      expect(audited).toEqual([]);
+    });
+
+    it('refuses to grant platform-wide permissions per organisation', async () => {
+      await expect(service.addMember('org-2', 'member@example.com', 'super_admin', ['super_admin'])).rejects.toThrow(BadRequestException);
+      await expect(service.addMember('org-2', 'member@example.com', 'org-manager', ['super_admin'])).rejects.toThrow(
+        'platform-wide permissions',
+      );
+      expect(memberships.rows).toHaveLength(3);
+    });
+
+    it('refuses unknown roles', async () => {
+      await expect(service.addMember('org-2', 'member@example.com', 'owner', GRANTOR)).rejects.toThrow(BadRequestException);
+      expect(memberships.rows).toHaveLength(3);
+    });
+
+    it('reports unknown organisations as not found', async () => {
+      await expect(service.addMember('org-3', 'member@example.com', 'user', GRANTOR)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('addUser', () => {
+    it('adds an account the caller just created and returns it as a member', async () => {
+      const member = await service.addUser('org-2', users[0], 'admin', GRANTOR);
+
+      expect(member).toMatchObject({ id: 'member', organizationRole: 'admin' });
+      expect(privilegeChanges).toEqual(['member']);
+    });
+
+    it('rejects existing members', async () => {
+      await expect(service.addUser('org-1', users[0], 'admin', GRANTOR)).rejects.toThrow(ConflictException);
+    });
+
+    it('skips the grantor check only when told the grant was vetted earlier', async () => {
+      await expect(service.addUser('org-2', users[0], 'auditor', GRANTOR)).rejects.toThrow(ForbiddenException);
+      await expect(service.addUser('org-2', users[0], 'auditor', null)).resolves.toMatchObject({ organizationRole: 'auditor' });
+    });
+  });
+
+  describe('updateMember and removeMember', () => {
+    it('changes the organisation role and records both sides', async () => {
+      await service.updateMember('org-1', 'member', 'admin', GRANTOR);
+
+      expect(memberships.rows.find(row => row.userId === 'member').roleName).toBe('admin');
+      expect(audited).toEqual([
+        expect.objectContaining({ action: AuditAction.MEMBER_ROLE_CHANGED, before: { role: 'user' }, after: { role: 'admin' } }),
+      ]);
+      expect(privilegeChanges).toEqual(['member']);
+    });
+
+    it('removes only the membership in that organisation', async () => {
+      await service.removeMember('org-1', 'member');
+
+      expect(await service.listForUser('member')).toEqual([]);
+      expect(memberships.rows).toHaveLength(2);
+      expect(privilegeChanges).toEqual(['member']);
+    });
+
+    it('refuses roles granting permissions the caller does not hold', async () => {
+      await expect(service.updateMember('org-1', 'member', 'auditor', GRANTOR)).rejects.toThrow('you do not hold (audit.read)');
+      expect(memberships.rows.find(row => row.userId === 'member').roleName).toBe('user');
+
+      await service.updateMember('org-1', 'member', 'auditor', [...GRANTOR, 'auditor']);
+      expect(memberships.rows.find(row => row.userId === 'member').roleName).toBe('auditor');
+    });
+
+    // The fake transaction does not roll back, so each refusal gets its own test
+    it('refuses to demote the last active admin of an organisation', async () => {
+      await expect(service.updateMember('org-1', 'root', 'user', GRANTOR)).rejects.toThrow(ConflictException);
+    });
+
+    it('refuses to remove the last active admin of an organisation', async () => {
+      await expect(service.removeMember('org-1', 'root')).rejects.toThrow(
+        'At least one active member must keep the admin role in this organization',
+      );
+    });
+
+    it('only counts admins whose accounts are active', async () => {
+      await service.updateMember('org-1', 'member', 'admin', GRANTOR);
+      await service.removeMember('org-1', 'root');
+      expect(memberships.rows.filter(row => row.organizationId === 'org-1')).toHaveLength(1);
+
+      users.push(Object.assign(createUser('second'), { status: UserStatus.DISABLED }));
+      await service.addMember('org-1', 'second@example.com', 'admin', GRANTOR);
+      await expect(service.updateMember('org-1', 'member', 'user', GRANTOR)).rejects.toThrow(ConflictException);
+    });
+
+    it('reports users who are not members as not found', async () => {
+      await expect(service.updateMember('org-1', 'outsider', 'user', GRANTOR)).rejects.toThrow(NotFoundException);
+      await expect(service.removeMember('org-1', 'outsider')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
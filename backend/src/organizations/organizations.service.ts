@@ -0,0 +1,349 @@
+import { BadRequestException, ConflictException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Not, Repository } from 'typeorm';
+import { User, UserRole, UserStatus } from '../users/user.entity';
+import { UsersService } from '../users/users.service';
+import { RbacService } from '../rbac/rbac.service';
+import { PLATFORM_PERMISSIONS } from '../rbac/permission-key';
+import { SessionService } from '../sessions/session.service';
+import { Session } from '../sessions/session.entity';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { AuditActor } from '../audit/audit-actor';
+import { Organization } from './organization.entity';
+import { OrganizationMembership } from './organization-membership.entity';
+import { CreateOrganizationDto } from './organizations.dto';
+
+/**
+ * Which tenant an admin request may see. A null organizationId means every
+ * organisation, which only super admins get.
+ */
+export interface OrganizationScope {
+  organizationId: string | null;
+}
+
+export interface OrganizationSummary extends Organization {
+  memberCount: number;
+}
+
+export type OrganizationMember = User & { organizationRole: string };
+
+@Injectable()
+export class OrganizationsService {
+  constructor(
+    @InjectRepository(Organization)
+    private organizationRepository: Repository<Organization>,
+    @InjectRepository(OrganizationMembership)
+    private membershipRepository: Repository<OrganizationMembership>,
+    private usersService: UsersService,
+    private rbacService: RbacService,
+    private sessionService: SessionService,
+    private auditService: AuditService,
+  ) {}
+
+  async listForUser(userId: string): Promise<OrganizationMembership[]> {
+    return this.membershipRepository.find({ where: { userId }, order: { createdAt: 'ASC' } });
+  }
+
+  /**
+   * The membership the session is acting in: the organisation picked via
+   * select(), or the user's oldest membership until one is picked.
+   */
+  async getActiveMembership(userId: string, session: Session): Promise<OrganizationMembership | null> {
+    return this.getMembership(userId, session.data?.organizationId);
+  }
+
+  /** The user's membership of the given organisation, or their oldest one when none is given. */
+  async getMembership(userId: string, organizationId?: string | null): Promise<OrganizationMembership | null> {
+    if (organizationId) {
+      return this.membershipRepository.findOne({ where: { userId, organizationId } });
+    }
+    return this.membershipRepository.findOne({ where: { userId }, order: { createdAt: 'ASC' } });
+  }
+
+  async select(userId: string, session: Session, organizationId: string): Promise<OrganizationMembership> {
+    const membership = await this.membershipRepository.findOne({ where: { userId, organizationId } });
+    if (!membership) {
+      throw new NotFoundException('Organization not found');
+    }
+    await this.sessionService.updateSessionData(session, { organizationId });
+    return membership;
+  }
+
+  async list(): Promise<OrganizationSummary[]> {
+    const organizations = await this.organizationRepository.find({ order: { name: 'ASC' } });
+    const rows: { organizationId: string; count: number }[] = await this.membershipRepository.query(
+      'SELECT "organizationId", COUNT(*)::int AS count FROM "organization_memberships" GROUP BY "organizationId"',
+    );
+    const counts = new Map(rows.map(row => [row.organizationId, row.count]));
+    return organizations.map(organization => ({ ...organization, memberCount: counts.get(organization.id) ?? 0 }));
+  }
+
+  async create(dto: CreateOrganizationDto, actor?: AuditActor): Promise<Organization> {
+    if (await this.organizationRepository.exists({ where: { slug: dto.slug } })) {
+      throw new ConflictException('An organization with this slug already exists');
+    }
+
+    const organization = await this.organizationRepository.save({ name: dto.name, slug: dto.slug });
+    await this.auditService.record({
+      action: AuditAction.ORGANIZATION_CREATED,
+      actor,
+      after: { id: organization.id, name: organization.name, slug: organization.slug },
+    });
+    return organization;
+  }
+
+  async listMembers(organizationId: string): Promise<OrganizationMember[]> {
+    await this.findOrganization(organizationId);
+
+    const memberships = await this.membershipRepository.find({ where: { organizationId } });
+    if (memberships.length === 0) return [];
+
+    return this.withOrganizationRoles(organizationId, await this.usersService.findAll(memberships.map(m => m.userId)));
+  }
+
+  /** Attaches each user's role in the organisation, keeping the order of `users`. */
+  async withOrganizationRoles(organizationId: string, users: User[]): Promise<OrganizationMember[]> {
+    if (users.length === 0) return [];
+
+    const memberships = await this.membershipRepository.find({
+      where: { organizationId, userId: In(users.map(user => user.id)) },
+    });
+    const roles = new Map(memberships.map(m => [m.userId, m.roleName]));
+    return users.map(user => ({ ...user, organizationRole: roles.get(user.id) }));
+  }
+
+  /**
+   * Adds an existing account by email. Unknown addresses and existing members
+   * are skipped without an error, so the caller cannot tell which emails are
+   * registered.
+   */
+  async addMember(
+    organizationId: string,
+    email: string,
+    roleName: string,
+    grantorRoles: string[],
+    actor?: AuditActor,
+  ): Promise<void> {
+    await this.findOrganization(organizationId);
+    await this.assertAssignable(roleName, grantorRoles);
+
+    const user = await this.usersService.findByEmail(email);
+    if (!user || user.status === UserStatus.DELETED) {
+      return;
+    }
+    if (await this.membershipRepository.exists({ where: { organizationId, userId: user.id } })) {
+      return;
+    }
+    await this.insertMember(organizationId, user.id, roleName, actor);
+  }
+
+  /**
+   * Adds an account the caller just created, e.g. by an organisation admin or
+   * through an invitation, in the caller's transaction when given its manager.
+   */
+  async addUser(
+    organizationId: string,
+    user: User,
+    roleName: string,
+    grantorRoles: string[] | null,
+    actor?: AuditActor,
+    manager?: EntityManager,
+  ): Promise<OrganizationMember> {
+    await this.findOrganization(organizationId);
+    await this.assertAssignable(roleName, grantorRoles);
+
+    if (await this.membershipRepository.exists({ where: { organizationId, userId: user.id } })) {
+      throw new ConflictException('User is already a member of this organization');
+    }
+    await this.insertMember(organizationId, user.id, roleName, actor, manager);
+
+    const [member] = await this.usersService.findAll([user.id], manager);
+    return { ...member, organizationRole: roleName };
+  }
+
+  async updateMember(
+    organizationId: string,
+    userId: string,
+    roleName: string,
+    grantorRoles: string[],
+    actor?: AuditActor,
+    confirmSelfDemotion?: boolean,
+  ): Promise<void> {
+    const membership = await this.findMembership(organizationId, userId);
+    await this.assertAssignable(roleName, grantorRoles);
+    if (actor?.id === userId) {
+      await this.rbacService.assertSelfDemotionConfirmed([membership.roleName], [roleName], confirmSelfDemotion);
+    }
+
+    await this.membershipRepository.manager.transaction(async manager => {
+      await manager.update(OrganizationMembership, { organizationId, userId }, { roleName });
+      if (membership.roleName === UserRole.ADMIN && roleName !== UserRole.ADMIN) {
+        await this.assertAdminsRemain(manager, organizationId);
+      }
+    });
+    await this.auditService.record({
+      action: AuditAction.MEMBER_ROLE_CHANGED,
+      actor,
+      targetId: userId,
+      before: { role: membership.roleName },
+      after: { role: roleName },
+      metadata: { organizationId },
+    });
+    await this.sessionService.handlePrivilegeChange(userId);
+  }
+
+  async removeMember(organizationId: string, userId: string, actor?: AuditActor, confirmSelfDemotion?: boolean): Promise<void> {
+    const membership = await this.findMembership(organizationId, userId);
+    if (actor?.id === userId) {
+      await this.rbacService.assertSelfDemotionConfirmed([membership.roleName], [], confirmSelfDemotion);
+    }
+
+    await this.membershipRepository.manager.transaction(async manager => {
+      await manager.delete(OrganizationMembership, { organizationId, userId });
+      if (membership.roleName === UserRole.ADMIN) {
+        await this.assertAdminsRemain(manager, organizationId);
+      }
+    });
+    await this.auditService.record({
+      action: AuditAction.MEMBER_REMOVED,
+      actor,
+      targetId: userId,
+      before: { role: membership.roleName },
+      metadata: { organizationId },
+    });
+    await this.sessionService.handlePrivilegeChange(userId);
+  }
+
+  /** Hides organisations outside the caller's scope as if they did not exist. */
+  assertOrganizationInScope(scope: OrganizationScope, organizationId: string): void {
+    if (scope.organizationId && scope.organizationId !== organizationId) {
+      throw new NotFoundException('Organization not found');
+    }
+  }
+
+  /** Hides users outside the caller's scope as if they did not exist. */
+  async assertUserInScope(scope: OrganizationScope, userId: string): Promise<void> {
+    if (!scope.organizationId) return;
+
+    const member = await this.membershipRepository.exists({
+      where: { organizationId: scope.organizationId, userId },
+    });
+    if (!member) {
+      throw new NotFoundException('User not found');
+    }
+  }
+
+  /**
+   * Looks up a user the caller may administer: hidden if outside their scope.
+   * Accounts that reach beyond the caller's organisation, through a global
+   * role other than user or a membership elsewhere, are left to super admins,
+   * as changing them affects other tenants too.
+   */
+  async findManageableUser(scope: OrganizationScope, userId: string): Promise<User> {
+    await this.assertUserInScope(scope, userId);
+
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (!scope.organizationId) {
+      return user;
+    }
+
+    const globalRole = user.roles.some(role => role.name !== UserRole.USER);
+    if (globalRole || await this.membershipRepository.exists({
+      where: { userId, organizationId: Not(scope.organizationId) },
+    })) {
+      this.assertCrossTenant(scope);
+    }
+    return user;
+  }
+
+  /** For actions whose effect is not limited to one organisation. */
+  assertCrossTenant(scope: OrganizationScope): void {
+    if (scope.organizationId) {
+      throw new ForbiddenException({
+        message: 'Only super admins can perform this action',
+        code: 'CROSS_TENANT_REQUIRED',
+      });
+    }
+  }
+
+  /**
+   * Checks that a role may be held inside an organisation and, given the
+   * effective roles of the caller granting it, that it grants nothing they
+   * lack. Null skips the second check for grants vetted earlier, such as an
+   * invitation being redeemed.
+   */
+  async assertAssignable(roleName: string, grantorRoles: string[] | null): Promise<void> {
+    await this.rbacService.findRoles([roleName]);
+
+    // Platform permissions reach every tenant, so they come only from global roles
+    const permissions = await this.rbacService.getPermissions([roleName]);
+    if (roleName === UserRole.SUPER_ADMIN || PLATFORM_PERMISSIONS.some(permission => permissions.has(permission))) {
+      throw new BadRequestException('Roles with platform-wide permissions cannot be granted per organization');
+    }
+    if (grantorRoles) {
+      await this.rbacService.assertGrantable([roleName], grantorRoles);
+    }
+  }
+
+  private async insertMember(
+    organizationId: string,
+    userId: string,
+    roleName: string,
+    actor?: AuditActor,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const memberships = manager ? manager.getRepository(OrganizationMembership) : this.membershipRepository;
+    await memberships.insert({ organizationId, userId, roleName });
+    await this.auditService.record({
+      action: AuditAction.MEMBER_ADDED,
+      actor,
+      targetId: userId,
+      after: { role: roleName },
+      metadata: { organizationId },
+    });
+    await this.sessionService.handlePrivilegeChange(userId);
+  }
+
+  /**
+   * Run inside the transaction of a change that takes an admin membership
+   * away, so the change is rolled back if it left the organisation without
+   * an active admin. The advisory lock serialises concurrent demotions in
+   * the same organisation, as in RbacService.assertRoleManagersRemain.
+   */
+  private async assertAdminsRemain(manager: EntityManager, organizationId: string): Promise<void> {
+    await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`organizations.admins:${organizationId}`]);
+    const [{ count }] = await manager.query(
+      `SELECT COUNT(*)::int AS count
+       FROM "organization_memberships" m
+       JOIN "users" u ON u."id" = m."userId"
+       WHERE m."organizationId" = $1 AND m."roleName" = $2 AND u."status" = $3`,
+      [organizationId, UserRole.ADMIN, UserStatus.ACTIVE],
+    );
+    if (count === 0) {
+      throw new ConflictException({
+        message: 'At least one active member must keep the admin role in this organization',
+        code: 'LAST_ORGANIZATION_ADMIN',
+      });
+    }
+  }
+
+  private async findOrganization(id: string): Promise<Organization> {
+    const organization = await this.organizationRepository.findOne({ where: { id } });
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+    return organization;
+  }
+
+  private async findMembership(organizationId: string, userId: string): Promise<OrganizationMembership> {
+    const membership = await this.membershipRepository.findOne({ where: { organizationId, userId } });
+    if (!membership) {
+      throw new NotFoundException('Membership not found');
+    }
+    return membership;
+  }
+}
@@ -0,0 +1,7 @@
+import { registerAs } from '@nestjs/config';
+import { RateLimitStoreDriver } from './stores/rate-limit-store';
+
+export default registerAs('rateLimit', () => ({
+  enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+  store: (process.env.RATE_LIMIT_STORE || 'memory') as RateLimitStoreDriver,
+}));
@@ -0,0 +1,29 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * - ip:      one bucket per client IP
+ * - user:    one bucket per signed-in user, falling back to the IP
+ * - session: one bucket per session, falling back to the IP
+ */
+export type RateLimitKey = 'ip' | 'user' | 'session';
+
+/**
+ * - fixed:   counts reset at the start of every window
+ * - sliding: the previous window's count is weighted in, smoothing bursts at window edges
+ */
+export type RateLimitAlgorithm = 'fixed' | 'sliding';
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+  key?: RateLimitKey;
+  algorithm?: RateLimitAlgorithm;
+}
+
+export const RATE_LIMIT_METADATA = 'rateLimit';
+
+/**
+ * Limits how often a route may be called. Enforced by RateLimitGuard; for
+ * 'user' or 'session' keys the guard must run after AuthGuard.
+ */
+export const RateLimit = (options: RateLimitOptions) => SetMetadata(RATE_LIMIT_METADATA, options);
@@ -0,0 +1,61 @@
+import { CanActivate, ExecutionContext, HttpException, HttpStatus, Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import { getClientInfo } from '../auth/client-info';
+import { RATE_LIMIT_METADATA, RateLimitOptions } from './rate-limit.decorator';
+import { RateLimitService } from './rate-limit.service';
+import rateLimitConfig from './rate-limit.config';
+
+/**
+ * Enforces @RateLimit on a route and reports the bucket state through the
+ * RateLimit-Limit / -Remaining / -Reset headers (plus Retry-After on 429).
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private rateLimitService: RateLimitService,
+    @Inject(rateLimitConfig.KEY)
+    private config: ConfigType<typeof rateLimitConfig>,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.get<RateLimitOptions>(RATE_LIMIT_METADATA, context.getHandler());
+    if (!options || !this.config.enabled) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+
+    const route = `${context.getClass().name}.${context.getHandler().name}`;
+    const result = await this.rateLimitService.consume(`${route}:${this.identify(request, options)}`, options);
+    const resetSeconds = Math.ceil(result.resetMs / 1000);
+
+    response.setHeader('RateLimit-Limit', result.limit);
+    response.setHeader('RateLimit-Remaining', result.remaining);
+    response.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (!result.allowed) {
+      response.setHeader('Retry-After', resetSeconds);
+      throw new HttpException({
+        message: 'Too many requests, please try again later',
+        code: 'RATE_LIMITED',
+        retryAfter: resetSeconds,
+      }, HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    return true;
+  }
+
+  private identify(request: Request, options: RateLimitOptions): string {
+    if (options.key === 'user' && request.user) {
+      return `user:${request.user.id}`;
+    }
+    if (options.key === 'session' && request.session) {
+      return `session:${request.session.id}`;
+    }
+    return `ip:${getClientInfo(request).ipAddress ?? 'unknown'}`;
+  }
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import Redis from 'ioredis';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitService } from './rate-limit.service';
+import rateLimitConfig from './rate-limit.config';
+import { RateLimitStore } from './stores/rate-limit-store';
+import { MemoryRateLimitStore } from './stores/memory-rate-limit.store';
+import { RedisRateLimitStore } from './stores/redis-rate-limit.store';
+import { REDIS_CLIENT } from '../redis/redis.module';
+
+@Module({
+  providers: [
+    RateLimitService,
+    RateLimitGuard,
+    {
+      provide: RateLimitStore,
+      inject: [rateLimitConfig.KEY, REDIS_CLIENT],
+      useFactory: (config: ConfigType<typeof rateLimitConfig>, redis: Redis): RateLimitStore => {
+        switch (config.store) {
+          case 'redis':
+            return new RedisRateLimitStore(redis);
+          case 'memory':
+            return new MemoryRateLimitStore();
+          default:
+            throw new Error(`Unknown RATE_LIMIT_STORE "${config.store}"`);
+        }
+      },
+    },
+  ],
+  exports: [RateLimitService, RateLimitGuard],
+})
+export class RateLimitModule {}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, setSystemTime } from 'bun:test';
+import { RateLimitResult, RateLimitService } from './rate-limit.service';
+import { RateLimitOptions } from './rate-limit.decorator';
+import { MemoryRateLimitStore } from './stores/memory-rate-limit.store';
+
+const MINUTE = 60 * 1000;
+// A window boundary, so each test knows where it stands within the window
+const START = new Date('2026-01-01T00:00:00Z').getTime();
+
+describe('RateLimitService', () => {
+  let service: RateLimitService;
+
+  beforeEach(() => {
+    service = new RateLimitService(new MemoryRateLimitStore());
+    setSystemTime(START);
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  async function consume(times: number, options: RateLimitOptions): Promise<RateLimitResult> {
+    let result: RateLimitResult;
+    for (let i = 0; i < times; i++) {
+      result = await service.consume('bucket', options);
+    }
+    return result;
+  }
+
+  describe('fixed window', () => {
+    const options = { limit: 3, windowMs: MINUTE };
+
+    it('allows the limit and then refuses until the window ends', async () => {
+      expect(await consume(3, options)).toMatchObject({ allowed: true, limit: 3, remaining: 0 });
+
+      setSystemTime(START + 20 * 1000);
+      expect(await consume(1, options)).toMatchObject({ allowed: false, remaining: 0, resetMs: 40 * 1000 });
+    });
+
+    it('starts afresh in the next window', async () => {
+      await consume(4, options);
+
+      setSystemTime(START + MINUTE);
+      expect(await consume(1, options)).toMatchObject({ allowed: true, remaining: 2 });
+    });
+
+    it('keeps buckets apart', async () => {
+      await consume(4, options);
+
+      expect((await service.consume('other', options)).allowed).toBe(true);
+    });
+  });
+
+  describe('sliding window', () => {
+    const options = { limit: 4, windowMs: MINUTE, algorithm: 'sliding' as const };
+
+    it('weighs in the part of the previous window that still overlaps', async () => {
+      await consume(4, options);
+
+      // A quarter into the next window, three quarters of the old count still apply
+      setSystemTime(START + MINUTE + 15 * 1000);
+      expect(await consume(1, options)).toMatchObject({ allowed: true, remaining: 0 });
+      expect((await consume(1, options)).allowed).toBe(false);
+    });
+
+    it('reports when the weighted count falls back under the limit', async () => {
+      await consume(4, options);
+
+      setSystemTime(START + MINUTE + 15 * 1000);
+      // 4 * 3/4 + 1 fills the limit; one millisecond later the old share rounds down to 2
+      expect((await consume(1, options)).resetMs).toBe(1);
+      // 4 * 3/4 + 2 is over it until the old share drops below 2, halfway into the window
+      expect(await consume(1, options)).toMatchObject({ allowed: false, resetMs: 15 * 1000 + 1 });
+
+      setSystemTime(START + MINUTE + 30 * 1000 + 1);
+      expect((await consume(1, options)).allowed).toBe(true);
+    });
+
+    it('waits into the next window when the current one is full by itself', async () => {
+      setSystemTime(START + 45 * 1000);
+      await consume(4, options);
+
+      expect(await consume(1, options)).toMatchObject({ allowed: false, resetMs: 15 * 1000 + 12 * 1000 + 1 });
+
+      setSystemTime(START + MINUTE + 12 * 1000 + 1);
+      expect((await consume(1, options)).allowed).toBe(true);
+    });
+
+    it('forgets the previous window once it no longer overlaps', async () => {
+      await consume(4, options);
+
+      setSystemTime(START + 2 * MINUTE);
+      expect(await consume(1, options)).toMatchObject({ allowed: true, remaining: 3 });
+    });
+  });
+});
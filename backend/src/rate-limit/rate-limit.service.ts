@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { RateLimitOptions } from './rate-limit.decorator';
+import { RateLimitStore } from './stores/rate-limit-store';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Milliseconds until the bucket has room again
+  resetMs: number;
+}
+
+@Injectable()
+export class RateLimitService {
+  constructor(private store: RateLimitStore) {}
+
+  async consume(bucket: string, options: RateLimitOptions): Promise<RateLimitResult> {
+    const { limit, windowMs } = options;
+    const now = Date.now();
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const elapsedMs = now - windowStart;
+
+    if (options.algorithm === 'sliding') {
+      // Sliding window counter: the previous window counts for the share of
+      // it that still overlaps the last `windowMs`.
+      const current = await this.store.increment(`${bucket}:${windowStart}`, windowMs * 2);
+      const previous = await this.store.get(`${bucket}:${windowStart - windowMs}`);
+      const count = Math.floor(previous * (windowMs - elapsedMs) / windowMs) + current;
+      return this.result(count, limit, this.slidingResetMs(previous, current, limit, windowMs, elapsedMs));
+    }
+
+    const count = await this.store.increment(`${bucket}:${windowStart}`, windowMs);
+    return this.result(count, limit, windowMs - elapsedMs);
+  }
+
+  /**
+   * Time until the weighted count leaves room for one more request. The
+   * previous window's share shrinks as the window advances; once the current
+   * window is full by itself, it has to become the previous one and shrink in
+   * turn.
+   */
+  private slidingResetMs(previous: number, current: number, limit: number, windowMs: number, elapsedMs: number): number {
+    if (current < limit) {
+      return Math.max(0, this.decayMs(previous, limit - current, windowMs) - elapsedMs);
+    }
+    return windowMs - elapsedMs + this.decayMs(current, limit, windowMs);
+  }
+
+  // Offset into a window from which floor(count * share of the window left) is below `room`
+  private decayMs(count: number, room: number, windowMs: number): number {
+    if (count < room) return 0;
+    return Math.floor(windowMs * (count - room) / count) + 1;
+  }
+
+  private result(count: number, limit: number, resetMs: number): RateLimitResult {
+    return {
+      allowed: count <= limit,
+      limit,
+      remaining: Math.max(0, limit - count),
+      resetMs,
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { RateLimitStore } from './rate-limit-store';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface Counter {
+  value: number;
+  expiresAt: number;
+}
+
+/**
+ * Process-local counters. Limits apply per instance, so behind a load
+ * balancer the effective limit is multiplied by the number of instances.
+ */
+export class MemoryRateLimitStore extends RateLimitStore implements OnModuleInit, OnModuleDestroy {
+  private counters = new Map<string, Counter>();
+  private sweepTimer: NodeJS.Timeout;
+
+  onModuleInit(): void {
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt < now) {
+      this.counters.set(key, { value: 1, expiresAt: now + ttlMs });
+      return 1;
+    }
+
+    counter.value += 1;
+    return counter.value;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt >= Date.now() ? counter.value : 0;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt < now) this.counters.delete(key);
+    }
+  }
+}
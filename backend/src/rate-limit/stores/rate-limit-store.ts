@@ -0,0 +1,12 @@
+export type RateLimitStoreDriver = 'memory' | 'redis';
+
+/**
+ * Counter storage for rate limiting. Counters are plain integers that vanish
+ * on their own once their TTL has passed.
+ */
+export abstract class RateLimitStore {
+  /** Atomically increments the counter, creating it with the given TTL if needed. */
+  abstract increment(key: string, ttlMs: number): Promise<number>;
+
+  abstract get(key: string): Promise<number>;
+}
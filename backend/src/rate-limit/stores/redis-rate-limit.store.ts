@@ -0,0 +1,25 @@
+import Redis from 'ioredis';
+import { RateLimitStore } from './rate-limit-store';
+
+const KEY_PREFIX = 'rate-limit:';
+
+/** Shared counters, so limits hold across every instance of the API. */
+export class RedisRateLimitStore extends RateLimitStore {
+  constructor(private redis: Redis) {
+    super();
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    // SET NX arms the TTL only when the counter is first created
+    const results = await this.redis
+      .multi()
+      .set(KEY_PREFIX + key, 0, 'PX', ttlMs, 'NX')
+      .incr(KEY_PREFIX + key)
+      .exec();
+    return Number(results[1][1]);
+  }
+
+  async get(key: string): Promise<number> {
+    return Number(await this.redis.get(KEY_PREFIX + key) ?? 0);
+  }
+}
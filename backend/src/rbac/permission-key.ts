@@ -0,0 +1,48 @@
+import { UserRole } from '../users/user.entity';
+
+export enum PermissionKey {
+  USERS_READ = 'users.read',
+  // Creating, disabling, deleting and restoring accounts
+  USERS_WRITE = 'users.write',
+  USERS_ROLE_WRITE = 'users.role.write',
+  // Clearing lockouts and resetting second factors
+  USERS_SECURITY_WRITE = 'users.security.write',
+  // Signing in as another user to see what they see
+  USERS_IMPERSONATE = 'users.impersonate',
+  AUDIT_READ = 'audit.read',
+  ROLES_READ = 'roles.read',
+  // Creating, editing and deleting roles
+  ROLES_WRITE = 'roles.write',
+  // Creating organisations and managing members of any organisation
+  ORGANIZATIONS_MANAGE = 'organizations.manage',
+}
+
+export const PERMISSION_DESCRIPTIONS: Record<PermissionKey, string> = {
+  [PermissionKey.USERS_READ]: 'List users and view their account status',
+  [PermissionKey.USERS_WRITE]: 'Create, disable, delete and restore users',
+  [PermissionKey.USERS_ROLE_WRITE]: 'Change the roles of a user',
+  [PermissionKey.USERS_SECURITY_WRITE]: 'Clear login lockouts, reset two-factor authentication and force logouts',
+  [PermissionKey.USERS_IMPERSONATE]: 'View the application as another user',
+  [PermissionKey.AUDIT_READ]: 'Search and export the audit log',
+  [PermissionKey.ROLES_READ]: 'View roles and the permissions they grant',
+  [PermissionKey.ROLES_WRITE]: 'Create, edit and delete roles',
+  [PermissionKey.ORGANIZATIONS_MANAGE]: 'Create organisations and manage their members',
+};
+
+// Role definitions and organisations are shared by every tenant, so only
+// platform-level roles should be able to change them.
+export const PLATFORM_PERMISSIONS: PermissionKey[] = [PermissionKey.ROLES_WRITE, PermissionKey.ORGANIZATIONS_MANAGE];
+
+/**
+ * Permissions the built-in roles are seeded with. The admin and super admin
+ * roles are kept in sync with the catalogue on every start, so new
+ * permissions reach them without a data migration.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, PermissionKey[]> = {
+  [UserRole.SUPER_ADMIN]: Object.values(PermissionKey),
+  [UserRole.ADMIN]: Object.values(PermissionKey).filter(key => !PLATFORM_PERMISSIONS.includes(key)),
+  [UserRole.USER]: [],
+};
+
+/** Built-in roles whose permissions are reset to the defaults on every start. */
+export const MANAGED_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.ADMIN];
@@ -0,0 +1,11 @@
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+
+@Entity('permissions')
+export class Permission {
+  // Dotted capability name, e.g. 'users.read'
+  @PrimaryColumn()
+  key: string;
+
+  @Column()
+  description: string;
+}
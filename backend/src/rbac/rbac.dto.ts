@@ -0,0 +1,79 @@
+import { ArrayNotEmpty, ArrayUnique, IsArray, IsBoolean, IsNotEmpty, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// Role names double as SESSION_LIMIT_<NAME> suffixes, so keep them env-safe
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_]{1,31}$/;
+const ROLE_NAME_MESSAGE = 'Role name must be 2-32 lower-case letters, digits or underscores, starting with a letter';
+
+export class CreateRoleDto {
+  @ApiProperty({ example: 'auditor' })
+  @Matches(ROLE_NAME_PATTERN, { message: ROLE_NAME_MESSAGE })
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Read-only access to the audit log' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiPropertyOptional({ example: false, description: 'Holders must enroll in two-factor authentication to use the role' })
+  @IsOptional()
+  @IsBoolean()
+  twoFactorRequired?: boolean;
+
+  @ApiProperty({ example: ['audit.read'], description: 'Permission keys granted by the role' })
+  @IsArray()
+  @IsString({ each: true })
+  permissions: string[];
+}
+
+export class UpdateRoleDto {
+  @ApiPropertyOptional({ example: 'compliance_auditor', description: 'New name; not allowed for built-in roles' })
+  @IsOptional()
+  @Matches(ROLE_NAME_PATTERN, { message: ROLE_NAME_MESSAGE })
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'Read-only access to the audit log' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiPropertyOptional({ example: true, description: 'Holders must enroll in two-factor authentication to use the role' })
+  @IsOptional()
+  @IsBoolean()
+  twoFactorRequired?: boolean;
+
+  @ApiPropertyOptional({ example: ['audit.read', 'users.read'], description: 'Replaces the granted permissions' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  permissions?: string[];
+}
+
+/** Body of the deprecated single-role route, kept for older clients. */
+export class SetUserRoleDto {
+  @ApiProperty({ example: 'admin', description: 'Becomes the only global role of the user' })
+  @IsString()
+  @IsNotEmpty()
+  role: string;
+
+  @ApiPropertyOptional({ description: 'Required when the change takes permissions away from the caller' })
+  @IsOptional()
+  @IsBoolean()
+  confirmSelfDemotion?: boolean;
+}
+
+export class SetUserRolesDto {
+  @ApiProperty({ example: ['user', 'auditor'], description: 'Replaces every role the user holds' })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsString({ each: true })
+  roles: string[];
+
+  @ApiPropertyOptional({ description: 'Required when the change takes permissions away from the caller' })
+  @IsOptional()
+  @IsBoolean()
+  confirmSelfDemotion?: boolean;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Role } from './role.entity';
+import { Permission } from './permission.entity';
+import { RbacService } from './rbac.service';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Role, Permission]), AuditModule],
+  providers: [RbacService],
+  exports: [RbacService],
+})
+export class RbacModule {}
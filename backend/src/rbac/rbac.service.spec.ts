@@ -0,0 +1,264 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { BadRequestException, ConflictException, HttpException, NotFoundException } from '@nestjs/common';
+import { RbacService } from './rbac.service';
+import { Role } from './role.entity';
+import { Permission } from './permission.entity';
+import { PermissionKey } from './permission-key';
+import { UserRole } from '../users/user.entity';
+import { AuditEventInput, AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { FakeRepository } from '../testing/fake-repository';
+import { fakeEntityManager } from '../testing/fake-entity-manager';
+import { partialMock } from '../testing/partial-mock';
+
+async function expectCode(promise: Promise<unknown>, code: string): Promise<void> {
+  const error = await promise.then(() => null, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(HttpException);
+  expect((error as HttpException).getResponse()).toMatchObject({ code });
+}
+
+describe('RbacService', () => {
+  let roles: FakeRepository<Role>;
+  let permissions: FakeRepository<Permission>;
+  // Rows of the user_roles join table
+  let assignments: { userId: string; roleName: string }[];
+  let audited: AuditEventInput[];
+  let locks: string[];
+  let service: RbacService;
+
+  // Answers the raw SQL of RbacService from the fake tables
+  async function query(sql: string, parameters: unknown[] = []): Promise<any> {
+    if (sql.includes('pg_advisory_xact_lock')) {
+      locks.push(parameters[0] as string);
+      return [];
+    }
+    if (sql.includes('GROUP BY "roleName"')) {
+      const counts = new Map<string, number>();
+      assignments.forEach(({ roleName }) => counts.set(roleName, (counts.get(roleName) ?? 0) + 1));
+      return [...counts].map(([roleName, count]) => ({ roleName, count }));
+    }
+    if (sql.includes('COUNT(DISTINCT ur."userId")')) {
+      const granting = roles.rows.filter(role => role.permissions.some(p => p.key === parameters[0]));
+      const users = assignments.filter(({ roleName }) => granting.some(role => role.name === roleName));
+      return [{ count: new Set(users.map(({ userId }) => userId)).size }];
+    }
+    if (sql.includes('SELECT DISTINCT ur."roleName"')) {
+      const names = parameters[0] as string[];
+      return [...new Set(assignments.map(({ roleName }) => roleName))].filter(name => names.includes(name)).map(roleName => ({ roleName }));
+    }
+    if (sql.startsWith('UPDATE "roles" SET "name"')) {
+      const [name, previous] = parameters as string[];
+      roles.rows.find(role => role.name === previous).name = name;
+      assignments.filter(({ roleName }) => roleName === previous).forEach(row => { row.roleName = name; });
+      return [];
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  }
+
+  beforeEach(async () => {
+    roles = new FakeRepository(Role, 'name');
+    permissions = new FakeRepository(Permission, 'key');
+    assignments = [];
+    audited = [];
+    locks = [];
+
+    const manager = fakeEntityManager([roles, permissions], query);
+    const auditService = partialMock<AuditService>({
+      record: async (event: AuditEventInput) => { audited.push(event); },
+    });
+    service = new RbacService(
+      roles.asRepository({ manager, query }),
+      permissions.asRepository({ manager }),
+      auditService,
+    );
+    await service.seed();
+  });
+
+  describe('seed', () => {
+    it('creates the permission catalogue and the built-in roles', () => {
+      expect(permissions.rows.map(permission => permission.key)).toEqual(Object.values(PermissionKey));
+      expect(roles.rows.map(role => [role.name, role.system]).sort()).toEqual([
+        [UserRole.ADMIN, true],
+        [UserRole.SUPER_ADMIN, true],
+        [UserRole.USER, true],
+      ]);
+    });
+
+    it('keeps changes to built-in roles except the managed ones', async () => {
+      roles.rows.forEach(role => {
+        role.description = 'Customised';
+        role.permissions = role.name === UserRole.USER ? [{ key: PermissionKey.AUDIT_READ } as Permission] : [];
+      });
+
+      await service.seed();
+
+      expect(await service.getPermissions([UserRole.USER])).toEqual(new Set([PermissionKey.AUDIT_READ]));
+      expect((await service.getPermissions([UserRole.SUPER_ADMIN])).size).toBe(Object.values(PermissionKey).length);
+      expect(await service.getPermissions([UserRole.ADMIN])).not.toContain(PermissionKey.ORGANIZATIONS_MANAGE);
+      expect(await service.getPermissions([UserRole.ADMIN])).toContain(PermissionKey.USERS_READ);
+      expect(roles.rows.map(role => role.description)).toEqual(['Customised', 'Customised', 'Customised']);
+    });
+  });
+
+  describe('permission checks', () => {
+    it('grants the union of the permissions of all roles', async () => {
+      await service.createRole({ name: 'auditor', permissions: [PermissionKey.AUDIT_READ] });
+      await service.createRole({ name: 'support', permissions: [PermissionKey.USERS_READ] });
+
+      const required = [PermissionKey.AUDIT_READ, PermissionKey.USERS_READ];
+      expect(await service.hasPermissions(['auditor', 'support'], required)).toBe(true);
+      expect(await service.hasPermissions(['auditor'], required)).toBe(false);
+      expect(await service.hasPermissions(['ghost'], [PermissionKey.USERS_READ])).toBe(false);
+    });
+
+    it('serves role changes from the cache until invalidated', async () => {
+      await service.getPermissions([UserRole.USER]);
+      roles.rows.find(role => role.name === UserRole.USER).permissions = [{ key: PermissionKey.USERS_READ } as Permission];
+
+      expect(await service.hasPermissions([UserRole.USER], [PermissionKey.USERS_READ])).toBe(false);
+
+      service.invalidate();
+      expect(await service.hasPermissions([UserRole.USER], [PermissionKey.USERS_READ])).toBe(true);
+    });
+
+    it('tells which roles require two-factor authentication', async () => {
+      await service.createRole({ name: 'operator', twoFactorRequired: true, permissions: [PermissionKey.USERS_READ] });
+      await service.createRole({ name: 'auditor', permissions: [PermissionKey.AUDIT_READ] });
+
+      expect(await service.requiresTwoFactor([UserRole.USER, 'operator'])).toBe(true);
+      expect(await service.requiresTwoFactor([UserRole.USER, 'auditor'])).toBe(false);
+
+      await service.updateRole('operator', { twoFactorRequired: false });
+      await service.updateRole(UserRole.ADMIN, { twoFactorRequired: true });
+      expect(await service.requiresTwoFactor(['operator'])).toBe(false);
+      expect(await service.requiresTwoFactor([UserRole.ADMIN])).toBe(true);
+    });
+
+    it('only assigns roles that exist', async () => {
+      expect((await service.findRoles([UserRole.USER, UserRole.USER])).map(role => role.name)).toEqual([UserRole.USER]);
+      await expect(service.findRoles([UserRole.USER, 'ghost'])).rejects.toThrow('Unknown role: ghost');
+    });
+  });
+
+  describe('assertSelfDemotionConfirmed', () => {
+    it('asks for confirmation before callers lose their own permissions', async () => {
+      await expectCode(service.assertSelfDemotionConfirmed([UserRole.ADMIN], [UserRole.USER]), 'SELF_DEMOTION_UNCONFIRMED');
+      await expect(service.assertSelfDemotionConfirmed([UserRole.ADMIN], [UserRole.USER], true)).resolves.toBeUndefined();
+    });
+
+    it('lets changes through that keep every permission', async () => {
+      await expect(service.assertSelfDemotionConfirmed([UserRole.USER], [UserRole.ADMIN])).resolves.toBeUndefined();
+      await expect(
+        service.assertSelfDemotionConfirmed([UserRole.USER, UserRole.ADMIN], [UserRole.ADMIN]),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('assertGrantable', () => {
+    it('only lets callers grant what their own roles grant', async () => {
+      await expect(service.assertGrantable([UserRole.ADMIN], [UserRole.SUPER_ADMIN])).resolves.toBeUndefined();
+      await expect(service.assertGrantable([UserRole.USER], [UserRole.USER])).resolves.toBeUndefined();
+      await expectCode(service.assertGrantable([UserRole.SUPER_ADMIN], [UserRole.ADMIN]), 'PERMISSION_NOT_HELD');
+    });
+  });
+
+  describe('assertMayAssign', () => {
+    it('needs the permission to change roles for anything but the default role', async () => {
+      await service.createRole({ name: 'support', permissions: [PermissionKey.USERS_WRITE] });
+
+      await expect(service.assertMayAssign([UserRole.USER], ['support'])).resolves.toBeUndefined();
+      await expectCode(service.assertMayAssign(['support'], ['support']), 'ROLE_WRITE_REQUIRED');
+      await expect(service.assertMayAssign(['support'], [UserRole.ADMIN])).resolves.toBeUndefined();
+      await expectCode(service.assertMayAssign([UserRole.SUPER_ADMIN], [UserRole.ADMIN]), 'PERMISSION_NOT_HELD');
+    });
+  });
+
+  describe('assertManagedRolesRemain', () => {
+    it('keeps an active holder of each built-in administrative role', async () => {
+      const manager = fakeEntityManager([roles, permissions], query);
+      assignments.push({ userId: 'user-1', roleName: UserRole.SUPER_ADMIN });
+
+      await expect(service.assertManagedRolesRemain(manager, [UserRole.SUPER_ADMIN])).resolves.toBeUndefined();
+      await expectCode(service.assertManagedRolesRemain(manager, [UserRole.SUPER_ADMIN, UserRole.ADMIN]), 'LAST_ROLE_HOLDER');
+      expect(locks).toEqual(['rbac.role-managers', 'rbac.role-managers']);
+    });
+
+    it('ignores roles other than the managed ones', async () => {
+      await expect(service.assertManagedRolesRemain(fakeEntityManager([roles], query), [UserRole.USER])).resolves.toBeUndefined();
+      expect(locks).toEqual([]);
+    });
+  });
+
+  describe('createRole', () => {
+    it('creates a custom role and records it', async () => {
+      const role = await service.createRole({ name: 'auditor', description: 'Reads the log', permissions: [PermissionKey.AUDIT_READ] });
+
+      expect(role).toMatchObject({ name: 'auditor', system: false, permissions: [PermissionKey.AUDIT_READ], userCount: 0 });
+      expect(audited.map(event => event.action)).toEqual([AuditAction.ROLE_CREATED]);
+    });
+
+    it('rejects taken names and unknown permissions', async () => {
+      await expect(service.createRole({ name: UserRole.ADMIN, permissions: [] })).rejects.toThrow(ConflictException);
+      await expect(service.createRole({ name: 'auditor', permissions: ['audit.delete'] })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('updateRole', () => {
+    beforeEach(async () => {
+      await service.createRole({ name: 'auditor', permissions: [PermissionKey.AUDIT_READ] });
+    });
+
+    it('renames custom roles together with their assignments', async () => {
+      assignments.push({ userId: 'user-1', roleName: 'auditor' });
+
+      const role = await service.updateRole('auditor', { name: 'reviewer', permissions: [PermissionKey.USERS_READ] });
+
+      expect(role).toMatchObject({ name: 'reviewer', permissions: [PermissionKey.USERS_READ], userCount: 1 });
+      expect(audited[audited.length - 1]).toMatchObject({
+        action: AuditAction.ROLE_UPDATED,
+        before: { name: 'auditor' },
+        after: { name: 'reviewer' },
+      });
+    });
+
+    it('never renames built-in roles or changes the managed ones', async () => {
+      await expect(service.updateRole(UserRole.USER, { name: 'member' })).rejects.toThrow('cannot be renamed');
+      await expect(service.updateRole(UserRole.ADMIN, { permissions: [] })).rejects.toThrow(BadRequestException);
+      await expect(service.updateRole(UserRole.SUPER_ADMIN, { permissions: [] })).rejects.toThrow(BadRequestException);
+    });
+
+    it('refuses to take role management away from its last holders', async () => {
+      await service.updateRole('auditor', { permissions: [PermissionKey.ROLES_WRITE] });
+      assignments.push({ userId: 'user-1', roleName: 'auditor' });
+
+      await expectCode(service.updateRole('auditor', { permissions: [] }), 'LAST_ROLE_MANAGER');
+      expect(locks).toEqual(['rbac.role-managers']);
+    });
+
+    it('reports unknown roles as not found', async () => {
+      await expect(service.updateRole('ghost', { description: '' })).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deleteRole', () => {
+    beforeEach(async () => {
+      await service.createRole({ name: 'auditor', permissions: [PermissionKey.AUDIT_READ] });
+    });
+
+    it('deletes unused custom roles', async () => {
+      await service.deleteRole('auditor');
+
+      expect(roles.rows.map(role => role.name)).not.toContain('auditor');
+      expect(audited[audited.length - 1].action).toBe(AuditAction.ROLE_DELETED);
+    });
+
+    it('keeps roles that are built in or still assigned', async () => {
+      assignments.push({ userId: 'user-1', roleName: 'auditor' });
+
+      await expect(service.deleteRole(UserRole.USER)).rejects.toThrow('cannot be deleted');
+      await expectCode(service.deleteRole('auditor'), 'ROLE_IN_USE');
+    });
+  });
+});
@@ -0,0 +1,415 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { UserRole, UserStatus } from '../users/user.entity';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { AuditActor } from '../audit/audit-actor';
+import { Role } from './role.entity';
+import { Permission } from './permission.entity';
+import { DEFAULT_ROLE_PERMISSIONS, MANAGED_ROLES, PERMISSION_DESCRIPTIONS, PermissionKey } from './permission-key';
+import { CreateRoleDto, UpdateRoleDto } from './rbac.dto';
+
+// Role permissions are read on every guarded request, so they are cached
+// briefly; changes made on another instance show up within this window.
+const CACHE_TTL_MS = 30 * 1000;
+
+// Advisory lock key shared by every transaction that checks the last role manager
+const ROLE_MANAGERS_LOCK = 'rbac.role-managers';
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  [UserRole.SUPER_ADMIN]: 'Platform administration across all organisations',
+  [UserRole.ADMIN]: 'Full administrative access',
+  [UserRole.USER]: 'Regular account without administrative access',
+};
+
+export interface RoleSummary {
+  name: string;
+  description: string;
+  system: boolean;
+  twoFactorRequired: boolean;
+  permissions: string[];
+  userCount: number;
+  createdAt: Date;
+}
+
+@Injectable()
+export class RbacService implements OnApplicationBootstrap {
+  private cache = new Map<string, Set<string>>();
+  private twoFactorRoles = new Set<string>();
+  private cacheLoadedAt = 0;
+
+  constructor(
+    @InjectRepository(Role)
+    private roleRepository: Repository<Role>,
+    @InjectRepository(Permission)
+    private permissionRepository: Repository<Permission>,
+    private auditService: AuditService,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.seed();
+    await this.restoreLegacyAssignments();
+  }
+
+  /**
+   * Creates the permission catalogue and the built-in roles. Existing roles
+   * keep their permissions, except the managed ones which are reset.
+   */
+  async seed(): Promise<void> {
+    await this.permissionRepository.save(
+      Object.values(PermissionKey).map(key => ({ key, description: PERMISSION_DESCRIPTIONS[key] })),
+    );
+
+    for (const name of Object.values(UserRole)) {
+      const existing = await this.roleRepository.findOne({ where: { name } });
+      if (existing && !MANAGED_ROLES.includes(name)) continue;
+
+      await this.roleRepository.save({
+        ...existing,
+        name,
+        description: existing?.description || ROLE_DESCRIPTIONS[name],
+        system: true,
+        permissions: DEFAULT_ROLE_PERMISSIONS[name].map(key => ({ key }) as Permission),
+      });
+    }
+    this.invalidate();
+  }
+
+  /**
+   * Copies the role assignments the StashLegacyUserRoles migration saved from
+   * the old `users.role` column into `user_roles`, now that the role rows
+   * exist, and drops the stash. Safe to run again if it fails halfway.
+   */
+  private async restoreLegacyAssignments(): Promise<void> {
+    const [{ exists }] = await this.roleRepository.query(
+      `SELECT to_regclass('legacy_user_roles') IS NOT NULL AS "exists"`,
+    );
+    if (!exists) return;
+
+    await this.roleRepository.manager.transaction(async manager => {
+      await manager.query(
+        `INSERT INTO "user_roles" ("userId", "roleName")
+         SELECT l."userId", l."roleName"
+         FROM "legacy_user_roles" l
+         JOIN "users" u ON u."id" = l."userId"
+         JOIN "roles" r ON r."name" = l."roleName"
+         ON CONFLICT DO NOTHING`,
+      );
+      await manager.query('DROP TABLE "legacy_user_roles"');
+    });
+    this.invalidate();
+  }
+
+  /** The union of the permissions granted by the given roles. */
+  async getPermissions(roleNames: string[]): Promise<Set<string>> {
+    await this.loadCache();
+    return new Set(roleNames.flatMap(name => [...this.cache.get(name) ?? []]));
+  }
+
+  /** Whether any of the given roles obliges its holders to enroll in 2FA. */
+  async requiresTwoFactor(roleNames: string[]): Promise<boolean> {
+    await this.loadCache();
+    return roleNames.some(name => this.twoFactorRoles.has(name));
+  }
+
+  async hasPermissions(roleNames: string[], required: string[]): Promise<boolean> {
+    const granted = await this.getPermissions(roleNames);
+    return required.every(permission => granted.has(permission));
+  }
+
+  private async loadCache(): Promise<void> {
+    if (Date.now() - this.cacheLoadedAt <= CACHE_TTL_MS) return;
+
+    const roles = await this.roleRepository.find({ relations: { permissions: true } });
+    this.cache = new Map(roles.map(role => [role.name, new Set(role.permissions.map(p => p.key))]));
+    this.twoFactorRoles = new Set(roles.filter(role => role.twoFactorRequired).map(role => role.name));
+    this.cacheLoadedAt = Date.now();
+  }
+
+  /** Forces the next lookup to reload roles from the database. */
+  invalidate(): void {
+    this.cacheLoadedAt = 0;
+  }
+
+  async listPermissions(): Promise<Permission[]> {
+    return this.permissionRepository.find({ order: { key: 'ASC' } });
+  }
+
+  async listRoles(): Promise<RoleSummary[]> {
+    const roles = await this.roleRepository.find({ relations: { permissions: true }, order: { name: 'ASC' } });
+    const counts = await this.countUsersByRole();
+    return roles.map(role => this.toSummary(role, counts.get(role.name) ?? 0));
+  }
+
+  async getRole(name: string): Promise<RoleSummary> {
+    const role = await this.findRole(this.roleRepository.manager, name);
+    const counts = await this.countUsersByRole();
+    return this.toSummary(role, counts.get(role.name) ?? 0);
+  }
+
+  /** Resolves role names for assignment, rejecting any that do not exist. */
+  async findRoles(names: string[]): Promise<Role[]> {
+    const unique = [...new Set(names)];
+    const roles = await this.roleRepository.find({ where: { name: In(unique) } });
+    const missing = unique.filter(name => !roles.some(role => role.name === name));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Unknown role: ${missing.join(', ')}`);
+    }
+    return roles;
+  }
+
+  async createRole(dto: CreateRoleDto, actor?: AuditActor): Promise<RoleSummary> {
+    if (await this.roleRepository.exists({ where: { name: dto.name } })) {
+      throw new ConflictException('A role with this name already exists');
+    }
+
+    const role = await this.roleRepository.save({
+      name: dto.name,
+      description: dto.description ?? '',
+      system: false,
+      twoFactorRequired: dto.twoFactorRequired ?? false,
+      permissions: await this.findPermissions(dto.permissions),
+    });
+    this.invalidate();
+
+    await this.auditService.record({
+      action: AuditAction.ROLE_CREATED,
+      actor,
+      after: { name: role.name, twoFactorRequired: role.twoFactorRequired, permissions: dto.permissions },
+    });
+    return this.getRole(role.name);
+  }
+
+  /**
+   * Renames a role and/or replaces its description, 2FA requirement and
+   * permissions in one transaction. Renames rely on the join tables'
+   * ON UPDATE CASCADE.
+   */
+  async updateRole(name: string, dto: UpdateRoleDto, actor?: AuditActor): Promise<RoleSummary> {
+    const { before, after } = await this.roleRepository.manager.transaction(async manager => {
+      let role = await this.findRole(manager, name);
+      const before = this.toSnapshot(role);
+
+      if (dto.name !== undefined && dto.name !== role.name) {
+        if (role.system) {
+          throw new BadRequestException('Built-in roles cannot be renamed');
+        }
+        if (await manager.exists(Role, { where: { name: dto.name } })) {
+          throw new ConflictException('A role with this name already exists');
+        }
+        await manager.query('UPDATE "roles" SET "name" = $1 WHERE "name" = $2', [dto.name, role.name]);
+        role = await this.findRole(manager, dto.name);
+      }
+
+      if (dto.description !== undefined) {
+        role.description = dto.description;
+      }
+      if (dto.twoFactorRequired !== undefined) {
+        role.twoFactorRequired = dto.twoFactorRequired;
+      }
+
+      const hadRoleManagement = role.permissions.some(p => p.key === PermissionKey.ROLES_WRITE);
+      if (dto.permissions !== undefined) {
+        if (MANAGED_ROLES.includes(role.name)) {
+          throw new BadRequestException('The permissions of this built-in role cannot be changed');
+        }
+        role.permissions = await this.findPermissions(dto.permissions, manager);
+      }
+
+      await manager.save(role);
+      if (hadRoleManagement && !role.permissions.some(p => p.key === PermissionKey.ROLES_WRITE)) {
+        await this.assertRoleManagersRemain(manager);
+      }
+
+      return { before, after: this.toSnapshot(role) };
+    });
+    this.invalidate();
+
+    await this.auditService.record({ action: AuditAction.ROLE_UPDATED, actor, before, after });
+    return this.getRole(after.name);
+  }
+
+  async deleteRole(name: string, actor?: AuditActor): Promise<void> {
+    const role = await this.findRole(this.roleRepository.manager, name);
+    if (role.system) {
+      throw new BadRequestException('Built-in roles cannot be deleted');
+    }
+
+    const userCount = (await this.countUsersByRole()).get(role.name) ?? 0;
+    if (userCount > 0) {
+      throw new ConflictException({
+        message: `Role is still assigned to ${userCount} user${userCount === 1 ? '' : 's'}`,
+        code: 'ROLE_IN_USE',
+      });
+    }
+
+    await this.roleRepository.delete({ name: role.name });
+    this.invalidate();
+
+    await this.auditService.record({ action: AuditAction.ROLE_DELETED, actor, before: this.toSnapshot(role) });
+  }
+
+  /** Whether the given roles together allow managing roles. */
+  async canManageRoles(roleNames: string[]): Promise<boolean> {
+    return this.hasPermissions(roleNames, [PermissionKey.ROLES_WRITE]);
+  }
+
+  /**
+   * Refuses to hand out anything but the default role without the permission
+   * to change roles, and any role granting more than the caller holds.
+   */
+  async assertMayAssign(roleNames: string[], grantorRoles: string[]): Promise<void> {
+    const elevated = roleNames.some(name => name !== UserRole.USER);
+    if (elevated && !await this.hasPermissions(grantorRoles, [PermissionKey.USERS_ROLE_WRITE])) {
+      throw new ForbiddenException({
+        message: `Assigning a role other than ${UserRole.USER} requires the ${PermissionKey.USERS_ROLE_WRITE} permission`,
+        code: 'ROLE_WRITE_REQUIRED',
+      });
+    }
+    await this.assertGrantable(roleNames, grantorRoles);
+  }
+
+  /** Refuses roles that grant a permission the granting caller's own roles do not. */
+  async assertGrantable(roleNames: string[], grantorRoles: string[]): Promise<void> {
+    const held = await this.getPermissions(grantorRoles);
+    const missing = [...await this.getPermissions(roleNames)].filter(permission => !held.has(permission));
+    if (missing.length > 0) {
+      throw new ForbiddenException({
+        message: `You cannot grant permissions you do not hold (${missing.join(', ')})`,
+        code: 'PERMISSION_NOT_HELD',
+      });
+    }
+  }
+
+  /**
+   * Refuses a change to the caller's own roles that takes permissions away
+   * unless they confirmed it, so nobody locks themselves out by accident.
+   */
+  async assertSelfDemotionConfirmed(before: string[], after: string[], confirmed?: boolean): Promise<void> {
+    if (confirmed) return;
+
+    const remaining = await this.getPermissions(after);
+    const lost = [...await this.getPermissions(before)].filter(permission => !remaining.has(permission));
+    if (lost.length > 0) {
+      throw new ConflictException({
+        message: `This change removes your own permissions (${lost.join(', ')}); confirm to proceed`,
+        code: 'SELF_DEMOTION_UNCONFIRMED',
+        lostPermissions: lost,
+      });
+    }
+  }
+
+  /**
+   * Run inside the transaction of a change that takes away role management,
+   * so the change is rolled back if it left nobody able to manage roles.
+   * Disabled and deleted accounts do not count.
+   *
+   * The advisory lock serialises these checks: two concurrent demotions would
+   * otherwise each still see the other's target and both commit.
+   */
+  async assertRoleManagersRemain(manager: EntityManager): Promise<void> {
+    await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [ROLE_MANAGERS_LOCK]);
+    const [{ count }] = await manager.query(
+      `SELECT COUNT(DISTINCT ur."userId")::int AS count
+       FROM "user_roles" ur
+       JOIN "role_permissions" rp ON rp."roleName" = ur."roleName"
+       JOIN "users" u ON u."id" = ur."userId"
+       WHERE rp."permissionKey" = $1 AND u."status" = $2`,
+      [PermissionKey.ROLES_WRITE, UserStatus.ACTIVE],
+    );
+    if (count === 0) {
+      throw new ConflictException({
+        message: 'At least one user must keep a role that can manage roles',
+        code: 'LAST_ROLE_MANAGER',
+      });
+    }
+  }
+
+  /**
+   * Run inside the transaction of a change that takes the given roles from
+   * someone, so the change is rolled back if it left one of the built-in
+   * administrative roles without an active holder. Shares the advisory lock
+   * of assertRoleManagersRemain for the same reason.
+   */
+  async assertManagedRolesRemain(manager: EntityManager, removed: string[]): Promise<void> {
+    const managed = MANAGED_ROLES.filter(name => removed.includes(name));
+    if (managed.length === 0) return;
+
+    await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [ROLE_MANAGERS_LOCK]);
+    const rows: { roleName: string }[] = await manager.query(
+      `SELECT DISTINCT ur."roleName"
+       FROM "user_roles" ur
+       JOIN "users" u ON u."id" = ur."userId"
+       WHERE ur."roleName" = ANY($1) AND u."status" = $2`,
+      [managed, UserStatus.ACTIVE],
+    );
+    const orphaned = managed.filter(name => !rows.some(row => row.roleName === name));
+    if (orphaned.length > 0) {
+      throw new ConflictException({
+        message: `At least one active user must keep the ${orphaned.join(', ')} role`,
+        code: 'LAST_ROLE_HOLDER',
+      });
+    }
+  }
+
+  private async findRole(manager: EntityManager, name: string): Promise<Role> {
+    const role = await manager.findOne(Role, { where: { name }, relations: { permissions: true } });
+    if (!role) {
+      throw new NotFoundException('Role not found');
+    }
+    return role;
+  }
+
+  private async findPermissions(keys: string[], manager = this.permissionRepository.manager): Promise<Permission[]> {
+    const unique = [...new Set(keys)];
+    const permissions = await manager.find(Permission, { where: { key: In(unique) } });
+    const missing = unique.filter(key => !permissions.some(permission => permission.key === key));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Unknown permission: ${missing.join(', ')}`);
+    }
+    return permissions;
+  }
+
+  // Counts both global assignments and organisation memberships
+  private async countUsersByRole(): Promise<Map<string, number>> {
+    const rows: { roleName: string; count: number }[] = await this.roleRepository.query(
+      `SELECT "roleName", COUNT(DISTINCT "userId")::int AS count
+       FROM (
+         SELECT "userId", "roleName" FROM "user_roles"
+         UNION ALL
+         SELECT "userId", "roleName" FROM "organization_memberships"
+       ) assignments
+       GROUP BY "roleName"`,
+    );
+    return new Map(rows.map(row => [row.roleName, row.count]));
+  }
+
+  private toSummary(role: Role, userCount: number): RoleSummary {
+    return {
+      name: role.name,
+      description: role.description,
+      system: role.system,
+      twoFactorRequired: role.twoFactorRequired,
+      permissions: role.permissions.map(p => p.key).sort(),
+      userCount,
+      createdAt: role.createdAt,
+    };
+  }
+
+  private toSnapshot(role: Role) {
+    return {
+      name: role.name,
+      description: role.description,
+      twoFactorRequired: role.twoFactorRequired,
+      permissions: role.permissions.map(p => p.key).sort(),
+    };
+  }
+}
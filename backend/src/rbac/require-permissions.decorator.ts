@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { PermissionKey } from './permission-key';
+
+export const PERMISSIONS_METADATA = 'permissions';
+
+/** Requires every listed permission. Enforced by PermissionsGuard. */
+export const RequirePermissions = (...permissions: PermissionKey[]) => SetMetadata(PERMISSIONS_METADATA, permissions);
@@ -0,0 +1,31 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, ManyToMany, JoinTable } from 'typeorm';
+import { Permission } from './permission.entity';
+
+@Entity('roles')
+export class Role {
+  // Lower-case identifier such as 'auditor'; renames cascade to the join tables
+  @PrimaryColumn()
+  name: string;
+
+  @Column({ default: '' })
+  description: string;
+
+  // Built-in roles that the application itself relies on; never renamed or deleted
+  @Column({ default: false })
+  system: boolean;
+
+  // Holders must enroll in two-factor authentication before using the role
+  @Column({ default: false })
+  twoFactorRequired: boolean;
+
+  @ManyToMany(() => Permission)
+  @JoinTable({
+    name: 'role_permissions',
+    joinColumn: { name: 'roleName', referencedColumnName: 'name' },
+    inverseJoinColumn: { name: 'permissionKey', referencedColumnName: 'key' },
+  })
+  permissions: Permission[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,109 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Req, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiCookieAuth, ApiParam, ApiBody } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { CsrfGuard } from '../auth/csrf.guard';
+import { NoImpersonationGuard } from '../auth/impersonation.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { OrganizationScopeGuard } from '../auth/organization-scope.guard';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { getAuditActor } from '../audit/audit-actor';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { RequirePermissions } from './require-permissions.decorator';
+import { PermissionKey } from './permission-key';
+import { RbacService } from './rbac.service';
+import { CreateRoleDto, UpdateRoleDto } from './rbac.dto';
+
+@ApiTags('Admin')
+@Controller('admin')
+@UseGuards(AuthGuard, CsrfGuard, RateLimitGuard, PermissionsGuard)
+@ApiCookieAuth('sessionId')
+export class RolesController {
+  constructor(
+    private rbacService: RbacService,
+    private organizationsService: OrganizationsService,
+  ) {}
+
+  @Get('permissions')
+  @RequirePermissions(PermissionKey.ROLES_READ)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'List every permission a role can grant' })
+  @ApiResponse({ status: 200, description: 'Permission catalogue' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+  async listPermissions() {
+    return this.rbacService.listPermissions();
+  }
+
+  @Get('roles')
+  @RequirePermissions(PermissionKey.ROLES_READ)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'List roles with their permissions and member counts' })
+  @ApiResponse({ status: 200, description: 'Roles retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+  async listRoles() {
+    return this.rbacService.listRoles();
+  }
+
+  @Get('roles/:name')
+  @RequirePermissions(PermissionKey.ROLES_READ)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Get a single role' })
+  @ApiParam({ name: 'name', description: 'Role name' })
+  @ApiResponse({ status: 200, description: 'Role retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  async getRole(@Param('name') name: string) {
+    return this.rbacService.getRole(name);
+  }
+
+  @Post('roles')
+  @UseGuards(NoImpersonationGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.ROLES_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Create a role' })
+  @ApiBody({ type: CreateRoleDto })
+  @ApiResponse({ status: 201, description: 'Role created' })
+  @ApiResponse({ status: 400, description: 'Invalid name or unknown permission' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, not a super admin, or viewing as another user' })
+  @ApiResponse({ status: 409, description: 'A role with this name already exists' })
+  async createRole(@Body() dto: CreateRoleDto, @Req() request: Request) {
+    // Roles are shared by every organisation
+    this.organizationsService.assertCrossTenant(request.organizationScope);
+    return this.rbacService.createRole(dto, getAuditActor(request));
+  }
+
+  @Patch('roles/:name')
+  @UseGuards(NoImpersonationGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.ROLES_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Rename a role or change its description and permissions' })
+  @ApiParam({ name: 'name', description: 'Role name' })
+  @ApiBody({ type: UpdateRoleDto })
+  @ApiResponse({ status: 200, description: 'Role updated' })
+  @ApiResponse({ status: 400, description: 'Built-in role restriction or unknown permission' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, not a super admin, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  @ApiResponse({ status: 409, description: 'Name taken, or nobody would be left able to manage roles' })
+  async updateRole(@Param('name') name: string, @Body() dto: UpdateRoleDto, @Req() request: Request) {
+    this.organizationsService.assertCrossTenant(request.organizationScope);
+    return this.rbacService.updateRole(name, dto, getAuditActor(request));
+  }
+
+  @Delete('roles/:name')
+  @UseGuards(NoImpersonationGuard, OrganizationScopeGuard)
+  @RequirePermissions(PermissionKey.ROLES_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Delete a role that is no longer assigned to anyone' })
+  @ApiParam({ name: 'name', description: 'Role name' })
+  @ApiResponse({ status: 200, description: 'Role deleted' })
+  @ApiResponse({ status: 400, description: 'Built-in roles cannot be deleted' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, not a super admin, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  @ApiResponse({ status: 409, description: 'Role is still assigned to users' })
+  async deleteRole(@Param('name') name: string, @Req() request: Request) {
+    this.organizationsService.assertCrossTenant(request.organizationScope);
+    await this.rbacService.deleteRole(name, getAuditActor(request));
+    return { message: 'Role deleted' };
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'bun:test';
+import type { ConfigType } from '@nestjs/config';
+import type { CookieOptions, Request, Response } from 'express';
+import cookieParser from 'cookie-parser';
+import { createHmac } from 'crypto';
+import { SessionCookieService } from './session-cookie.service';
+import sessionConfig from './session.config';
+import { Session } from './session.entity';
+
+const CURRENT_SECRET = 'current-secret-that-is-long-enough-to-pass';
+const PREVIOUS_SECRET = 'previous-secret-that-is-long-enough-to-pass';
+
+const config = {
+  secrets: [CURRENT_SECRET, PREVIOUS_SECRET],
+  cookie: { name: '__Host-sessionId', domain: undefined, sameSite: 'strict', secure: true },
+} as ConfigType<typeof sessionConfig>;
+
+// Signs a value the way Express does for `signed: true` cookies
+function signedCookie(value: string, secret: string): string {
+  const signature = createHmac('sha256', secret).update(value).digest('base64').replace(/=+$/, '');
+  return encodeURIComponent(`s:${value}.${signature}`);
+}
+
+// Runs the request through cookie-parser configured as in main.ts
+function parse(cookie: string | undefined): Request {
+  const request = { headers: { cookie } } as Request;
+  cookieParser(config.secrets)(request, {} as Response, () => {});
+  return request;
+}
+
+describe('SessionCookieService', () => {
+  const service = new SessionCookieService(config);
+
+  it('reads tokens signed with any of the configured secrets', () => {
+    expect(service.read(parse(`__Host-sessionId=${signedCookie('token-1', CURRENT_SECRET)}`))).toBe('token-1');
+    expect(service.read(parse(`__Host-sessionId=${signedCookie('token-1', PREVIOUS_SECRET)}`))).toBe('token-1');
+  });
+
+  it('rejects unsigned, tampered and foreign cookies', () => {
+    const tampered = signedCookie('token-1', CURRENT_SECRET).replace('token-1', 'token-2');
+
+    expect(service.read(parse('__Host-sessionId=token-1'))).toBeNull();
+    expect(service.read(parse(`__Host-sessionId=${tampered}`))).toBeNull();
+    expect(service.read(parse(`__Host-sessionId=${signedCookie('token-1', 'some-other-secret-that-is-long-enough')}`))).toBeNull();
+    expect(service.read(parse(undefined))).toBeNull();
+  });
+
+  it('writes a signed, HTTP-only cookie that expires with the session', () => {
+    const written: { name: string; value: string; options: CookieOptions }[] = [];
+    const response = {
+      cookie: (name: string, value: string, options: CookieOptions) => {
+        written.push({ name, value, options });
+        return response;
+      },
+    } as Response;
+    const session = Object.assign(new Session(), { token: 'token-1', expiresAt: new Date(Date.now() + 60 * 1000) });
+
+    service.write(response, session);
+
+    expect(written).toEqual([{
+      name: '__Host-sessionId',
+      value: 'token-1',
+      options: expect.objectContaining({ signed: true, httpOnly: true, secure: true, sameSite: 'strict', path: '/' }),
+    }]);
+    expect(written[0].options.maxAge).toBeGreaterThan(55 * 1000);
+  });
+});
@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import type { CookieOptions, Request, Response } from 'express';
+import { Session } from './session.entity';
+import sessionConfig from './session.config';
+
+/**
+ * Reads and writes the session cookie. Its value is the session token signed
+ * with SESSION_SECRET by cookie-parser, so a tampered or foreign value is
+ * rejected before it reaches the session store.
+ */
+@Injectable()
+export class SessionCookieService {
+  constructor(
+    @Inject(sessionConfig.KEY)
+    private config: ConfigType<typeof sessionConfig>,
+  ) {}
+
+  /** The session token the request presents, or null if missing or badly signed. */
+  read(request: Request): string | null {
+    return request.signedCookies?.[this.config.cookie.name] || null;
+  }
+
+  /**
+   * Writes the cookie so that it expires together with the session's current
+   * idle deadline. Called on login and again whenever activity slides the
+   * deadline forward; the session must carry its token.
+   */
+  write(response: Response, session: Session): void {
+    response.cookie(this.config.cookie.name, session.token, {
+      ...this.options(),
+      signed: true,
+      maxAge: Math.max(session.expiresAt.getTime() - Date.now(), 0),
+    });
+  }
+
+  clear(response: Response): void {
+    response.clearCookie(this.config.cookie.name, this.options());
+  }
+
+  private options(): CookieOptions {
+    return {
+      httpOnly: true,
+      secure: this.config.cookie.secure,
+      sameSite: this.config.cookie.sameSite,
+      domain: this.config.cookie.domain,
+      path: '/',
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { registerAs } from '@nestjs/config';
+import { SessionStoreDriver } from './stores/session-store';
+
+export type PrivilegeChangePolicy = 'rotate' | 'revoke';
+export type CookieSameSite = 'strict' | 'lax' | 'none';
+
+const DEFAULT_SESSION_LIMIT = 5;
+const LIMIT_PREFIX = 'SESSION_LIMIT_';
+const MIN_SECRET_LENGTH = 32;
+const SAME_SITE_VALUES: CookieSameSite[] = ['strict', 'lax', 'none'];
+// Only good enough for local development; production refuses to start without SESSION_SECRET
+const DEVELOPMENT_SECRET = 'development-only-session-secret-do-not-use-in-production';
+
+/**
+ * Keys that sign the session cookie, newest first: the first one signs, all
+ * of them verify. Rotate by prepending a new key and dropping the oldest once
+ * cookies signed with it have expired.
+ */
+function readSecrets(): string[] {
+  const secrets = (process.env.SESSION_SECRET || '').split(',').map(secret => secret.trim()).filter(Boolean);
+  if (secrets.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET must be set in production');
+    }
+    return [DEVELOPMENT_SECRET];
+  }
+  if (secrets.some(secret => secret.length < MIN_SECRET_LENGTH)) {
+    throw new Error(`Every SESSION_SECRET key must be at least ${MIN_SECRET_LENGTH} characters long`);
+  }
+  return secrets;
+}
+
+/**
+ * Options of the session cookie. The __Host- prefix makes browsers refuse the
+ * cookie unless it is Secure, has Path=/ and no Domain, so another subdomain
+ * cannot plant or overwrite it.
+ */
+function readCookie() {
+  const hostPrefix = process.env.SESSION_COOKIE_HOST_PREFIX === 'true';
+  const domain = process.env.SESSION_COOKIE_DOMAIN || undefined;
+  const sameSite = (process.env.SESSION_COOKIE_SAMESITE || 'strict').toLowerCase() as CookieSameSite;
+  const secure = hostPrefix || (process.env.SESSION_COOKIE_SECURE
+    ? process.env.SESSION_COOKIE_SECURE === 'true'
+    : process.env.NODE_ENV === 'production');
+
+  if (!SAME_SITE_VALUES.includes(sameSite)) {
+    throw new Error(`SESSION_COOKIE_SAMESITE must be one of ${SAME_SITE_VALUES.join(', ')}`);
+  }
+  if (hostPrefix && domain) {
+    throw new Error('SESSION_COOKIE_DOMAIN cannot be combined with SESSION_COOKIE_HOST_PREFIX');
+  }
+  // Browsers drop SameSite=None cookies that are not Secure
+  if (sameSite === 'none' && !secure) {
+    throw new Error('SESSION_COOKIE_SAMESITE=none requires a secure cookie');
+  }
+
+  return {
+    name: `${hostPrefix ? '__Host-' : ''}${process.env.SESSION_COOKIE_NAME || 'sessionId'}`,
+    domain,
+    sameSite,
+    secure,
+  };
+}
+
+export default registerAs('session', () => ({
+  store: (process.env.SESSION_STORE || 'postgres') as SessionStoreDriver,
+  // Sessions die after this much inactivity...
+  idleTimeoutMs: parseInt(process.env.SESSION_IDLE_TIMEOUT_MINUTES || '30', 10) * 60 * 1000,
+  // ...and after this long regardless of activity.
+  absoluteTimeoutMs: parseInt(process.env.SESSION_ABSOLUTE_TIMEOUT_HOURS || '168', 10) * 60 * 60 * 1000,
+  // Lifetime of an admin's "view as user" session, capped by the admin's own session.
+  impersonationTimeoutMs: parseInt(process.env.SESSION_IMPERSONATION_TIMEOUT_MINUTES || '60', 10) * 60 * 1000,
+  // Minimum gap between two activity refreshes, to avoid a write on every request.
+  touchIntervalMs: parseInt(process.env.SESSION_TOUCH_INTERVAL_SECONDS || '60', 10) * 1000,
+  // What happens to a user's live sessions when their roles change: 'rotate'
+  // re-issues each session ID on its next request, 'revoke' logs them out.
+  privilegeChangePolicy: (process.env.SESSION_PRIVILEGE_CHANGE_POLICY || 'rotate') as PrivilegeChangePolicy,
+  // Maximum concurrent sessions per role, e.g. SESSION_LIMIT_ADMIN=3 or
+  // SESSION_LIMIT_AUDITOR=2; roles without a setting get the default.
+  // The oldest session is evicted once a new login would exceed the limit.
+  limits: Object.entries(process.env)
+    .filter(([key, value]) => key.startsWith(LIMIT_PREFIX) && value)
+    .reduce<Record<string, number>>((limits, [key, value]) => {
+      limits[key.slice(LIMIT_PREFIX.length).toLowerCase()] = parseInt(value, 10);
+      return limits;
+    }, {}),
+  defaultLimit: DEFAULT_SESSION_LIMIT,
+  secrets: readSecrets(),
+  cookie: readCookie(),
+}));
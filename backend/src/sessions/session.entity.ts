@@ -1,19 +1,40 @@
-import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index } from 'typeorm';
 
 @Entity('sessions')
 export class Session {
+  // SHA-256 of the token, so the store never holds a usable cookie value
   @PrimaryColumn()
   id: string;
 
+  // The cookie value, only known while a session is issued or presented.
+  // Stores must never persist it.
+  token?: string;
+
+  @Index()
   @Column('uuid')
   userId: string;
 
   @Column('json')
   data: any;
 
+  @Column({ type: 'varchar', nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  ipAddress: string | null;
+
+  // Sliding idle expiry, pushed forward on activity but never past absoluteExpiresAt
   @Column()
   expiresAt: Date;
 
+  // Defaults only matter for rows created before these columns existed:
+  // such sessions are treated as expired and their users sign in again.
+  @Column({ default: () => 'CURRENT_TIMESTAMP' })
+  absoluteExpiresAt: Date;
+
+  @Column({ default: () => 'CURRENT_TIMESTAMP' })
+  lastActiveAt: Date;
+
   @CreateDateColumn()
   createdAt: Date;
-}
\ No newline at end of file
+}
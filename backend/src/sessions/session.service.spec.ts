@@ -0,0 +1,225 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import type { ConfigType } from '@nestjs/config';
+import { SessionService } from './session.service';
+import sessionConfig from './session.config';
+import { Session } from './session.entity';
+import { MemorySessionStore } from './stores/memory-session.store';
+import { hashToken } from '../auth/tokens';
+import { User } from '../users/user.entity';
+import { Role } from '../rbac/role.entity';
+
+const MINUTE = 60 * 1000;
+
+function createConfig(overrides: Partial<ConfigType<typeof sessionConfig>> = {}): ConfigType<typeof sessionConfig> {
+  return {
+    idleTimeoutMs: 30 * MINUTE,
+    absoluteTimeoutMs: 24 * 60 * MINUTE,
+    impersonationTimeoutMs: 60 * MINUTE,
+    touchIntervalMs: MINUTE,
+    privilegeChangePolicy: 'rotate',
+    limits: {},
+    defaultLimit: 5,
+    ...overrides,
+  } as ConfigType<typeof sessionConfig>;
+}
+
+function createUser(id = 'user-1', roles = ['user']): User {
+  return Object.assign(new User(), { id, email: `${id}@example.com`, roles: roles.map(name => ({ name }) as Role) });
+}
+
+describe('SessionService', () => {
+  let store: MemorySessionStore;
+  let service: SessionService;
+  const user = createUser();
+
+  beforeEach(() => {
+    store = new MemorySessionStore();
+    service = new SessionService(store, createConfig());
+  });
+
+  it('stores sessions under the hash of the token it hands out', async () => {
+    const session = await service.createSession(user);
+
+    expect(session.token).toBeDefined();
+    expect(session.id).toBe(hashToken(session.token));
+    expect(await store.get(session.token)).toBeNull();
+
+    const found = await service.getSessionByToken(session.token);
+    expect(found.id).toBe(session.id);
+    expect(found.token).toBe(session.token);
+  });
+
+  it('does not find a session by its stored id presented as a token', async () => {
+    const session = await service.createSession(user);
+
+    expect(await service.getSessionByToken(session.id)).toBeNull();
+  });
+
+  it('records the client a session was created from', async () => {
+    const session = await service.createSession(user, { userAgent: 'test', ipAddress: '127.0.0.1' });
+
+    const found = await service.getSession(session.id);
+    expect(found.userId).toBe(user.id);
+    expect(found.userAgent).toBe('test');
+    expect(found.ipAddress).toBe('127.0.0.1');
+  });
+
+  it('caps the idle expiry at the absolute lifetime', async () => {
+    service = new SessionService(store, createConfig({ idleTimeoutMs: 60 * MINUTE, absoluteTimeoutMs: 10 * MINUTE }));
+
+    const session = await service.createSession(user);
+
+    expect(session.expiresAt.getTime()).toBe(session.absoluteExpiresAt.getTime());
+  });
+
+  it('drops sessions past their absolute expiry', async () => {
+    const now = Date.now();
+    await store.create(Object.assign(new Session(), {
+      id: 'expired',
+      userId: user.id,
+      data: { userId: user.id },
+      expiresAt: new Date(now + MINUTE),
+      absoluteExpiresAt: new Date(now - 1),
+      lastActiveAt: new Date(now - MINUTE),
+      createdAt: new Date(now - MINUTE),
+    }));
+
+    expect(await service.getSession('expired')).toBeNull();
+    expect(await store.get('expired')).toBeNull();
+  });
+
+  it('only refreshes activity once the touch interval has passed', async () => {
+    const session = await service.createSession(user);
+
+    expect(await service.touchSession(session)).toBe(false);
+
+    session.lastActiveAt = new Date(Date.now() - 2 * MINUTE);
+    expect(await service.touchSession(session)).toBe(true);
+    expect(session.expiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * MINUTE);
+    expect((await service.getSession(session.id)).expiresAt.getTime()).toBe(session.expiresAt.getTime());
+  });
+
+  it('rotates a session under a new token and destroys the old one', async () => {
+    const session = await service.createSession(user);
+    session.data = { ...session.data, rotationRequired: true };
+
+    const rotated = await service.rotateSession(session);
+
+    expect(rotated.id).not.toBe(session.id);
+    expect(rotated.token).not.toBe(session.token);
+    expect(rotated.data).toEqual({ userId: user.id });
+    expect(rotated.absoluteExpiresAt.getTime()).toBe(session.absoluteExpiresAt.getTime());
+    expect(await service.getSessionByToken(session.token)).toBeNull();
+    expect(service.needsRotation(await service.getSessionByToken(rotated.token))).toBe(false);
+  });
+
+  it('increments session counters without losing concurrent updates', async () => {
+    const session = await service.createSession(user);
+
+    const values = await Promise.all([1, 2, 3].map(() => service.incrementSessionData(session, 'attempts')));
+
+    expect(values.sort()).toEqual([1, 2, 3]);
+    expect((await service.getSession(session.id)).data.attempts).toBe(3);
+  });
+
+  it('returns null when incrementing a destroyed session', async () => {
+    const session = await service.createSession(user);
+    await service.destroySession(session.id);
+
+    expect(await service.incrementSessionData(session, 'attempts')).toBeNull();
+  });
+
+  it('flags live sessions for rotation after a privilege change', async () => {
+    const session = await service.createSession(user);
+
+    await service.handlePrivilegeChange(user.id);
+
+    expect(service.needsRotation(await service.getSession(session.id))).toBe(true);
+  });
+
+  it('revokes live sessions after a privilege change when configured to', async () => {
+    service = new SessionService(store, createConfig({ privilegeChangePolicy: 'revoke' }));
+    const session = await service.createSession(user);
+
+    await service.handlePrivilegeChange(user.id);
+
+    expect(await service.getSession(session.id)).toBeNull();
+  });
+
+  it('evicts the oldest sessions once the limit is reached', async () => {
+    service = new SessionService(store, createConfig({ defaultLimit: 2 }));
+
+    const first = await service.createSession(user);
+    await Bun.sleep(2);
+    const second = await service.createSession(user);
+    await Bun.sleep(2);
+    const third = await service.createSession(user);
+
+    expect(await service.getSession(first.id)).toBeNull();
+    expect(await service.getSession(second.id)).not.toBeNull();
+    expect(await service.getSession(third.id)).not.toBeNull();
+  });
+
+  it('applies the most generous limit of a user\'s roles', async () => {
+    service = new SessionService(store, createConfig({ defaultLimit: 1, limits: { admin: 0 } }));
+    const admin = createUser('admin-1', ['user', 'admin']);
+
+    const sessions = [await service.createSession(admin), await service.createSession(admin)];
+
+    for (const session of sessions) {
+      expect(await service.getSession(session.id)).not.toBeNull();
+    }
+  });
+
+  it('does not count challenge or impersonation sessions against the limit', async () => {
+    service = new SessionService(store, createConfig({ defaultLimit: 1 }));
+
+    const session = await service.createSession(user);
+    await service.createChallengeSession(user, 'two-factor', 5 * MINUTE);
+    const admin = await service.createSession(createUser('admin-1', ['admin']));
+    await service.createImpersonationSession(user, admin, { id: 'admin-1', email: 'admin-1@example.com' }, null);
+
+    expect(await service.getSession(session.id)).not.toBeNull();
+  });
+
+  it('never lets an impersonation session outlive the admin\'s own session', async () => {
+    const admin = await service.createSession(createUser('admin-1', ['admin']));
+    admin.absoluteExpiresAt = new Date(Date.now() + 5 * MINUTE);
+
+    const impersonation = await service.createImpersonationSession(
+      user, admin, { id: 'admin-1', email: 'admin-1@example.com' }, 'org-1',
+    );
+
+    expect(impersonation.absoluteExpiresAt.getTime()).toBe(admin.absoluteExpiresAt.getTime());
+    expect(service.getImpersonator(impersonation)).toEqual({ id: 'admin-1', email: 'admin-1@example.com', sessionId: admin.id });
+    expect(impersonation.data.organizationId).toBe('org-1');
+    expect((await service.listUserSessions(user.id)).map(summary => summary.impersonated)).toEqual([true]);
+  });
+
+  it('lists sessions by handle and revokes them through it', async () => {
+    const current = await service.createSession(user);
+    const other = await service.createSession(user);
+    await service.createChallengeSession(user, 'two-factor', 5 * MINUTE);
+
+    const summaries = await service.listUserSessions(user.id, current.id);
+
+    expect(summaries).toHaveLength(2);
+    expect(summaries.map(s => s.id)).not.toContain(current.id);
+    expect(summaries.filter(s => s.current)).toHaveLength(1);
+
+    const handle = summaries.find(s => !s.current).id;
+    expect(await service.destroyUserSession('someone-else', handle)).toBeNull();
+    expect(await service.destroyUserSession(user.id, handle)).toBe(other.id);
+    expect(await service.getSession(other.id)).toBeNull();
+  });
+
+  it('signs out every other session of the user', async () => {
+    const current = await service.createSession(user);
+    await service.createSession(user);
+    const stranger = await service.createSession(createUser('user-2'));
+
+    expect(await service.destroyOtherSessions(user.id, current.id)).toBe(1);
+    expect(await service.listUserSessions(user.id)).toHaveLength(1);
+    expect(await service.getSession(stranger.id)).not.toBeNull();
+  });
+});
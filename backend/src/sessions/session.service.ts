@@ -1,54 +1,319 @@
-import { Injectable } from '@nestjs/common';
-import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThan } from 'typeorm';
+import { Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { createHash } from 'crypto';
 import { Session } from './session.entity';
-import { v4 as uuidv4 } from 'uuid';
+import sessionConfig from './session.config';
+import { SessionStore } from './stores/session-store';
+import { User } from '../users/user.entity';
+import { ClientInfo } from '../auth/client-info';
+import { generateToken, hashToken } from '../auth/tokens';
 
+export interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastActiveAt: Date;
+  expiresAt: Date;
+  current: boolean;
+  // True for an admin's "view as user" session
+  impersonated: boolean;
+}
+
+/** The admin behind an impersonation session, kept in its data. */
+export interface Impersonator {
+  id: string;
+  email: string;
+  // The admin's own session, which they return to when they stop
+  sessionId: string;
+}
+
+/**
+ * Sessions are handed out as random tokens and stored under the token's hash,
+ * so whoever reads the store cannot present a stored session. The token only
+ * exists on the Session objects this service returns while issuing one, and
+ * on those looked up from a cookie.
+ */
 @Injectable()
 export class SessionService {
   constructor(
-    @InjectRepository(Session)
-    private sessionRepository: Repository<Session>,
+    private sessionStore: SessionStore,
+    @Inject(sessionConfig.KEY)
+    private config: ConfigType<typeof sessionConfig>,
   ) {}
 
-  async createSession(userId: string): Promise<string> {
-    // Single session per user - remove existing
-    await this.sessionRepository.delete({ userId });
+  async createSession(user: User, client?: ClientInfo): Promise<Session> {
+    await this.enforceSessionLimit(user);
 
-    const sessionId = uuidv4();
-    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+    const now = new Date();
+    const absoluteExpiresAt = new Date(now.getTime() + this.config.absoluteTimeoutMs);
 
-    const session = this.sessionRepository.create({
-      id: sessionId,
-      userId,
-      data: { userId },
+    const session = Object.assign(new Session(), {
+      userId: user.id,
+      data: { userId: user.id },
+      userAgent: client?.userAgent ?? null,
+      ipAddress: client?.ipAddress ?? null,
+      expiresAt: this.nextIdleExpiry(now, absoluteExpiresAt),
+      absoluteExpiresAt,
+      lastActiveAt: now,
+      createdAt: now,
+    });
+
+    return this.issue(session);
+  }
+
+  /**
+   * Creates a short-lived session that only proves the first login step
+   * (e.g. the password) succeeded. Challenge sessions never authenticate
+   * requests and do not count against the per-role session limit.
+   */
+  async createChallengeSession(
+    user: User,
+    challenge: string,
+    lifetimeMs: number,
+    client?: ClientInfo,
+  ): Promise<Session> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + lifetimeMs);
+
+    const session = Object.assign(new Session(), {
+      userId: user.id,
+      data: { userId: user.id, challenge },
+      userAgent: client?.userAgent ?? null,
+      ipAddress: client?.ipAddress ?? null,
       expiresAt,
+      absoluteExpiresAt: expiresAt,
+      lastActiveAt: now,
+      createdAt: now,
     });
 
-    await this.sessionRepository.save(session);
-    return sessionId;
+    return this.issue(session);
   }
 
-  async getSession(sessionId: string): Promise<Session | null> {
-    const session = await this.sessionRepository.findOne({ 
-      where: { id: sessionId } 
+  /**
+   * Creates a session in which an admin acts as another user. It records the
+   * admin and their own session, never outlives that session, and does not
+   * count against the user's session limit.
+   */
+  async createImpersonationSession(
+    user: User,
+    adminSession: Session,
+    impersonator: { id: string; email: string },
+    organizationId: string | null,
+    client?: ClientInfo,
+  ): Promise<Session> {
+    const now = new Date();
+    const absoluteExpiresAt = new Date(Math.min(
+      now.getTime() + this.config.impersonationTimeoutMs,
+      adminSession.absoluteExpiresAt.getTime(),
+    ));
+    const data: Record<string, any> = {
+      userId: user.id,
+      impersonator: { ...impersonator, sessionId: adminSession.id },
+    };
+    if (organizationId) {
+      data.organizationId = organizationId;
+    }
+
+    const session = Object.assign(new Session(), {
+      userId: user.id,
+      data,
+      userAgent: client?.userAgent ?? null,
+      ipAddress: client?.ipAddress ?? null,
+      expiresAt: this.nextIdleExpiry(now, absoluteExpiresAt),
+      absoluteExpiresAt,
+      lastActiveAt: now,
+      createdAt: now,
     });
 
-    if (!session || session.expiresAt < new Date()) {
-      if (session) await this.sessionRepository.delete({ id: sessionId });
+    return this.issue(session);
+  }
+
+  getImpersonator(session: Session): Impersonator | null {
+    return session.data?.impersonator ?? null;
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    const session = await this.sessionStore.get(sessionId);
+
+    if (!session || this.isExpired(session)) {
+      if (session) await this.sessionStore.destroy([sessionId]);
       return null;
     }
 
     return session;
   }
 
+  /** Looks up the session a cookie presents; the result carries its token. */
+  async getSessionByToken(token: string): Promise<Session | null> {
+    if (!token) return null;
+
+    const session = await this.getSession(hashToken(token));
+    if (session) session.token = token;
+    return session;
+  }
+
+  /**
+   * Records activity on a session, sliding its idle expiry forward up to the
+   * absolute lifetime. Returns true if the session was actually refreshed.
+   */
+  async touchSession(session: Session): Promise<boolean> {
+    const now = new Date();
+    if (now.getTime() - session.lastActiveAt.getTime() < this.config.touchIntervalMs) {
+      return false;
+    }
+
+    session.lastActiveAt = now;
+    session.expiresAt = this.nextIdleExpiry(now, session.absoluteExpiresAt);
+    await this.sessionStore.touch(session);
+    return true;
+  }
+
+  /**
+   * Re-issues a session under a fresh token, keeping its data and lifetime,
+   * and destroys the old one so a fixated or leaked value stops working.
+   */
+  async rotateSession(session: Session): Promise<Session> {
+    const { rotationRequired, ...data } = session.data ?? {};
+    const { id, token, ...rest } = session;
+
+    const rotated = await this.issue(Object.assign(new Session(), rest, { data }));
+    await this.sessionStore.destroy([id]);
+    return rotated;
+  }
+
+  async updateSessionData(session: Session, changes: Record<string, any>): Promise<void> {
+    session.data = { ...session.data, ...changes };
+    await this.sessionStore.update(session);
+  }
+
+  /** Adds one to a counter in the session's data; null if the session is gone. */
+  async incrementSessionData(session: Session, field: string): Promise<number | null> {
+    const value = await this.sessionStore.increment(session.id, field);
+    if (value !== null) {
+      session.data = { ...session.data, [field]: value };
+    }
+    return value;
+  }
+
+  needsRotation(session: Session): boolean {
+    return !!session.data?.rotationRequired;
+  }
+
+  /**
+   * Applies the configured privilege-change policy to every live session of
+   * a user: either flag them for rotation on their next request, or revoke them.
+   */
+  async handlePrivilegeChange(userId: string): Promise<void> {
+    if (this.config.privilegeChangePolicy === 'revoke') {
+      await this.destroyAllUserSessions(userId);
+      return;
+    }
+
+    const sessions = await this.sessionStore.listByUser(userId);
+    await Promise.all(sessions.map(session => {
+      session.data = { ...session.data, rotationRequired: true };
+      return this.sessionStore.update(session);
+    }));
+  }
+
+  async listUserSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await this.sessionStore.listByUser(userId);
+
+    return sessions
+      .filter(session => !this.isExpired(session) && !session.data?.challenge)
+      .reverse()
+      .map(session => ({
+        id: this.toHandle(session.id),
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastActiveAt: session.lastActiveAt,
+        expiresAt: session.expiresAt,
+        current: session.id === currentSessionId,
+        impersonated: !!session.data?.impersonator,
+      }));
+  }
+
+  /**
+   * Revokes one of the user's sessions by its public handle. Returns the
+   * stored session ID that was destroyed, or null if the handle matched nothing.
+   */
+  async destroyUserSession(userId: string, handle: string): Promise<string | null> {
+    const sessions = await this.sessionStore.listByUser(userId);
+    const session = sessions.find(s => this.toHandle(s.id) === handle);
+    if (!session) return null;
+
+    await this.sessionStore.destroy([session.id]);
+    return session.id;
+  }
+
+  async destroyOtherSessions(userId: string, currentSessionId: string): Promise<number> {
+    const sessions = await this.sessionStore.listByUser(userId);
+    const others = sessions.filter(s => s.id !== currentSessionId).map(s => s.id);
+
+    await this.sessionStore.destroy(others);
+    return others.length;
+  }
+
+  async destroyAllUserSessions(userId: string): Promise<number> {
+    const sessions = await this.sessionStore.listByUser(userId);
+
+    await this.sessionStore.destroy(sessions.map(s => s.id));
+    return sessions.length;
+  }
+
   async destroySession(sessionId: string): Promise<void> {
-    await this.sessionRepository.delete({ id: sessionId });
+    await this.sessionStore.destroy([sessionId]);
   }
 
-  async cleanupExpiredSessions(): Promise<void> {
-    await this.sessionRepository.delete({
-      expiresAt: LessThan(new Date()),
-    });
+  async destroySessionByToken(token: string): Promise<void> {
+    await this.sessionStore.destroy([hashToken(token)]);
+  }
+
+  /** Stores a new session under the hash of a fresh token and returns it with the token. */
+  private async issue(session: Session): Promise<Session> {
+    const token = generateToken();
+    session.id = hashToken(token);
+
+    const stored = await this.sessionStore.create(session);
+    stored.token = token;
+    return stored;
+  }
+
+  private isExpired(session: Session): boolean {
+    const now = new Date();
+    return session.expiresAt < now || session.absoluteExpiresAt < now;
+  }
+
+  private nextIdleExpiry(now: Date, absoluteExpiresAt: Date): Date {
+    const idleExpiresAt = now.getTime() + this.config.idleTimeoutMs;
+    return new Date(Math.min(idleExpiresAt, absoluteExpiresAt.getTime()));
+  }
+
+  // Clients get a handle derived from the stored ID rather than the store key itself.
+  private toHandle(sessionId: string): string {
+    return createHash('sha256').update(sessionId).digest('hex').slice(0, 32);
+  }
+
+  // With several roles the most generous limit applies; 0 means unlimited
+  private sessionLimit(user: User): number {
+    const limits = user.roles.map(role => this.config.limits[role.name] ?? this.config.defaultLimit);
+    if (limits.length === 0) return this.config.defaultLimit;
+    return limits.some(limit => !limit || limit < 1) ? 0 : Math.max(...limits);
+  }
+
+  private async enforceSessionLimit(user: User): Promise<void> {
+    const limit = this.sessionLimit(user);
+    if (!limit || limit < 1) return;
+
+    const sessions = (await this.sessionStore.listByUser(user.id))
+      .filter(session => !session.data?.challenge && !session.data?.impersonator);
+
+    // Make room for the session about to be created
+    const excess = sessions.length - limit + 1;
+    if (excess > 0) {
+      await this.sessionStore.destroy(sessions.slice(0, excess).map(s => s.id));
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,77 @@
+import { Controller, Get, Delete, Param, Req, Res, UseGuards, NotFoundException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiCookieAuth } from '@nestjs/swagger';
+import type { Request, Response } from 'express';
+import { SessionService } from './session.service';
+import { SessionCookieService } from './session-cookie.service';
+import { AuthGuard } from '../auth/auth.guard';
+import { CsrfGuard } from '../auth/csrf.guard';
+import { NoImpersonationGuard } from '../auth/impersonation.guard';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { getAuditActor } from '../audit/audit-actor';
+
+@ApiTags('Sessions')
+@Controller('me/sessions')
+@UseGuards(AuthGuard, CsrfGuard)
+@ApiCookieAuth('sessionId')
+export class SessionsController {
+  constructor(
+    private sessionService: SessionService,
+    private sessionCookieService: SessionCookieService,
+    private auditService: AuditService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List active sessions of the current user' })
+  @ApiResponse({ status: 200, description: 'Sessions retrieved' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  async listSessions(@Req() request: Request) {
+    return this.sessionService.listUserSessions(request.user.id, request.session.id);
+  }
+
+  @Delete()
+  @UseGuards(NoImpersonationGuard)
+  @ApiOperation({ summary: 'Log out everywhere else (revoke all other sessions)' })
+  @ApiResponse({ status: 200, description: 'Other sessions revoked' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Viewing as another user' })
+  async revokeOtherSessions(@Req() request: Request) {
+    const revoked = await this.sessionService.destroyOtherSessions(request.user.id, request.session.id);
+    await this.auditService.record({
+      action: AuditAction.SESSIONS_REVOKED,
+      actor: getAuditActor(request),
+      metadata: { scope: 'others', count: revoked },
+    });
+    return { message: 'Other sessions revoked', revoked };
+  }
+
+  @Delete(':id')
+  @UseGuards(NoImpersonationGuard)
+  @ApiOperation({ summary: 'Revoke one of the current user\'s sessions' })
+  @ApiParam({ name: 'id', description: 'Session ID as returned by GET /me/sessions' })
+  @ApiResponse({ status: 200, description: 'Session revoked' })
+  @ApiResponse({ status: 401, description: 'Not authenticated' })
+  @ApiResponse({ status: 403, description: 'Viewing as another user' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(
+    @Param('id') id: string,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const revokedId = await this.sessionService.destroyUserSession(request.user.id, id);
+    if (!revokedId) {
+      throw new NotFoundException('Session not found');
+    }
+    await this.auditService.record({
+      action: AuditAction.SESSIONS_REVOKED,
+      actor: getAuditActor(request),
+      metadata: { scope: 'one', session: id },
+    });
+
+    if (revokedId === request.session.id) {
+      this.sessionCookieService.clear(response);
+    }
+
+    return { message: 'Session revoked' };
+  }
+}
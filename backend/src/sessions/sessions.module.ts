@@ -0,0 +1,44 @@
+import { Module } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import Redis from 'ioredis';
+import { Session } from './session.entity';
+import { SessionService } from './session.service';
+import { SessionCookieService } from './session-cookie.service';
+import sessionConfig from './session.config';
+import { SessionStore } from './stores/session-store';
+import { PostgresSessionStore } from './stores/postgres-session.store';
+import { RedisSessionStore } from './stores/redis-session.store';
+import { MemorySessionStore } from './stores/memory-session.store';
+import { REDIS_CLIENT } from '../redis/redis.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Session])],
+  providers: [
+    SessionService,
+    SessionCookieService,
+    {
+      provide: SessionStore,
+      inject: [sessionConfig.KEY, getRepositoryToken(Session), REDIS_CLIENT],
+      useFactory: (
+        config: ConfigType<typeof sessionConfig>,
+        repository: Repository<Session>,
+        redis: Redis,
+      ): SessionStore => {
+        switch (config.store) {
+          case 'redis':
+            return new RedisSessionStore(redis);
+          case 'memory':
+            return new MemorySessionStore();
+          case 'postgres':
+            return new PostgresSessionStore(repository);
+          default:
+            throw new Error(`Unknown SESSION_STORE "${config.store}"`);
+        }
+      },
+    },
+  ],
+  exports: [SessionService, SessionCookieService]
+})
+export class SessionsModule {}
@@ -0,0 +1,82 @@
+import { OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Session } from '../session.entity';
+import { SessionStore } from './session-store';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Process-local store for development and tests. Sessions are lost on
+ * restart and are not shared between instances.
+ */
+export class MemorySessionStore extends SessionStore implements OnModuleInit, OnModuleDestroy {
+  private sessions = new Map<string, Session>();
+  private sweepTimer: NodeJS.Timeout;
+
+  onModuleInit(): void {
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  async create(session: Session): Promise<Session> {
+    const { token, ...stored } = session;
+    this.sessions.set(session.id, structuredClone(stored));
+    return session;
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+
+    if (session.expiresAt < new Date()) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+    return structuredClone(session);
+  }
+
+  async touch(session: Session): Promise<void> {
+    const stored = this.sessions.get(session.id);
+    if (!stored) return;
+
+    stored.lastActiveAt = session.lastActiveAt;
+    stored.expiresAt = session.expiresAt;
+  }
+
+  async update(session: Session): Promise<void> {
+    const stored = this.sessions.get(session.id);
+    if (!stored) return;
+
+    stored.data = structuredClone(session.data);
+  }
+
+  async increment(sessionId: string, field: string): Promise<number | null> {
+    const stored = this.sessions.get(sessionId);
+    if (!stored) return null;
+
+    stored.data = { ...stored.data, [field]: (Number(stored.data?.[field]) || 0) + 1 };
+    return stored.data[field];
+  }
+
+  async destroy(sessionIds: string[]): Promise<void> {
+    sessionIds.forEach(id => this.sessions.delete(id));
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    const now = new Date();
+    return [...this.sessions.values()]
+      .filter(session => session.userId === userId && session.expiresAt >= now)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(session => structuredClone(session));
+  }
+
+  private sweep(): void {
+    const now = new Date();
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt < now) this.sessions.delete(id);
+    }
+  }
+}
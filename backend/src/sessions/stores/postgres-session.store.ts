@@ -0,0 +1,78 @@
+import { OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Repository, LessThan, MoreThanOrEqual, In } from 'typeorm';
+import { Session } from '../session.entity';
+import { SessionStore } from './session-store';
+
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+export class PostgresSessionStore extends SessionStore implements OnModuleInit, OnModuleDestroy {
+  private purgeTimer: NodeJS.Timeout;
+
+  constructor(private sessionRepository: Repository<Session>) {
+    super();
+  }
+
+  onModuleInit(): void {
+    // Postgres has no native TTL, so expired rows are swept periodically
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpired().catch(() => undefined);
+    }, PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.purgeTimer);
+  }
+
+  async create(session: Session): Promise<Session> {
+    return this.sessionRepository.save(this.sessionRepository.create(session));
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    const session = await this.sessionRepository.findOne({ where: { id: sessionId } });
+    if (session && session.expiresAt < new Date()) {
+      await this.sessionRepository.delete({ id: sessionId });
+      return null;
+    }
+    return session;
+  }
+
+  async touch(session: Session): Promise<void> {
+    await this.sessionRepository.update(session.id, {
+      lastActiveAt: session.lastActiveAt,
+      expiresAt: session.expiresAt,
+    });
+  }
+
+  async update(session: Session): Promise<void> {
+    await this.sessionRepository.update(session.id, { data: session.data });
+  }
+
+  async increment(sessionId: string, field: string): Promise<number | null> {
+    // A single UPDATE holds the row lock, so concurrent increments serialise
+    const [rows] = await this.sessionRepository.query(
+      `UPDATE "sessions"
+       SET "data" = jsonb_set(COALESCE("data"::jsonb, '{}'), ARRAY[$2::text], to_jsonb(COALESCE(("data"->>$2)::int, 0) + 1))::json
+       WHERE "id" = $1
+       RETURNING ("data"->>$2)::int AS "value"`,
+      [sessionId, field],
+    );
+    return rows[0]?.value ?? null;
+  }
+
+  async destroy(sessionIds: string[]): Promise<void> {
+    if (sessionIds.length === 0) return;
+    await this.sessionRepository.delete({ id: In(sessionIds) });
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    return this.sessionRepository.find({
+      where: { userId, expiresAt: MoreThanOrEqual(new Date()) },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async purgeExpired(): Promise<void> {
+    await this.sessionRepository.delete({ expiresAt: LessThan(new Date()) });
+  }
+}
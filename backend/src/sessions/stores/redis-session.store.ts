@@ -0,0 +1,127 @@
+import Redis from 'ioredis';
+import { Session } from '../session.entity';
+import { SessionStore } from './session-store';
+
+const SESSION_PREFIX = 'session:';
+const USER_INDEX_PREFIX = 'user-sessions:';
+
+// Read-modify-write of one data field inside Redis, keeping the key's TTL
+const INCREMENT_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then return nil end
+local session = cjson.decode(raw)
+if type(session.data) ~= 'table' then session.data = {} end
+local value = (tonumber(session.data[ARGV[1]]) or 0) + 1
+session.data[ARGV[1]] = value
+redis.call('SET', KEYS[1], cjson.encode(session), 'KEEPTTL')
+return value
+`;
+
+const DATE_FIELDS = ['expiresAt', 'absoluteExpiresAt', 'lastActiveAt', 'createdAt'] as const;
+
+/**
+ * Stores each session as a JSON string whose Redis TTL tracks `expiresAt`.
+ * A per-user set indexes session IDs and lives as long as its longest-lived
+ * session; entries whose key has already expired are pruned lazily when the
+ * set is read.
+ */
+export class RedisSessionStore extends SessionStore {
+  constructor(private redis: Redis) {
+    super();
+  }
+
+  async create(session: Session): Promise<Session> {
+    await this.redis
+      .multi()
+      .set(this.sessionKey(session.id), this.serialize(session), 'PX', this.ttl(session))
+      .sadd(this.userKey(session.userId), session.id)
+      // The index must outlive every session in it: arm the expiry of a new
+      // set, then only ever push it later, so a short-lived challenge or
+      // impersonation session cannot cut it short (Redis 7+)
+      .pexpireat(this.userKey(session.userId), session.absoluteExpiresAt.getTime(), 'NX')
+      .pexpireat(this.userKey(session.userId), session.absoluteExpiresAt.getTime(), 'GT')
+      .exec();
+    return session;
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    const raw = await this.redis.get(this.sessionKey(sessionId));
+    return raw ? this.deserialize(raw) : null;
+  }
+
+  async touch(session: Session): Promise<void> {
+    await this.overwrite(session);
+  }
+
+  async update(session: Session): Promise<void> {
+    await this.overwrite(session);
+  }
+
+  async increment(sessionId: string, field: string): Promise<number | null> {
+    const value = await this.redis.eval(INCREMENT_SCRIPT, 1, this.sessionKey(sessionId), field);
+    return value === null ? null : Number(value);
+  }
+
+  async destroy(sessionIds: string[]): Promise<void> {
+    if (sessionIds.length === 0) return;
+
+    const raws = await this.redis.mget(sessionIds.map(id => this.sessionKey(id)));
+    const pipeline = this.redis.multi().del(...sessionIds.map(id => this.sessionKey(id)));
+    raws.forEach((raw, index) => {
+      if (raw) pipeline.srem(this.userKey(this.deserialize(raw).userId), sessionIds[index]);
+    });
+    await pipeline.exec();
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    const ids = await this.redis.smembers(this.userKey(userId));
+    if (ids.length === 0) return [];
+
+    const raws = await this.redis.mget(ids.map(id => this.sessionKey(id)));
+    const stale = ids.filter((_, index) => !raws[index]);
+    if (stale.length > 0) {
+      await this.redis.srem(this.userKey(userId), ...stale);
+    }
+
+    return raws
+      .filter((raw): raw is string => !!raw)
+      .map(raw => this.deserialize(raw))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  private async overwrite(session: Session): Promise<void> {
+    // XX: never resurrect a session that expired or was destroyed meanwhile
+    await this.redis.set(
+      this.sessionKey(session.id),
+      this.serialize(session),
+      'PX',
+      this.ttl(session),
+      'XX',
+    );
+  }
+
+  private ttl(session: Session): number {
+    return Math.max(session.expiresAt.getTime() - Date.now(), 1);
+  }
+
+  private serialize(session: Session): string {
+    const { token, ...stored } = session;
+    return JSON.stringify(stored);
+  }
+
+  private deserialize(raw: string): Session {
+    const session = JSON.parse(raw);
+    DATE_FIELDS.forEach(field => {
+      session[field] = new Date(session[field]);
+    });
+    return session;
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `${SESSION_PREFIX}${sessionId}`;
+  }
+
+  private userKey(userId: string): string {
+    return `${USER_INDEX_PREFIX}${userId}`;
+  }
+}
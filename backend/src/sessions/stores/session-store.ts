@@ -0,0 +1,31 @@
+import { Session } from '../session.entity';
+
+export type SessionStoreDriver = 'postgres' | 'redis' | 'memory';
+
+/**
+ * Persistence backend for sessions. Every implementation expires a session
+ * on its own once `expiresAt` has passed, so callers never see stale rows;
+ * `touch` must re-arm that expiry from the session's new `expiresAt`.
+ * Sessions are keyed by their hashed `id` and their `token` is never stored.
+ */
+export abstract class SessionStore {
+  abstract create(session: Session): Promise<Session>;
+
+  abstract get(sessionId: string): Promise<Session | null>;
+
+  abstract touch(session: Session): Promise<void>;
+
+  /** Persists changes to `data` without altering the session's expiry. */
+  abstract update(session: Session): Promise<void>;
+
+  /**
+   * Atomically adds one to a numeric field of `data` and returns the new
+   * value, or null if the session is gone. Concurrent increments are never lost.
+   */
+  abstract increment(sessionId: string, field: string): Promise<number | null>;
+
+  abstract destroy(sessionIds: string[]): Promise<void>;
+
+  /** Live sessions of a user, oldest first. */
+  abstract listByUser(userId: string): Promise<Session[]>;
+}
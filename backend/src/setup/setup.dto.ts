@@ -0,0 +1,18 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CompleteSetupDto {
+  @ApiProperty({ description: 'SETUP_TOKEN, or the token logged at startup' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({ example: 'admin@example.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ example: 'correct-horse-battery', description: 'Must satisfy the password policy' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
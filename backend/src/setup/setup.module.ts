@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SetupService } from './setup.service';
+import { UsersModule } from '../users/users.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [UsersModule, AuditModule],
+  providers: [SetupService],
+  exports: [SetupService],
+})
+export class SetupModule {}
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { SetupService } from './setup.service';
+import authConfig from '../auth/auth.config';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { Role } from '../rbac/role.entity';
+import { AuditEventInput, AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { partialMock } from '../testing/partial-mock';
+
+const SETUP_TOKEN = 'a-setup-token-that-is-long-enough-to-pass';
+
+function isSuperAdmin(user: User): boolean {
+  return user.roles.some(role => role.name === 'super_admin');
+}
+
+describe('SetupService', () => {
+  let users: User[];
+  let usersService: UsersService;
+  let audited: AuditEventInput[];
+
+  function createService(overrides: Partial<ConfigType<typeof authConfig>> = {}): SetupService {
+    const config = {
+      frontendUrl: 'http://localhost:3000',
+      setupToken: SETUP_TOKEN,
+      bootstrapAdmin: null,
+      ...overrides,
+    } as ConfigType<typeof authConfig>;
+    const auditService = partialMock<AuditService>({
+      record: async (event: AuditEventInput) => { audited.push(event); },
+    });
+    return new SetupService(usersService, auditService, config);
+  }
+
+  beforeEach(() => {
+    users = [];
+    audited = [];
+
+    // Like UsersService, creates the first super admin only while there is none
+    usersService = partialMock<UsersService>({
+      findByEmail: async (email: string) => users.find(user => user.email === email) ?? null,
+      hasSuperAdmin: async () => users.some(isSuperAdmin),
+      // Checks and inserts without yielding, as the advisory lock makes it in the database
+      createFirstSuperAdmin: async (email: string) => {
+        if (users.some(isSuperAdmin)) return null;
+
+        const user = Object.assign(new User(), { id: `user-${users.length + 1}`, email, roles: [{ name: 'super_admin' } as Role] });
+        users.push(user);
+        return user;
+      },
+    });
+  });
+
+  describe('complete', () => {
+    it('creates the first super admin for the holder of the token', async () => {
+      const service = createService();
+
+      const user = await service.complete(SETUP_TOKEN, 'root@example.com', 'a long passphrase');
+
+      expect(user.roles.map(role => role.name)).toEqual(['super_admin']);
+      expect(await service.isRequired()).toBe(false);
+      expect(audited).toEqual([expect.objectContaining({ action: AuditAction.SETUP_COMPLETED, metadata: { method: 'token' } })]);
+    });
+
+    it('rejects a wrong token', async () => {
+      const service = createService();
+
+      await expect(service.complete('not-the-token', 'root@example.com', 'a long passphrase')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(users).toEqual([]);
+    });
+
+    it('closes for good once a super admin exists', async () => {
+      const service = createService();
+      await service.complete(SETUP_TOKEN, 'root@example.com', 'a long passphrase');
+
+      await expect(service.complete(SETUP_TOKEN, 'second@example.com', 'a long passphrase')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('lets only one of two concurrent attempts win', async () => {
+      const service = createService();
+
+      const results = await Promise.allSettled([
+        service.complete(SETUP_TOKEN, 'first@example.com', 'a long passphrase'),
+        service.complete(SETUP_TOKEN, 'second@example.com', 'a long passphrase'),
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(users).toHaveLength(1);
+    });
+
+    it('generates a token when none is configured', async () => {
+      const service = createService({ setupToken: null });
+
+      await expect(service.complete('', 'root@example.com', 'a long passphrase')).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('on startup', () => {
+    it('seeds the first super admin from the bootstrap settings', async () => {
+      const service = createService({ bootstrapAdmin: { email: 'seed@example.com', password: 'a long passphrase' } });
+
+      await service.onApplicationBootstrap();
+
+      expect(users.map(user => user.email)).toEqual(['seed@example.com']);
+      expect(audited[0].metadata).toEqual({ method: 'seed' });
+    });
+
+    it('refuses to seed over an existing account', async () => {
+      users.push(Object.assign(new User(), { id: 'user-1', email: 'seed@example.com', roles: [] }));
+      const service = createService({ bootstrapAdmin: { email: 'seed@example.com', password: 'a long passphrase' } });
+
+      await expect(service.onApplicationBootstrap()).rejects.toThrow('already belongs to an account');
+    });
+
+    it('does nothing once a super admin exists', async () => {
+      await usersService.createFirstSuperAdmin('root@example.com', 'a long passphrase');
+      const service = createService({ bootstrapAdmin: { email: 'seed@example.com', password: 'a long passphrase' } });
+
+      await service.onApplicationBootstrap();
+
+      expect(users).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { ConflictException, Inject, Injectable, Logger, OnApplicationBootstrap, UnauthorizedException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import authConfig from '../auth/auth.config';
+import { generateToken, hashToken } from '../auth/tokens';
+import { ClientInfo } from '../auth/client-info';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+
+/**
+ * Creates the first super admin of a fresh install, either from the
+ * BOOTSTRAP_ADMIN_* seed at startup or by whoever presents the setup token.
+ * Registering first grants nothing, and once a super admin exists setup is
+ * closed for good.
+ */
+@Injectable()
+export class SetupService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SetupService.name);
+  private readonly setupToken: string;
+  // Setup never reopens, so a positive answer is remembered
+  private completed = false;
+
+  constructor(
+    private usersService: UsersService,
+    private auditService: AuditService,
+    @Inject(authConfig.KEY)
+    private config: ConfigType<typeof authConfig>,
+  ) {
+    this.setupToken = config.setupToken ?? generateToken();
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (!await this.isRequired()) return;
+
+    const seed = this.config.bootstrapAdmin;
+    if (seed) {
+      if (await this.usersService.findByEmail(seed.email)) {
+        throw new Error(`BOOTSTRAP_ADMIN_EMAIL ${seed.email} already belongs to an account; grant it super_admin instead`);
+      }
+      const user = await this.usersService.createFirstSuperAdmin(seed.email, seed.password);
+      if (user) {
+        await this.recordCompleted(user, 'seed');
+        this.logger.log(`Created super admin ${user.email} from BOOTSTRAP_ADMIN_EMAIL`);
+      }
+      return;
+    }
+
+    if (this.config.setupToken) {
+      this.logger.warn(`No super admin exists yet. Finish setup at ${this.config.frontendUrl}/setup with SETUP_TOKEN`);
+    } else {
+      this.logger.warn(
+        `No super admin exists yet. Finish setup at ${this.config.frontendUrl}/setup with this one-time token: ${this.setupToken}`,
+      );
+    }
+  }
+
+  async isRequired(): Promise<boolean> {
+    if (!this.completed) {
+      this.completed = await this.usersService.hasSuperAdmin();
+    }
+    return !this.completed;
+  }
+
+  /** Creates the first super admin for the holder of the setup token. */
+  async complete(token: string, email: string, password: string, client?: ClientInfo): Promise<User> {
+    if (!await this.isRequired()) {
+      throw new ConflictException({ message: 'Setup has already been completed', code: 'SETUP_COMPLETED' });
+    }
+    if (!this.safeEqual(token, this.setupToken)) {
+      throw new UnauthorizedException({ message: 'Invalid setup token', code: 'INVALID_SETUP_TOKEN' });
+    }
+
+    const user = await this.usersService.createFirstSuperAdmin(email, password, { email, ...client });
+    if (!user) {
+      this.completed = true;
+      throw new ConflictException({ message: 'Setup has already been completed', code: 'SETUP_COMPLETED' });
+    }
+
+    this.completed = true;
+    await this.recordCompleted(user, 'token', client);
+    return user;
+  }
+
+  private async recordCompleted(user: User, method: 'seed' | 'token', client?: ClientInfo): Promise<void> {
+    await this.auditService.record({
+      action: AuditAction.SETUP_COMPLETED,
+      actor: { id: user.id, email: user.email, ...client },
+      targetId: user.id,
+      metadata: { method },
+    });
+  }
+
+  // Compares digests so neither the length nor the content leaks through timing
+  private safeEqual(a: string, b: string): boolean {
+    return timingSafeEqual(Buffer.from(hashToken(a)), Buffer.from(hashToken(b)));
+  }
+}
@@ -0,0 +1,34 @@
+import { EntityManager, FindManyOptions, FindOneOptions, ObjectLiteral } from 'typeorm';
+import { FakeRepository } from './fake-repository';
+import { partialMock } from './partial-mock';
+
+/** Answers the raw SQL a spec expects, standing in for the database. */
+export type QueryHandler = (sql: string, parameters?: unknown[]) => Promise<any>;
+
+/**
+ * Entity manager over a set of fake repositories. Transactions simply run
+ * their work, so a failed check does not roll anything back.
+ */
+export function fakeEntityManager(
+  repositories: FakeRepository<ObjectLiteral>[],
+  query: QueryHandler = async sql => { throw new Error(`Unexpected query: ${sql}`); },
+): EntityManager {
+  const repository = (target: unknown) => {
+    const found = repositories.find(candidate => candidate.target === target);
+    if (!found) throw new Error(`No fake repository for ${String(target)}`);
+    return found.asRepository();
+  };
+
+  const manager: EntityManager = partialMock<EntityManager>({
+    transaction: (async (work: (manager: EntityManager) => Promise<unknown>) => work(manager)) as EntityManager['transaction'],
+    find: (async (target: unknown, options: FindManyOptions) => repository(target).find(options)) as EntityManager['find'],
+    findOne: (async (target: unknown, options: FindOneOptions) => repository(target).findOne(options)) as EntityManager['findOne'],
+    exists: (async (target: unknown, options: FindManyOptions) => repository(target).exists(options)) as EntityManager['exists'],
+    save: (async (entity: ObjectLiteral) => repository(entity.constructor).save(entity)) as EntityManager['save'],
+    update: (async (target: unknown, criteria: ObjectLiteral, changes: ObjectLiteral) =>
+      repository(target).update(criteria, changes)) as EntityManager['update'],
+    delete: (async (target: unknown, criteria: ObjectLiteral) => repository(target).delete(criteria)) as EntityManager['delete'],
+    query,
+  });
+  return manager;
+}
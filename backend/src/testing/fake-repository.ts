@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+import { FindOperator, In, ObjectLiteral, Repository } from 'typeorm';
+import { partialMock } from './partial-mock';
+
+/**
+ * In-memory stand-in for a TypeORM repository. It understands plain equality
+ * filters plus the few operators the services use outside of query builders.
+ */
+export class FakeRepository<T extends ObjectLiteral> {
+  rows: T[] = [];
+
+  constructor(
+    readonly target: new () => T,
+    private readonly primaryKey = 'id',
+  ) {}
+
+  seed(...rows: Partial<T>[]): this {
+    this.rows.push(...rows.map(row => Object.assign(new this.target(), row)));
+    return this;
+  }
+
+  /** The repository API over the stored rows; `members` add to or replace what is faked here. */
+  asRepository(members: Partial<Repository<T>> = {}): Repository<T> {
+    return partialMock<Repository<T>>({
+      create: ((plain: Partial<T>) => Object.assign(new this.target(), plain)) as Repository<T>['create'],
+      find: async options => this.rows.filter(row => this.matches(row, options?.where)).map(row => this.copy(row)),
+      findOne: async options => {
+        const row = this.rows.find(candidate => this.matches(candidate, options.where));
+        return row ? this.copy(row) : null;
+      },
+      exists: async options => this.rows.some(row => this.matches(row, options?.where)),
+      count: async options => this.rows.filter(row => this.matches(row, options?.where)).length,
+      insert: async entity => {
+        const rows = (Array.isArray(entity) ? entity : [entity]).map(row => this.add(row));
+        return { identifiers: rows.map(row => ({ [this.primaryKey]: row[this.primaryKey] })), generatedMaps: [], raw: [] };
+      },
+      save: (async (entity: T | T[]) => {
+        return Array.isArray(entity) ? entity.map(row => this.upsert(row)) : this.upsert(entity);
+      }) as Repository<T>['save'],
+      update: async (criteria, changes) => {
+        const rows = this.rows.filter(row => this.matches(row, this.toWhere(criteria)));
+        rows.forEach(row => Object.assign(row, changes));
+        return { raw: [], affected: rows.length, generatedMaps: [] };
+      },
+      delete: async criteria => {
+        const before = this.rows.length;
+        this.rows = this.rows.filter(row => !this.matches(row, this.toWhere(criteria)));
+        return { raw: [], affected: before - this.rows.length };
+      },
+      ...members,
+    });
+  }
+
+  // Like rows loaded from a database, what a query returns is detached from the table
+  private copy(row: T): T {
+    return Object.assign(new this.target(), row);
+  }
+
+  private upsert(entity: T): T {
+    const key = entity[this.primaryKey];
+    const existing = key !== undefined && this.rows.find(row => row[this.primaryKey] === key);
+    return existing ? Object.assign(existing, entity) : this.add(entity);
+  }
+
+  private add(row: object): T {
+    const generated = this.primaryKey === 'id' ? { id: randomUUID() } : {};
+    const stored = Object.assign(new this.target(), generated, { createdAt: new Date() }, row);
+    this.rows.push(stored);
+    return stored;
+  }
+
+  // Like TypeORM, a key or a list of keys addresses rows by primary key
+  private toWhere(criteria: unknown): unknown {
+    if (typeof criteria === 'string') return { [this.primaryKey]: criteria };
+    if (Array.isArray(criteria) && criteria.every(key => typeof key === 'string')) {
+      return { [this.primaryKey]: In(criteria) };
+    }
+    return criteria;
+  }
+
+  private matches(row: T, where: unknown): boolean {
+    if (!where) return true;
+    if (Array.isArray(where)) return where.some(alternative => this.matches(row, alternative));
+
+    return Object.entries(where).every(([key, expected]) => this.matchesValue(row[key], expected));
+  }
+
+  private matchesValue(actual: unknown, expected: unknown): boolean {
+    if (!(expected instanceof FindOperator)) {
+      return actual instanceof Date && expected instanceof Date
+        ? actual.getTime() === expected.getTime()
+        : actual === expected;
+    }
+
+    switch (expected.type) {
+      case 'isNull':
+        return actual === null || actual === undefined;
+      case 'in':
+        return (expected.value as unknown[]).includes(actual);
+      case 'not':
+        return !this.matchesValue(actual, expected.child ?? expected.value);
+      case 'lessThan':
+        return actual < expected.value;
+      case 'moreThan':
+        return actual > expected.value;
+      default:
+        throw new Error(`FakeRepository does not support ${expected.type}()`);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Stands in for a dependency with only the members a spec exercises. The
+ * members keep their real signatures, and touching any other member throws
+ * instead of quietly returning undefined.
+ */
+export function partialMock<T extends object>(members: Partial<T>): T {
+  return new Proxy(members, {
+    get(target, key, receiver) {
+      if (typeof key === 'symbol' || key === 'then' || key in target) {
+        return Reflect.get(target, key, receiver);
+      }
+      throw new Error(`Unexpected use of ${key} on a partial mock`);
+    },
+  }) as T;
+}
@@ -0,0 +1,32 @@
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import type { Jwk } from '../oidc/id-token';
+
+export interface SigningKey {
+  // The public half, as an IdP would publish it
+  jwk: Jwk;
+  // Signs the claims as a compact JWS; `header` adds to or replaces the defaults
+  sign(claims: object, header?: object): string;
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/** A fresh key pair standing in for an identity provider's signing key. */
+export function createSigningKey(alg: 'RS256' | 'ES256', kid: string): SigningKey {
+  const { publicKey, privateKey }: { publicKey: KeyObject; privateKey: KeyObject } = alg === 'RS256'
+    ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+    : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  return {
+    jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg, use: 'sig' },
+    sign(claims, header = {}) {
+      const signingInput = `${encode({ alg, kid, typ: 'JWT', ...header })}.${encode(claims)}`;
+      const signature = sign('sha256', Buffer.from(signingInput), {
+        key: privateKey,
+        dsaEncoding: alg === 'ES256' ? 'ieee-p1363' : undefined,
+      });
+      return `${signingInput}.${signature.toString('base64url')}`;
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import { User } from '../users/user.entity';
+import { Session } from '../sessions/session.entity';
+import { ApiToken } from '../api-tokens/api-token.entity';
+import { OrganizationMembership } from '../organizations/organization-membership.entity';
+import { OrganizationScope } from '../organizations/organizations.service';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+      session?: Session;
+      // Set instead of session when authenticated with an Authorization: Bearer token
+      apiToken?: ApiToken;
+      // Membership of the session's active organisation, if any
+      membership?: OrganizationMembership | null;
+      // Set by OrganizationScopeGuard
+      organizationScope?: OrganizationScope;
+    }
+  }
+}
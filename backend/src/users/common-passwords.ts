@@ -0,0 +1,61 @@
+// Frequently used passwords, lower-cased, drawn from public breach corpora.
+// Small enough to ship with the code; PASSWORD_BLOCKLIST_FILE adds a larger
+// list at startup.
+const COMMON_PASSWORDS = `
+123456 password 12345678 qwerty 123456789 12345 1234 111111 1234567 dragon
+123123 baseball abc123 football monkey letmein 696969 shadow master 666666
+qwertyuiop 123321 mustang 1234567890 michael 654321 superman 1qaz2wsx 7777777
+121212 000000 qazwsx 123qwe killer trustno1 jordan jennifer zxcvbnm asdfgh
+hunter buster soccer harley batman andrew tigger sunshine iloveyou 2000
+charlie robert thomas hockey ranger daniel starwars 112233 george computer
+michelle jessica pepper 1111 zxcvbn 555555 11111111 131313 freedom 777777 pass
+maggie 159753 aaaaaa ginger princess joshua cheese amanda summer love ashley
+nicole chelsea biteme matthew access yankees 987654321 dallas austin thunder
+taylor matrix montana moscow william corvette hello martin heather secret
+merlin diamond 1234qwer hammer silver 222222 88888888 anthony justin test
+bailey q1w2e3r4t5 patrick internet scooter orange 11111 golfer cookie richard
+samantha bigdog guitar jackson whatever mickey chicken sparky snoopy maverick
+phoenix camaro peanut morgan welcome falcon cowboy ferrari samsung andrea
+smokey steelers joseph mercedes dakota arsenal eagles melissa boomer booboo
+spider nascar monster tigers yellow xxxxxx 123123123 gateway marina diablo
+bulldog qwer1234 compaq purple banana junior hannah 123654 porsche lakers
+iceman money cowboys 987654 london tennis 999999 ncc1701 coffee scooby 0000
+miller boston q1w2e3r4 brandon yamaha chester mother forever johnny edward
+333333 oliver redsox player nikita knight fender barney midnight please brandy
+chicago badboy slayer rangers charles angel flower rabbit wizard jasper enter
+rachel chris steven winner adidas victoria natasha 1q2w3e4r jasmine winter
+prince marine fishing cocacola casper james 232323 raiders 888888 marlboro
+gandalf asdfasdf crystal 87654321 12344321 golden 8675309 2112 a1b2c3
+1qaz2wsx3edc password1 password12 password123 password1234 passw0rd p@ssw0rd
+p@ssword pa55word pa55w0rd passwort motdepasse contrasena senha parola
+wachtwoord salasana haslo admin admin123 administrator root toor changeme
+changeit default guest user login welcome1 welcome123 qwerty123 qwerty1 1q2w3e
+1q2w3e4r5t 1q2w3e4r5t6y zaq12wsx zaq1zaq1 !qaz2wsx abcd1234 abcdef abcdefg
+abcdefgh abc12345 aa123456 iloveyou1 iloveyou2 lovely loveme love123 sunshine1
+princess1 football1 baseball1 monkey1 dragon1 shadow1 master1 superman1
+batman1 michael1 charlie1 jordan23 letmein1 trustno1! welcome! qwertyui
+asdfghjkl asdfghjk zxcvbnm1 qazwsxedc 123abc 123456a 123456q a123456 a12345
+qwe123 qweasd qweasdzxc 1qazxsw2 111222 112233445566 121314 123654789 147258
+147258369 159357 159951 741852963 789456 789456123 963852741 102030 101010
+010203 123789 1212 6969 1313 2222 zxc123 asd123 qwe321 password! password1!
+password2 password3 password01 secret1 secret123 hello123 hello1 test123
+test1234 testing tester temp temp123 demo demo123 sample example qwerty12
+qwerty12345 football123 monkey123 starwars1 pokemon pokemon1 minecraft
+fortnite roblox naruto superstar computer1 internet1 samsung1 iphone apple
+apple123 google facebook linkedin twitter myspace myspace1 yahoo hotmail gmail
+outlook microsoft windows linux ubuntu oracle mysql postgres docker jenkins
+cisco letmein123 access14 whatever1 nothing unknown secure security private
+public system server network master123 azerty azerty123 000000000 00000000
+1111111 11111111111 1234512345 123451234 12341234 1231234 5201314 520520
+woaini 666888 168168 8888888 99999999 7654321 76543210 12345678910 0987654321
+09876543 ashley1 jessica1 jennifer1 michelle1 nicole1 amanda1 daniel1 andrew1
+joshua1 matthew1 anthony1 robert1 thomas1 william1 jordan1 hunter1 buster1
+soccer1 hockey1 ranger1 summer1 winter1 spring autumn flower1 butterfly
+rainbow cookie1 chocolate blink182 linkinpark metallica slipknot nirvana
+eminem 50cent tupac hottie babygirl babyboy baby angel1 angels lovers friends
+family mommy daddy mother1 father sister brother princesa tequiero teamo
+bonjour soleil loulou chouchou doudou marseille qwertz qwertz123 hallo
+hallo123 schatz fussball
+`;
+
+export const commonPasswords: ReadonlySet<string> = new Set(COMMON_PASSWORDS.split(/\s+/).filter(Boolean));
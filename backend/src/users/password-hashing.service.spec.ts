@@ -0,0 +1,102 @@
+import { beforeAll, describe, expect, it } from 'bun:test';
+import type { ConfigType } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import * as argon2 from 'argon2';
+import { PasswordHashingService } from './password-hashing.service';
+import authConfig, { PasswordHashAlgorithm } from '../auth/auth.config';
+
+const PASSWORD = 'correct horse 42';
+
+// Cheap parameters keep the spec fast; the comparisons are what matter here
+function createService(
+  passwordHashAlgorithm: PasswordHashAlgorithm,
+  overrides: Partial<ConfigType<typeof authConfig>> = {},
+): PasswordHashingService {
+  return new PasswordHashingService({
+    passwordHashAlgorithm,
+    bcryptCost: 5,
+    argon2MemoryKib: 1024,
+    argon2TimeCost: 2,
+    argon2Parallelism: 1,
+    ...overrides,
+  } as ConfigType<typeof authConfig>);
+}
+
+describe('PasswordHashingService', () => {
+  let bcryptHash: string;
+  let argon2Hash: string;
+
+  beforeAll(async () => {
+    bcryptHash = await createService('bcrypt').hash(PASSWORD);
+    argon2Hash = await createService('argon2id').hash(PASSWORD);
+  });
+
+  it('hashes with the configured algorithm', () => {
+    expect(bcryptHash.startsWith('$2b$05$')).toBe(true);
+    expect(argon2Hash).toMatch(/^\$argon2id\$v=19\$m=1024,p=1,t=2\$/);
+  });
+
+  it('verifies hashes of either algorithm whichever is configured', async () => {
+    const service = createService('argon2id');
+
+    expect(await service.verify(PASSWORD, bcryptHash)).toBe(true);
+    expect(await service.verify(PASSWORD, argon2Hash)).toBe(true);
+    expect(await service.verify('wrong password', bcryptHash)).toBe(false);
+    expect(await service.verify('wrong password', argon2Hash)).toBe(false);
+  });
+
+  it('refuses hashes in a format it does not know', async () => {
+    const service = createService('argon2id');
+
+    expect(await service.verify(PASSWORD, PASSWORD)).toBe(false);
+    expect(await service.verify(PASSWORD, '')).toBe(false);
+    expect(service.needsRehash('')).toBe(true);
+  });
+
+  it('takes as many bytes as the algorithm does', () => {
+    expect(createService('bcrypt').maxPasswordBytes).toBe(72);
+    expect(createService('argon2id').maxPasswordBytes).toBe(128);
+  });
+
+  describe('needsRehash', () => {
+    it('keeps hashes made with the current settings', () => {
+      expect(createService('bcrypt').needsRehash(bcryptHash)).toBe(false);
+      expect(createService('argon2id').needsRehash(argon2Hash)).toBe(false);
+    });
+
+    it('upgrades hashes of the other algorithm', () => {
+      expect(createService('argon2id').needsRehash(bcryptHash)).toBe(true);
+      expect(createService('bcrypt').needsRehash(argon2Hash)).toBe(true);
+    });
+
+    it('upgrades bcrypt hashes below the configured cost, in any of its spellings', () => {
+      const service = createService('bcrypt', { bcryptCost: 12 });
+
+      expect(service.needsRehash(bcryptHash)).toBe(true);
+      expect(service.needsRehash(bcryptHash.replace('$2b$', '$2y$'))).toBe(true);
+      expect(createService('bcrypt', { bcryptCost: 4 }).needsRehash(bcryptHash.replace('$2b$', '$2a$'))).toBe(false);
+    });
+
+    it('upgrades argon2 hashes with weaker parameters or another variant', async () => {
+      expect(createService('argon2id', { argon2MemoryKib: 2048 }).needsRehash(argon2Hash)).toBe(true);
+      expect(createService('argon2id', { argon2TimeCost: 3 }).needsRehash(argon2Hash)).toBe(true);
+      expect(createService('argon2id', { argon2Parallelism: 2 }).needsRehash(argon2Hash)).toBe(true);
+
+      const argon2i = await argon2.hash(PASSWORD, { type: argon2.argon2i, memoryCost: 1024, timeCost: 2 });
+      expect(createService('argon2id').needsRehash(argon2i)).toBe(true);
+    });
+
+    it('reads argon2 parameters in any order', () => {
+      const reordered = argon2Hash.replace('m=1024,p=1,t=2', 't=2,m=1024,p=1');
+
+      expect(reordered).not.toBe(argon2Hash);
+      expect(createService('argon2id').needsRehash(reordered)).toBe(false);
+    });
+  });
+
+  it('lets bcrypt hashes made elsewhere through', async () => {
+    const external = await bcrypt.hash(PASSWORD, 4);
+
+    expect(await createService('bcrypt').verify(PASSWORD, external)).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import * as argon2 from 'argon2';
+import authConfig from '../auth/auth.config';
+
+// $2b$12$<salt+hash>; $2a$ and $2y$ are older spellings of the same scheme
+const BCRYPT_HASH = /^\$2[aby]\$(\d{2})\$/;
+// $argon2id$v=19$m=19456,t=2,p=1$<salt>$<hash>, parameters in any order
+const ARGON2_HASH = /^\$(argon2(?:id|i|d))\$v=\d+\$([^$]+)\$/;
+
+// bcrypt ignores everything after 72 bytes, so longer passwords are refused
+const BCRYPT_MAX_BYTES = 72;
+const ARGON2_MAX_BYTES = 128;
+
+/**
+ * Hashes passwords with the configured algorithm and verifies hashes made
+ * by any supported one, telling them apart by their PHC-style prefix. Hashes
+ * made with another algorithm or weaker parameters report needsRehash so
+ * they can be upgraded once the plain password is at hand, on sign-in.
+ */
+@Injectable()
+export class PasswordHashingService {
+  constructor(
+    @Inject(authConfig.KEY)
+    private config: ConfigType<typeof authConfig>,
+  ) {}
+
+  /** Longest password, in bytes, the configured algorithm takes into account. */
+  get maxPasswordBytes(): number {
+    return this.config.passwordHashAlgorithm === 'bcrypt' ? BCRYPT_MAX_BYTES : ARGON2_MAX_BYTES;
+  }
+
+  async hash(password: string): Promise<string> {
+    if (this.config.passwordHashAlgorithm === 'bcrypt') {
+      return bcrypt.hash(password, this.config.bcryptCost);
+    }
+    return argon2.hash(password, {
+      type: argon2.argon2id,
+      memoryCost: this.config.argon2MemoryKib,
+      timeCost: this.config.argon2TimeCost,
+      parallelism: this.config.argon2Parallelism,
+    });
+  }
+
+  /** False for a wrong password and for hashes in a format we do not know. */
+  async verify(password: string, hash: string): Promise<boolean> {
+    if (BCRYPT_HASH.test(hash)) {
+      return bcrypt.compare(password, hash);
+    }
+    if (ARGON2_HASH.test(hash)) {
+      return argon2.verify(hash, password).catch(() => false);
+    }
+    return false;
+  }
+
+  needsRehash(hash: string): boolean {
+    const bcryptHash = BCRYPT_HASH.exec(hash);
+    if (bcryptHash) {
+      return this.config.passwordHashAlgorithm !== 'bcrypt' || parseInt(bcryptHash[1], 10) < this.config.bcryptCost;
+    }
+
+    const argon2Hash = ARGON2_HASH.exec(hash);
+    if (argon2Hash) {
+      if (this.config.passwordHashAlgorithm !== 'argon2id' || argon2Hash[1] !== 'argon2id') return true;
+
+      const params = Object.fromEntries(argon2Hash[2].split(',').map(param => param.split('=')));
+      return parseInt(params.m, 10) < this.config.argon2MemoryKib
+        || parseInt(params.t, 10) < this.config.argon2TimeCost
+        || parseInt(params.p, 10) < this.config.argon2Parallelism;
+    }
+
+    return true;
+  }
+}
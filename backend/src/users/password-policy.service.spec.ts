@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'bun:test';
+import { BadRequestException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PasswordPolicyService, PasswordViolationCode } from './password-policy.service';
+import { PasswordHashingService } from './password-hashing.service';
+import authConfig from '../auth/auth.config';
+
+const EMAIL = 'jane.doe@example.com';
+
+function createConfig(overrides: Partial<ConfigType<typeof authConfig>> = {}): ConfigType<typeof authConfig> {
+  return {
+    passwordMinLength: 10,
+    passwordMinCharacterClasses: 2,
+    passwordHistorySize: 3,
+    passwordBlocklistFile: null,
+    passwordHashAlgorithm: 'bcrypt',
+    bcryptCost: 4,
+    ...overrides,
+  } as ConfigType<typeof authConfig>;
+}
+
+function createService(overrides: Partial<ConfigType<typeof authConfig>> = {}): PasswordPolicyService {
+  const config = createConfig(overrides);
+  return new PasswordPolicyService(config, new PasswordHashingService(config));
+}
+
+async function codes(service: PasswordPolicyService, password: string, previousHashes?: string[]) {
+  return (await service.check(password, EMAIL, previousHashes)).map(violation => violation.code);
+}
+
+describe('PasswordPolicyService', () => {
+  it('accepts a long password mixing character classes', async () => {
+    expect(await codes(createService(), 'correct horse 42')).toEqual([]);
+  });
+
+  it('reports every rule a password breaks', async () => {
+    expect(await codes(createService(), 'short')).toEqual([
+      PasswordViolationCode.TOO_SHORT,
+      PasswordViolationCode.CHARACTER_CLASSES,
+    ]);
+  });
+
+  it('measures the maximum in bytes, as the hashing algorithm does', async () => {
+    expect(await codes(createService(), `${'é'.repeat(36)}1`)).toEqual([PasswordViolationCode.TOO_LONG]);
+    expect(await codes(createService({ passwordHashAlgorithm: 'argon2id' }), `${'é'.repeat(36)}1`)).toEqual([]);
+  });
+
+  it('refuses passwords containing the address or its local part', async () => {
+    const service = createService();
+
+    expect(await codes(service, 'my jane.doe password 1')).toEqual([PasswordViolationCode.CONTAINS_EMAIL]);
+    expect(await codes(service, 'JANE.DOE@EXAMPLE.COM!')).toEqual([PasswordViolationCode.CONTAINS_EMAIL]);
+  });
+
+  it('refuses common passwords, also when padded with digits and symbols', async () => {
+    const service = createService();
+
+    expect(await codes(service, 'qwertyuiop1')).toEqual([PasswordViolationCode.COMMON]);
+    expect(await codes(service, '!!Sunshine2024')).toEqual([PasswordViolationCode.COMMON]);
+  });
+
+  it('adds the passwords of the configured blocklist file', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'blocklist-')), 'passwords.txt');
+    writeFileSync(file, 'Company-Name-2026\r\n\r\n');
+
+    expect(await codes(createService({ passwordBlocklistFile: file }), 'company-name-2026')).toEqual([
+      PasswordViolationCode.COMMON,
+    ]);
+  });
+
+  it('refuses the recent passwords but not older ones', async () => {
+    const hashing = new PasswordHashingService(createConfig());
+    const history = await Promise.all(
+      ['first passphrase 1', 'second passphrase 2', 'third passphrase 3', 'fourth passphrase 4']
+        .map(password => hashing.hash(password)),
+    );
+    const service = createService();
+
+    expect(await codes(service, 'second passphrase 2', history)).toEqual([PasswordViolationCode.REUSED]);
+    expect(await codes(service, 'fourth passphrase 4', history)).toEqual([]);
+  });
+
+  it('throws the violations as a coded 400', async () => {
+    const error = await createService().assertAcceptable('short', EMAIL).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(BadRequestException);
+    expect((error as BadRequestException).getResponse()).toMatchObject({
+      code: 'PASSWORD_POLICY',
+      violations: [{ code: PasswordViolationCode.TOO_SHORT }, { code: PasswordViolationCode.CHARACTER_CLASSES }],
+    });
+  });
+});
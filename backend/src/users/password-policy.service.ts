@@ -0,0 +1,139 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import authConfig from '../auth/auth.config';
+import { commonPasswords } from './common-passwords';
+import { PasswordHashingService } from './password-hashing.service';
+
+export enum PasswordViolationCode {
+  TOO_SHORT = 'PASSWORD_TOO_SHORT',
+  TOO_LONG = 'PASSWORD_TOO_LONG',
+  CHARACTER_CLASSES = 'PASSWORD_CHARACTER_CLASSES',
+  CONTAINS_EMAIL = 'PASSWORD_CONTAINS_EMAIL',
+  COMMON = 'PASSWORD_COMMON',
+  REUSED = 'PASSWORD_REUSED',
+}
+
+export interface PasswordViolation {
+  code: PasswordViolationCode;
+  message: string;
+}
+
+export interface PasswordPolicySummary {
+  minLength: number;
+  maxLength: number;
+  minCharacterClasses: number;
+  historySize: number;
+}
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/];
+// Local parts shorter than this are too likely to occur by chance
+const MIN_EMAIL_PART_LENGTH = 3;
+
+/**
+ * Decides whether a password may be set. Every place that sets a password
+ * goes through UsersService, which asks this service first; the result is a
+ * list of coded violations so clients can explain each one.
+ */
+@Injectable()
+export class PasswordPolicyService {
+  private blocklist: ReadonlySet<string>;
+
+  constructor(
+    @Inject(authConfig.KEY)
+    private config: ConfigType<typeof authConfig>,
+    private passwordHashingService: PasswordHashingService,
+  ) {
+    this.blocklist = config.passwordBlocklistFile
+      ? new Set([...commonPasswords, ...this.readBlocklist(config.passwordBlocklistFile)])
+      : commonPasswords;
+  }
+
+  describe(): PasswordPolicySummary {
+    return {
+      minLength: this.config.passwordMinLength,
+      maxLength: this.passwordHashingService.maxPasswordBytes,
+      minCharacterClasses: this.config.passwordMinCharacterClasses,
+      historySize: this.config.passwordHistorySize,
+    };
+  }
+
+  /**
+   * Lists every rule the password breaks, empty if it is acceptable.
+   * `previousHashes` are the account's current and earlier password hashes,
+   * newest first.
+   */
+  async check(password: string, email: string, previousHashes: string[] = []): Promise<PasswordViolation[]> {
+    const violations: PasswordViolation[] = [];
+    const lower = password.toLowerCase();
+
+    if (password.length < this.config.passwordMinLength) {
+      violations.push({
+        code: PasswordViolationCode.TOO_SHORT,
+        message: `Password must be at least ${this.config.passwordMinLength} characters long`,
+      });
+    }
+    if (Buffer.byteLength(password) > this.passwordHashingService.maxPasswordBytes) {
+      violations.push({
+        code: PasswordViolationCode.TOO_LONG,
+        message: `Password must be at most ${this.passwordHashingService.maxPasswordBytes} bytes long`,
+      });
+    }
+
+    const classes = CHARACTER_CLASSES.filter(pattern => pattern.test(password)).length;
+    if (classes < this.config.passwordMinCharacterClasses) {
+      violations.push({
+        code: PasswordViolationCode.CHARACTER_CLASSES,
+        message: `Password must mix at least ${this.config.passwordMinCharacterClasses} of lower-case letters, upper-case letters, digits and symbols`,
+      });
+    }
+
+    const localPart = email.toLowerCase().split('@')[0];
+    if (lower.includes(email.toLowerCase()) || (localPart.length >= MIN_EMAIL_PART_LENGTH && lower.includes(localPart))) {
+      violations.push({
+        code: PasswordViolationCode.CONTAINS_EMAIL,
+        message: 'Password must not contain your email address',
+      });
+    }
+
+    // "Password123!" is as guessable as "password"
+    const core = lower.replace(/^[^a-z]+|[^a-z]+$/g, '');
+    if (this.blocklist.has(lower) || this.blocklist.has(core)) {
+      violations.push({
+        code: PasswordViolationCode.COMMON,
+        message: 'Password is too common and appears in lists of breached passwords',
+      });
+    }
+
+    for (const hash of previousHashes.slice(0, this.config.passwordHistorySize)) {
+      if (await this.passwordHashingService.verify(password, hash)) {
+        violations.push({
+          code: PasswordViolationCode.REUSED,
+          message: `Password must differ from your last ${this.config.passwordHistorySize} passwords`,
+        });
+        break;
+      }
+    }
+
+    return violations;
+  }
+
+  /** Throws 400 PASSWORD_POLICY with the violations if the password is not acceptable. */
+  async assertAcceptable(password: string, email: string, previousHashes: string[] = []): Promise<void> {
+    const violations = await this.check(password, email, previousHashes);
+    if (violations.length > 0) {
+      throw new BadRequestException({
+        message: violations.map(violation => violation.message).join('. '),
+        code: 'PASSWORD_POLICY',
+        violations,
+      });
+    }
+  }
+
+  private readBlocklist(path: string): string[] {
+    return readFileSync(path, 'utf8')
+      .split(/\r?\n/)
+      .map(line => line.trim().toLowerCase())
+      .filter(Boolean);
+  }
+}
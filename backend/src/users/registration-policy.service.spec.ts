@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'bun:test';
+import { ForbiddenException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { RegistrationPolicyService } from './registration-policy.service';
+import authConfig, { RegistrationMode } from '../auth/auth.config';
+
+function createService(mode: RegistrationMode, allowedDomains: string[] = []): RegistrationPolicyService {
+  return new RegistrationPolicyService({ registration: { mode, allowedDomains } } as ConfigType<typeof authConfig>);
+}
+
+describe('RegistrationPolicyService', () => {
+  it('lets anyone register in open mode', () => {
+    const service = createService('open');
+
+    expect(() => service.assertSelfRegistrationAllowed('anyone@example.com')).not.toThrow();
+    expect(() => service.assertInvitationsAllowed()).not.toThrow();
+  });
+
+  it('only lets invited people in when invite-only', () => {
+    const service = createService('invite-only');
+
+    expect(() => service.assertSelfRegistrationAllowed('anyone@example.com')).toThrow(ForbiddenException);
+    expect(() => service.assertInvitationsAllowed()).not.toThrow();
+  });
+
+  it('lets nobody in when closed', () => {
+    const service = createService('closed');
+
+    expect(() => service.assertSelfRegistrationAllowed('anyone@example.com')).toThrow(ForbiddenException);
+    expect(() => service.assertInvitationsAllowed()).toThrow(ForbiddenException);
+  });
+
+  it('matches the whole domain of the address in domain-allowlist mode', () => {
+    const service = createService('domain-allowlist', ['example.com']);
+
+    expect(() => service.assertSelfRegistrationAllowed('someone@EXAMPLE.com')).not.toThrow();
+    expect(() => service.assertSelfRegistrationAllowed('someone@mail.example.com')).toThrow(ForbiddenException);
+    expect(() => service.assertSelfRegistrationAllowed('someone@example.com.evil.test')).toThrow(ForbiddenException);
+    expect(() => service.assertSelfRegistrationAllowed('example.com@evil.test')).toThrow(ForbiddenException);
+    expect(() => service.assertInvitationsAllowed()).not.toThrow();
+  });
+
+  it('only publishes the allowed domains in domain-allowlist mode', () => {
+    expect(createService('domain-allowlist', ['example.com']).describe()).toEqual({
+      mode: 'domain-allowlist',
+      allowedDomains: ['example.com'],
+    });
+    expect(createService('open', ['example.com']).describe()).toEqual({ mode: 'open', allowedDomains: [] });
+  });
+});
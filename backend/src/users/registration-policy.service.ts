@@ -0,0 +1,58 @@
+import { ForbiddenException, Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import authConfig, { RegistrationMode } from '../auth/auth.config';
+
+export interface RegistrationPolicySummary {
+  mode: RegistrationMode;
+  // Only listed in domain-allowlist mode
+  allowedDomains: string[];
+}
+
+/**
+ * Decides who may get an account without an admin creating it. Sign-up and
+ * single sign-on provisioning are self-registration; invitations are vetted
+ * by an admin and only need the mode to allow them at all.
+ */
+@Injectable()
+export class RegistrationPolicyService {
+  constructor(
+    @Inject(authConfig.KEY)
+    private config: ConfigType<typeof authConfig>,
+  ) {}
+
+  describe(): RegistrationPolicySummary {
+    const { mode, allowedDomains } = this.config.registration;
+    return { mode, allowedDomains: mode === 'domain-allowlist' ? allowedDomains : [] };
+  }
+
+  /** Throws 403 unless someone may create an account for this address on their own. */
+  assertSelfRegistrationAllowed(email: string): void {
+    const { mode, allowedDomains } = this.config.registration;
+    if (mode === 'invite-only') {
+      throw new ForbiddenException({ message: 'Registration is by invitation only', code: 'REGISTRATION_CLOSED' });
+    }
+    if (mode === 'closed') {
+      throw new ForbiddenException({ message: 'Registration is closed', code: 'REGISTRATION_CLOSED' });
+    }
+    if (mode === 'domain-allowlist' && !allowedDomains.includes(this.domainOf(email))) {
+      throw new ForbiddenException({
+        message: 'Registration is limited to addresses of approved domains',
+        code: 'REGISTRATION_DOMAIN_NOT_ALLOWED',
+      });
+    }
+  }
+
+  /** Throws 403 if invitations cannot be sent or accepted. */
+  assertInvitationsAllowed(): void {
+    if (this.config.registration.mode === 'closed') {
+      throw new ForbiddenException({
+        message: 'Registration is closed, so invitations are turned off',
+        code: 'REGISTRATION_CLOSED',
+      });
+    }
+  }
+
+  private domainOf(email: string): string {
+    return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+  }
+}
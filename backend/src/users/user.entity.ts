@@ -1,8 +1,20 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToMany, JoinTable } from 'typeorm';
+import { Role } from '../rbac/role.entity';
 
+// Names of the built-in roles; further roles can be created at runtime
 export enum UserRole {
   USER = 'user',
-  ADMIN = 'admin'
+  ADMIN = 'admin',
+  // Platform operator; the only role that sees across organisations
+  SUPER_ADMIN = 'super_admin'
+}
+
+export enum UserStatus {
+  ACTIVE = 'active',
+  // Suspended by an admin, indefinitely or until disabledUntil
+  DISABLED = 'disabled',
+  // Soft-deleted: sign-in is refused but the row is kept so it can be restored
+  DELETED = 'deleted'
 }
 
 @Entity('users')
@@ -16,9 +28,55 @@ export class User {
   @Column()
   password: string;
 
-  @Column({ type: 'enum', enum: UserRole, default: UserRole.USER })
-  role: UserRole;
+  // Hashes of earlier passwords, newest first, so they cannot be reused
+  @Column({ type: 'simple-json', nullable: true })
+  previousPasswords: string[] | null;
+
+  @ManyToMany(() => Role, { eager: true })
+  @JoinTable({
+    name: 'user_roles',
+    joinColumn: { name: 'userId', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'roleName', referencedColumnName: 'name' },
+  })
+  roles: Role[];
+
+  @Column({ type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date | null;
+
+  // Base32 TOTP secret; set during enrollment, active once twoFactorEnabledAt is set
+  @Column({ type: 'varchar', nullable: true })
+  twoFactorSecret: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  twoFactorEnabledAt: Date | null;
+
+  // Last accepted TOTP time step, so a code cannot be replayed within its window
+  @Column({ type: 'bigint', nullable: true })
+  twoFactorLastStep: string | null;
+
+  // SHA-256 hashes of the unused one-time recovery codes
+  @Column({ type: 'simple-json', nullable: true })
+  twoFactorRecoveryCodes: string[] | null;
+
+  // Set after too many failed logins; sign-in is refused until this time
+  @Column({ type: 'timestamp', nullable: true })
+  lockedUntil: Date | null;
+
+  @Column({ type: 'enum', enum: UserStatus, default: UserStatus.ACTIVE })
+  status: UserStatus;
+
+  // Admin-supplied reason for the current suspension or deletion
+  @Column({ type: 'varchar', nullable: true })
+  statusReason: string | null;
+
+  // End of a temporary suspension; null while disabled means until re-enabled
+  @Column({ type: 'timestamp', nullable: true })
+  disabledUntil: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
 
-  @CreateDateColumn()
+  // Millisecond precision, like a JavaScript Date, so keyset cursors round-trip exactly
+  @CreateDateColumn({ precision: 3 })
   createdAt: Date;
 }
\ No newline at end of file
@@ -0,0 +1,207 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Param,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiCookieAuth, ApiParam, ApiBody } from '@nestjs/swagger';
+import type { Request, Response } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { CsrfGuard } from '../auth/csrf.guard';
+import { NoImpersonationGuard } from '../auth/impersonation.guard';
+import { assertApiTokenScopes, PermissionsGuard } from '../auth/permissions.guard';
+import { OrganizationScopeGuard } from '../auth/organization-scope.guard';
+import { AuthService } from '../auth/auth.service';
+import { EmailVerificationService } from '../auth/email-verification.service';
+import { ImpersonationService } from '../auth/impersonation.service';
+import { getClientInfo } from '../auth/client-info';
+import { SessionCookieService } from '../sessions/session-cookie.service';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { RequirePermissions } from '../rbac/require-permissions.decorator';
+import { RbacService } from '../rbac/rbac.service';
+import { AllowApiTokens } from '../api-tokens/allow-api-tokens.decorator';
+import { PermissionKey } from '../rbac/permission-key';
+import { getAuditActor } from '../audit/audit-actor';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { User, UserRole } from './user.entity';
+import { CreateUserDto, DeleteUserDto, DisableUserDto } from './users.dto';
+
+@ApiTags('Admin')
+@Controller('admin/users')
+@UseGuards(AuthGuard, CsrfGuard, NoImpersonationGuard, RateLimitGuard, PermissionsGuard, OrganizationScopeGuard)
+@ApiCookieAuth('sessionId')
+export class UsersController {
+  constructor(
+    private authService: AuthService,
+    private impersonationService: ImpersonationService,
+    private organizationsService: OrganizationsService,
+    private sessionCookieService: SessionCookieService,
+    private emailVerificationService: EmailVerificationService,
+    private rbacService: RbacService,
+  ) {}
+
+  @Post()
+  @RequirePermissions(PermissionKey.USERS_WRITE)
+  @RateLimit({ limit: 30, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Create a user; organization admins add them to their active organization' })
+  @ApiBody({ type: CreateUserDto })
+  @ApiResponse({ status: 201, description: 'User created with a verified email address' })
+  @ApiResponse({ status: 400, description: 'Unknown or non-assignable role, or PASSWORD_POLICY with violations' })
+  @ApiResponse({
+    status: 403,
+    description: 'Insufficient permissions, ROLE_WRITE_REQUIRED for a role other than user, PERMISSION_NOT_HELD for a role '
+      + 'granting more than you hold, or viewing as another user',
+  })
+  @ApiResponse({ status: 409, description: 'Email already exists' })
+  async create(@Body() dto: CreateUserDto, @Req() request: Request) {
+    const { organizationId } = request.organizationScope;
+    const role = dto.role ?? UserRole.USER;
+    const actor = getAuditActor(request);
+    const grantorRoles = this.emailVerificationService.effectiveRoles(request.user, request.membership);
+    if (role !== UserRole.USER) {
+      assertApiTokenScopes(request, [PermissionKey.USERS_ROLE_WRITE]);
+    }
+    await this.rbacService.assertMayAssign([role], grantorRoles);
+
+    if (!organizationId) {
+      return this.authService.createUser(dto.email, dto.password, [role], actor);
+    }
+
+    // Check the role up front so a rejected role does not leave an orphaned account
+    await this.organizationsService.assertAssignable(role, grantorRoles);
+    const user = await this.authService.createUser(dto.email, dto.password, [UserRole.USER], actor);
+    return this.organizationsService.addUser(organizationId, user, role, grantorRoles, actor);
+  }
+
+  @Post(':id/disable')
+  @RequirePermissions(PermissionKey.USERS_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Disable an account, optionally until a given time, and sign it out everywhere' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiBody({ type: DisableUserDto })
+  @ApiResponse({ status: 201, description: 'User disabled' })
+  @ApiResponse({ status: 400, description: 'Own account, or suspension end in the past' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 409, description: 'User is deleted, or nobody would be left able to manage roles or holding an admin role' })
+  async disable(@Param('id') id: string, @Body() dto: DisableUserDto, @Req() request: Request) {
+    await this.findManageableUser(id, request);
+
+    const until = dto.until ? new Date(dto.until) : null;
+    if (until && until <= new Date()) {
+      throw new BadRequestException('Suspension end must be in the future');
+    }
+    return this.authService.disableUser(id, dto.reason ?? null, until, getAuditActor(request));
+  }
+
+  @Post(':id/enable')
+  @RequirePermissions(PermissionKey.USERS_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Re-enable a disabled account' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 201, description: 'User enabled' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 409, description: 'User is not disabled' })
+  async enable(@Param('id') id: string, @Req() request: Request) {
+    await this.findManageableUser(id, request);
+    return this.authService.enableUser(id, getAuditActor(request));
+  }
+
+  @Delete(':id')
+  @RequirePermissions(PermissionKey.USERS_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Soft-delete an account and sign it out everywhere' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiBody({ type: DeleteUserDto, required: false })
+  @ApiResponse({ status: 200, description: 'User deleted; it can be restored later' })
+  @ApiResponse({ status: 400, description: 'Own account' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 409, description: 'Already deleted, or nobody would be left able to manage roles or holding an admin role' })
+  async delete(@Param('id') id: string, @Body() dto: DeleteUserDto, @Req() request: Request) {
+    await this.findManageableUser(id, request);
+    return this.authService.deleteUser(id, dto?.reason ?? null, getAuditActor(request));
+  }
+
+  @Post(':id/restore')
+  @RequirePermissions(PermissionKey.USERS_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Restore a soft-deleted account' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 201, description: 'User restored' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 409, description: 'User is not deleted' })
+  async restore(@Param('id') id: string, @Req() request: Request) {
+    await this.findManageableUser(id, request);
+    return this.authService.restoreUser(id, getAuditActor(request));
+  }
+
+  @Delete(':id/sessions')
+  @RequirePermissions(PermissionKey.USERS_SECURITY_WRITE)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'Force logout: revoke every session of a user' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Sessions revoked' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions, or viewing as another user' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async forceLogout(
+    @Param('id') id: string,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    await this.organizationsService.findManageableUser(request.organizationScope, id);
+    const revoked = await this.authService.forceLogout(id, getAuditActor(request));
+
+    if (id === request.user.id) {
+      this.sessionCookieService.clear(response);
+    }
+    return { message: 'Sessions revoked', revoked };
+  }
+
+  @Post(':id/impersonate')
+  @RequirePermissions(PermissionKey.USERS_IMPERSONATE)
+  // Swaps the session cookie, so it needs a session to start from
+  @AllowApiTokens(false)
+  @RateLimit({ limit: 30, windowMs: 60 * 1000, key: 'user' })
+  @ApiOperation({ summary: 'View as a user: switch to a session acting as them until POST /auth/impersonation/end' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 201, description: 'Session cookie now belongs to an impersonation session' })
+  @ApiResponse({ status: 400, description: 'Own account' })
+  @ApiResponse({ status: 403, description: 'IMPERSONATION_FORBIDDEN: the user holds permissions you lack, or you are already viewing as someone' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 409, description: 'User is disabled or deleted' })
+  async impersonate(
+    @Param('id') id: string,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const { user, session } = await this.impersonationService.start(
+      request.user,
+      request.session,
+      request.membership,
+      request.organizationScope,
+      id,
+      getClientInfo(request),
+    );
+
+    this.sessionCookieService.write(response, session);
+    return { message: `Now viewing as ${user.email}`, user: { id: user.id, email: user.email } };
+  }
+
+  /** Status changes are also refused on the caller's own account. */
+  private async findManageableUser(id: string, request: Request): Promise<User> {
+    const user = await this.organizationsService.findManageableUser(request.organizationScope, id);
+    if (user.id === request.user.id) {
+      throw new BadRequestException('You cannot change the status of your own account');
+    }
+    return user;
+  }
+}
@@ -0,0 +1,97 @@
+import { IsDateString, IsEmail, IsIn, IsISO8601, IsNotEmpty, IsNumberString, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserStatus } from './user.entity';
+import { USER_SORT_FIELDS, type UserSortField } from './users.service';
+
+export class CreateUserDto {
+  @ApiProperty({ example: 'jane@acme.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ example: 'correct-horse-battery', description: 'Initial password; must satisfy the password policy' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+
+  @ApiPropertyOptional({
+    example: 'user',
+    description: 'Global role when created by a super admin, otherwise the role within the active organisation. Defaults to user',
+  })
+  @IsOptional()
+  @IsString()
+  role?: string;
+}
+
+export class DisableUserDto {
+  @ApiPropertyOptional({ example: 'Repeated abuse reports', description: 'Shown to admins, not to the user' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+
+  @ApiPropertyOptional({ example: '2030-01-31T00:00:00.000Z', description: 'Suspension end; omit to disable until re-enabled' })
+  @IsOptional()
+  @IsDateString()
+  until?: string;
+}
+
+export class DeleteUserDto {
+  @ApiPropertyOptional({ example: 'Requested by the account owner' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class UserQueryDto {
+  @ApiPropertyOptional({ example: 'acme.com', description: 'Case-insensitive substring of the email address' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(254)
+  q?: string;
+
+  @ApiPropertyOptional({ example: 'admin', description: 'Only users holding this role, globally or in the active organization' })
+  @IsOptional()
+  @IsString()
+  role?: string;
+
+  @ApiPropertyOptional({ enum: UserStatus })
+  @IsOptional()
+  @IsIn(Object.values(UserStatus))
+  status?: UserStatus;
+
+  @ApiPropertyOptional({ example: '2024-01-01T00:00:00Z', description: 'Earliest creation time (inclusive)' })
+  @IsOptional()
+  @IsISO8601()
+  createdFrom?: string;
+
+  @ApiPropertyOptional({ example: '2024-12-31T23:59:59Z', description: 'Latest creation time (inclusive)' })
+  @IsOptional()
+  @IsISO8601()
+  createdTo?: string;
+
+  @ApiPropertyOptional({ enum: USER_SORT_FIELDS, description: 'Defaults to createdAt' })
+  @IsOptional()
+  @IsIn(USER_SORT_FIELDS)
+  sort?: UserSortField;
+
+  @ApiPropertyOptional({ enum: ['asc', 'desc'], description: 'Defaults to desc' })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @ApiPropertyOptional({ description: 'Opaque cursor from the previous page\'s nextCursor' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({ example: '100', description: 'Rows to skip; alternative to cursor' })
+  @IsOptional()
+  @IsNumberString()
+  offset?: string;
+
+  @ApiPropertyOptional({ example: '50', description: 'Page size (max 200)' })
+  @IsOptional()
+  @IsNumberString()
+  limit?: string;
+}
@@ -2,10 +2,15 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from './user.entity';
 import { UsersService } from './users.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHashingService } from './password-hashing.service';
+import { RegistrationPolicyService } from './registration-policy.service';
+import { AuditModule } from '../audit/audit.module';
+import { RbacModule } from '../rbac/rbac.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User])],
-  providers: [UsersService],
-  exports: [UsersService]
+  imports: [TypeOrmModule.forFeature([User]), AuditModule, RbacModule],
+  providers: [UsersService, PasswordPolicyService, PasswordHashingService, RegistrationPolicyService],
+  exports: [UsersService, PasswordPolicyService, RegistrationPolicyService]
 })
 export class UsersModule {}
\ No newline at end of file
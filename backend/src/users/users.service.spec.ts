@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { BadRequestException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { UsersService } from './users.service';
+import { User, UserRole, UserStatus } from './user.entity';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHashingService } from './password-hashing.service';
+import authConfig from '../auth/auth.config';
+import { AuditService } from '../audit/audit.service';
+import { RbacService } from '../rbac/rbac.service';
+import { Role } from '../rbac/role.entity';
+import { FakeRepository } from '../testing/fake-repository';
+import { fakeEntityManager } from '../testing/fake-entity-manager';
+import { partialMock } from '../testing/partial-mock';
+
+describe('UsersService', () => {
+  let service: UsersService;
+  let users: FakeRepository<User>;
+  let hashing: PasswordHashingService;
+  let conditions: { condition: string; parameters?: ObjectLiteral }[];
+  // Roles each last-holder check was asked about
+  let removedRoles: string[][];
+
+  beforeEach(() => {
+    conditions = [];
+    removedRoles = [];
+    users = new FakeRepository(User).seed(
+      ...['user-1', 'user-2', 'user-3'].map((id, i) => ({
+        id,
+        email: `${id}@example.com`,
+        roles: [],
+        createdAt: new Date(Date.UTC(2026, 0, 3 - i)),
+      })),
+    );
+
+    // Records the conditions it is given and pages through the stored users as they are
+    const createQueryBuilder = () => {
+      let skip = 0;
+      let take = Infinity;
+      const query = partialMock<SelectQueryBuilder<User>>({
+        select: () => query,
+        orderBy: () => query,
+        addOrderBy: () => query,
+        andWhere: (condition: string, parameters?: ObjectLiteral) => {
+          conditions.push({ condition, parameters });
+          return query;
+        },
+        skip: (count: number) => {
+          skip = count;
+          return query;
+        },
+        take: (count: number) => {
+          take = count;
+          return query;
+        },
+        getCount: async () => users.rows.length,
+        getMany: async () => users.rows.slice(skip, skip + take),
+      });
+      return query;
+    };
+
+    const config = {
+      passwordMinLength: 10,
+      passwordMinCharacterClasses: 2,
+      passwordHistorySize: 2,
+      passwordBlocklistFile: null,
+      passwordHashAlgorithm: 'bcrypt',
+      bcryptCost: 5,
+    } as ConfigType<typeof authConfig>;
+    hashing = new PasswordHashingService(config);
+    service = new UsersService(
+      users.asRepository({ createQueryBuilder, manager: fakeEntityManager([users]) }),
+      partialMock<AuditService>({ record: async () => {} }),
+      partialMock<RbacService>({
+        findRoles: async (names: string[]) => names.map(name => ({ name }) as Role),
+        canManageRoles: async () => false,
+        assertManagedRolesRemain: async (_manager, removed: string[]) => { removedRoles.push(removed); },
+      }),
+      new PasswordPolicyService(config, hashing),
+      hashing,
+    );
+  });
+
+  describe('createWithoutPassword', () => {
+    it('creates an account no password signs in to, until its owner sets one', async () => {
+      const user = await service.createWithoutPassword('sso@example.com', undefined, { roles: ['user'], emailVerified: true });
+
+      expect(user.emailVerifiedAt).toBeInstanceOf(Date);
+      expect(await service.validatePassword('', user.password)).toBe(false);
+      expect(await service.validatePassword(user.password, user.password)).toBe(false);
+
+      await service.updatePassword(user.id, 'chosen passphrase 1');
+      const updated = users.rows.find(row => row.id === user.id);
+      expect(await service.validatePassword('chosen passphrase 1', updated.password)).toBe(true);
+    });
+  });
+
+  describe('last role holders', () => {
+    beforeEach(() => {
+      Object.assign(users.rows[0], { status: UserStatus.ACTIVE, roles: [{ name: UserRole.ADMIN }, { name: UserRole.USER }] });
+    });
+
+    it('checks the roles a role change takes away', async () => {
+      await service.setRoles('user-1', [UserRole.USER]);
+
+      expect(removedRoles).toEqual([[UserRole.ADMIN]]);
+    });
+
+    it('checks every role of an account that is disabled or deleted', async () => {
+      await service.disable('user-1', null, null);
+
+      expect(removedRoles).toEqual([[UserRole.ADMIN, UserRole.USER]]);
+    });
+  });
+
+  describe('updatePassword', () => {
+    it('remembers the replaced password and refuses it later', async () => {
+      users.rows[0].password = await hashing.hash('first passphrase 1');
+
+      await service.updatePassword('user-1', 'second passphrase 2');
+
+      expect(await service.validatePassword('second passphrase 2', users.rows[0].password)).toBe(true);
+      expect(users.rows[0].previousPasswords).toHaveLength(1);
+      await expect(service.updatePassword('user-1', 'first passphrase 1')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('upgradePasswordHash', () => {
+    it('re-hashes a verified password stored with weaker settings', async () => {
+      const weak = await new PasswordHashingService({ passwordHashAlgorithm: 'bcrypt', bcryptCost: 4 } as ConfigType<typeof authConfig>)
+        .hash('first passphrase 1');
+      users.rows[0].password = weak;
+
+      await service.upgradePasswordHash(users.rows[0], 'first passphrase 1');
+
+      expect(users.rows[0].password).not.toBe(weak);
+      expect(hashing.needsRehash(users.rows[0].password)).toBe(false);
+      expect(await service.validatePassword('first passphrase 1', users.rows[0].password)).toBe(true);
+    });
+
+    it('leaves a password changed in the meantime alone', async () => {
+      const stale = Object.assign(new User(), { id: 'user-1', password: '$2b$04$stale' });
+      users.rows[0].password = await hashing.hash('second passphrase 2');
+      const current = users.rows[0].password;
+
+      await service.upgradePasswordHash(stale, 'first passphrase 1');
+
+      expect(users.rows[0].password).toBe(current);
+    });
+  });
+
+  describe('search', () => {
+    it('returns a page with the total and a cursor to the next one', async () => {
+      const page = await service.search({}, { limit: 2 });
+
+      expect(page.items.map(user => user.id)).toEqual(['user-1', 'user-2']);
+      expect(page.total).toBe(3);
+      expect(page.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('continues after the last user of the previous page', async () => {
+      const { nextCursor } = await service.search({}, { limit: 2 });
+      conditions = [];
+
+      await service.search({}, { limit: 2, cursor: nextCursor });
+
+      expect(conditions).toEqual([
+        {
+          condition: expect.stringContaining('user.createdAt <'),
+          parameters: { cursorValue: new Date(Date.UTC(2026, 0, 2)), cursorId: 'user-2' },
+        },
+      ]);
+    });
+
+    it('has no next cursor on the last page', async () => {
+      expect((await service.search({}, { limit: 3 })).nextCursor).toBeNull();
+    });
+
+    it('only accepts a cursor for the sort it was issued for', async () => {
+      const { nextCursor } = await service.search({}, { limit: 2 });
+
+      await expect(service.search({}, { cursor: nextCursor, sort: 'email' })).rejects.toThrow('Invalid cursor');
+      await expect(service.search({}, { cursor: nextCursor, order: 'asc' })).rejects.toThrow('Invalid cursor');
+      await expect(service.search({}, { cursor: 'not-a-cursor' })).rejects.toThrow(BadRequestException);
+    });
+
+    it('refuses a cursor and an offset together', async () => {
+      const { nextCursor } = await service.search({}, { limit: 2 });
+
+      await expect(service.search({}, { cursor: nextCursor, offset: 2 })).rejects.toThrow(BadRequestException);
+    });
+
+    it('matches the search text literally', async () => {
+      await service.search({ q: '50%_off\\' });
+
+      expect(conditions).toEqual([{ condition: 'user.email ILIKE :q', parameters: { q: '%50\\%\\_off\\\\%' } }]);
+    });
+
+    it('also matches membership roles when listing one organisation', async () => {
+      await service.search({ role: 'admin' });
+      await service.search({ role: 'admin', organizationId: 'org-1' });
+
+      expect(conditions[0].condition).not.toContain('organization_memberships');
+      expect(conditions[2].condition).toContain('m."roleName" = :role');
+    });
+  });
+});
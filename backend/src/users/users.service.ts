@@ -1,27 +1,141 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, ConflictException, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { User, UserRole } from './user.entity';
-import * as bcrypt from 'bcrypt';
+import { EntityManager, In, Repository, SelectQueryBuilder } from 'typeorm';
+import { User, UserRole, UserStatus } from './user.entity';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit-action';
+import { AuditActor } from '../audit/audit-actor';
+import { Role } from '../rbac/role.entity';
+import { RbacService } from '../rbac/rbac.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHashingService } from './password-hashing.service';
+
+// Columns that are safe to expose through admin listings; never secrets or hashes.
+// Roles are an eager relation and come along regardless.
+const PUBLIC_FIELDS: (keyof User)[] = [
+  'id', 'email', 'emailVerifiedAt', 'twoFactorEnabledAt', 'lockedUntil',
+  'status', 'statusReason', 'disabledUntil', 'deletedAt', 'createdAt',
+];
+
+export interface CreateUserOptions {
+  // Global roles to grant instead of the defaults
+  roles?: string[];
+  // For accounts created by an admin, who vouches for the address
+  emailVerified?: boolean;
+  // Saves the account in the caller's transaction
+  manager?: EntityManager;
+}
+
+type StatusChange = Pick<User, 'status' | 'statusReason' | 'disabledUntil' | 'deletedAt'>;
+
+// Stored in place of a hash for accounts that sign in only through single
+// sign-on; it matches no hash format, so no password verifies against it
+const UNUSABLE_PASSWORD = '!';
+
+// Advisory lock key serialising attempts to create the first super admin
+const SUPER_ADMIN_BOOTSTRAP_LOCK = 'users.super-admin-bootstrap';
+
+// Concurrent changes to the recovery codes are retried this often before giving up
+const RECOVERY_CODE_CLAIM_ATTEMPTS = 3;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export const USER_SORT_FIELDS = ['createdAt', 'email'] as const;
+export type UserSortField = typeof USER_SORT_FIELDS[number];
+
+export interface UserFilters {
+  // Substring of the email address, case-insensitive
+  q?: string;
+  role?: string;
+  status?: UserStatus;
+  createdFrom?: string;
+  createdTo?: string;
+  // Only members of this organisation; their membership role also matches `role`
+  organizationId?: string | null;
+}
+
+export interface UserPageOptions {
+  sort?: UserSortField;
+  order?: 'asc' | 'desc';
+  cursor?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface UserPage {
+  items: User[];
+  // Matching users across all pages
+  total: number;
+  nextCursor: string | null;
+}
+
+interface Cursor {
+  sort: UserSortField;
+  order: 'asc' | 'desc';
+  value: string;
+  id: string;
+}
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User)
-    private usersRepository: Repository<User>
+    private usersRepository: Repository<User>,
+    private auditService: AuditService,
+    private rbacService: RbacService,
+    private passwordPolicyService: PasswordPolicyService,
+    private passwordHashingService: PasswordHashingService
   ) {}
 
-  async create(email: string, password: string): Promise<User> {
-    const hashedPassword = await bcrypt.hash(password, 12);
-    const isFirstUser = (await this.usersRepository.count()) === 0;
-    
-    const user = this.usersRepository.create({
-      email,
-      password: hashedPassword,
-      role: isFirstUser ? UserRole.ADMIN : UserRole.USER
+  /** Without an acting user the account is treated as self-registered. */
+  async create(email: string, password: string, actor?: AuditActor, options: CreateUserOptions = {}): Promise<User> {
+    const user = await this.build(email, password, options);
+    const created = await (options.manager ? options.manager.save(user) : this.usersRepository.save(user));
+    await this.recordCreated(created, actor);
+    return created;
+  }
+
+  /**
+   * Creates an account for someone signing in through single sign-on. It has
+   * no usable password, so the password policy does not apply, until its
+   * owner sets one through a password reset.
+   */
+  async createWithoutPassword(email: string, actor?: AuditActor, options: CreateUserOptions = {}): Promise<User> {
+    const created = await this.usersRepository.save(await this.build(email, null, options));
+    await this.recordCreated(created, actor);
+    return created;
+  }
+
+  /**
+   * Creates the first super admin, or returns null if someone already holds
+   * the role. An advisory lock serialises concurrent attempts so that only
+   * one of them can win.
+   */
+  async createFirstSuperAdmin(email: string, password: string, actor?: AuditActor): Promise<User | null> {
+    const user = await this.build(email, password, { roles: [UserRole.SUPER_ADMIN], emailVerified: true });
+
+    const created = await this.usersRepository.manager.transaction(async manager => {
+      await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [SUPER_ADMIN_BOOTSTRAP_LOCK]);
+      if (await this.hasSuperAdmin(manager)) return null;
+      if (await manager.exists(User, { where: { email } })) {
+        throw new ConflictException('Email already exists');
+      }
+      return manager.save(user);
     });
-    
-    return this.usersRepository.save(user);
+    if (!created) return null;
+
+    await this.recordCreated(created, actor);
+    return created;
+  }
+
+  /** Whether any account, whatever its status, holds the super admin role. */
+  async hasSuperAdmin(manager: EntityManager = this.usersRepository.manager): Promise<boolean> {
+    const [{ exists }] = await manager.query(
+      'SELECT EXISTS (SELECT 1 FROM "user_roles" WHERE "roleName" = $1) AS "exists"',
+      [UserRole.SUPER_ADMIN],
+    );
+    return exists;
   }
 
   async findByEmail(email: string): Promise<User | null> {
@@ -32,16 +146,361 @@ export class UsersService {
     return this.usersRepository.findOne({ where: { id } });
   }
 
-  async findAll(): Promise<User[]> {
-    return this.usersRepository.find({ select: ['id', 'email', 'role', 'createdAt'] });
+  /** Lists every user, or only the given ones, reading through the caller's transaction when given its manager. */
+  async findAll(ids?: string[], manager?: EntityManager): Promise<User[]> {
+    const users = manager ? manager.getRepository(User) : this.usersRepository;
+    return users.find({ where: ids ? { id: In(ids) } : {}, select: PUBLIC_FIELDS });
   }
 
-  async updateRole(id: string, role: UserRole): Promise<User> {
-    await this.usersRepository.update(id, { role });
-    return this.findById(id);
+  /**
+   * Filtered and sorted page of users, paginated by an opaque keyset cursor
+   * or by offset. The cursor is tied to the sort it was issued for.
+   */
+  async search(filters: UserFilters, options: UserPageOptions = {}): Promise<UserPage> {
+    const sort = options.sort ?? 'createdAt';
+    const order = options.order ?? 'desc';
+    const pageSize = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    if (options.cursor && options.offset) {
+      throw new BadRequestException('Use either cursor or offset, not both');
+    }
+
+    const query = this.filteredQuery(filters);
+    const total = await query.getCount();
+
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+    query.orderBy(`user.${sort}`, direction).addOrderBy('user.id', direction);
+
+    if (options.cursor) {
+      const position = this.decodeCursor(options.cursor, sort, order);
+      const comparison = order === 'asc' ? '>' : '<';
+      query.andWhere(
+        `(user.${sort} ${comparison} :cursorValue OR (user.${sort} = :cursorValue AND user.id ${comparison} :cursorId))`,
+        { cursorValue: sort === 'createdAt' ? new Date(position.value) : position.value, cursorId: position.id },
+      );
+    } else if (options.offset) {
+      query.skip(options.offset);
+    }
+
+    const rows = await query.take(pageSize + 1).getMany();
+    const page = rows.slice(0, pageSize);
+
+    // The page query only carries sort keys; load the listing fields and roles in page order
+    const loaded = page.length > 0 ? await this.findAll(page.map(row => row.id)) : [];
+    const users = new Map(loaded.map(user => [user.id, user]));
+    const items = page.map(row => users.get(row.id)).filter((user): user is User => !!user);
+    const last = page[page.length - 1];
+
+    return {
+      items,
+      total,
+      nextCursor: rows.length > pageSize ? this.encodeCursor(last, sort, order) : null,
+    };
+  }
+
+  /**
+   * Replaces the user's roles. Runs in a transaction so that a change which
+   * would leave nobody able to manage roles, or a built-in administrative
+   * role without an active holder, is rolled back. Callers changing
+   * their own roles must confirm if they would lose permissions.
+   */
+  async setRoles(id: string, roleNames: string[], actor?: AuditActor, confirmSelfDemotion?: boolean): Promise<User | null> {
+    const roles = await this.rbacService.findRoles(roleNames);
+
+    const before = await this.usersRepository.manager.transaction(async manager => {
+      const user = await manager.findOne(User, { where: { id } });
+      if (!user) return null;
+
+      const before = user.roles.map(r => r.name);
+      if (actor?.id === id) {
+        await this.rbacService.assertSelfDemotionConfirmed(before, roleNames, confirmSelfDemotion);
+      }
+      user.roles = roles;
+      await manager.save(user);
+
+      if (await this.rbacService.canManageRoles(before) && !await this.rbacService.canManageRoles(roleNames)) {
+        await this.rbacService.assertRoleManagersRemain(manager);
+      }
+      await this.rbacService.assertManagedRolesRemain(manager, before.filter(name => !roleNames.includes(name)));
+      return before;
+    });
+    if (!before) return null;
+
+    await this.auditService.record({
+      action: AuditAction.ROLE_CHANGED,
+      actor,
+      targetId: id,
+      before: { roles: before },
+      after: { roles: roles.map(r => r.name) },
+    });
+    return this.usersRepository.findOne({ where: { id }, select: PUBLIC_FIELDS });
+  }
+
+  /** Whether the account may sign in. Temporary suspensions lapse on their own. */
+  isActive(user: User): boolean {
+    if (user.status === UserStatus.DISABLED) {
+      return !!user.disabledUntil && user.disabledUntil <= new Date();
+    }
+    return user.status === UserStatus.ACTIVE;
+  }
+
+  async disable(id: string, reason: string | null, until: Date | null, actor?: AuditActor): Promise<User | null> {
+    return this.changeStatus(id, [UserStatus.ACTIVE, UserStatus.DISABLED], {
+      status: UserStatus.DISABLED,
+      statusReason: reason,
+      disabledUntil: until,
+      deletedAt: null,
+    }, AuditAction.USER_DISABLED, actor);
+  }
+
+  async enable(id: string, actor?: AuditActor): Promise<User | null> {
+    return this.changeStatus(id, [UserStatus.DISABLED], {
+      status: UserStatus.ACTIVE,
+      statusReason: null,
+      disabledUntil: null,
+      deletedAt: null,
+    }, AuditAction.USER_ENABLED, actor);
+  }
+
+  async softDelete(id: string, reason: string | null, actor?: AuditActor): Promise<User | null> {
+    return this.changeStatus(id, [UserStatus.ACTIVE, UserStatus.DISABLED], {
+      status: UserStatus.DELETED,
+      statusReason: reason,
+      disabledUntil: null,
+      deletedAt: new Date(),
+    }, AuditAction.USER_DELETED, actor);
+  }
+
+  async restore(id: string, actor?: AuditActor): Promise<User | null> {
+    return this.changeStatus(id, [UserStatus.DELETED], {
+      status: UserStatus.ACTIVE,
+      statusReason: null,
+      disabledUntil: null,
+      deletedAt: null,
+    }, AuditAction.USER_RESTORED, actor);
+  }
+
+  async markEmailVerified(id: string): Promise<void> {
+    await this.usersRepository.update(id, { emailVerifiedAt: new Date() });
+  }
+
+  async updateTwoFactor(
+    id: string,
+    changes: Partial<Pick<User, 'twoFactorSecret' | 'twoFactorEnabledAt' | 'twoFactorLastStep' | 'twoFactorRecoveryCodes'>>,
+  ): Promise<void> {
+    await this.usersRepository.update(id, changes);
+  }
+
+  /**
+   * Records an accepted TOTP step unless the same or a later one is already
+   * recorded. False means another request used the code first.
+   */
+  async claimTwoFactorStep(id: string, step: number): Promise<boolean> {
+    const result = await this.usersRepository
+      .createQueryBuilder()
+      .update(User)
+      .set({ twoFactorLastStep: String(step) })
+      .where('id = :id', { id })
+      .andWhere('("twoFactorLastStep" IS NULL OR "twoFactorLastStep" < :step)', { step })
+      .execute();
+    return result.affected > 0;
+  }
+
+  /**
+   * Removes a recovery code if it is still unused. The list is only replaced
+   * if nobody changed it since it was read, and re-read on a conflict, so a
+   * code cannot be spent twice and no other code is brought back.
+   */
+  async consumeRecoveryCode(id: string, hash: string): Promise<boolean> {
+    for (let attempt = 0; attempt < RECOVERY_CODE_CLAIM_ATTEMPTS; attempt++) {
+      const user = await this.usersRepository.findOne({ where: { id } });
+      const remaining = user?.twoFactorRecoveryCodes ?? [];
+      if (!remaining.includes(hash)) return false;
+
+      const result = await this.usersRepository
+        .createQueryBuilder()
+        .update(User)
+        .set({ twoFactorRecoveryCodes: remaining.filter(h => h !== hash) })
+        .where('id = :id', { id })
+        .andWhere('"twoFactorRecoveryCodes" = :remaining', { remaining: JSON.stringify(remaining) })
+        .execute();
+      if (result.affected > 0) return true;
+    }
+    return false;
+  }
+
+  async setLockedUntil(id: string, lockedUntil: Date | null): Promise<void> {
+    await this.usersRepository.update(id, { lockedUntil });
+  }
+
+  /**
+   * Replaces the password after checking it against the policy, including
+   * the account's recent passwords. The old hash joins that history.
+   */
+  async updatePassword(id: string, password: string): Promise<void> {
+    const user = await this.usersRepository.findOne({ where: { id } });
+    if (!user) return;
+
+    await this.passwordPolicyService.assertAcceptable(password, user.email, this.passwordHistory(user));
+
+    const hashedPassword = await this.passwordHashingService.hash(password);
+    await this.usersRepository.update(id, {
+      password: hashedPassword,
+      // The current password counts as the first remembered one
+      previousPasswords: this.passwordHistory(user)
+        .slice(0, Math.max(this.passwordPolicyService.describe().historySize - 1, 0)),
+    });
+  }
+
+  /** Checks a password the user wants to switch to, without setting it. */
+  async assertNewPasswordAcceptable(id: string, password: string): Promise<void> {
+    const user = await this.usersRepository.findOne({ where: { id } });
+    if (user) {
+      await this.passwordPolicyService.assertAcceptable(password, user.email, this.passwordHistory(user));
+    }
   }
 
   async validatePassword(password: string, hashedPassword: string): Promise<boolean> {
-    return bcrypt.compare(password, hashedPassword);
+    return this.passwordHashingService.verify(password, hashedPassword);
+  }
+
+  /**
+   * Re-hashes a just-verified password if its stored hash predates the
+   * current algorithm or cost settings. The password itself is unchanged,
+   * so neither the policy nor the history applies.
+   */
+  async upgradePasswordHash(user: User, password: string): Promise<void> {
+    if (!this.passwordHashingService.needsRehash(user.password)) return;
+
+    const hashedPassword = await this.passwordHashingService.hash(password);
+    // Only if the hash is still the one verified, so a concurrent password change wins
+    await this.usersRepository.update({ id: user.id, password: user.password }, { password: hashedPassword });
+  }
+
+  private filteredQuery(filters: UserFilters): SelectQueryBuilder<User> {
+    const query = this.usersRepository
+      .createQueryBuilder('user')
+      .select(['user.id', 'user.email', 'user.createdAt']);
+
+    if (filters.q) {
+      query.andWhere('user.email ILIKE :q', { q: `%${filters.q.replace(/[\\%_]/g, '\\$&')}%` });
+    }
+    if (filters.status) {
+      query.andWhere('user.status = :status', { status: filters.status });
+    }
+    if (filters.createdFrom) {
+      query.andWhere('user.createdAt >= :createdFrom', { createdFrom: new Date(filters.createdFrom) });
+    }
+    if (filters.createdTo) {
+      query.andWhere('user.createdAt <= :createdTo', { createdTo: new Date(filters.createdTo) });
+    }
+    if (filters.organizationId) {
+      query.andWhere(
+        'user.id IN (SELECT m."userId" FROM "organization_memberships" m WHERE m."organizationId" = :organizationId)',
+        { organizationId: filters.organizationId },
+      );
+    }
+    if (filters.role) {
+      const globalRole = 'SELECT ur."userId" FROM "user_roles" ur WHERE ur."roleName" = :role';
+      const memberRole = 'SELECT m."userId" FROM "organization_memberships" m WHERE m."organizationId" = :organizationId AND m."roleName" = :role';
+      query.andWhere(
+        filters.organizationId ? `(user.id IN (${globalRole}) OR user.id IN (${memberRole}))` : `user.id IN (${globalRole})`,
+        { role: filters.role },
+      );
+    }
+    return query;
+  }
+
+  private encodeCursor(user: User, sort: UserSortField, order: 'asc' | 'desc'): string {
+    const value = sort === 'createdAt' ? user.createdAt.toISOString() : user[sort];
+    const cursor: Cursor = { sort, order, value, id: user.id };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string, sort: UserSortField, order: 'asc' | 'desc'): Cursor {
+    try {
+      const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (parsed.sort === sort && parsed.order === order && typeof parsed.id === 'string' && typeof parsed.value === 'string') {
+        return parsed;
+      }
+    } catch {
+      // fall through
+    }
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  /**
+   * Moves the account to another status if it is currently in one of `from`.
+   * Taking the account away from its holder runs the same last-holder checks
+   * as a role change, inside the transaction.
+   */
+  private async changeStatus(
+    id: string,
+    from: UserStatus[],
+    change: StatusChange,
+    action: AuditAction,
+    actor?: AuditActor,
+  ): Promise<User | null> {
+    const before = await this.usersRepository.manager.transaction(async manager => {
+      const user = await manager.findOne(User, { where: { id } });
+      if (!user) return null;
+
+      if (!from.includes(user.status)) {
+        throw new ConflictException({
+          message: `User is ${user.status}`,
+          code: 'INVALID_STATUS_TRANSITION',
+        });
+      }
+
+      const before = { status: user.status, reason: user.statusReason, disabledUntil: user.disabledUntil };
+      await manager.update(User, id, change);
+
+      if (change.status !== UserStatus.ACTIVE) {
+        const roleNames = user.roles.map(r => r.name);
+        if (await this.rbacService.canManageRoles(roleNames)) {
+          await this.rbacService.assertRoleManagersRemain(manager);
+        }
+        await this.rbacService.assertManagedRolesRemain(manager, roleNames);
+      }
+      return before;
+    });
+    if (!before) return null;
+
+    await this.auditService.record({
+      action,
+      actor,
+      targetId: id,
+      before,
+      after: { status: change.status, reason: change.statusReason, disabledUntil: change.disabledUntil },
+    });
+    return this.usersRepository.findOne({ where: { id }, select: PUBLIC_FIELDS });
+  }
+
+  // A null password makes an account that cannot sign in with one
+  private async build(email: string, password: string | null, options: CreateUserOptions): Promise<User> {
+    if (password !== null) {
+      await this.passwordPolicyService.assertAcceptable(password, email);
+    }
+    const roles = options.roles ? await this.rbacService.findRoles(options.roles) : null;
+
+    return this.usersRepository.create({
+      email,
+      password: password === null ? UNUSABLE_PASSWORD : await this.passwordHashingService.hash(password),
+      roles: roles ?? [{ name: UserRole.USER } as Role],
+      emailVerifiedAt: options.emailVerified ? new Date() : null
+    });
+  }
+
+  private async recordCreated(created: User, actor?: AuditActor): Promise<void> {
+    await this.auditService.record({
+      action: AuditAction.USER_CREATED,
+      actor: actor?.id ? actor : { ...actor, id: created.id, email: created.email },
+      targetId: created.id,
+      after: { email: created.email, roles: created.roles.map(r => r.name) },
+    });
+  }
+
+  /** Current and earlier password hashes, newest first. */
+  private passwordHistory(user: User): string[] {
+    return [user.password, ...(user.previousPasswords ?? [])];
   }
 }
\ No newline at end of file
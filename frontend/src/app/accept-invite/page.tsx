@@ -0,0 +1,125 @@
+'use client'
+
+import { useState, useEffect, ChangeEvent, FormEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { api, ApiError, type PasswordPolicy, type PasswordViolation } from '@/lib/api'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+export default function AcceptInvitePage() {
+  const router = useRouter()
+  const { refreshUser } = useAuth()
+  const [token, setToken] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null)
+  const [violations, setViolations] = useState<PasswordViolation[]>([])
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token') || '')
+    api.getPasswordPolicy().then(setPasswordPolicy).catch(() => setPasswordPolicy(null))
+  }, [])
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setError('')
+    setViolations([])
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setLoading(true)
+    try {
+      await api.acceptInvitation(token, password)
+      await refreshUser()
+      router.push('/')
+    } catch (err) {
+      if (err instanceof ApiError && err.violations?.length) {
+        setViolations(err.violations)
+        return
+      }
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 px-4">
+      <Card className="w-full max-w-md bg-white/80 backdrop-blur-md border-white/20 shadow-2xl">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+            Accept your invitation
+          </CardTitle>
+          <CardDescription className="text-gray-600">
+            Choose a password to create your account
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <div className="bg-gradient-to-r from-red-50 to-pink-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              This invitation link is missing its token. Ask whoever invited you to resend it.
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-sm font-medium text-gray-700">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                  required
+                  minLength={passwordPolicy?.minLength}
+                  aria-describedby="password-policy"
+                />
+                {passwordPolicy && (
+                  <p id="password-policy" className="text-xs text-gray-500">
+                    At least {passwordPolicy.minLength} characters, mixing {passwordPolicy.minCharacterClasses} of
+                    lower-case, upper-case, digits and symbols. Common passwords and ones containing your email are rejected.
+                  </p>
+                )}
+                {violations.length > 0 && (
+                  <ul className="text-xs text-red-600 space-y-1 list-disc pl-4">
+                    {violations.map((violation) => (
+                      <li key={violation.code}>{violation.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword" className="text-sm font-medium text-gray-700">Confirm password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+              {error && (
+                <div className="bg-gradient-to-r from-red-50 to-pink-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+              <Button
+                type="submit"
+                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
+                disabled={loading}
+              >
+                {loading ? 'Please wait...' : 'Create account'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+'use client'
+
+import { useState, useEffect, ChangeEvent, FormEvent } from 'react'
+import { api, type AuditEvent, type AuditFilters } from '@/lib/api'
+import { useAuth } from '@/lib/auth'
+import { ProtectedRoute } from '@/components/auth/protected-route'
+import { DashboardLayout } from '@/components/dashboard-layout'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+const ACTIONS = [
+  'auth.login_succeeded',
+  'auth.login_failed',
+  'auth.logout',
+  'auth.two_factor_failed',
+  'auth.account_locked',
+  'auth.setup_completed',
+  'user.created',
+  'user.disabled',
+  'user.enabled',
+  'user.deleted',
+  'user.restored',
+  'user.role_changed',
+  'user.email_verified',
+  'user.password_changed',
+  'user.password_reset',
+  'user.lockout_cleared',
+  'user.two_factor_enabled',
+  'user.two_factor_disabled',
+  'user.two_factor_reset',
+  'user.recovery_codes_regenerated',
+  'user.api_token_created',
+  'user.api_token_revoked',
+  'user.identity_linked',
+  'invitation.created',
+  'invitation.resent',
+  'invitation.revoked',
+  'invitation.accepted',
+  'session.revoked',
+  'session.impersonation_started',
+  'session.impersonation_ended',
+  'role.created',
+  'role.updated',
+  'role.deleted',
+  'organization.created',
+  'organization.member_added',
+  'organization.member_role_changed',
+  'organization.member_removed',
+]
+
+export default function AuditLogPage() {
+  const { user: currentUser } = useAuth()
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [action, setAction] = useState('')
+  const [actorId, setActorId] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [filters, setFilters] = useState<AuditFilters>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      setLoading(true)
+      setError('')
+      try {
+        const page = await api.getAuditEvents(filters)
+        setEvents(page.items)
+        setNextCursor(page.nextCursor)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load audit log')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadEvents()
+  }, [filters])
+
+  const handleFilter = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    // Date inputs are local calendar days; the range includes the whole "to" day
+    setFilters({
+      action: action || undefined,
+      actorId: actorId.trim() || undefined,
+      from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+      to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+    })
+  }
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return
+    setLoading(true)
+    try {
+      const page = await api.getAuditEvents(filters, nextCursor)
+      setEvents([...events, ...page.items])
+      setNextCursor(page.nextCursor)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <ProtectedRoute requiredPermission="audit.read">
+      <DashboardLayout user={currentUser!}>
+        <div className="space-y-6">
+          <div className="bg-gradient-to-r from-violet-600 via-purple-600 to-indigo-600 rounded-xl p-6 text-white">
+            <h1 className="text-3xl font-bold">Audit Log</h1>
+            <p className="text-violet-100 mt-2">Sign-ins, failures and administrative changes</p>
+          </div>
+
+          <Card className="bg-gradient-to-br from-white to-slate-50 border-slate-200 shadow-lg">
+            <CardHeader className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-t-lg">
+              <CardTitle className="text-slate-800">Filters</CardTitle>
+              <CardDescription className="text-slate-600">Narrow down by action, actor or date</CardDescription>
+            </CardHeader>
+            <CardContent className="p-6">
+              <form onSubmit={handleFilter} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                <div>
+                  <Label htmlFor="action">Action</Label>
+                  <select
+                    id="action"
+                    value={action}
+                    onChange={(e: ChangeEvent<HTMLSelectElement>) => setAction(e.target.value)}
+                    className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    <option value="">All actions</option>
+                    {ACTIONS.map((value) => (
+                      <option key={value} value={value}>{value}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="actorId">Actor ID</Label>
+                  <Input
+                    id="actorId"
+                    value={actorId}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => setActorId(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="from">From</Label>
+                  <Input
+                    id="from"
+                    type="date"
+                    value={from}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => setFrom(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="to">To</Label>
+                  <Input
+                    id="to"
+                    type="date"
+                    value={to}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => setTo(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div className="flex space-x-2">
+                  <Button type="submit" disabled={loading}>Apply</Button>
+                  <Button variant="outline" asChild>
+                    <a href={api.auditExportUrl(filters)}>Export CSV</a>
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gradient-to-br from-white to-slate-50 border-slate-200 shadow-lg">
+            <CardContent className="p-6 space-y-3">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+              {!loading && events.length === 0 && !error && (
+                <div className="text-center py-8 text-slate-600">No events match these filters</div>
+              )}
+              {events.map((event) => (
+                <div key={event.id} className="p-4 border border-slate-200 rounded-lg shadow-sm space-y-1">
+                  <div className="flex items-center justify-between">
+                    <Badge variant="secondary">{event.action}</Badge>
+                    <span className="text-xs text-slate-500">{new Date(event.createdAt).toLocaleString()}</span>
+                  </div>
+                  <p className="text-sm text-slate-700">
+                    {event.actorEmail || event.actorId || 'Anonymous'}
+                    {event.impersonatorId && (
+                      <span className="text-amber-700"> (by admin {event.impersonatorId} viewing as them)</span>
+                    )}
+                    {event.targetId && event.targetId !== event.actorId && (
+                      <span className="text-slate-500"> → {event.targetId}</span>
+                    )}
+                  </p>
+                  {(event.before || event.after) && (
+                    <p className="text-xs font-mono text-slate-600">
+                      {JSON.stringify(event.before)} → {JSON.stringify(event.after)}
+                    </p>
+                  )}
+                  {event.metadata && (
+                    <p className="text-xs font-mono text-slate-500">{JSON.stringify(event.metadata)}</p>
+                  )}
+                  <p className="text-xs text-slate-400">
+                    {event.ipAddress ?? 'unknown IP'} · {event.userAgent ?? 'unknown client'}
+                  </p>
+                </div>
+              ))}
+              {loading && <div className="text-center py-4 text-slate-600">Loading events...</div>}
+              {nextCursor && !loading && (
+                <Button variant="outline" className="w-full" onClick={handleLoadMore}>
+                  Load more
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,295 @@
+'use client'
+
+import { useState, useEffect, ChangeEvent, FormEvent } from 'react'
+import { api, type AdminUser, type Organization, type Role } from '@/lib/api'
+import { useAuth, withSelfDemotionConfirmation } from '@/lib/auth'
+import { ProtectedRoute } from '@/components/auth/protected-route'
+import { DashboardLayout } from '@/components/dashboard-layout'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+const SELECT_CLASS = 'flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm'
+
+export default function OrganizationsPage() {
+  const { user: currentUser, refreshUser } = useAuth()
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [roles, setRoles] = useState<Role[]>([])
+  const [selected, setSelected] = useState<Organization | null>(null)
+  const [members, setMembers] = useState<AdminUser[]>([])
+  const [newOrganization, setNewOrganization] = useState({ name: '', slug: '' })
+  const [newMember, setNewMember] = useState({ email: '', role: 'user' })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  // super_admin is global only and cannot be granted per organization
+  const memberRoles = roles.filter(role => role.name !== 'super_admin')
+
+  useEffect(() => {
+    const loadOrganizations = async () => {
+      try {
+        const [allOrganizations, allRoles] = await Promise.all([api.getOrganizations(), api.getRoles()])
+        setOrganizations(allOrganizations)
+        setRoles(allRoles)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load organizations')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadOrganizations()
+  }, [])
+
+  const run = async (action: () => Promise<void>) => {
+    setError('')
+    setNotice('')
+    setSaving(true)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setMemberCount = (organizationId: string, memberCount: number) => {
+    setOrganizations(organizations.map(o => o.id === organizationId ? { ...o, memberCount } : o))
+  }
+
+  const handleCreate = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    return run(async () => {
+      const created = await api.createOrganization(newOrganization.name, newOrganization.slug)
+      setOrganizations([...organizations, { ...created, memberCount: 0 }].sort((a, b) => a.name.localeCompare(b.name)))
+      setNewOrganization({ name: '', slug: '' })
+    })
+  }
+
+  const handleSelect = (organization: Organization) => run(async () => {
+    setSelected(organization)
+    setMembers(await api.getOrganizationMembers(organization.id))
+  })
+
+  const handleAddMember = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!selected) return
+    return run(async () => {
+      // The response is the same whether or not the email is registered, so reload to see the outcome
+      const response = await api.addOrganizationMember(selected.id, newMember.email, newMember.role)
+      const updated = await api.getOrganizationMembers(selected.id)
+      setMembers(updated)
+      setMemberCount(selected.id, updated.length)
+      setNotice(response.message)
+      setNewMember({ email: '', role: 'user' })
+    })
+  }
+
+  const handleChangeRole = (member: AdminUser, role: string) => {
+    if (!selected) return
+    return run(async () => {
+      const saved = await withSelfDemotionConfirmation(confirmed =>
+        api.updateOrganizationMember(selected.id, member.id, role, confirmed))
+      if (!saved) return
+
+      setMembers(members.map(m => m.id === member.id ? { ...m, organizationRole: role } : m))
+      if (member.id === currentUser?.id) {
+        await refreshUser()
+      }
+    })
+  }
+
+  const handleRemove = (member: AdminUser) => {
+    if (!selected || !window.confirm(`Remove ${member.email} from ${selected.name}?`)) {
+      return
+    }
+    return run(async () => {
+      const removed = await withSelfDemotionConfirmation(confirmed =>
+        api.removeOrganizationMember(selected.id, member.id, confirmed))
+      if (!removed) return
+
+      setMembers(members.filter(m => m.id !== member.id))
+      setMemberCount(selected.id, members.length - 1)
+      if (member.id === currentUser?.id) {
+        await refreshUser()
+      }
+    })
+  }
+
+  return (
+    <ProtectedRoute requiredPermission="organizations.manage">
+      <DashboardLayout user={currentUser!}>
+        <div className="space-y-6">
+          <div className="bg-gradient-to-r from-teal-600 via-cyan-600 to-sky-600 rounded-xl p-6 text-white">
+            <h1 className="text-3xl font-bold">Organizations</h1>
+            <p className="text-teal-100 mt-2">Create tenants and manage who belongs to them</p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+          {notice && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm">
+              {notice}
+            </div>
+          )}
+
+          <Card className="bg-gradient-to-br from-white to-slate-50 border-slate-200 shadow-lg">
+            <CardHeader className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-t-lg">
+              <CardTitle className="text-slate-800">New Organization</CardTitle>
+              <CardDescription className="text-slate-600">
+                The slug uses lower-case letters, digits and dashes, e.g. acme-corp
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-6">
+              <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div>
+                  <Label htmlFor="organizationName">Name</Label>
+                  <Input
+                    id="organizationName"
+                    value={newOrganization.name}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => setNewOrganization({ ...newOrganization, name: e.target.value })}
+                    className="mt-1"
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="organizationSlug">Slug</Label>
+                  <Input
+                    id="organizationSlug"
+                    value={newOrganization.slug}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => setNewOrganization({ ...newOrganization, slug: e.target.value })}
+                    className="mt-1"
+                    required
+                  />
+                </div>
+                <Button type="submit" disabled={saving}>Create organization</Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gradient-to-br from-white to-slate-50 border-slate-200 shadow-lg">
+            <CardHeader className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-t-lg">
+              <CardTitle className="text-slate-800">All Organizations</CardTitle>
+              <CardDescription className="text-slate-600">
+                {organizations.length} organization{organizations.length === 1 ? '' : 's'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-6">
+              {loading ? (
+                <div className="text-center py-8 text-slate-600">Loading organizations...</div>
+              ) : (
+                <div className="space-y-3">
+                  {organizations.map((organization) => (
+                    <div
+                      key={organization.id}
+                      className="flex items-center justify-between p-4 border border-slate-200 rounded-lg bg-white"
+                    >
+                      <div>
+                        <h3 className="font-medium text-slate-800">{organization.name}</h3>
+                        <p className="text-sm text-slate-500 font-mono">{organization.slug}</p>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <Badge variant="secondary">
+                          {organization.memberCount} member{organization.memberCount === 1 ? '' : 's'}
+                        </Badge>
+                        <Button
+                          variant={selected?.id === organization.id ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => handleSelect(organization)}
+                          disabled={saving}
+                        >
+                          Members
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {selected && (
+            <Card className="bg-gradient-to-br from-white to-slate-50 border-slate-200 shadow-lg">
+              <CardHeader className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-t-lg">
+                <CardTitle className="text-slate-800">Members of {selected.name}</CardTitle>
+                <CardDescription className="text-slate-600">
+                  Roles granted here apply only while the member is acting in this organization
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-6 space-y-6">
+                <form onSubmit={handleAddMember} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div>
+                    <Label htmlFor="memberEmail">Email</Label>
+                    <Input
+                      id="memberEmail"
+                      type="email"
+                      value={newMember.email}
+                      onChange={(e: ChangeEvent<HTMLInputElement>) => setNewMember({ ...newMember, email: e.target.value })}
+                      className="mt-1"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="memberRole">Role</Label>
+                    <select
+                      id="memberRole"
+                      value={newMember.role}
+                      onChange={(e: ChangeEvent<HTMLSelectElement>) => setNewMember({ ...newMember, role: e.target.value })}
+                      className={`mt-1 w-full ${SELECT_CLASS}`}
+                    >
+                      {memberRoles.map((role) => (
+                        <option key={role.name} value={role.name}>{role.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button type="submit" disabled={saving}>Add member</Button>
+                </form>
+
+                <div className="space-y-3">
+                  {members.length === 0 && (
+                    <p className="text-sm text-slate-500">No members yet</p>
+                  )}
+                  {members.map((member) => (
+                    <div
+                      key={member.id}
+                      className="flex items-center justify-between p-4 border border-slate-200 rounded-lg bg-white"
+                    >
+                      <div>
+                        <h3 className="font-medium text-slate-800">{member.email}</h3>
+                        <p className="text-sm text-slate-500">Global roles: {member.roles.map(role => role.name).join(', ')}</p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <select
+                          aria-label={`Role of ${member.email}`}
+                          value={member.organizationRole}
+                          onChange={(e: ChangeEvent<HTMLSelectElement>) => handleChangeRole(member, e.target.value)}
+                          disabled={saving}
+                          className={SELECT_CLASS}
+                        >
+                          {memberRoles.map((role) => (
+                            <option key={role.name} value={role.name}>{role.name}</option>
+                          ))}
+                        </select>
+                        <Button variant="destructive" size="sm" onClick={() => handleRemove(member)} disabled={saving}>
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  )
+}
@@ -1,51 +1,310 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { api, type User } from '@/lib/api'
-import { useAuth } from '@/lib/auth'
+import { useState, useEffect, useCallback, useMemo, useRef, Fragment, ChangeEvent, FormEvent } from 'react'
+import { api, type AdminUser, type Role, type UserQuery } from '@/lib/api'
+import { useAuth, hasPermission, isSuperAdmin, withSelfDemotionConfirmation } from '@/lib/auth'
 import { ProtectedRoute } from '@/components/auth/protected-route'
 import { DashboardLayout } from '@/components/dashboard-layout'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { InvitationsCard } from '@/components/invitations-card'
+
+const SELECT_CLASS = 'mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm'
+const SEARCH_DEBOUNCE_MS = 300
+
+type SortState = Required<Pick<UserQuery, 'sort' | 'order'>>
 
 export default function AdminPage() {
-  const { user: currentUser } = useAuth()
-  const [users, setUsers] = useState<User[]>([])
+  const { user: currentUser, refreshUser } = useAuth()
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [total, setTotal] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [search, setSearch] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [roleFilter, setRoleFilter] = useState('')
+  const [statusFilter, setStatusFilter] = useState('')
+  const [createdFrom, setCreatedFrom] = useState('')
+  const [createdTo, setCreatedTo] = useState('')
+  const [sort, setSort] = useState<SortState>({ sort: 'createdAt', order: 'desc' })
+  const sentinel = useRef<HTMLDivElement>(null)
   const [updateLoading, setUpdateLoading] = useState<string | null>(null)
+  const [roles, setRoles] = useState<Role[]>([])
+  const [editingUserId, setEditingUserId] = useState<string | null>(null)
+  const [selectedRoles, setSelectedRoles] = useState<string[]>([])
+  const [error, setError] = useState('')
+  const [newUser, setNewUser] = useState({ email: '', password: '', role: 'user' })
+  const [creating, setCreating] = useState(false)
+  const [disablingUserId, setDisablingUserId] = useState<string | null>(null)
+  const [disableReason, setDisableReason] = useState('')
+  const [disableUntil, setDisableUntil] = useState('')
+  const canWriteUsers = hasPermission(currentUser, 'users.write')
+  const canChangeRoles = hasPermission(currentUser, 'users.role.write')
+  const canReadRoles = hasPermission(currentUser, 'roles.read')
+  const canManageSecurity = hasPermission(currentUser, 'users.security.write')
+  const canImpersonate = hasPermission(currentUser, 'users.impersonate')
+  // Super admins edit global roles; everyone else edits the role within the active organization
+  const crossTenant = isSuperAdmin(currentUser)
+  const organization = currentUser?.organization ?? null
+  const assignableRoles = crossTenant ? roles : roles.filter(role => role.name !== 'super_admin')
 
   useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  // Date inputs are local calendar days; the range includes the whole "to" day
+  const query = useMemo<UserQuery>(() => ({
+    q: debouncedSearch || undefined,
+    role: roleFilter || undefined,
+    status: statusFilter || undefined,
+    createdFrom: createdFrom ? new Date(`${createdFrom}T00:00:00`).toISOString() : undefined,
+    createdTo: createdTo ? new Date(`${createdTo}T23:59:59.999`).toISOString() : undefined,
+    ...sort,
+  }), [debouncedSearch, roleFilter, statusFilter, createdFrom, createdTo, sort])
+
+  // Lets a page that arrives after the filters changed be dropped
+  const currentQuery = useRef(query)
+
+  useEffect(() => {
+    currentQuery.current = query
+
     const loadUsers = async () => {
+      setLoading(true)
+      setError('')
       try {
-        const allUsers = await api.getAllUsers()
-        setUsers(allUsers)
+        const page = await api.getUsers(query)
+        if (currentQuery.current !== query) return
+        setUsers(page.items)
+        setTotal(page.total)
+        setNextCursor(page.nextCursor)
       } catch (error) {
-        console.error('Failed to load users:', error)
+        setError(error instanceof Error ? error.message : 'Failed to load users')
       } finally {
         setLoading(false)
       }
     }
 
     loadUsers()
-  }, [])
+  }, [query])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return
+
+    setLoadingMore(true)
+    try {
+      const page = await api.getUsers(query, nextCursor)
+      if (currentQuery.current !== query) return
+      setUsers(current => [...current, ...page.items])
+      setTotal(page.total)
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load users')
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [query, nextCursor, loadingMore])
+
+  // Infinite scroll: fetch the next page once the sentinel below the table comes into view
+  useEffect(() => {
+    const element = sentinel.current
+    if (!element) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMore()
+    }, { rootMargin: '200px' })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [loadMore])
+
+  useEffect(() => {
+    // Role filters and pickers need the list of roles, which is only readable with roles.read
+    if (!canReadRoles) return
+
+    const loadRoles = async () => {
+      try {
+        setRoles(await api.getRoles())
+      } catch (error) {
+        console.error('Failed to load roles:', error)
+      }
+    }
+
+    loadRoles()
+  }, [canReadRoles])
+
+  // Lifecycle endpoints return the account without organizationRole, so merge
+  const replaceUser = (updated: AdminUser) => {
+    setUsers(users.map(user => user.id === updated.id ? { ...user, ...updated } : user))
+  }
+
+  const runUserAction = async (target: AdminUser, action: () => Promise<void>) => {
+    setError('')
+    setUpdateLoading(target.id)
+    try {
+      await action()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setUpdateLoading(null)
+    }
+  }
+
+  const handleCreateUser = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setError('')
+    setCreating(true)
+    try {
+      const created = await api.createUser(newUser.email, newUser.password, assignableRoles.length > 0 ? newUser.role : undefined)
+      setUsers([created, ...users])
+      setTotal(total + 1)
+      setNewUser({ email: '', password: '', role: 'user' })
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create user')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const startDisabling = (target: AdminUser) => {
+    setError('')
+    setDisablingUserId(target.id)
+    setDisableReason('')
+    setDisableUntil('')
+  }
+
+  const handleDisable = (target: AdminUser) => runUserAction(target, async () => {
+    const until = disableUntil ? new Date(disableUntil).toISOString() : undefined
+    replaceUser(await api.disableUser(target.id, disableReason || undefined, until))
+    setDisablingUserId(null)
+  })
+
+  const handleEnable = (target: AdminUser) => runUserAction(target, async () => {
+    replaceUser(await api.enableUser(target.id))
+  })
+
+  const handleDelete = (target: AdminUser) => {
+    const reason = window.prompt(`Delete ${target.email}? They are signed out everywhere and can be restored later.\n\nReason (optional):`)
+    if (reason === null) {
+      return
+    }
+    return runUserAction(target, async () => {
+      replaceUser(await api.deleteUser(target.id, reason || undefined))
+    })
+  }
+
+  const handleRestore = (target: AdminUser) => {
+    if (!window.confirm(`Restore ${target.email}? They will be able to sign in again.`)) {
+      return
+    }
+    return runUserAction(target, async () => {
+      replaceUser(await api.restoreUser(target.id))
+    })
+  }
 
-  const handleRoleChange = async (userId: string, newRole: 'user' | 'admin') => {
+  const handleForceLogout = (target: AdminUser) => {
+    if (!window.confirm(`Sign ${target.email} out of every device?`)) {
+      return
+    }
+    return runUserAction(target, async () => {
+      await api.forceLogoutUser(target.id)
+    })
+  }
+
+  const handleImpersonate = (target: AdminUser) => {
+    if (!window.confirm(`View the application as ${target.email}? This is recorded in the audit log.`)) {
+      return
+    }
+    return runUserAction(target, async () => {
+      await api.impersonateUser(target.id)
+      // Reload everything so no admin state leaks into the impersonated view
+      window.location.href = '/dashboard'
+    })
+  }
+
+  const startEditingRoles = (target: AdminUser) => {
+    setError('')
+    setEditingUserId(target.id)
+    setSelectedRoles(crossTenant
+      ? target.roles.map(role => role.name)
+      : target.organizationRole ? [target.organizationRole] : [])
+  }
+
+  const toggleSelectedRole = (name: string) => {
+    if (!crossTenant) {
+      setSelectedRoles([name])
+      return
+    }
+    setSelectedRoles(selectedRoles.includes(name)
+      ? selectedRoles.filter(role => role !== name)
+      : [...selectedRoles, name])
+  }
+
+  const handleSaveRoles = async (userId: string) => {
+    setError('')
     setUpdateLoading(userId)
     try {
-      const updatedUser = await api.updateUserRole(userId, newRole)
-      setUsers(users.map(user => 
-        user.id === userId ? updatedUser : user
+      const saved = await withSelfDemotionConfirmation(async (confirmed) => {
+        if (crossTenant) {
+          replaceUser(await api.setUserRoles(userId, selectedRoles, confirmed))
+        } else if (organization) {
+          await api.updateOrganizationMember(organization.id, userId, selectedRoles[0], confirmed)
+          setUsers(users.map(user =>
+            user.id === userId ? { ...user, organizationRole: selectedRoles[0] } : user
+          ))
+        }
+      })
+      if (!saved) return
+
+      setEditingUserId(null)
+      // Our own permissions may have shrunk; reload them so the page reflects it
+      if (userId === currentUser?.id) {
+        await refreshUser()
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update roles')
+    } finally {
+      setUpdateLoading(null)
+    }
+  }
+
+  const handleUnlock = async (target: AdminUser) => {
+    setUpdateLoading(target.id)
+    try {
+      await api.unlockUser(target.id)
+      setUsers(users.map(user =>
+        user.id === target.id ? { ...user, lockedUntil: null } : user
       ))
     } catch (error) {
-      console.error('Failed to update role:', error)
+      console.error('Failed to clear lockout:', error)
+    } finally {
+      setUpdateLoading(null)
+    }
+  }
+
+  const handleResetTwoFactor = async (target: AdminUser) => {
+    if (!window.confirm(`Reset two-factor authentication for ${target.email}? They will be able to sign in with their password alone.`)) {
+      return
+    }
+
+    setUpdateLoading(target.id)
+    try {
+      await api.resetUserTwoFactor(target.id)
+      setUsers(users.map(user =>
+        user.id === target.id ? { ...user, twoFactorEnabledAt: null } : user
+      ))
+    } catch (error) {
+      console.error('Failed to reset two-factor authentication:', error)
     } finally {
       setUpdateLoading(null)
     }
   }
 
   return (
-    <ProtectedRoute requiredRole="admin">
+    <ProtectedRoute requiredPermission="users.read">
       <DashboardLayout user={currentUser!}>
         <div className="space-y-6">
           <div className="bg-gradient-to-r from-violet-600 via-purple-600 to-indigo-600 rounded-xl p-6 text-white">
@@ -53,68 +312,384 @@ export default function AdminPage() {
             <p className="text-violet-100 mt-2">Manage user roles and permissions</p>
           </div>
 
+          {canWriteUsers && (
+            <Card className="bg-gradient-to-br from-white to-slate-50 border-slate-200 shadow-lg">
+              <CardHeader className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-t-lg">
+                <CardTitle className="text-slate-800">New User</CardTitle>
+                <CardDescription className="text-slate-600">
+                  {crossTenant || !organization
+                    ? 'The account is created with a verified email address'
+                    : `The account is created with a verified email address and added to ${organization.name}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-6">
+                <form onSubmit={handleCreateUser} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                  <div>
+                    <Label htmlFor="newUserEmail">Email</Label>
+                    <Input
+                      id="newUserEmail"
+                      type="email"
+                      value={newUser.email}
+                      onChange={(e: ChangeEvent<HTMLInputElement>) => setNewUser({ ...newUser, email: e.target.value })}
+                      className="mt-1"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="newUserPassword">Initial password</Label>
+                    <Input
+                      id="newUserPassword"
+                      type="password"
+                      value={newUser.password}
+                      onChange={(e: ChangeEvent<HTMLInputElement>) => setNewUser({ ...newUser, password: e.target.value })}
+                      className="mt-1"
+                      required
+                    />
+                  </div>
+                  {assignableRoles.length > 0 && (
+                    <div>
+                      <Label htmlFor="newUserRole">Role</Label>
+                      <select
+                        id="newUserRole"
+                        value={newUser.role}
+                        onChange={(e: ChangeEvent<HTMLSelectElement>) => setNewUser({ ...newUser, role: e.target.value })}
+                        className="mt-1 flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm"
+                      >
+                        {assignableRoles.map((role) => (
+                          <option key={role.name} value={role.name}>{role.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <Button type="submit" disabled={creating}>
+                    {creating ? 'Creating...' : 'Create user'}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
+          {canWriteUsers && (
+            <InvitationsCard
+              roles={assignableRoles}
+              organizationName={crossTenant ? null : organization?.name ?? null}
+            />
+          )}
+
           <Card className="bg-gradient-to-br from-white to-slate-50 border-slate-200 shadow-lg">
             <CardHeader className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-t-lg">
               <CardTitle className="text-slate-800">All Users</CardTitle>
               <CardDescription className="text-slate-600">
-                {users.length} total users in the system
+                {crossTenant || !organization
+                  ? `${total} matching users in the system`
+                  : `${total} matching members of ${organization.name}`}
               </CardDescription>
             </CardHeader>
-            <CardContent className="p-6">
+            <CardContent className="p-6 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+                <div className="md:col-span-2">
+                  <Label htmlFor="search">Search</Label>
+                  <Input
+                    id="search"
+                    placeholder="Email contains..."
+                    value={search}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="roleFilter">Role</Label>
+                  <select
+                    id="roleFilter"
+                    value={roleFilter}
+                    onChange={(e: ChangeEvent<HTMLSelectElement>) => setRoleFilter(e.target.value)}
+                    className={SELECT_CLASS}
+                  >
+                    <option value="">All roles</option>
+                    {roles.map((role) => (
+                      <option key={role.name} value={role.name}>{role.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="statusFilter">Status</Label>
+                  <select
+                    id="statusFilter"
+                    value={statusFilter}
+                    onChange={(e: ChangeEvent<HTMLSelectElement>) => setStatusFilter(e.target.value)}
+                    className={SELECT_CLASS}
+                  >
+                    <option value="">Any status</option>
+                    <option value="active">Active</option>
+                    <option value="disabled">Disabled</option>
+                    <option value="deleted">Deleted</option>
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="createdFrom">Created from</Label>
+                  <Input
+                    id="createdFrom"
+                    type="date"
+                    value={createdFrom}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => setCreatedFrom(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="createdTo">Created to</Label>
+                  <Input
+                    id="createdTo"
+                    type="date"
+                    value={createdTo}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => setCreatedTo(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
               {loading ? (
                 <div className="flex items-center justify-center py-8">
                   <div className="text-slate-600">Loading users...</div>
                 </div>
+              ) : users.length === 0 ? (
+                <div className="text-center py-8 text-slate-600">No users match these filters</div>
               ) : (
-                <div className="space-y-4">
-                  {users.map((user) => (
-                    <div
-                      key={user.id}
-                      className="flex items-center justify-between p-4 border border-slate-200 rounded-lg hover:bg-gradient-to-r hover:from-slate-50 hover:to-gray-50 transition-all duration-200 shadow-sm hover:shadow-md"
-                    >
-                      <div className="flex items-center space-x-4">
-                        <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
-                          <span className="text-sm font-medium text-white">
-                            {user.email.charAt(0).toUpperCase()}
-                          </span>
-                        </div>
-                        <div>
-                          <p className="font-medium text-slate-900">{user.email}</p>
-                          <p className="text-sm text-slate-500">Role: {user.role}</p>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-3">
-                        <Badge 
-                          variant={user.role === 'admin' ? 'default' : 'secondary'}
-                          className={user.role === 'admin' 
-                            ? 'bg-gradient-to-r from-emerald-500 to-teal-600 text-white' 
-                            : 'bg-gradient-to-r from-slate-100 to-gray-200 text-slate-700'
-                          }
-                        >
-                          {user.role}
-                        </Badge>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleRoleChange(
-                            user.id, 
-                            user.role === 'admin' ? 'user' : 'admin'
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-slate-200 text-left text-slate-600">
+                        <SortableHeader label="User" field="email" sort={sort} onSort={setSort} />
+                        <th className="py-2 pr-4 font-medium">Roles</th>
+                        <th className="py-2 pr-4 font-medium">Status</th>
+                        <SortableHeader label="Created" field="createdAt" sort={sort} onSort={setSort} />
+                        <th className="py-2 font-medium text-right">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {users.map((user) => (
+                        <Fragment key={user.id}>
+                          <tr className="border-b border-slate-100 align-top hover:bg-slate-50">
+                            <td className="py-3 pr-4">
+                              <p className="font-medium text-slate-900">{user.email}</p>
+                              {user.organizationRole && (
+                                <p className="text-xs text-slate-500">Organization role: {user.organizationRole}</p>
+                              )}
+                              {isLocked(user) && (
+                                <p className="text-xs text-red-600">
+                                  Locked until {new Date(user.lockedUntil!).toLocaleTimeString()}
+                                </p>
+                              )}
+                            </td>
+                            <td className="py-3 pr-4">
+                              <div className="flex flex-wrap gap-1">
+
+                              {user.roles.map((role) => (
+                                <Badge 
+                                  key={role.name}
+                                  variant={role.name === 'admin' ? 'default' : 'secondary'}
+                                  className={role.name === 'admin' 
+                                    ? 'bg-gradient-to-r from-emerald-500 to-teal-600 text-white' 
+                                    : 'bg-gradient-to-r from-slate-100 to-gray-200 text-slate-700'
+                                  }
+                                >
+                                  {role.name}
+                                </Badge>
+                              ))}
+                              </div>
+                            </td>
+                            <td className="py-3 pr-4">
+                              <Badge variant={user.status === 'active' ? 'outline' : 'destructive'}>{user.status}</Badge>
+                              {user.status !== 'active' && (
+                                <p className="mt-1 text-xs text-red-600">
+                                  {statusLabel(user)}{user.statusReason ? `: ${user.statusReason}` : ''}
+                                </p>
+                              )}
+                            </td>
+                            <td className="py-3 pr-4 text-slate-600">{new Date(user.createdAt).toLocaleDateString()}</td>
+                            <td className="py-3">
+                              <div className="flex flex-wrap justify-end gap-2">
+                                {canManageSecurity && isLocked(user) && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleUnlock(user)}
+                                    disabled={updateLoading === user.id}
+                                    className="border-slate-300 hover:bg-gradient-to-r hover:from-sky-50 hover:to-blue-50 hover:border-sky-300 hover:text-sky-700 transition-all duration-200"
+                                  >
+                                    Unlock
+                                  </Button>
+                                )}
+                                {canManageSecurity && user.twoFactorEnabledAt && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleResetTwoFactor(user)}
+                                    disabled={updateLoading === user.id}
+                                    className="border-slate-300 hover:bg-gradient-to-r hover:from-amber-50 hover:to-orange-50 hover:border-amber-300 hover:text-amber-700 transition-all duration-200"
+                                  >
+                                    Reset 2FA
+                                  </Button>
+                                )}
+                                {canManageSecurity && user.status === 'active' && user.id !== currentUser?.id && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleForceLogout(user)}
+                                    disabled={updateLoading === user.id}
+                                    className="border-slate-300 hover:bg-gradient-to-r hover:from-amber-50 hover:to-orange-50 hover:border-amber-300 hover:text-amber-700 transition-all duration-200"
+                                  >
+                                    Force logout
+                                  </Button>
+                                )}
+                                {canImpersonate && user.status === 'active' && user.id !== currentUser?.id && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleImpersonate(user)}
+                                    disabled={updateLoading === user.id}
+                                    className="border-slate-300 hover:bg-gradient-to-r hover:from-indigo-50 hover:to-violet-50 hover:border-indigo-300 hover:text-indigo-700 transition-all duration-200"
+                                  >
+                                    View as
+                                  </Button>
+                                )}
+                                {canWriteUsers && user.id !== currentUser?.id && user.status === 'active' && disablingUserId !== user.id && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => startDisabling(user)}
+                                    disabled={updateLoading === user.id}
+                                    className="border-slate-300 hover:bg-gradient-to-r hover:from-amber-50 hover:to-orange-50 hover:border-amber-300 hover:text-amber-700 transition-all duration-200"
+                                  >
+                                    Disable
+                                  </Button>
+                                )}
+                                {canWriteUsers && user.status === 'disabled' && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleEnable(user)}
+                                    disabled={updateLoading === user.id}
+                                    className="border-slate-300 hover:bg-gradient-to-r hover:from-emerald-50 hover:to-teal-50 hover:border-emerald-300 hover:text-emerald-700 transition-all duration-200"
+                                  >
+                                    Enable
+                                  </Button>
+                                )}
+                                {canWriteUsers && user.id !== currentUser?.id && user.status !== 'deleted' && (
+                                  <Button
+                                    variant="destructive"
+                                    size="sm"
+                                    onClick={() => handleDelete(user)}
+                                    disabled={updateLoading === user.id}
+                                  >
+                                    Delete
+                                  </Button>
+                                )}
+                                {canWriteUsers && user.status === 'deleted' && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleRestore(user)}
+                                    disabled={updateLoading === user.id}
+                                    className="border-slate-300 hover:bg-gradient-to-r hover:from-emerald-50 hover:to-teal-50 hover:border-emerald-300 hover:text-emerald-700 transition-all duration-200"
+                                  >
+                                    Restore
+                                  </Button>
+                                )}
+                                {canChangeRoles && assignableRoles.length > 0 && editingUserId !== user.id && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => startEditingRoles(user)}
+                                    disabled={updateLoading === user.id}
+                                    className="border-slate-300 hover:bg-gradient-to-r hover:from-emerald-50 hover:to-teal-50 hover:border-emerald-300 hover:text-emerald-700 transition-all duration-200"
+                                  >
+                                    Edit roles
+                                  </Button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                          {(disablingUserId === user.id || editingUserId === user.id) && (
+                            <tr className="border-b border-slate-100">
+                              <td colSpan={5}>
+                                {disablingUserId === user.id && (
+                                  <div className="pt-1 pb-4 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                                    <div>
+                                      <Label htmlFor={`disable-reason-${user.id}`}>Reason (optional)</Label>
+                                      <Input
+                                        id={`disable-reason-${user.id}`}
+                                        value={disableReason}
+                                        onChange={(e: ChangeEvent<HTMLInputElement>) => setDisableReason(e.target.value)}
+                                        className="mt-1"
+                                      />
+                                    </div>
+                                    <div>
+                                      <Label htmlFor={`disable-until-${user.id}`}>Suspend until (empty: until re-enabled)</Label>
+                                      <Input
+                                        id={`disable-until-${user.id}`}
+                                        type="datetime-local"
+                                        value={disableUntil}
+                                        onChange={(e: ChangeEvent<HTMLInputElement>) => setDisableUntil(e.target.value)}
+                                        className="mt-1"
+                                      />
+                                    </div>
+                                    <div className="flex space-x-2">
+                                      <Button
+                                        size="sm"
+                                        variant="destructive"
+                                        onClick={() => handleDisable(user)}
+                                        disabled={updateLoading === user.id}
+                                      >
+                                        {updateLoading === user.id ? 'Disabling...' : 'Confirm disable'}
+                                      </Button>
+                                      <Button size="sm" variant="outline" onClick={() => setDisablingUserId(null)}>
+                                        Cancel
+                                      </Button>
+                                    </div>
+                                  </div>
+                                )}
+                                {editingUserId === user.id && (
+                                  <div className="pt-1 pb-4 flex flex-wrap items-center gap-4">
+                                    {assignableRoles.map((role) => (
+                                      <label key={role.name} className="flex items-center space-x-2 text-sm text-slate-700" title={role.description}>
+                                        <input
+                                          type={crossTenant ? 'checkbox' : 'radio'}
+                                          checked={selectedRoles.includes(role.name)}
+                                          onChange={() => toggleSelectedRole(role.name)}
+                                        />
+                                        <span>{role.name}</span>
+                                      </label>
+                                    ))}
+                                    <div className="flex space-x-2 ml-auto">
+                                      <Button
+                                        size="sm"
+                                        onClick={() => handleSaveRoles(user.id)}
+                                        disabled={selectedRoles.length === 0 || updateLoading === user.id}
+                                      >
+                                        {updateLoading === user.id ? 'Saving...' : 'Save roles'}
+                                      </Button>
+                                      <Button size="sm" variant="outline" onClick={() => setEditingUserId(null)}>
+                                        Cancel
+                                      </Button>
+                                    </div>
+                                  </div>
+                                )}
+                              </td>
+                            </tr>
                           )}
-                          disabled={updateLoading === user.id}
-                          className={`border-slate-300 transition-all duration-200 ${
-                            user.role === 'admin' 
-                              ? 'hover:bg-gradient-to-r hover:from-red-50 hover:to-pink-50 hover:border-red-300 hover:text-red-700'
-                              : 'hover:bg-gradient-to-r hover:from-emerald-50 hover:to-teal-50 hover:border-emerald-300 hover:text-emerald-700'
-                          }`}
-                        >
-                          {updateLoading === user.id 
-                            ? 'Updating...' 
-                            : `Make ${user.role === 'admin' ? 'User' : 'Admin'}`
-                          }
-                        </Button>
-                      </div>
+                        </Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                  {nextCursor && (
+                    <div ref={sentinel} className="py-4 text-center text-sm text-slate-500">
+                      {loadingMore ? 'Loading more users...' : ''}
                     </div>
-                  ))}
+                  )}
                 </div>
               )}
             </CardContent>
@@ -123,4 +698,40 @@ export default function AdminPage() {
       </DashboardLayout>
     </ProtectedRoute>
   )
+}
+
+function isLocked(user: AdminUser): boolean {
+  return !!user.lockedUntil && new Date(user.lockedUntil) > new Date()
+}
+
+interface SortableHeaderProps {
+  label: string
+  field: SortState['sort']
+  sort: SortState
+  onSort: (sort: SortState) => void
+}
+
+function SortableHeader({ label, field, sort, onSort }: SortableHeaderProps) {
+  const active = sort.sort === field
+  const toggle = () => onSort({
+    sort: field,
+    order: active ? (sort.order === 'asc' ? 'desc' : 'asc') : (field === 'email' ? 'asc' : 'desc'),
+  })
+
+  return (
+    <th className="py-2 pr-4 font-medium">
+      <button type="button" onClick={toggle} className="hover:text-slate-900">
+        {label}{active && (sort.order === 'asc' ? ' ↑' : ' ↓')}
+      </button>
+    </th>
+  )
+}
+
+function statusLabel(user: AdminUser): string {
+  if (user.status === 'deleted') {
+    return `Deleted ${new Date(user.deletedAt!).toLocaleDateString()}`
+  }
+  return user.disabledUntil
+    ? `Suspended until ${new Date(user.disabledUntil).toLocaleString()}`
+    : 'Disabled'
 }
\ No newline at end of file
@@ -0,0 +1,323 @@
+'use client'
+
+import { useState, useEffect, ChangeEvent, FormEvent } from 'react'
+import { api, type Permission, type Role } from '@/lib/api'
+import { useAuth, hasPermission } from '@/lib/auth'
+import { ProtectedRoute } from '@/components/auth/protected-route'
+import { DashboardLayout } from '@/components/dashboard-layout'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface RoleDraft {
+  name: string
+  description: string
+  twoFactorRequired: boolean
+  permissions: string[]
+}
+
+const EMPTY_DRAFT: RoleDraft = { name: '', description: '', twoFactorRequired: false, permissions: [] }
+
+// Built-in roles whose permissions the backend resets on every start
+const MANAGED_ROLES = ['super_admin', 'admin']
+
+export default function RolesPage() {
+  const { user: currentUser } = useAuth()
+  const [roles, setRoles] = useState<Role[]>([])
+  const [permissions, setPermissions] = useState<Permission[]>([])
+  const [newRole, setNewRole] = useState<RoleDraft>(EMPTY_DRAFT)
+  const [editingRole, setEditingRole] = useState<string | null>(null)
+  const [draft, setDraft] = useState<RoleDraft>(EMPTY_DRAFT)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const canWrite = hasPermission(currentUser, 'roles.write')
+
+  useEffect(() => {
+    const loadRoles = async () => {
+      try {
+        const [allRoles, allPermissions] = await Promise.all([api.getRoles(), api.getPermissions()])
+        setRoles(allRoles)
+        setPermissions(allPermissions)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load roles')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadRoles()
+  }, [])
+
+  const run = async (action: () => Promise<void>) => {
+    setError('')
+    setSaving(true)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCreate = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    return run(async () => {
+      const created = await api.createRole(newRole)
+      setRoles([...roles, created].sort((a, b) => a.name.localeCompare(b.name)))
+      setNewRole(EMPTY_DRAFT)
+    })
+  }
+
+  const startEditing = (role: Role) => {
+    setError('')
+    setEditingRole(role.name)
+    setDraft({
+      name: role.name,
+      description: role.description,
+      twoFactorRequired: role.twoFactorRequired,
+      permissions: role.permissions,
+    })
+  }
+
+  const handleUpdate = (role: Role) => run(async () => {
+    const updated = await api.updateRole(role.name, {
+      name: draft.name !== role.name ? draft.name : undefined,
+      description: draft.description,
+      twoFactorRequired: draft.twoFactorRequired,
+      permissions: MANAGED_ROLES.includes(role.name) ? undefined : draft.permissions,
+    })
+    setRoles(roles.map(r => r.name === role.name ? updated : r))
+    setEditingRole(null)
+  })
+
+  const handleDelete = (role: Role) => {
+    if (!window.confirm(`Delete the role "${role.name}"?`)) {
+      return
+    }
+    return run(async () => {
+      await api.deleteRole(role.name)
+      setRoles(roles.filter(r => r.name !== role.name))
+    })
+  }
+
+  return (
+    <ProtectedRoute requiredPermission="roles.read">
+      <DashboardLayout user={currentUser!}>
+        <div className="space-y-6">
+          <div className="bg-gradient-to-r from-violet-600 via-purple-600 to-indigo-600 rounded-xl p-6 text-white">
+            <h1 className="text-3xl font-bold">Roles</h1>
+            <p className="text-violet-100 mt-2">Define roles and the permissions they grant</p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {canWrite && (
+            <Card className="bg-gradient-to-br from-white to-slate-50 border-slate-200 shadow-lg">
+              <CardHeader className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-t-lg">
+                <CardTitle className="text-slate-800">New Role</CardTitle>
+                <CardDescription className="text-slate-600">
+                  Lower-case letters, digits and underscores, e.g. content_editor
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-6">
+                <form onSubmit={handleCreate} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="newRoleName">Name</Label>
+                      <Input
+                        id="newRoleName"
+                        value={newRole.name}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) => setNewRole({ ...newRole, name: e.target.value })}
+                        className="mt-1"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="newRoleDescription">Description</Label>
+                      <Input
+                        id="newRoleDescription"
+                        value={newRole.description}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) => setNewRole({ ...newRole, description: e.target.value })}
+                        className="mt-1"
+                      />
+                    </div>
+                  </div>
+                  <TwoFactorCheckbox
+                    id="newRoleTwoFactor"
+                    checked={newRole.twoFactorRequired}
+                    onChange={(checked) => setNewRole({ ...newRole, twoFactorRequired: checked })}
+                  />
+                  <PermissionCheckboxes
+                    permissions={permissions}
+                    selected={newRole.permissions}
+                    onChange={(selected) => setNewRole({ ...newRole, permissions: selected })}
+                  />
+                  <Button type="submit" disabled={saving}>Create role</Button>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8 text-slate-600">Loading roles...</div>
+          ) : (
+            roles.map((role) => (
+              <Card key={role.name} className="bg-gradient-to-br from-white to-slate-50 border-slate-200 shadow-lg">
+                <CardHeader className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-t-lg">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="text-slate-800 flex items-center space-x-2">
+                        <span>{role.name}</span>
+                        {role.system && <Badge variant="secondary">built-in</Badge>}
+                        {role.twoFactorRequired && <Badge variant="outline">2FA required</Badge>}
+                      </CardTitle>
+                      <CardDescription className="text-slate-600">
+                        {role.description || 'No description'} · {role.userCount} user{role.userCount === 1 ? '' : 's'}
+                      </CardDescription>
+                    </div>
+                    {canWrite && editingRole !== role.name && (
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => startEditing(role)}>
+                          Edit
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleDelete(role)}
+                          disabled={saving || role.system || role.userCount > 0}
+                          title={role.userCount > 0 ? 'Remove this role from every user first' : undefined}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="p-6">
+                  {editingRole === role.name ? (
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor={`name-${role.name}`}>Name</Label>
+                          <Input
+                            id={`name-${role.name}`}
+                            value={draft.name}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, name: e.target.value })}
+                            disabled={role.system}
+                            className="mt-1"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`description-${role.name}`}>Description</Label>
+                          <Input
+                            id={`description-${role.name}`}
+                            value={draft.description}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, description: e.target.value })}
+                            className="mt-1"
+                          />
+                        </div>
+                      </div>
+                      <TwoFactorCheckbox
+                        id={`twoFactor-${role.name}`}
+                        checked={draft.twoFactorRequired}
+                        onChange={(checked) => setDraft({ ...draft, twoFactorRequired: checked })}
+                      />
+                      <PermissionCheckboxes
+                        permissions={permissions}
+                        selected={draft.permissions}
+                        onChange={(selected) => setDraft({ ...draft, permissions: selected })}
+                        disabled={MANAGED_ROLES.includes(role.name)}
+                      />
+                      <div className="flex space-x-2">
+                        <Button size="sm" onClick={() => handleUpdate(role)} disabled={saving}>
+                          {saving ? 'Saving...' : 'Save'}
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setEditingRole(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {role.permissions.length === 0 && (
+                        <span className="text-sm text-slate-500">No administrative permissions</span>
+                      )}
+                      {role.permissions.map((permission) => (
+                        <Badge key={permission} variant="outline">{permission}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  )
+}
+
+interface TwoFactorCheckboxProps {
+  id: string
+  checked: boolean
+  onChange: (checked: boolean) => void
+}
+
+function TwoFactorCheckbox({ id, checked, onChange }: TwoFactorCheckboxProps) {
+  return (
+    <label htmlFor={id} className="flex items-start space-x-2 text-sm">
+      <input
+        id={id}
+        type="checkbox"
+        className="mt-1"
+        checked={checked}
+        onChange={(e: ChangeEvent<HTMLInputElement>) => onChange(e.target.checked)}
+      />
+      <span>
+        <span className="text-slate-800">Require two-factor authentication</span>
+        <span className="block text-xs text-slate-500">Holders must enroll before they can use this role</span>
+      </span>
+    </label>
+  )
+}
+
+interface PermissionCheckboxesProps {
+  permissions: Permission[]
+  selected: string[]
+  onChange: (selected: string[]) => void
+  disabled?: boolean
+}
+
+function PermissionCheckboxes({ permissions, selected, onChange, disabled }: PermissionCheckboxesProps) {
+  const toggle = (key: string) => {
+    onChange(selected.includes(key) ? selected.filter(k => k !== key) : [...selected, key])
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+      {permissions.map((permission) => (
+        <label key={permission.key} className="flex items-start space-x-2 text-sm">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={selected.includes(permission.key)}
+            onChange={() => toggle(permission.key)}
+            disabled={disabled}
+          />
+          <span>
+            <span className="font-mono text-slate-800">{permission.key}</span>
+            <span className="block text-xs text-slate-500">{permission.description}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  )
+}
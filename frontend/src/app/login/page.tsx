@@ -4,6 +4,7 @@ import { useState, useEffect, ChangeEvent, FormEvent } from 'react'
 // @ts-ignore - Docker container has Next.js types
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/lib/auth'
+import { api, ApiError, type PasswordPolicy, type PasswordViolation, type RegistrationPolicy, type SsoProvider } from '@/lib/api'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -11,13 +12,22 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 
 export default function LoginPage() {
   const router = useRouter()
-  const { user, login } = useAuth()
-  const [isLogin, setIsLogin] = useState(true)
+  const { user, login, verifyTwoFactor } = useAuth()
+  const [mode, setMode] = useState<'login' | 'register' | 'forgot' | 'verify' | '2fa'>('login')
+  const isLogin = mode === 'login'
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [showPassword, setShowPassword] = useState(false)
+  const [code, setCode] = useState('')
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
   const [loading, setLoading] = useState(false)
+  const [ssoProviders, setSsoProviders] = useState<SsoProvider[]>([])
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null)
+  const [violations, setViolations] = useState<PasswordViolation[]>([])
+  const [registration, setRegistration] = useState<RegistrationPolicy | null>(null)
+  const [setupRequired, setSetupRequired] = useState(false)
+  const canSignUp = !registration || registration.mode === 'open' || registration.mode === 'domain-allowlist'
 
   useEffect(() => {
     if (user) {
@@ -25,30 +35,87 @@ export default function LoginPage() {
     }
   }, [user, router])
 
+  useEffect(() => {
+    // The SSO callback redirects here with the outcome in the query string
+    const params = new URLSearchParams(window.location.search)
+    const ssoError = params.get('ssoError')
+    if (ssoError) {
+      setError(ssoError)
+    }
+    if (params.get('sso') === '2fa') {
+      setMode('2fa')
+    }
+
+    api.getSsoProviders().then(setSsoProviders).catch(() => setSsoProviders([]))
+    api.getPasswordPolicy().then(setPasswordPolicy).catch(() => setPasswordPolicy(null))
+    api.getRegistrationPolicy().then(setRegistration).catch(() => setRegistration(null))
+    api.getSetupStatus().then(status => setSetupRequired(status.required)).catch(() => setSetupRequired(false))
+  }, [])
+
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setError('')
+    setNotice('')
+    setViolations([])
     setLoading(true)
 
     try {
+      if (mode === 'forgot') {
+        const response = await api.forgotPassword(email)
+        setNotice(response.message)
+        return
+      }
+
       if (isLogin) {
-        await login(email, password)
+        if (await login(email, password)) {
+          setMode('2fa')
+          return
+        }
       } else {
-        const response = await fetch('http://localhost:3001/auth/register', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          credentials: 'include',
-          body: JSON.stringify({ email, password }),
-        })
-        
-        if (!response.ok) {
-          const error = await response.json()
-          throw new Error(error.message)
+        const response = await api.register(email, password)
+        if (response.verificationRequired) {
+          setMode('verify')
+          return
         }
-        
+
         await login(email, password)
       }
       router.push('/')
+    } catch (err) {
+      if (err instanceof ApiError && err.code === 'EMAIL_NOT_VERIFIED') {
+        setMode('verify')
+        return
+      }
+      if (err instanceof ApiError && err.violations?.length) {
+        setViolations(err.violations)
+        return
+      }
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleResendVerification = async () => {
+    setError('')
+    setLoading(true)
+    try {
+      const response = await api.resendVerification(email)
+      setNotice(response.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleVerifyTwoFactor = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+    try {
+      await verifyTwoFactor(code)
+      router.push('/')
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
@@ -56,6 +123,110 @@ export default function LoginPage() {
     }
   }
 
+  if (mode === '2fa') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 px-4">
+        <Card className="w-full max-w-md relative bg-white/80 backdrop-blur-md border-white/20 shadow-2xl">
+          <CardHeader className="space-y-1 text-center">
+            <div className="mx-auto w-12 h-12 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full flex items-center justify-center mb-4 text-white text-xl">
+              🔑
+            </div>
+            <CardTitle className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+              Two-factor authentication
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              Enter the code from your authenticator app, or one of your recovery codes
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleVerifyTwoFactor} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code" className="text-sm font-medium text-gray-700">Authentication code</Label>
+                <Input
+                  id="code"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+                  className="border-gray-200 focus:border-blue-500 focus:ring-blue-500/20 bg-white/50 backdrop-blur-sm"
+                  required
+                />
+              </div>
+              {error && (
+                <div className="bg-gradient-to-r from-red-50 to-pink-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+              <Button
+                type="submit"
+                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
+                disabled={loading}
+              >
+                {loading ? 'Verifying...' : 'Verify'}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => { setMode('login'); setCode(''); setError('') }}
+              >
+                Back to sign in
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (mode === 'verify') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 px-4">
+        <Card className="w-full max-w-md relative bg-white/80 backdrop-blur-md border-white/20 shadow-2xl">
+          <CardHeader className="space-y-1 text-center">
+            <div className="mx-auto w-12 h-12 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full flex items-center justify-center mb-4 text-white text-xl">
+              ✉
+            </div>
+            <CardTitle className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+              Check your inbox
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              We sent a verification link to <span className="font-medium text-gray-900">{email}</span>.
+              Open it to activate your account, then sign in.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {notice && (
+              <div className="bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm">
+                {notice}
+              </div>
+            )}
+            {error && (
+              <div className="bg-gradient-to-r from-red-50 to-pink-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleResendVerification}
+              disabled={loading}
+            >
+              {loading ? 'Sending...' : 'Resend verification email'}
+            </Button>
+            <Button
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
+              onClick={() => { setMode('login'); setError(''); setNotice('') }}
+            >
+              Back to sign in
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 px-4">
       {/* Background decoration */}
@@ -72,12 +243,14 @@ export default function LoginPage() {
             </div>
           </div>
           <CardTitle className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
-            {isLogin ? 'Welcome back' : 'Create account'}
+            {mode === 'forgot' ? 'Reset password' : isLogin ? 'Welcome back' : 'Create account'}
           </CardTitle>
           <CardDescription className="text-gray-600">
-            {isLogin 
-              ? 'Enter your credentials to access your account'
-              : 'Enter your details to create a new account'
+            {mode === 'forgot'
+              ? 'Enter your email and we will send you a reset link'
+              : isLogin
+                ? 'Enter your credentials to access your account'
+                : 'Enter your details to create a new account'
             }
           </CardDescription>
         </CardHeader>
@@ -98,29 +271,66 @@ export default function LoginPage() {
                 />
               </div>
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-sm font-medium text-gray-700">Password</Label>
-              <div className="relative">
-                <div className="absolute left-3 top-3 w-4 h-4 text-gray-400 text-sm">🔒</div>
-                <Input
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
-                  placeholder="Enter your password"
-                  value={password}
-                  onChange={(e: ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
-                  className="pl-10 pr-10 border-gray-200 focus:border-blue-500 focus:ring-blue-500/20 bg-white/50 backdrop-blur-sm"
-                  required
-                  minLength={6}
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-3 text-gray-400 hover:text-gray-600 transition-colors text-sm"
-                >
-                  {showPassword ? '🙈' : '👁️'}
-                </button>
+            {mode !== 'forgot' && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password" className="text-sm font-medium text-gray-700">Password</Label>
+                  {isLogin && (
+                    <button
+                      type="button"
+                      onClick={() => { setMode('forgot'); setError(''); setNotice('') }}
+                      className="text-xs font-medium text-blue-600 hover:text-blue-500 transition-colors"
+                    >
+                      Forgot password?
+                    </button>
+                  )}
+                </div>
+                <div className="relative">
+                  <div className="absolute left-3 top-3 w-4 h-4 text-gray-400 text-sm">🔒</div>
+                  <Input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    placeholder="Enter your password"
+                    value={password}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                    className="pl-10 pr-10 border-gray-200 focus:border-blue-500 focus:ring-blue-500/20 bg-white/50 backdrop-blur-sm"
+                    required
+                    minLength={mode === 'register' ? passwordPolicy?.minLength : undefined}
+                    aria-describedby={mode === 'register' ? 'password-policy' : undefined}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-3 text-gray-400 hover:text-gray-600 transition-colors text-sm"
+                  >
+                    {showPassword ? '🙈' : '👁️'}
+                  </button>
+                </div>
+                {mode === 'register' && registration?.mode === 'domain-allowlist' && (
+                  <p className="text-xs text-gray-500">
+                    Sign-up is open to addresses at {registration.allowedDomains.join(', ')}.
+                  </p>
+                )}
+                {mode === 'register' && passwordPolicy && (
+                  <p id="password-policy" className="text-xs text-gray-500">
+                    At least {passwordPolicy.minLength} characters, mixing {passwordPolicy.minCharacterClasses} of
+                    lower-case, upper-case, digits and symbols. Common passwords and ones containing your email are rejected.
+                  </p>
+                )}
+                {violations.length > 0 && (
+                  <ul className="text-xs text-red-600 space-y-1 list-disc pl-4">
+                    {violations.map((violation) => (
+                      <li key={violation.code}>{violation.message}</li>
+                    ))}
+                  </ul>
+                )}
               </div>
-            </div>
+            )}
+            {notice && (
+              <div className="bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm">
+                {notice}
+              </div>
+            )}
             {error && (
               <div className="bg-gradient-to-r from-red-50 to-pink-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
                 {error}
@@ -137,7 +347,7 @@ export default function LoginPage() {
                   <span>Please wait...</span>
                 </div>
               ) : (
-                isLogin ? 'Sign in' : 'Create account'
+                mode === 'forgot' ? 'Send reset link' : isLogin ? 'Sign in' : 'Create account'
               )}
             </Button>
           </form>
@@ -151,16 +361,51 @@ export default function LoginPage() {
                 <span className="px-2 bg-white text-gray-500">or</span>
               </div>
             </div>
-            <p className="mt-4 text-sm text-gray-600">
-              {isLogin ? "Don't have an account?" : "Already have an account?"}
-              <button
-                type="button"
-                onClick={() => setIsLogin(!isLogin)}
-                className="ml-1 font-medium text-blue-600 hover:text-blue-500 transition-colors"
-              >
-                {isLogin ? 'Sign up' : 'Sign in'}
-              </button>
-            </p>
+            {isLogin && ssoProviders.length > 0 && (
+              <div className="mt-4 space-y-2">
+                {ssoProviders.map((provider) => (
+                  <Button
+                    key={provider.id}
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => { window.location.href = api.ssoLoginUrl(provider.id) }}
+                  >
+                    Sign in with {provider.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {setupRequired && (
+              <p className="mt-4 text-sm text-gray-600">
+                No administrator exists yet.
+                <button
+                  type="button"
+                  onClick={() => router.push('/setup')}
+                  className="ml-1 font-medium text-blue-600 hover:text-blue-500 transition-colors"
+                >
+                  Finish setup
+                </button>
+              </p>
+            )}
+            {isLogin && !canSignUp ? (
+              <p className="mt-4 text-sm text-gray-600">
+                {registration?.mode === 'invite-only'
+                  ? 'New accounts are by invitation only.'
+                  : 'Ask an administrator for an account.'}
+              </p>
+            ) : (
+              <p className="mt-4 text-sm text-gray-600">
+                {isLogin ? "Don't have an account?" : mode === 'forgot' ? 'Remembered it?' : 'Already have an account?'}
+                <button
+                  type="button"
+                  onClick={() => { setMode(isLogin ? 'register' : 'login'); setError(''); setNotice(''); setViolations([]) }}
+                  className="ml-1 font-medium text-blue-600 hover:text-blue-500 transition-colors"
+                >
+                  {isLogin ? 'Sign up' : 'Sign in'}
+                </button>
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -1,6 +1,6 @@
 'use client'
 
-import { useAuth } from '@/lib/auth'
+import { useAuth, hasPermission } from '@/lib/auth'
 import { useRouter } from 'next/navigation'
 import { useEffect } from 'react'
 import { DashboardLayout } from '@/components/dashboard-layout'
@@ -45,18 +45,20 @@ export default function HomePage() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           <Card className="bg-gradient-to-br from-emerald-50 to-teal-50 border-emerald-200">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium text-emerald-700">Your Role</CardTitle>
+              <CardTitle className="text-sm font-medium text-emerald-700">Your Roles</CardTitle>
               <Shield className="h-4 w-4 text-emerald-600" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold capitalize text-emerald-800">{user.role}</div>
+              <div className="text-2xl font-bold capitalize text-emerald-800">{user.roles.join(', ')}</div>
               <p className="text-xs text-emerald-600">
-                {user.role === 'admin' ? 'Full system access' : 'Limited access'}
+                {user.permissions.length > 0
+                  ? `${user.permissions.length} administrative permission${user.permissions.length === 1 ? '' : 's'}`
+                  : 'Limited access'}
               </p>
             </CardContent>
           </Card>
 
-          {user.role === 'admin' && (
+          {hasPermission(user, 'users.read') && (
             <Card className="bg-gradient-to-br from-violet-50 to-purple-50 border-violet-200">
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                 <CardTitle className="text-sm font-medium text-violet-700">User Management</CardTitle>
@@ -124,9 +126,6 @@ export default function HomePage() {
                 <h4 className="font-semibold text-amber-600">⚠ Known Limitations</h4>
                 <ul className="text-sm text-slate-600 space-y-1">
                   <li>• No refresh tokens</li>
-                  <li>• No rate limiting</li>
-                  <li>• Single session per user</li>
-                  <li>• Two-role RBAC only</li>
                   <li>• In-memory sessions (dev only)</li>
                 </ul>
               </div>
@@ -2,16 +2,32 @@
 
 import { useAuth } from '@/lib/auth'
 import { useRouter } from 'next/navigation'
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/api'
 import { DashboardLayout } from '@/components/dashboard-layout'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { SessionsCard } from '@/components/sessions-card'
+import { ApiTokensCard } from '@/components/api-tokens-card'
+import { ChangePasswordCard } from '@/components/change-password-card'
+import { TwoFactorCard } from '@/components/two-factor-card'
 
 export default function SettingsPage() {
   const { user, loading } = useAuth()
   const router = useRouter()
+  const [verificationNotice, setVerificationNotice] = useState('')
+
+  const handleResendVerification = async () => {
+    if (!user) return
+    try {
+      const response = await api.resendVerification(user.email)
+      setVerificationNotice(response.message)
+    } catch (err) {
+      setVerificationNotice(err instanceof Error ? err.message : 'Failed to send verification email')
+    }
+  }
 
   useEffect(() => {
     if (!loading && !user) {
@@ -49,10 +65,21 @@ export default function SettingsPage() {
               <div>
                 <Label htmlFor="email">Email Address</Label>
                 <Input id="email" value={user.email} disabled className="mt-1" />
+                {user.emailVerified ? (
+                  <p className="text-xs text-green-600 mt-1">✓ Verified</p>
+                ) : (
+                  <div className="flex items-center justify-between mt-1">
+                    <p className="text-xs text-orange-600">Not verified — some features are restricted</p>
+                    <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={handleResendVerification}>
+                      Resend link
+                    </Button>
+                  </div>
+                )}
+                {verificationNotice && <p className="text-xs text-gray-500 mt-1">{verificationNotice}</p>}
               </div>
               <div>
-                <Label htmlFor="role">Role</Label>
-                <Input id="role" value={user.role} disabled className="mt-1 capitalize" />
+                <Label htmlFor="roles">Roles</Label>
+                <Input id="roles" value={user.roles.join(', ')} disabled className="mt-1 capitalize" />
               </div>
               <div>
                 <Label htmlFor="userId">User ID</Label>
@@ -74,32 +101,26 @@ export default function SettingsPage() {
                   <li>• BCrypt password hashing</li>
                   <li>• Same-site cookie protection</li>
                   <li>• Role-based access control</li>
-                </ul>
-              </div>
-              <div className="space-y-2">
-                <h4 className="font-semibold text-orange-600">⚠ Limitations</h4>
-                <ul className="text-sm text-gray-600 space-y-1">
-                  <li>• No password change feature</li>
-                  <li>• No 2FA implementation</li>
-                  <li>• Single session per user</li>
+                  <li>• TOTP two-factor authentication</li>
                 </ul>
               </div>
             </CardContent>
           </Card>
         </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Session Information</CardTitle>
-            <CardDescription>Current session details</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="text-sm text-gray-600">
-              <p>You are currently logged in with session-based authentication.</p>
-              <p className="mt-2">Session cookies are HTTP-only and secure.</p>
-            </div>
-          </CardContent>
-        </Card>
+        {user.twoFactorEnrollmentRequired && (
+          <div className="bg-orange-50 border border-orange-200 text-orange-700 px-4 py-3 rounded-lg text-sm">
+            One of your roles requires two-factor authentication. Enable it below to regain access to protected areas.
+          </div>
+        )}
+
+        <TwoFactorCard />
+
+        <ChangePasswordCard />
+
+        <SessionsCard />
+
+        {user.permissions.length > 0 && <ApiTokensCard />}
       </div>
     </DashboardLayout>
   )
@@ -0,0 +1,145 @@
+'use client'
+
+import { useState, useEffect, ChangeEvent, FormEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { api, ApiError, type PasswordPolicy, type PasswordViolation } from '@/lib/api'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+export default function SetupPage() {
+  const router = useRouter()
+  const { refreshUser } = useAuth()
+  // null while the status is loading
+  const [required, setRequired] = useState<boolean | null>(null)
+  const [token, setToken] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null)
+  const [violations, setViolations] = useState<PasswordViolation[]>([])
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    api.getSetupStatus().then(status => setRequired(status.required)).catch(() => setRequired(false))
+    api.getPasswordPolicy().then(setPasswordPolicy).catch(() => setPasswordPolicy(null))
+  }, [])
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setError('')
+    setViolations([])
+    setLoading(true)
+    try {
+      await api.completeSetup(token, email, password)
+      await refreshUser()
+      router.push('/admin')
+    } catch (err) {
+      if (err instanceof ApiError && err.violations?.length) {
+        setViolations(err.violations)
+        return
+      }
+      if (err instanceof ApiError && err.code === 'SETUP_COMPLETED') {
+        setRequired(false)
+      }
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 px-4">
+      <Card className="w-full max-w-md bg-white/80 backdrop-blur-md border-white/20 shadow-2xl">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+            Set up your installation
+          </CardTitle>
+          <CardDescription className="text-gray-600">
+            Create the first super admin account
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {required === null ? (
+            <div className="text-sm text-gray-600 text-center">Loading...</div>
+          ) : !required ? (
+            <div className="space-y-4">
+              <div className="bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm">
+                Setup has already been completed.
+              </div>
+              <Button variant="outline" className="w-full" onClick={() => router.push('/login')}>
+                Back to sign in
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="token" className="text-sm font-medium text-gray-700">Setup token</Label>
+                <Input
+                  id="token"
+                  type="password"
+                  value={token}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setToken(e.target.value)}
+                  required
+                  aria-describedby="token-help"
+                />
+                <p id="token-help" className="text-xs text-gray-500">
+                  The value of SETUP_TOKEN, or the token the backend logged when it started.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-sm font-medium text-gray-700">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-sm font-medium text-gray-700">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                  required
+                  minLength={passwordPolicy?.minLength}
+                  aria-describedby="password-policy"
+                />
+                {passwordPolicy && (
+                  <p id="password-policy" className="text-xs text-gray-500">
+                    At least {passwordPolicy.minLength} characters, mixing {passwordPolicy.minCharacterClasses} of
+                    lower-case, upper-case, digits and symbols. Common passwords and ones containing your email are rejected.
+                  </p>
+                )}
+                {violations.length > 0 && (
+                  <ul className="text-xs text-red-600 space-y-1 list-disc pl-4">
+                    {violations.map((violation) => (
+                      <li key={violation.code}>{violation.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              {error && (
+                <div className="bg-gradient-to-r from-red-50 to-pink-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+              <Button
+                type="submit"
+                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
+                disabled={loading}
+              >
+                {loading ? 'Please wait...' : 'Create super admin'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { api } from '@/lib/api'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+export default function VerifyEmailPage() {
+  const { user } = useAuth()
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying')
+  const [error, setError] = useState('')
+
+  const verify = async () => {
+    const token = new URLSearchParams(window.location.search).get('token')
+    if (!token) {
+      setStatus('failed')
+      setError('This verification link is missing its token.')
+      return
+    }
+
+    try {
+      await api.verifyEmail(token)
+      setStatus('verified')
+    } catch (err) {
+      setStatus('failed')
+      setError(err instanceof Error ? err.message : 'Verification failed')
+    }
+  }
+
+  useEffect(() => {
+    verify()
+  }, [])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 px-4">
+      <Card className="w-full max-w-md bg-white/80 backdrop-blur-md border-white/20 shadow-2xl">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+            Email verification
+          </CardTitle>
+          <CardDescription className="text-gray-600">
+            {status === 'verifying' && 'Verifying your email address...'}
+            {status === 'verified' && 'Your email address has been verified.'}
+            {status === 'failed' && 'We could not verify your email address.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="bg-gradient-to-r from-red-50 to-pink-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+          {status !== 'verifying' && (
+            <Button
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
+              // Full reload so the auth context picks up the verified status
+              onClick={() => window.location.assign(user ? '/' : '/login')}
+            >
+              {user ? 'Go to dashboard' : 'Go to sign in'}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
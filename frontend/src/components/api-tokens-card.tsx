@@ -0,0 +1,197 @@
+'use client'
+
+import { useEffect, useState, ChangeEvent, FormEvent } from 'react'
+import { api, type ApiToken } from '@/lib/api'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { KeyRound } from 'lucide-react'
+
+const LIFETIMES = [7, 30, 90, 365]
+
+export function ApiTokensCard() {
+  const { user } = useAuth()
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<string[]>([])
+  const [expiresInDays, setExpiresInDays] = useState(90)
+  const [createdToken, setCreatedToken] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const permissions = user?.permissions ?? []
+
+  useEffect(() => {
+    const loadTokens = async () => {
+      try {
+        setTokens(await api.getApiTokens())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load tokens')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadTokens()
+  }, [])
+
+  const toggleScope = (scope: string) => {
+    setScopes(scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope])
+  }
+
+  const handleCreate = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setBusy('create')
+    setError('')
+    setCreatedToken('')
+    try {
+      const { token, apiToken } = await api.createApiToken(name, scopes, expiresInDays)
+      setTokens([apiToken, ...tokens])
+      setCreatedToken(token)
+      setName('')
+      setScopes([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      return
+    }
+    setBusy(token.id)
+    setError('')
+    try {
+      await api.revokeApiToken(token.id)
+      setTokens(tokens.filter(t => t.id !== token.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke token')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Tokens</CardTitle>
+        <CardDescription>
+          Personal access tokens let scripts call the API as you, limited to the permissions you pick.
+          Send them as <span className="font-mono">Authorization: Bearer &lt;token&gt;</span>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+        {createdToken && (
+          <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm space-y-2">
+            <p>Copy your new token now. It will not be shown again.</p>
+            <p className="font-mono break-all select-all bg-white border border-green-200 rounded px-2 py-1">{createdToken}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="tokenName">Name</Label>
+              <Input
+                id="tokenName"
+                value={name}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                placeholder="Nightly user sync"
+                className="mt-1"
+                maxLength={100}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="tokenLifetime">Expires after</Label>
+              <select
+                id="tokenLifetime"
+                value={expiresInDays}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => setExpiresInDays(Number(e.target.value))}
+                className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                {LIFETIMES.map((days) => (
+                  <option key={days} value={days}>{days} days</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <Label>Scopes</Label>
+            {permissions.length === 0 ? (
+              <p className="mt-1 text-sm text-gray-500">Your roles grant no permissions a token could use.</p>
+            ) : (
+              <div className="mt-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+                {permissions.map((permission) => (
+                  <label key={permission} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(permission)}
+                      onChange={() => toggleScope(permission)}
+                    />
+                    <span className="font-mono text-gray-800">{permission}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          <Button type="submit" disabled={busy !== null || scopes.length === 0}>
+            {busy === 'create' ? 'Creating...' : 'Create token'}
+          </Button>
+        </form>
+
+        {loading ? (
+          <div className="text-sm text-gray-600">Loading tokens...</div>
+        ) : (
+          <div className="space-y-3">
+            {tokens.map((token) => (
+              <div
+                key={token.id}
+                className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  <KeyRound className="h-5 w-5 text-gray-400 shrink-0" />
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {token.name} <span className="font-mono text-gray-500">{token.prefix}…</span>
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline">{scope}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {token.expired ? 'Expired' : 'Expires'} {new Date(token.expiresAt).toLocaleDateString()}
+                      {' · '}
+                      {token.lastUsedAt
+                        ? `last used ${new Date(token.lastUsedAt).toLocaleString()} from ${token.lastUsedIp ?? 'unknown IP'}`
+                        : 'never used'}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(token)}
+                  disabled={busy !== null}
+                >
+                  {busy === token.id ? 'Revoking...' : 'Revoke'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
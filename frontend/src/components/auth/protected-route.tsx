@@ -1,15 +1,17 @@
 'use client'
 
-import { useAuth } from '@/lib/auth';
+import { useAuth, hasPermission } from '@/lib/auth';
+import type { User } from '@/lib/api';
 import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: 'admin' | 'user';
+  requiredRole?: string;
+  requiredPermission?: string;
 }
 
-export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps) {
+export function ProtectedRoute({ children, requiredRole, requiredPermission }: ProtectedRouteProps) {
   const { user, loading } = useAuth();
   const router = useRouter();
 
@@ -20,20 +22,25 @@ export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps)
         return;
       }
 
-      if (requiredRole && user.role !== requiredRole) {
+      if (!isAllowed(user, requiredRole, requiredPermission)) {
         router.push('/');
         return;
       }
     }
-  }, [user, loading, requiredRole, router]);
+  }, [user, loading, requiredRole, requiredPermission, router]);
 
   if (loading) {
     return <div className="flex justify-center items-center min-h-screen">Loading...</div>;
   }
 
-  if (!user || (requiredRole && user.role !== requiredRole)) {
+  if (!user || !isAllowed(user, requiredRole, requiredPermission)) {
     return null;
   }
 
   return <>{children}</>;
-}
\ No newline at end of file
+}
+
+function isAllowed(user: User, requiredRole?: string, requiredPermission?: string): boolean {
+  if (requiredRole && !user.roles.includes(requiredRole)) return false;
+  return !requiredPermission || hasPermission(user, requiredPermission);
+}
@@ -3,9 +3,10 @@
 import { Sidebar } from '@/components/sidebar'
 import { Button } from '@/components/ui/button'
 import { LogOut } from 'lucide-react'
+import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/lib/auth'
-import { type User } from '@/lib/api'
+import { api, type User } from '@/lib/api'
 
 interface DashboardLayoutProps {
   user: User
@@ -15,6 +16,7 @@ interface DashboardLayoutProps {
 export function DashboardLayout({ user, children }: DashboardLayoutProps) {
   const router = useRouter()
   const { logout } = useAuth()
+  const [exiting, setExiting] = useState(false)
 
   const handleLogout = async () => {
     try {
@@ -25,32 +27,62 @@ export function DashboardLayout({ user, children }: DashboardLayoutProps) {
     }
   }
 
+  const handleExitImpersonation = async () => {
+    setExiting(true)
+    try {
+      const { restored } = await api.endImpersonation()
+      // A full reload drops everything loaded as the impersonated user
+      window.location.href = restored ? '/admin' : '/login'
+    } catch (error) {
+      console.error('Ending impersonation failed:', error)
+      setExiting(false)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
       <Sidebar user={user} />
       <div className="lg:pl-64">
-        <div className="sticky top-0 z-10 bg-white/80 backdrop-blur-md border-b border-gray-200 px-6 py-4 lg:px-8">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-3">
-              <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
-                <span className="text-sm font-medium text-white">
-                  {user.email.charAt(0).toUpperCase()}
-                </span>
-              </div>
-              <div>
-                <p className="text-sm font-medium text-gray-900">{user.email}</p>
-                <p className="text-xs text-gray-500 capitalize">{user.role}</p>
+        <div className="sticky top-0 z-10">
+          {user.impersonator && (
+            <div className="bg-amber-500 text-amber-950 px-6 py-2 lg:px-8 flex items-center justify-between text-sm">
+              <span>
+                You are viewing as <span className="font-semibold">{user.email}</span> (signed in as {user.impersonator.email})
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExitImpersonation}
+                disabled={exiting}
+                className="border-amber-700 bg-amber-100 hover:bg-amber-200"
+              >
+                {exiting ? 'Exiting...' : 'Exit'}
+              </Button>
+            </div>
+          )}
+          <div className="bg-white/80 backdrop-blur-md border-b border-gray-200 px-6 py-4 lg:px-8">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+                  <span className="text-sm font-medium text-white">
+                    {user.email.charAt(0).toUpperCase()}
+                  </span>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{user.email}</p>
+                  <p className="text-xs text-gray-500 capitalize">{user.roles.join(', ')}</p>
+                </div>
               </div>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={handleLogout}
+                className="border-gray-300 hover:bg-gradient-to-r hover:from-red-50 hover:to-pink-50 hover:border-red-300"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Logout
+              </Button>
             </div>
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={handleLogout}
-              className="border-gray-300 hover:bg-gradient-to-r hover:from-red-50 hover:to-pink-50 hover:border-red-300"
-            >
-              <LogOut className="h-4 w-4 mr-2" />
-              Logout
-            </Button>
           </div>
         </div>
         <main className="p-6 lg:p-8">
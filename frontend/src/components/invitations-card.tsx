@@ -0,0 +1,206 @@
+'use client'
+
+import { useEffect, useState, ChangeEvent, FormEvent } from 'react'
+import { api, type Invitation, type Role } from '@/lib/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Mail } from 'lucide-react'
+
+const LIFETIMES = [1, 3, 7, 14, 30]
+
+interface InvitationsCardProps {
+  // Roles the caller may hand out; empty when roles cannot be read
+  roles: Role[]
+  // Set when invitations go to the active organization rather than the whole system
+  organizationName: string | null
+}
+
+export function InvitationsCard({ roles, organizationName }: InvitationsCardProps) {
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState('user')
+  const [expiresInDays, setExpiresInDays] = useState(7)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const loadInvitations = async () => {
+      try {
+        setInvitations(await api.getInvitations())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load invitations')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadInvitations()
+  }, [])
+
+  const replaceInvitation = (updated: Invitation) => {
+    setInvitations(invitations.map(invitation => invitation.id === updated.id ? updated : invitation))
+  }
+
+  const handleCreate = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setBusy('create')
+    setError('')
+    try {
+      const created = await api.createInvitation(email, roles.length > 0 ? role : undefined, expiresInDays)
+      setInvitations([created, ...invitations])
+      setEmail('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send invitation')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleResend = async (invitation: Invitation) => {
+    setBusy(invitation.id)
+    setError('')
+    try {
+      replaceInvitation(await api.resendInvitation(invitation.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resend invitation')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}? The link in their email will stop working.`)) {
+      return
+    }
+    setBusy(invitation.id)
+    setError('')
+    try {
+      await api.revokeInvitation(invitation.id)
+      setInvitations(invitations.filter(i => i.id !== invitation.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invitation')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <Card className="bg-gradient-to-br from-white to-slate-50 border-slate-200 shadow-lg">
+      <CardHeader className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-t-lg">
+        <CardTitle className="text-slate-800">Invitations</CardTitle>
+        <CardDescription className="text-slate-600">
+          {organizationName
+            ? `Invitees choose their own password and join ${organizationName} with the role you pick`
+            : 'Invitees choose their own password and get the role you pick'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label htmlFor="inviteEmail">Email</Label>
+            <Input
+              id="inviteEmail"
+              type="email"
+              value={email}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+              className="mt-1"
+              required
+            />
+          </div>
+          {roles.length > 0 && (
+            <div>
+              <Label htmlFor="inviteRole">Role</Label>
+              <select
+                id="inviteRole"
+                value={role}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => setRole(e.target.value)}
+                className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                {roles.map((r) => (
+                  <option key={r.name} value={r.name}>{r.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="inviteLifetime">Link expires after</Label>
+            <select
+              id="inviteLifetime"
+              value={expiresInDays}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => setExpiresInDays(Number(e.target.value))}
+              className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              {LIFETIMES.map((days) => (
+                <option key={days} value={days}>{days === 1 ? '1 day' : `${days} days`}</option>
+              ))}
+            </select>
+          </div>
+          <Button type="submit" disabled={busy !== null}>
+            {busy === 'create' ? 'Sending...' : 'Send invitation'}
+          </Button>
+        </form>
+
+        {loading ? (
+          <div className="text-sm text-slate-600">Loading invitations...</div>
+        ) : invitations.length === 0 ? (
+          <div className="text-sm text-slate-600">No pending invitations</div>
+        ) : (
+          <div className="space-y-3">
+            {invitations.map((invitation) => {
+              const expired = new Date(invitation.expiresAt) < new Date()
+              return (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between p-3 border border-slate-200 rounded-lg"
+                >
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <Mail className="h-5 w-5 text-slate-400 shrink-0" />
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-sm font-medium text-slate-900 truncate">
+                        {invitation.email} <Badge variant="outline">{invitation.role}</Badge>
+                      </p>
+                      <p className={`text-xs ${expired ? 'text-red-600' : 'text-slate-500'}`}>
+                        {expired ? 'Expired' : 'Expires'} {new Date(invitation.expiresAt).toLocaleString()}
+                        {' · '}
+                        sent {new Date(invitation.lastSentAt).toLocaleString()}
+                        {invitation.invitedByEmail && ` by ${invitation.invitedByEmail}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex space-x-2 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleResend(invitation)}
+                      disabled={busy !== null}
+                    >
+                      {busy === invitation.id ? 'Working...' : 'Resend'}
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleRevoke(invitation)}
+                      disabled={busy !== null}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,58 @@
+'use client'
+
+import { useState, useEffect, ChangeEvent } from 'react'
+import { api, type MyOrganization } from '@/lib/api'
+
+export function OrganizationSwitcher() {
+  const [organizations, setOrganizations] = useState<MyOrganization[]>([])
+  const [switching, setSwitching] = useState(false)
+
+  useEffect(() => {
+    const loadOrganizations = async () => {
+      try {
+        setOrganizations(await api.getMyOrganizations())
+      } catch (error) {
+        console.error('Failed to load organizations:', error)
+      }
+    }
+
+    loadOrganizations()
+  }, [])
+
+  const handleChange = async (e: ChangeEvent<HTMLSelectElement>) => {
+    setSwitching(true)
+    try {
+      await api.selectOrganization(e.target.value)
+      // Full reload so every page refetches with the new organization's permissions
+      window.location.reload()
+    } catch (error) {
+      console.error('Failed to switch organization:', error)
+      setSwitching(false)
+    }
+  }
+
+  if (organizations.length === 0) {
+    return null
+  }
+
+  const active = organizations.find(organization => organization.active)
+
+  return (
+    <div className="mt-4">
+      <label htmlFor="organization" className="text-xs font-medium text-gray-500">Organization</label>
+      <select
+        id="organization"
+        value={active?.id ?? ''}
+        onChange={handleChange}
+        disabled={switching}
+        className="mt-1 flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm"
+      >
+        {organizations.map((organization) => (
+          <option key={organization.id} value={organization.id}>
+            {organization.name} ({organization.role})
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
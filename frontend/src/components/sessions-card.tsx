@@ -0,0 +1,126 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { api, type SessionInfo } from '@/lib/api'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Monitor } from 'lucide-react'
+
+export function SessionsCard() {
+  const router = useRouter()
+  const { refreshUser } = useAuth()
+  const [sessions, setSessions] = useState<SessionInfo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await api.getSessions())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSessions()
+  }, [])
+
+  const handleRevoke = async (session: SessionInfo) => {
+    setBusy(session.id)
+    setError('')
+    try {
+      await api.revokeSession(session.id)
+      if (session.current) {
+        await refreshUser()
+        router.push('/login')
+        return
+      }
+      setSessions(sessions.filter(s => s.id !== session.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke session')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleRevokeOthers = async () => {
+    setBusy('others')
+    setError('')
+    try {
+      await api.revokeOtherSessions()
+      setSessions(sessions.filter(s => s.current))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke sessions')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Active Sessions</CardTitle>
+          <CardDescription>Devices currently signed in to your account</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRevokeOthers}
+          disabled={busy !== null || sessions.length < 2}
+        >
+          {busy === 'others' ? 'Signing out...' : 'Sign out other sessions'}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+        {loading ? (
+          <div className="text-sm text-gray-600">Loading sessions...</div>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  <Monitor className="h-5 w-5 text-gray-400 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {session.userAgent || 'Unknown device'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {session.ipAddress || 'Unknown IP'} · last active {new Date(session.lastActiveAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3 shrink-0">
+                  {session.current && <Badge variant="secondary">This device</Badge>}
+                  {session.impersonated && <Badge variant="outline">Support access</Badge>}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(session)}
+                    disabled={busy !== null}
+                  >
+                    {busy === session.id ? 'Revoking...' : session.current ? 'Sign out' : 'Revoke'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
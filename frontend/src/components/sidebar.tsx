@@ -3,8 +3,10 @@
 import { useState } from 'react'
 import { useRouter, usePathname } from 'next/navigation'
 import { api, type User } from '@/lib/api'
+import { hasPermission } from '@/lib/auth'
 import { Button } from '@/components/ui/button'
-import { Menu, X, Home, Users, LogOut, Settings } from 'lucide-react'
+import { OrganizationSwitcher } from '@/components/organization-switcher'
+import { Menu, X, Home, Users, LogOut, Settings, ScrollText, KeyRound, Building2 } from 'lucide-react'
 
 interface SidebarProps {
   user: User
@@ -26,7 +28,10 @@ export function Sidebar({ user }: SidebarProps) {
 
   const navigation = [
     { name: 'Dashboard', href: '/', icon: Home },
-    ...(user.role === 'admin' ? [{ name: 'Users', href: '/admin', icon: Users }] : []),
+    ...(hasPermission(user, 'users.read') ? [{ name: 'Users', href: '/admin', icon: Users }] : []),
+    ...(hasPermission(user, 'organizations.manage') ? [{ name: 'Organizations', href: '/admin/organizations', icon: Building2 }] : []),
+    ...(hasPermission(user, 'roles.read') ? [{ name: 'Roles', href: '/admin/roles', icon: KeyRound }] : []),
+    ...(hasPermission(user, 'audit.read') ? [{ name: 'Audit Log', href: '/admin/audit', icon: ScrollText }] : []),
     { name: 'Settings', href: '/settings', icon: Settings },
   ]
 
@@ -69,9 +74,10 @@ export function Sidebar({ user }: SidebarProps) {
               </div>
               <div className="flex-1 min-w-0">
                 <p className="text-sm font-medium text-gray-900 truncate">{user.email}</p>
-                <p className="text-xs text-gray-500 capitalize">{user.role}</p>
+                <p className="text-xs text-gray-500 capitalize truncate">{user.roles.join(', ')}</p>
               </div>
             </div>
+            <OrganizationSwitcher />
           </div>
 
           {/* Navigation */}
@@ -0,0 +1,198 @@
+'use client'
+
+import { useState, useEffect, ChangeEvent, FormEvent } from 'react'
+import { api, type TwoFactorEnrollment, type TwoFactorStatus } from '@/lib/api'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+export function TwoFactorCard() {
+  const { refreshUser } = useAuth()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await api.getTwoFactorStatus())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor status')
+    }
+  }
+
+  useEffect(() => {
+    loadStatus()
+  }, [])
+
+  const run = async (action: () => Promise<void>) => {
+    setError('')
+    setLoading(true)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSetup = () => run(async () => {
+    setRecoveryCodes([])
+    setEnrollment(await api.setupTwoFactor())
+  })
+
+  const handleConfirm = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    return run(async () => {
+      const response = await api.confirmTwoFactor(code)
+      setRecoveryCodes(response.recoveryCodes)
+      setEnrollment(null)
+      setCode('')
+      await loadStatus()
+      await refreshUser()
+    })
+  }
+
+  const handleRegenerate = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    return run(async () => {
+      const response = await api.regenerateRecoveryCodes(code)
+      setRecoveryCodes(response.recoveryCodes)
+      setCode('')
+      await loadStatus()
+    })
+  }
+
+  const handleDisable = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    return run(async () => {
+      await api.disableTwoFactor(password)
+      setPassword('')
+      setRecoveryCodes([])
+      await loadStatus()
+      await refreshUser()
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            <CardDescription>Require a code from an authenticator app when signing in</CardDescription>
+          </div>
+          {status && (
+            <Badge variant={status.enabled ? 'default' : 'secondary'}>
+              {status.enabled ? 'Enabled' : 'Disabled'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {recoveryCodes.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 px-4 py-3 rounded-lg space-y-2">
+            <p className="text-sm font-medium text-amber-800">
+              Save these recovery codes somewhere safe. Each one can be used once if you lose your device, and they will not be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-1 font-mono text-sm text-gray-800">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {status && !status.enabled && !enrollment && (
+          <Button onClick={handleSetup} disabled={loading}>
+            {loading ? 'Please wait...' : 'Enable two-factor authentication'}
+          </Button>
+        )}
+
+        {enrollment && (
+          <form onSubmit={handleConfirm} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with your authenticator app, or enter the secret manually, then type the 6-digit code it shows.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={enrollment.qrCodeDataUrl} alt="Two-factor QR code" className="w-48 h-48" />
+            <p className="font-mono text-sm break-all text-gray-800">{enrollment.secret}</p>
+            <div>
+              <Label htmlFor="setupCode">Authentication Code</Label>
+              <Input
+                id="setupCode"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+                className="mt-1"
+                required
+              />
+            </div>
+            <div className="flex space-x-2">
+              <Button type="submit" disabled={loading}>
+                {loading ? 'Verifying...' : 'Verify and enable'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEnrollment(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {status?.enabled && (
+          <>
+            <p className="text-sm text-gray-600">
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} remaining.
+            </p>
+            <form onSubmit={handleRegenerate} className="space-y-2">
+              <Label htmlFor="regenerateCode">Generate new recovery codes</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="regenerateCode"
+                  placeholder="Authentication code"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+                  required
+                />
+                <Button type="submit" variant="outline" disabled={loading}>
+                  Regenerate
+                </Button>
+              </div>
+            </form>
+            <form onSubmit={handleDisable} className="space-y-2">
+              <Label htmlFor="disablePassword">Disable two-factor authentication</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="disablePassword"
+                  type="password"
+                  placeholder="Current password"
+                  value={password}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                  required
+                />
+                <Button type="submit" variant="destructive" disabled={loading}>
+                  Disable
+                </Button>
+              </div>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,37 +3,249 @@ const API_BASE = 'http://localhost:3001';
 export interface User {
   id: string;
   email: string;
-  role: 'user' | 'admin';
+  roles: string[];
+  permissions: string[];
+  organization: { id: string; name: string; role: string } | null;
+  // Set while an admin is viewing as this user
+  impersonator: { id: string; email: string } | null;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  twoFactorEnrollmentRequired: boolean;
 }
 
 export interface AuthResponse {
   message: string;
-  user: {
-    id: string;
-    email: string;
-    role: 'user' | 'admin';
-  };
+  verificationRequired?: boolean;
+  twoFactorRequired?: boolean;
+  user?: User;
 }
 
+export interface AdminUser {
+  id: string;
+  email: string;
+  roles: { name: string }[];
+  // Present when the list is scoped to the active organization
+  organizationRole?: string;
+  emailVerifiedAt: string | null;
+  twoFactorEnabledAt: string | null;
+  lockedUntil: string | null;
+  status: 'active' | 'disabled' | 'deleted';
+  statusReason: string | null;
+  // End of a temporary suspension; null while disabled means until re-enabled
+  disabledUntil: string | null;
+  deletedAt: string | null;
+  createdAt: string;
+}
+
+export interface Role {
+  name: string;
+  description: string;
+  system: boolean;
+  twoFactorRequired: boolean;
+  permissions: string[];
+  userCount: number;
+  createdAt: string;
+}
+
+export interface Permission {
+  key: string;
+  description: string;
+}
+
+export interface RoleInput {
+  name?: string;
+  description?: string;
+  twoFactorRequired?: boolean;
+  permissions?: string[];
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  memberCount: number;
+  createdAt: string;
+}
+
+export interface MyOrganization {
+  id: string;
+  name: string;
+  slug: string;
+  role: string;
+  active: boolean;
+}
+
+export interface AuditEvent {
+  id: string;
+  action: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  // The admin who acted while viewing as the actor
+  impersonatorId: string | null;
+  targetId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface AuditFilters {
+  actorId?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface UserQuery {
+  // Case-insensitive substring of the email address
+  q?: string;
+  role?: string;
+  status?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  sort?: 'createdAt' | 'email';
+  order?: 'asc' | 'desc';
+}
+
+export interface UserPage {
+  items: AdminUser[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface AuditPage {
+  items: AuditEvent[];
+  nextCursor: string | null;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface PasswordViolation {
+  // e.g. PASSWORD_TOO_SHORT, PASSWORD_COMMON, PASSWORD_REUSED
+  code: string;
+  message: string;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  minCharacterClasses: number;
+  historySize: number;
+}
+
+export interface RegistrationPolicy {
+  mode: 'open' | 'invite-only' | 'domain-allowlist' | 'closed';
+  // Only listed in domain-allowlist mode
+  allowedDomains: string[];
+}
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    // Set when a new password was rejected (code PASSWORD_POLICY)
+    public violations?: PasswordViolation[],
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  current: boolean;
+  impersonated: boolean;
+}
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  // Leading characters of the secret, to tell tokens apart
+  prefix: string;
+  scopes: string[];
+  organizationId: string | null;
+  expiresAt: string;
+  // Judged by the server's clock
+  expired: boolean;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+}
+
+export interface Invitation {
+  id: string;
+  email: string;
+  // Global role, or the role within organizationId when that is set
+  role: string;
+  organizationId: string | null;
+  invitedById: string | null;
+  invitedByEmail: string | null;
+  expiresAt: string;
+  lastSentAt: string;
+  createdAt: string;
+}
+
+export interface SsoProvider {
+  id: string;
+  name: string;
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
 class ApiClient {
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  // CSRF token of the current session, fetched on demand
+  private csrfToken: string | null = null;
+
+  private async request<T>(endpoint: string, options: RequestInit = {}, retryCsrf = true): Promise<T> {
+    const method = (options.method || 'GET').toUpperCase();
     const response = await fetch(`${API_BASE}${endpoint}`, {
       credentials: 'include',
+      ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(this.csrfToken && !SAFE_METHODS.includes(method) ? { 'X-CSRF-Token': this.csrfToken } : {}),
         ...options.headers,
       },
-      ...options,
     });
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ message: 'Request failed' }));
-      throw new Error(error.message || `HTTP ${response.status}`);
+
+      // No token yet, or it belonged to a previous session: fetch the current one and retry once
+      if (error.code === 'CSRF_TOKEN_INVALID' && retryCsrf) {
+        await this.refreshCsrfToken();
+        return this.request<T>(endpoint, options, false);
+      }
+
+      throw new ApiError(error.message || `HTTP ${response.status}`, response.status, error.code, error.violations);
     }
 
     return response.json();
   }
 
+  private async refreshCsrfToken(): Promise<void> {
+    this.csrfToken = null;
+    const { csrfToken } = await this.request<{ csrfToken: string }>('/auth/csrf');
+    this.csrfToken = csrfToken;
+  }
+
   async register(email: string, password: string): Promise<AuthResponse> {
     return this.request<AuthResponse>('/auth/register', {
       method: 'POST',
@@ -41,6 +253,25 @@ class ApiClient {
     });
   }
 
+  async getPasswordPolicy(): Promise<PasswordPolicy> {
+    return this.request<PasswordPolicy>('/auth/password-policy');
+  }
+
+  async getRegistrationPolicy(): Promise<RegistrationPolicy> {
+    return this.request<RegistrationPolicy>('/auth/registration');
+  }
+
+  async getSetupStatus(): Promise<{ required: boolean }> {
+    return this.request<{ required: boolean }>('/auth/setup');
+  }
+
+  async completeSetup(token: string, email: string, password: string): Promise<AuthResponse> {
+    return this.request<AuthResponse>('/auth/setup', {
+      method: 'POST',
+      body: JSON.stringify({ token, email, password }),
+    });
+  }
+
   async login(email: string, password: string): Promise<AuthResponse> {
     return this.request<AuthResponse>('/auth/login', {
       method: 'POST',
@@ -48,24 +279,300 @@ class ApiClient {
     });
   }
 
+  async verifyTwoFactor(code: string): Promise<AuthResponse> {
+    return this.request<AuthResponse>('/auth/2fa/verify', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async getSsoProviders(): Promise<SsoProvider[]> {
+    return this.request<SsoProvider[]>('/auth/oidc/providers');
+  }
+
+  // A full-page navigation target: the backend redirects on to the identity provider
+  ssoLoginUrl(providerId: string): string {
+    return `${API_BASE}/auth/oidc/${encodeURIComponent(providerId)}/login`;
+  }
+
   async logout(): Promise<void> {
     await this.request('/auth/logout', { method: 'POST' });
+    this.csrfToken = null;
+  }
+
+  async endImpersonation(): Promise<{ restored: boolean }> {
+    const result = await this.request<{ restored: boolean }>('/auth/impersonation/end', { method: 'POST' });
+    this.csrfToken = null;
+    return result;
+  }
+
+  async acceptInvitation(token: string, password: string): Promise<AuthResponse> {
+    return this.request<AuthResponse>('/auth/invitations/accept', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  async verifyEmail(token: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>('/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async resendVerification(email: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>('/auth/verify-email/resend', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async forgotPassword(email: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(token: string, password: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  async changePassword(currentPassword: string, newPassword: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>('/me/password', {
+      method: 'POST',
+      body: JSON.stringify({ currentPassword, newPassword }),
+    });
   }
 
   async getCurrentUser(): Promise<User> {
     return this.request<User>('/me');
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return this.request<User[]>('/admin/users');
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    return this.request<TwoFactorStatus>('/me/2fa');
   }
 
-  async updateUserRole(id: string, role: 'user' | 'admin'): Promise<User> {
-    return this.request<User>(`/admin/users/${id}/role`, {
+  async setupTwoFactor(): Promise<TwoFactorEnrollment> {
+    return this.request<TwoFactorEnrollment>('/me/2fa/setup', { method: 'POST' });
+  }
+
+  async confirmTwoFactor(code: string): Promise<{ recoveryCodes: string[] }> {
+    return this.request<{ recoveryCodes: string[] }>('/me/2fa/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async regenerateRecoveryCodes(code: string): Promise<{ recoveryCodes: string[] }> {
+    return this.request<{ recoveryCodes: string[] }>('/me/2fa/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async disableTwoFactor(password: string): Promise<void> {
+    await this.request('/me/2fa/disable', {
+      method: 'POST',
+      body: JSON.stringify({ password }),
+    });
+  }
+
+  async getSessions(): Promise<SessionInfo[]> {
+    return this.request<SessionInfo[]>('/me/sessions');
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    await this.request(`/me/sessions/${id}`, { method: 'DELETE' });
+  }
+
+  async revokeOtherSessions(): Promise<{ revoked: number }> {
+    return this.request<{ revoked: number }>('/me/sessions', { method: 'DELETE' });
+  }
+
+  async getApiTokens(): Promise<ApiToken[]> {
+    return this.request<ApiToken[]>('/me/tokens');
+  }
+
+  // The returned token value cannot be retrieved again
+  async createApiToken(name: string, scopes: string[], expiresInDays: number): Promise<{ token: string; apiToken: ApiToken }> {
+    return this.request<{ token: string; apiToken: ApiToken }>('/me/tokens', {
+      method: 'POST',
+      body: JSON.stringify({ name, scopes, expiresInDays }),
+    });
+  }
+
+  async revokeApiToken(id: string): Promise<void> {
+    await this.request(`/me/tokens/${id}`, { method: 'DELETE' });
+  }
+
+  async getUsers(query: UserQuery, cursor?: string): Promise<UserPage> {
+    return this.request<UserPage>(`/admin/users?${queryString({ ...query, cursor })}`);
+  }
+
+  async createUser(email: string, password: string, role?: string): Promise<AdminUser> {
+    return this.request<AdminUser>('/admin/users', {
+      method: 'POST',
+      body: JSON.stringify({ email, password, role }),
+    });
+  }
+
+  async getInvitations(): Promise<Invitation[]> {
+    return this.request<Invitation[]>('/admin/invitations');
+  }
+
+  async createInvitation(email: string, role: string | undefined, expiresInDays: number): Promise<Invitation> {
+    return this.request<Invitation>('/admin/invitations', {
+      method: 'POST',
+      body: JSON.stringify({ email, role, expiresInDays }),
+    });
+  }
+
+  async resendInvitation(id: string): Promise<Invitation> {
+    return this.request<Invitation>(`/admin/invitations/${id}/resend`, { method: 'POST' });
+  }
+
+  async revokeInvitation(id: string): Promise<void> {
+    await this.request(`/admin/invitations/${id}`, { method: 'DELETE' });
+  }
+
+  async disableUser(id: string, reason?: string, until?: string): Promise<AdminUser> {
+    return this.request<AdminUser>(`/admin/users/${id}/disable`, {
+      method: 'POST',
+      body: JSON.stringify({ reason, until }),
+    });
+  }
+
+  async enableUser(id: string): Promise<AdminUser> {
+    return this.request<AdminUser>(`/admin/users/${id}/enable`, { method: 'POST' });
+  }
+
+  async deleteUser(id: string, reason?: string): Promise<AdminUser> {
+    return this.request<AdminUser>(`/admin/users/${id}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  async restoreUser(id: string): Promise<AdminUser> {
+    return this.request<AdminUser>(`/admin/users/${id}/restore`, { method: 'POST' });
+  }
+
+  async forceLogoutUser(id: string): Promise<{ revoked: number }> {
+    return this.request<{ revoked: number }>(`/admin/users/${id}/sessions`, { method: 'DELETE' });
+  }
+
+  async impersonateUser(id: string): Promise<void> {
+    await this.request(`/admin/users/${id}/impersonate`, { method: 'POST' });
+    this.csrfToken = null;
+  }
+
+  async resetUserTwoFactor(id: string): Promise<void> {
+    await this.request(`/admin/users/${id}/2fa`, { method: 'DELETE' });
+  }
+
+  async unlockUser(id: string): Promise<void> {
+    await this.request(`/admin/users/${id}/lockout`, { method: 'DELETE' });
+  }
+
+  async getAuditEvents(filters: AuditFilters, cursor?: string): Promise<AuditPage> {
+    return this.request<AuditPage>(`/admin/audit?${queryString({ ...filters, cursor })}`);
+  }
+
+  auditExportUrl(filters: AuditFilters): string {
+    return `${API_BASE}/admin/audit/export?${queryString({ ...filters })}`;
+  }
+
+  async setUserRoles(id: string, roles: string[], confirmSelfDemotion = false): Promise<AdminUser> {
+    return this.request<AdminUser>(`/admin/users/${id}/roles`, {
+      method: 'PUT',
+      body: JSON.stringify({ roles, confirmSelfDemotion }),
+    });
+  }
+
+  async getRoles(): Promise<Role[]> {
+    return this.request<Role[]>('/admin/roles');
+  }
+
+  async getPermissions(): Promise<Permission[]> {
+    return this.request<Permission[]>('/admin/permissions');
+  }
+
+  async createRole(role: Required<RoleInput>): Promise<Role> {
+    return this.request<Role>('/admin/roles', {
+      method: 'POST',
+      body: JSON.stringify(role),
+    });
+  }
+
+  async updateRole(name: string, changes: RoleInput): Promise<Role> {
+    return this.request<Role>(`/admin/roles/${encodeURIComponent(name)}`, {
       method: 'PATCH',
-      body: JSON.stringify({ role }),
+      body: JSON.stringify(changes),
     });
   }
+
+  async deleteRole(name: string): Promise<void> {
+    await this.request(`/admin/roles/${encodeURIComponent(name)}`, { method: 'DELETE' });
+  }
+
+  async getMyOrganizations(): Promise<MyOrganization[]> {
+    return this.request<MyOrganization[]>('/me/organizations');
+  }
+
+  async selectOrganization(organizationId: string): Promise<void> {
+    await this.request('/me/organization', {
+      method: 'PUT',
+      body: JSON.stringify({ organizationId }),
+    });
+  }
+
+  async getOrganizations(): Promise<Organization[]> {
+    return this.request<Organization[]>('/admin/organizations');
+  }
+
+  async createOrganization(name: string, slug: string): Promise<Organization> {
+    return this.request<Organization>('/admin/organizations', {
+      method: 'POST',
+      body: JSON.stringify({ name, slug }),
+    });
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<AdminUser[]> {
+    return this.request<AdminUser[]>(`/admin/organizations/${organizationId}/members`);
+  }
+
+  async addOrganizationMember(organizationId: string, email: string, role: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>(`/admin/organizations/${organizationId}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  async updateOrganizationMember(organizationId: string, userId: string, role: string, confirmSelfDemotion = false): Promise<void> {
+    await this.request(`/admin/organizations/${organizationId}/members/${userId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role, confirmSelfDemotion }),
+    });
+  }
+
+  async removeOrganizationMember(organizationId: string, userId: string, confirmSelfDemotion = false): Promise<void> {
+    await this.request(`/admin/organizations/${organizationId}/members/${userId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ confirmSelfDemotion }),
+    });
+  }
+}
+
+function queryString(params: Record<string, string | undefined>): string {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) query.set(key, value);
+  });
+  return query.toString();
 }
 
 export const api = new ApiClient();
\ No newline at end of file
@@ -1,12 +1,14 @@
 'use client'
 
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react'
-import { api, User } from './api'
+import { api, ApiError, User } from './api'
 
 interface AuthContextType {
   user: User | null
   loading: boolean
-  login: (email: string, password: string) => Promise<void>
+  // Resolves to true when the password was accepted but a second factor is still needed
+  login: (email: string, password: string) => Promise<boolean>
+  verifyTwoFactor: (code: string) => Promise<void>
   logout: () => Promise<void>
   refreshUser: () => Promise<void>
 }
@@ -30,7 +32,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const handleLogin = async (email: string, password: string) => {
     const response = await api.login(email, password)
-    setUser(response.user)
+    if (response.twoFactorRequired) {
+      return true
+    }
+    setUser(response.user ?? null)
+    return false
+  }
+
+  const handleVerifyTwoFactor = async (code: string) => {
+    await api.verifyTwoFactor(code)
+    await refreshUser()
   }
 
   const handleLogout = async () => {
@@ -46,6 +57,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     user: user,
     loading: loading,
     login: handleLogin,
+    verifyTwoFactor: handleVerifyTwoFactor,
     logout: handleLogout,
     refreshUser: refreshUser
   }
@@ -61,4 +73,27 @@ export const useAuth = () => {
   const context = useContext(AuthContext)
   if (!context) throw new Error('useAuth must be used within AuthProvider')
   return context
+}
+
+export const hasPermission = (user: User | null, permission: string) =>
+  !!user?.permissions.includes(permission)
+
+// Super admins are the only users whose admin views span every organization
+export const isSuperAdmin = (user: User | null) =>
+  !!user?.roles.includes('super_admin')
+
+/**
+ * Runs a role change and, if the server refuses it because it would take
+ * permissions away from the caller, asks for confirmation and retries.
+ * Resolves to false when the user declined.
+ */
+export const withSelfDemotionConfirmation = async (change: (confirmed: boolean) => Promise<unknown>) => {
+  try {
+    await change(false)
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.code !== 'SELF_DEMOTION_UNCONFIRMED') throw error
+    if (!window.confirm(error.message)) return false
+    await change(true)
+  }
+  return true
 }
\ No newline at end of file